@@ -17,6 +17,7 @@ import WellnessVisualizer from './components/WellnessVisualizer.tsx';
 import BeliefResignifier from './components/BeliefResignifier.tsx';
 import EmotionalSpendingMap from './components/EmotionalSpendingMap.tsx';
 import RiskCalculator from './components/RiskCalculator.tsx';
+import PortfolioTracker from './components/PortfolioTracker.tsx';
 import ArchetypeJourney from './components/ArchetypeJourney.tsx';
 import LiveConversation from './components/LiveConversation.tsx';
 import Onboarding from './components/Onboarding.tsx';
@@ -24,10 +25,15 @@ import Toast from './components/Toast.tsx';
 import Scheduler from './components/Scheduler.tsx';
 import ScheduledSessionHandler from './components/ScheduledSessionHandler.tsx';
 import GuidedMeditationVoice from './components/GuidedMeditationVoice.tsx';
+import GuidedPrayerVoice from './components/GuidedPrayerVoice.tsx';
+import PrayerPillsVoice from './components/PrayerPillsVoice.tsx';
 import RoutineAligner from './components/RoutineAligner.tsx';
 import ApiKeyWrapper from './components/ApiKeyWrapper.tsx'; // Import the wrapper
 import { useStore } from './store.ts';
-import { AGENTS, toolMetadata } from './constants.tsx';
+import { usePicOrchestrator } from './hooks/usePicOrchestrator.ts';
+import { toolMetadata } from './constants.tsx';
+import { resolveAgent } from './utils/customAgents.ts';
+import { consumeScheduleDeepLink, dismissScheduleNotification, onScheduleNotificationClick, registerScheduleServiceWorker, syncScheduledNotifications } from './utils/scheduleNotifications.ts';
 // FIX: Import the missing 'VerbalFrequencyAnalysis' component to resolve a reference error.
 import VerbalFrequencyAnalysis from './components/VerbalFrequencyAnalysis.tsx';
 
@@ -39,28 +45,72 @@ const App: React.FC = () => {
         removeToast, 
         isOnboardingVisible,
         closeOnboarding,
-        activeView
+        activeView,
+        customAgents
     } = useStore();
+
+    // Drives the trilha: keeps it in sync with tool signals and opens the next step.
+    usePicOrchestrator({ autoAdvance: true });
     
-    // Proactive check for scheduled sessions
+    // Tool outcomes decay over time, so the USV is periodically re-derived.
     useEffect(() => {
-        const checkSchedulesInterval = setInterval(() => {
-            const { currentSession, schedules, updateScheduleStatus, startSession, addToast } = useStore.getState();
-            
-            if (currentSession) return;
+        const refreshUsvInterval = setInterval(() => useStore.getState().refreshUsv(), 10 * 60 * 1000);
+        return () => clearInterval(refreshUsvInterval);
+    }, []);
 
-            const now = Date.now();
-            const dueSchedule = schedules.find(s => s.status === 'scheduled' && s.time <= now);
-            
-            if (dueSchedule) {
-                updateScheduleStatus(dueSchedule.id, 'completed');
-                const activityName = toolMetadata[dueSchedule.activity]?.title || 'sessão';
-                addToast(`Seu mentor está ligando para a sua ${activityName}.`, 'info');
-                startSession({ type: 'scheduled_session_handler', schedule: dueSchedule });
+    // The service worker raises the scheduled calls as system notifications when the tab is
+    // closed or hidden, so it is told about every change to the schedules.
+    useEffect(() => {
+        registerScheduleServiceWorker();
+        syncScheduledNotifications(useStore.getState().schedules);
+        return useStore.subscribe((state, prevState) => {
+            if (state.schedules !== prevState.schedules) {
+                syncScheduledNotifications(state.schedules);
             }
-        }, 5000);
+        });
+    }, []);
+
+    // Proactive check for scheduled sessions. The first run also catches up on
+    // everything that became due while the app was closed.
+    useEffect(() => {
+        // Clicking a notification opens the call it announced, whatever is on screen.
+        const openSchedule = (scheduleId: string) => {
+            const { schedules, startSession, addToast } = useStore.getState();
+            const schedule = schedules.find(s => s.id === scheduleId && s.status === 'scheduled');
+            if (!schedule) {
+                addToast('Esta sessão agendada não está mais disponível.', 'info');
+                return;
+            }
+            startSession({ type: 'scheduled_session_handler', schedule });
+        };
+
+        const checkSchedules = () => {
+            const { currentSession, processDueSchedules, startSession, addToast } = useStore.getState();
+            const { dueSchedule, missedCount } = processDueSchedules();
+
+            if (missedCount > 0) {
+                addToast(`${missedCount} sessão(ões) agendada(s) não foram atendidas e ficaram como perdidas.`, 'info');
+            }
+            if (currentSession || !dueSchedule) return;
+
+            const activityName = toolMetadata[dueSchedule.activity]?.title || 'sessão';
+            addToast(`Seu mentor está ligando para a sua ${activityName}.`, 'info');
+            startSession({ type: 'scheduled_session_handler', schedule: dueSchedule });
+            dismissScheduleNotification(dueSchedule.id);
+        };
+
+        // A deep link is handled first, so the catch-up below treats that call as ringing.
+        const deepLinkedScheduleId = consumeScheduleDeepLink();
+        if (deepLinkedScheduleId) openSchedule(deepLinkedScheduleId);
+
+        checkSchedules();
+        const checkSchedulesInterval = setInterval(checkSchedules, 5000);
+        const stopListening = onScheduleNotificationClick(openSchedule);
 
-        return () => clearInterval(checkSchedulesInterval);
+        return () => {
+            clearInterval(checkSchedulesInterval);
+            stopListening();
+        };
     }, []);
 
 
@@ -87,17 +137,17 @@ const App: React.FC = () => {
 
         switch (currentSession.type) {
             case 'agent':
-                const agent = AGENTS[currentSession.id];
+                const agent = resolveAgent(currentSession.id, customAgents);
                 if (!agent) return null;
                 return wrapInApiKeyCheck(<AgentRoom agent={agent} {...sessionProps} />);
             case 'meditation':
-                return wrapInApiKeyCheck(<GuidedMeditation {...sessionProps} />);
+                return wrapInApiKeyCheck(<GuidedMeditation intention={currentSession.intention} {...sessionProps} />);
             case 'content_analyzer':
                 return wrapInApiKeyCheck(<ContentAnalyzer {...sessionProps} />);
             case 'guided_prayer':
-                return wrapInApiKeyCheck(<GuidedPrayer {...sessionProps} />);
+                return wrapInApiKeyCheck(<GuidedPrayer intention={currentSession.intention} {...sessionProps} />);
             case 'prayer_pills':
-                return wrapInApiKeyCheck(<PrayerPills {...sessionProps} />);
+                return wrapInApiKeyCheck(<PrayerPills intention={currentSession.intention} {...sessionProps} />);
             case 'dissonance_analyzer':
                 return wrapInApiKeyCheck(<DissonanceAnalyzer {...sessionProps} />);
             case 'therapeutic_journal':
@@ -105,8 +155,7 @@ const App: React.FC = () => {
             case 'quantum_simulator':
                 return wrapInApiKeyCheck(<QuantumSimulator {...sessionProps} />);
             case 'phi_frontier_radar':
-                // This tool doesn't use the API, so it doesn't need the wrapper.
-                return <PhiFrontierRadar {...sessionProps} />;
+                return wrapInApiKeyCheck(<PhiFrontierRadar {...sessionProps} />);
             case 'dosha_diagnosis':
                 return wrapInApiKeyCheck(<DoshaDiagnosis {...sessionProps} />);
             case 'wellness_visualizer':
@@ -115,14 +164,15 @@ const App: React.FC = () => {
             case 'routine_aligner':
                 return wrapInApiKeyCheck(<RoutineAligner {...sessionProps} />);
             case 'belief_resignifier':
-                 // This tool is currently mocked, but will need the wrapper when implemented.
-                return <BeliefResignifier {...sessionProps} />;
+                return wrapInApiKeyCheck(<BeliefResignifier {...sessionProps} />);
             case 'emotional_spending_map':
-                // This is a placeholder.
+                // Statements are parsed locally; this tool doesn't use the API.
                 return <EmotionalSpendingMap {...sessionProps} />;
+            case 'portfolio_tracker':
+                // Holdings are tracked locally; this tool doesn't use the API.
+                return <PortfolioTracker {...sessionProps} />;
             case 'risk_calculator':
-                 // This tool is currently mocked, but will need the wrapper when implemented.
-                return <RiskCalculator {...sessionProps} />;
+                return wrapInApiKeyCheck(<RiskCalculator {...sessionProps} />);
             case 'archetype_journey':
                 return wrapInApiKeyCheck(<ArchetypeJourney {...sessionProps} />);
             case 'verbal_frequency_analysis':
@@ -135,7 +185,11 @@ const App: React.FC = () => {
             case 'scheduled_session_handler':
                 return wrapInApiKeyCheck(<ScheduledSessionHandler schedule={currentSession.schedule} {...sessionProps} />);
              case 'guided_meditation_voice':
-                return wrapInApiKeyCheck(<GuidedMeditationVoice schedule={currentSession.schedule} {...sessionProps} />);
+                return wrapInApiKeyCheck(<GuidedMeditationVoice schedule={currentSession.schedule} checkIn={currentSession.checkIn} {...sessionProps} />);
+            case 'guided_prayer_voice':
+                return wrapInApiKeyCheck(<GuidedPrayerVoice schedule={currentSession.schedule} checkIn={currentSession.checkIn} {...sessionProps} />);
+            case 'prayer_pills_voice':
+                return wrapInApiKeyCheck(<PrayerPillsVoice schedule={currentSession.schedule} checkIn={currentSession.checkIn} {...sessionProps} />);
             default:
                 return null;
         }
@@ -1,26 +1,42 @@
-import React from 'react';
-import { Agent } from '../types.ts';
+import React, { useState } from 'react';
+import { Agent, CustomAgentDefinition } from '../types.ts';
 import { useStore } from '../store.ts';
-import { AGENTS, toolMetadata } from '../constants.tsx';
+import { toolMetadata } from '../constants.tsx';
+import { isCustomAgentId, listAgents } from '../utils/customAgents.ts';
+import CustomAgentBuilder from './CustomAgentBuilder.tsx';
+import { Pencil, Plus } from 'lucide-react';
 
 interface AgentCardProps {
   agent: Agent;
   onClick: () => void;
+  // Only custom mentors can be edited.
+  onEdit?: () => void;
 }
 
-const AgentCard: React.FC<AgentCardProps> = ({ agent, onClick }) => (
+const AgentCard: React.FC<AgentCardProps> = ({ agent, onClick, onEdit }) => (
   <div
-    className="glass-pane rounded-2xl p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300 hover:bg-gray-800/80 hover:scale-105 hover:border-indigo-400/50"
+    className="relative glass-pane rounded-2xl p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300 hover:bg-gray-800/80 hover:scale-105 hover:border-indigo-400/50"
     onClick={onClick}
   >
+    {onEdit && (
+      <button
+        onClick={(e) => { e.stopPropagation(); onEdit(); }}
+        className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors"
+        aria-label={`Editar ${agent.name}`}
+      >
+        <Pencil size={18} />
+      </button>
+    )}
     <agent.icon className={`w-24 h-24 mb-4 ${agent.themeColor}`} strokeWidth={1}/>
     <h3 className="font-bold text-2xl text-gray-100">{agent.name}</h3>
   </div>
 );
 
 const AgentDirectory: React.FC = () => {
-  const { startSession } = useStore();
+  const { startSession, customAgents } = useStore();
   const liveConversationTool = toolMetadata.live_conversation;
+  // null: builder closed; 'new': creating a mentor; otherwise the mentor being edited.
+  const [builderTarget, setBuilderTarget] = useState<CustomAgentDefinition | 'new' | null>(null);
 
   return (
     <div className="p-8 animate-fade-in h-full overflow-y-auto no-scrollbar">
@@ -29,14 +45,17 @@ const AgentDirectory: React.FC = () => {
         <p className="text-xl text-gray-400 mt-2">Mergulhe na interação com a Informação Consciente para ganhar perspectiva.</p>
       </header>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {Object.values(AGENTS).map(
-          (agent: Agent) => (
-          <AgentCard 
-            key={agent.id} 
-            agent={agent} 
-            onClick={() => startSession({ type: 'agent', id: agent.id })} 
-          />
-        ))}
+        {listAgents(customAgents).map((agent: Agent) => {
+          const definition = isCustomAgentId(agent.id) ? customAgents[agent.id] : undefined;
+          return (
+            <AgentCard 
+              key={agent.id} 
+              agent={agent} 
+              onClick={() => startSession({ type: 'agent', id: agent.id })} 
+              onEdit={definition ? () => setBuilderTarget(definition) : undefined}
+            />
+          );
+        })}
         {/* Shortcut Card for Live Conversation */}
         <div
           className="glass-pane rounded-2xl p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300 hover:bg-gray-800/80 hover:scale-105 hover:border-indigo-400/50"
@@ -45,7 +64,21 @@ const AgentDirectory: React.FC = () => {
           <liveConversationTool.icon className="w-24 h-24 mb-4 text-indigo-400" strokeWidth={1}/>
           <h3 className="font-bold text-2xl text-gray-100">{liveConversationTool.title}</h3>
         </div>
+        {/* Card to create a custom mentor */}
+        <div
+          className="glass-pane rounded-2xl p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-all duration-300 hover:bg-gray-800/80 hover:scale-105 hover:border-indigo-400/50 border-dashed"
+          onClick={() => setBuilderTarget('new')}
+        >
+          <Plus className="w-24 h-24 mb-4 text-gray-500" strokeWidth={1}/>
+          <h3 className="font-bold text-2xl text-gray-100">Criar Mentor</h3>
+        </div>
       </div>
+      {builderTarget && (
+        <CustomAgentBuilder
+          agent={builderTarget === 'new' ? undefined : builderTarget}
+          onClose={() => setBuilderTarget(null)}
+        />
+      )}
     </div>
   );
 };
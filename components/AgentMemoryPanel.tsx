@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { useStore } from '../store.ts';
+import { MentorId } from '../types.ts';
+import { FACT_CATEGORY_LABELS } from '../utils/agentMemory.ts';
+import { Brain, X, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface AgentMemoryPanelProps {
+    agentId: MentorId;
+}
+
+/**
+ * Shows what a mentor remembers about the user and lets the user correct or erase it.
+ */
+const AgentMemoryPanel: React.FC<AgentMemoryPanelProps> = ({ agentId }) => {
+    const { memory, threadSummary, forgetUserFact, clearAgentMemory } = useStore(state => ({
+        memory: state.agentMemories[agentId],
+        threadSummary: state.chatThreads[agentId]?.find(t => t.id === state.activeThreadIds[agentId])?.summary,
+        forgetUserFact: state.forgetUserFact,
+        clearAgentMemory: state.clearAgentMemory,
+    }));
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (!memory || (!threadSummary && memory.facts.length === 0)) return null;
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-700/50">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center justify-between text-md font-semibold text-gray-300 mb-2">
+                <span className="flex items-center gap-2"><Brain size={16} /> O que o mentor lembra</span>
+                {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            </button>
+            {isExpanded && (
+                <div className="space-y-3 text-sm animate-fade-in">
+                    {threadSummary && <p className="text-gray-400 text-xs leading-relaxed">{threadSummary}</p>}
+                    {memory.facts.length > 0 && (
+                        <ul className="space-y-1">
+                            {memory.facts.map(fact => (
+                                <li key={`${fact.category}-${fact.text}`} className="flex items-start justify-between gap-2 p-2 bg-gray-800/70 rounded-lg">
+                                    <span>
+                                        <span className="text-xs text-indigo-300 font-semibold">{FACT_CATEGORY_LABELS[fact.category]}: </span>
+                                        <span className="text-gray-300">{fact.text}</span>
+                                    </span>
+                                    <button onClick={() => forgetUserFact(agentId, fact.text)} className="text-gray-500 hover:text-red-400 flex-shrink-0" aria-label="Esquecer este fato">
+                                        <X size={14} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <button onClick={() => clearAgentMemory(agentId)} className="text-xs text-gray-500 hover:text-red-400">
+                        Apagar toda a memória deste mentor
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AgentMemoryPanel;
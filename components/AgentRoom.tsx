@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Agent } from '../types.ts';
-import { AGENTS, toolMetadata } from '../constants.tsx';
-import { X, Send, Mic } from 'lucide-react';
+import { Agent, Message } from '../types.ts';
+import { toolMetadata } from '../constants.tsx';
+import { X, Send, Mic, Square } from 'lucide-react';
 import { useStore } from '../store.ts';
 import { useWebSpeech } from '../hooks/useWebSpeech.ts';
+import AgentMemoryPanel from './AgentMemoryPanel.tsx';
+import { getArchivedMessages } from '../utils/chatArchive.ts';
+import ChatThreadList from './ChatThreadList.tsx';
+import { listAgents } from '../utils/customAgents.ts';
 
 interface AgentRoomProps {
     agent: Agent;
@@ -14,17 +18,27 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
     const [input, setInput] = useState('');
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const [isVoiceMode, setIsVoiceMode] = useState(false);
+    const [archivedMessages, setArchivedMessages] = useState<Message[]>([]);
+    const [showArchived, setShowArchived] = useState(false);
 
     const {
         chatHistories,
+        chatThreads,
+        activeThreadIds,
         isLoadingMessage,
         handleSendMessage,
+        stopAgentResponse,
         switchAgent,
-        startSession
+        startSession,
+        respondToToolProposal,
+        customAgents
     } = useStore();
 
     const messages = chatHistories[agent.id] || [];
+    const activeThreadId = activeThreadIds[agent.id];
     const lastMessage = messages[messages.length - 1];
+    // Every roll-up moves turns to the archive and rewrites the summary, which tells when to reload it.
+    const threadSummary = chatThreads[agent.id]?.find(t => t.id === activeThreadId)?.summary;
 
     const {
         transcript,
@@ -53,6 +67,22 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
+    useEffect(() => {
+        setShowArchived(false);
+    }, [activeThreadId]);
+
+    useEffect(() => {
+        let cancelled = false;
+        if (!activeThreadId) {
+            setArchivedMessages([]);
+            return;
+        }
+        getArchivedMessages(activeThreadId)
+            .then(archived => { if (!cancelled) setArchivedMessages(archived); })
+            .catch(() => { if (!cancelled) setArchivedMessages([]); });
+        return () => { cancelled = true; };
+    }, [activeThreadId, threadSummary]);
+
     const handleSend = (e: React.FormEvent) => {
         e.preventDefault();
         if (input.trim() && !isLoadingMessage) {
@@ -71,6 +101,42 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
         }
     };
     
+    const renderToolProposal = (message: Message) => {
+        const proposal = message.toolProposal;
+        const tool = proposal && toolMetadata[proposal.toolId];
+        if (!proposal || !tool) return null;
+        return (
+            <div className="mt-3 p-3 bg-gray-800/80 border border-gray-600 rounded-xl">
+                <div className="flex items-center gap-2">
+                    <tool.icon className={`w-5 h-5 ${agent.themeColor} flex-shrink-0`} />
+                    <p className="font-semibold text-sm">{tool.title}</p>
+                </div>
+                {proposal.reason && <p className="text-xs text-gray-400 mt-1">{proposal.reason}</p>}
+                {proposal.intention && <p className="text-xs text-gray-300 mt-1 italic">Intenção: "{proposal.intention}"</p>}
+                {proposal.status === 'pending' ? (
+                    <div className="flex gap-2 mt-3">
+                        <button
+                            onClick={() => respondToToolProposal(agent.id, activeThreadId, message.id, true)}
+                            disabled={isLoadingMessage}
+                            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 text-white text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors"
+                        >
+                            Abrir
+                        </button>
+                        <button
+                            onClick={() => respondToToolProposal(agent.id, activeThreadId, message.id, false)}
+                            disabled={isLoadingMessage}
+                            className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white text-xs font-semibold py-1.5 px-3 rounded-lg transition-colors"
+                        >
+                            Agora não
+                        </button>
+                    </div>
+                ) : (
+                    <p className="text-xs text-gray-500 mt-2">{proposal.status === 'accepted' ? 'Aberta' : 'Recusada'}</p>
+                )}
+            </div>
+        );
+    };
+
     const toggleVoiceMode = () => {
         if(isListening) {
             stopListening();
@@ -99,7 +165,12 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
                 </header>
                 
                 <main className="flex-1 overflow-y-scroll p-6 space-y-6">
-                    {messages.map((message) => (
+                    {archivedMessages.length > 0 && !showArchived && (
+                        <button onClick={() => setShowArchived(true)} className="block mx-auto text-xs text-gray-400 hover:text-white">
+                            Mostrar {archivedMessages.length} mensagens anteriores
+                        </button>
+                    )}
+                    {(showArchived ? [...archivedMessages, ...messages] : messages).map((message) => (
                         <div key={message.id} className={`flex items-start gap-3 ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                             {message.sender === 'agent' && <agent.icon className={`w-8 h-8 ${agent.themeColor} flex-shrink-0 mt-1`} />}
                             <div className={`max-w-xl px-4 py-3 rounded-2xl ${message.sender === 'user' ? 'bg-indigo-600 text-white rounded-br-none' : 'bg-gray-700 text-gray-200 rounded-bl-none'}`}>
@@ -109,6 +180,8 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
                                         <span className="inline-block w-2 h-4 ml-1 bg-white animate-pulse" style={{ animationDuration: '1.2s' }}></span>
                                     )}
                                 </p>
+                                {message.isInterrupted && <p className="text-xs text-gray-400 italic mt-1">Resposta interrompida</p>}
+                                {renderToolProposal(message)}
                             </div>
                         </div>
                     ))}
@@ -131,9 +204,15 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
                             <button type="button" onClick={toggleVoiceMode} className={`p-2 rounded-full transition-colors ${isListening ? 'bg-red-500/20 text-red-500 animate-pulse' : 'text-gray-400 hover:text-white'}`}>
                                 <Mic size={20} />
                             </button>
-                            <button type="submit" disabled={!input.trim() || isLoadingMessage} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 text-white p-2 rounded-full transition-colors">
-                                <Send size={20} />
-                            </button>
+                            {isLoadingMessage ? (
+                                <button type="button" onClick={stopAgentResponse} className="bg-gray-600 hover:bg-gray-500 text-white p-2 rounded-full transition-colors" aria-label="Parar resposta">
+                                    <Square size={20} />
+                                </button>
+                            ) : (
+                                <button type="submit" disabled={!input.trim()} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 text-white p-2 rounded-full transition-colors">
+                                    <Send size={20} />
+                                </button>
+                            )}
                         </div>
                     </form>
                 </footer>
@@ -141,6 +220,8 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
             
             {/* Side Panel */}
             <aside className="w-80 border-l border-gray-700/50 flex flex-col p-4 bg-black/10">
+                <ChatThreadList agentId={agent.id} />
+
                 <div className="flex-1 overflow-y-auto min-h-0">
                     <h3 className="text-md font-semibold text-gray-300 mb-2">Ferramentas de {agent.name}</h3>
                     <div className="space-y-2">
@@ -167,10 +248,12 @@ const AgentRoom: React.FC<AgentRoomProps> = ({ agent, onExit }) => {
                     </div>
                 </div>
 
+                <AgentMemoryPanel agentId={agent.id} />
+
                 <div className="mt-4 pt-4 border-t border-gray-700/50">
                     <h3 className="text-md font-semibold text-gray-300 mb-2">Trocar Mentor</h3>
                     <div className="space-y-2">
-                         {Object.values(AGENTS).filter(a => a.id !== agent.id).map(otherAgent => (
+                         {listAgents(customAgents).filter(a => a.id !== agent.id).map(otherAgent => (
                             <div key={otherAgent.id} onClick={() => switchAgent(otherAgent.id)} className="p-2 bg-gray-800/70 rounded-lg flex items-center gap-3 cursor-pointer hover:bg-gray-700/90 transition-colors">
                                 <otherAgent.icon className={`w-6 h-6 ${otherAgent.themeColor} flex-shrink-0`} />
                                 <p className="font-semibold text-sm">{otherAgent.name}</p>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useAistudioKeyManager } from '../hooks/useAistudioKey.ts';
 import ApiKeySelector from './ApiKeySelector.tsx';
+import { getAiProvider } from '../services/aiProvider.ts';
 import { Loader2 } from 'lucide-react';
 
 interface ApiKeyWrapperProps {
@@ -8,7 +9,7 @@ interface ApiKeyWrapperProps {
 }
 
 const ApiKeyWrapper: React.FC<ApiKeyWrapperProps> = ({ children }) => {
-    const { hasKey, selectKey } = useAistudioKeyManager(true);
+    const { hasKey, selectKey } = useAistudioKeyManager(getAiProvider().requiresApiKey);
 
     if (hasKey === null) {
         return (
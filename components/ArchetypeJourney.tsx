@@ -11,7 +11,7 @@ interface ArchetypeJourneyProps {
 }
 
 const ArchetypeJourney: React.FC<ArchetypeJourneyProps> = ({ onExit }) => {
-    const { goBackToAgentRoom } = useStore();
+    const { goBackToAgentRoom, recordPicSignal, setToolState, getProfileContext } = useStore();
     const [narrative, setNarrative] = useState('');
     const [feedback, setFeedback] = useState<ArchetypeAnalysisResult | null>(null);
     const [isLoading, setIsLoading] = useState(false);
@@ -24,8 +24,10 @@ const ArchetypeJourney: React.FC<ArchetypeJourneyProps> = ({ onExit }) => {
         setFeedback(null);
 
         try {
-            const analysisResult = await analyzeNarrative(narrative);
+            const analysisResult = await analyzeNarrative(narrative, getProfileContext('archetype_journey'));
             setFeedback(analysisResult);
+            setToolState('archetypeResult', analysisResult);
+            recordPicSignal('archetype_journey', analysisResult.passo);
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, 'Ocorreu um erro desconhecido durante a análise.');
             setError(friendlyError);
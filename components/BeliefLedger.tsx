@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useStore } from '../store.ts';
+import { BeliefLedgerEntry } from '../types.ts';
+import { BookMarked, Trash2 } from 'lucide-react';
+
+const latestBelievability = (entry: BeliefLedgerEntry): number =>
+    entry.reviews.length > 0 ? entry.reviews[entry.reviews.length - 1].believability : entry.believabilityAfter;
+
+/**
+ * The beliefs worked in the Belief Resignifier, with how believable each one still feels.
+ */
+const BeliefLedger: React.FC = () => {
+    const { beliefLedger, reviewBelief, removeBeliefLedgerEntry } = useStore(state => ({
+        beliefLedger: state.beliefLedger,
+        reviewBelief: state.reviewBelief,
+        removeBeliefLedgerEntry: state.removeBeliefLedgerEntry,
+    }));
+    const [reviewingId, setReviewingId] = useState<string | null>(null);
+    const [reviewValue, setReviewValue] = useState(50);
+
+    if (beliefLedger.length === 0) return null;
+
+    const startReview = (entry: BeliefLedgerEntry) => {
+        setReviewingId(entry.id);
+        setReviewValue(latestBelievability(entry));
+    };
+
+    const commitReview = () => {
+        if (reviewingId) reviewBelief(reviewingId, reviewValue);
+        setReviewingId(null);
+    };
+
+    const handleDelete = (entry: BeliefLedgerEntry) => {
+        if (window.confirm(`Apagar "${entry.analysis.crenca}" do diário de crenças?`)) {
+            removeBeliefLedgerEntry(entry.id);
+        }
+    };
+
+    return (
+        <section className="w-full max-w-3xl mt-12 text-left">
+            <h2 className="flex items-center gap-2 text-lg font-bold text-gray-200 mb-4">
+                <BookMarked className="w-5 h-5 text-pink-400" /> Diário de Crenças
+            </h2>
+            <ul className="space-y-3">
+                {beliefLedger.map(entry => {
+                    const latest = latestBelievability(entry);
+                    return (
+                        <li key={entry.id} className="p-4 bg-gray-800/50 rounded-lg">
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="text-gray-200">"{entry.analysis.crenca}"</p>
+                                    <p className="text-sm text-pink-300 mt-1">→ {entry.chosenReframe}</p>
+                                </div>
+                                <button onClick={() => handleDelete(entry)} className="text-gray-500 hover:text-red-400 flex-shrink-0" aria-label="Apagar crença">
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-3 text-xs text-gray-400">
+                                <span>{new Date(entry.createdAt).toLocaleDateString()}</span>
+                                <span>{entry.analysis.categoria}</span>
+                                <span>
+                                    Credibilidade: {entry.believabilityBefore}% → {entry.believabilityAfter}%
+                                    {entry.reviews.length > 0 && ` → ${latest}% (${new Date(entry.reviews[entry.reviews.length - 1].timestamp).toLocaleDateString()})`}
+                                </span>
+                                {reviewingId !== entry.id && (
+                                    <button onClick={() => startReview(entry)} className="text-pink-300 hover:text-white">Reavaliar</button>
+                                )}
+                            </div>
+                            {reviewingId === entry.id && (
+                                <div className="flex items-center gap-3 mt-3">
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={100}
+                                        step={5}
+                                        value={reviewValue}
+                                        onChange={(e) => setReviewValue(Number(e.target.value))}
+                                        className="flex-1 accent-pink-500"
+                                        aria-label="Quanto você acredita nesta crença hoje"
+                                    />
+                                    <span className="text-sm font-semibold text-pink-300 w-10 text-right">{reviewValue}%</span>
+                                    <button onClick={commitReview} className="bg-pink-600 hover:bg-pink-700 text-white text-xs font-semibold py-1.5 px-3 rounded-lg">Salvar</button>
+                                    <button onClick={() => setReviewingId(null)} className="text-xs text-gray-400 hover:text-white">Cancelar</button>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+};
+
+export default BeliefLedger;
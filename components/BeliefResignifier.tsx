@@ -1,22 +1,78 @@
 import React, { useState } from 'react';
-import { X, MessageSquareHeart, Sparkles } from 'lucide-react';
-import { AgentId } from '../types.ts';
+import { X, MessageSquareHeart, Sparkles, Loader2, CheckCircle2 } from 'lucide-react';
+import { AgentId, BeliefAnalysisResult } from '../types.ts';
 import { useStore } from '../store.ts';
+import { resignifyBelief } from '../services/geminiBeliefService.ts';
+import { scoreBeliefResignified } from '../utils/usvScoring.ts';
+import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import BeliefLedger from './BeliefLedger.tsx';
 
 interface BeliefResignifierProps {
     onExit: () => void;
 }
 
+const DEFAULT_BELIEVABILITY = 70;
+
+const BelievabilitySlider: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({ id, label, value, onChange }) => (
+    <div className="text-left">
+        <label htmlFor={id} className="flex justify-between text-sm text-gray-300 mb-1">
+            <span>{label}</span>
+            <span className="font-semibold text-pink-300">{value}%</span>
+        </label>
+        <input id={id} type="range" min={0} max={100} step={5} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-pink-500" />
+    </div>
+);
+
 const BeliefResignifier: React.FC<BeliefResignifierProps> = ({ onExit }) => {
-    const { goBackToAgentRoom } = useStore();
+    const { goBackToAgentRoom, recordToolOutcome, addBeliefLedgerEntry, addToast, getProfileContext } = useStore(state => ({
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        recordToolOutcome: state.recordToolOutcome,
+        addBeliefLedgerEntry: state.addBeliefLedgerEntry,
+        addToast: state.addToast,
+        getProfileContext: state.getProfileContext,
+    }));
     const chatHistory = useStore(state => state.chatHistories[AgentId.EMOTIONAL_FINANCE] || []);
+    const hasConversation = chatHistory.some(msg => msg.sender === 'user');
+
     const [belief, setBelief] = useState('');
-    const [reframed, setReframed] = useState('');
-    
-    // Simple mock function. In a real scenario, this would call a Gemini service.
-    const handleResignify = () => {
-        if (!belief.trim()) return;
-        setReframed(`Em vez de "${belief}", considere a perspectiva: "Eu sou um canal para a abundância fluir. O dinheiro é energia que eu uso para criar valor para mim e para os outros. Minha prosperidade é ilimitada."`);
+    const [result, setResult] = useState<BeliefAnalysisResult | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [believabilityBefore, setBelievabilityBefore] = useState(DEFAULT_BELIEVABILITY);
+    const [believabilityAfter, setBelievabilityAfter] = useState(DEFAULT_BELIEVABILITY);
+    const [chosenIndex, setChosenIndex] = useState<number | null>(null);
+
+    const handleResignify = async () => {
+        if (!belief.trim() && !hasConversation) return;
+        setIsLoading(true);
+        setError(null);
+        setResult(null);
+        setChosenIndex(null);
+        try {
+            const analysis = await resignifyBelief(belief, chatHistory, getProfileContext('belief_resignifier'));
+            setResult(analysis);
+            setBelievabilityBefore(DEFAULT_BELIEVABILITY);
+            setBelievabilityAfter(DEFAULT_BELIEVABILITY);
+        } catch (err) {
+            setError(getFriendlyErrorMessage(err, 'Não foi possível ressignificar a crença.'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSave = () => {
+        if (!result || chosenIndex === null) return;
+        addBeliefLedgerEntry({
+            analysis: result,
+            chosenReframe: result.ressignificacoes[chosenIndex].afirmacao,
+            believabilityBefore,
+            believabilityAfter,
+        });
+        recordToolOutcome(scoreBeliefResignified(result.crenca, believabilityBefore, believabilityAfter));
+        addToast('Crença registrada no seu diário de crenças.', 'success');
+        setResult(null);
+        setBelief('');
+        setChosenIndex(null);
     };
 
     return (
@@ -37,31 +93,81 @@ const BeliefResignifier: React.FC<BeliefResignifierProps> = ({ onExit }) => {
                     <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
                 </div>
             </header>
-            <main className="flex-1 flex flex-col items-center justify-center text-center p-6">
-                 <p className="text-lg text-gray-400 mb-6 max-w-2xl">
-                    Escreva uma crença limitante que você tem sobre dinheiro. Vamos transformá-la em uma afirmação de poder.
-                </p>
-                <div className="w-full max-w-xl">
-                    <input 
-                        type="text"
-                        value={belief}
-                        onChange={(e) => setBelief(e.target.value)}
-                        placeholder="Ex: 'Dinheiro é difícil de ganhar'"
-                        className="w-full bg-gray-800/80 border border-gray-600 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-pink-500/80 text-lg"
-                    />
-                    <button onClick={handleResignify} disabled={!belief.trim()} className="mt-4 w-full bg-pink-600 hover:bg-pink-700 disabled:bg-pink-800/50 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
-                        <Sparkles className="mr-2" />
-                        Ressignificar
-                    </button>
-                </div>
-                {reframed && (
-                    <div className="mt-10 p-6 bg-gray-800/50 rounded-lg max-w-2xl animate-fade-in">
-                        <p className="text-xl text-pink-300">{reframed}</p>
+            <main className="flex-1 overflow-y-auto p-6 flex flex-col items-center text-center">
+                {!result && (
+                    <>
+                        <p className="text-lg text-gray-400 mb-6 max-w-2xl">
+                            Escreva uma crença limitante que você tem sobre dinheiro. Vamos encontrar o padrão por trás dela e novas perspectivas para você testar.
+                        </p>
+                        <div className="w-full max-w-xl">
+                            <input
+                                type="text"
+                                value={belief}
+                                onChange={(e) => setBelief(e.target.value)}
+                                placeholder="Ex: 'Dinheiro é difícil de ganhar'"
+                                className="w-full bg-gray-800/80 border border-gray-600 rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-pink-500/80 text-lg"
+                                disabled={isLoading}
+                            />
+                            {hasConversation && !belief.trim() && (
+                                <p className="text-xs text-gray-500 mt-2">Deixe em branco para detectar a crença na sua conversa com o Mentor de Finanças Emocionais.</p>
+                            )}
+                            <button onClick={handleResignify} disabled={isLoading || (!belief.trim() && !hasConversation)} className="mt-4 w-full bg-pink-600 hover:bg-pink-700 disabled:bg-pink-800/50 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
+                                {isLoading ? <Loader2 className="mr-2 animate-spin" /> : <Sparkles className="mr-2" />}
+                                {isLoading ? 'Ressignificando...' : belief.trim() ? 'Ressignificar' : 'Detectar na conversa'}
+                            </button>
+                            {error && <p className="text-red-400 mt-4">{error}</p>}
+                        </div>
+                    </>
+                )}
+
+                {result && (
+                    <div className="w-full max-w-3xl space-y-6 animate-fade-in">
+                        <div className="p-6 bg-gray-800/50 rounded-lg space-y-4">
+                            <p className="text-sm text-gray-400">Crença identificada</p>
+                            <p className="text-2xl text-pink-300">"{result.crenca}"</p>
+                            <p className="text-sm text-gray-400"><span className="font-semibold text-gray-300">{result.categoria}:</span> {result.padrao}</p>
+                            <BelievabilitySlider id="believability-before" label="Quanto você acredita nisso hoje?" value={believabilityBefore} onChange={setBelievabilityBefore} />
+                        </div>
+
+                        <div className="space-y-3">
+                            <p className="text-gray-300 font-semibold">Escolha a perspectiva que mais ressoa e responda às perguntas para si mesmo:</p>
+                            {result.ressignificacoes.map((reframe, index) => (
+                                <button
+                                    key={index}
+                                    onClick={() => setChosenIndex(index)}
+                                    className={`w-full text-left p-4 rounded-lg border transition-colors ${chosenIndex === index ? 'border-pink-400 bg-pink-900/20' : 'border-gray-700 bg-gray-800/50 hover:border-gray-500'}`}
+                                >
+                                    <p className="text-lg text-gray-100 flex items-start gap-2">
+                                        {chosenIndex === index && <CheckCircle2 className="w-5 h-5 text-pink-400 flex-shrink-0 mt-1" />}
+                                        {reframe.afirmacao}
+                                    </p>
+                                    <ul className="mt-2 space-y-1 list-disc list-inside text-sm text-gray-400">
+                                        {reframe.perguntas.map((question, qIndex) => <li key={qIndex}>{question}</li>)}
+                                    </ul>
+                                </button>
+                            ))}
+                        </div>
+
+                        {chosenIndex !== null && (
+                            <div className="p-6 bg-gray-800/50 rounded-lg space-y-4 animate-fade-in">
+                                <BelievabilitySlider id="believability-after" label={`E agora, quanto você acredita em "${result.crenca}"?`} value={believabilityAfter} onChange={setBelievabilityAfter} />
+                                <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                                    <button onClick={handleSave} className="bg-pink-600 hover:bg-pink-700 text-white font-bold py-2 px-6 rounded-full">
+                                        Registrar no diário de crenças
+                                    </button>
+                                    <button onClick={() => setResult(null)} className="text-gray-400 hover:text-white py-2 px-6">
+                                        Descartar
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
+
+                <BeliefLedger />
             </main>
         </div>
     );
 };
 
-export default BeliefResignifier;
\ No newline at end of file
+export default BeliefResignifier;
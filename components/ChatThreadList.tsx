@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../store.ts';
+import { ChatThread, MentorId, Message } from '../types.ts';
+import { searchChatThreads, sortThreads } from '../utils/chatThreads.ts';
+import { getAllArchivedMessages } from '../utils/chatArchive.ts';
+import { resolveAgent } from '../utils/customAgents.ts';
+import { Plus, Search, Pin, PinOff, Archive, ArchiveRestore, Pencil, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface ChatThreadListProps {
+    agentId: MentorId;
+}
+
+/**
+ * The agent's conversations, with a search over the messages of every mentor.
+ */
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ agentId }) => {
+    const {
+        chatThreads,
+        activeThreadId,
+        isLoadingMessage,
+        createThread,
+        selectThread,
+        renameThread,
+        setThreadPinned,
+        setThreadArchived,
+        deleteThread,
+        switchAgent,
+        customAgents,
+    } = useStore(state => ({
+        chatThreads: state.chatThreads,
+        activeThreadId: state.activeThreadIds[agentId],
+        isLoadingMessage: state.isLoadingMessage,
+        createThread: state.createThread,
+        selectThread: state.selectThread,
+        renameThread: state.renameThread,
+        setThreadPinned: state.setThreadPinned,
+        setThreadArchived: state.setThreadArchived,
+        deleteThread: state.deleteThread,
+        switchAgent: state.switchAgent,
+        customAgents: state.customAgents,
+    }));
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+    const [archivedMessages, setArchivedMessages] = useState<Record<string, Message[]>>({});
+    const isSearching = query.trim().length > 0;
+
+    // The archived turns are read once a search starts, so they are found alongside the recent ones.
+    useEffect(() => {
+        if (!isSearching) return;
+        let cancelled = false;
+        getAllArchivedMessages()
+            .then(archived => { if (!cancelled) setArchivedMessages(archived); })
+            .catch(() => { if (!cancelled) setArchivedMessages({}); });
+        return () => { cancelled = true; };
+    }, [isSearching]);
+
+    const threads = sortThreads(chatThreads[agentId] ?? []);
+    const openThreads = threads.filter(t => !t.isArchived);
+    const archivedThreads = threads.filter(t => t.isArchived);
+    const searchResults = useMemo(() => searchChatThreads(chatThreads, query, 50, archivedMessages), [chatThreads, query, archivedMessages]);
+
+    const openThread = (targetAgentId: MentorId, threadId: string) => {
+        if (targetAgentId !== agentId) switchAgent(targetAgentId);
+        selectThread(targetAgentId, threadId);
+        setQuery('');
+    };
+
+    const startEditing = (thread: ChatThread) => {
+        setEditingId(thread.id);
+        setEditingTitle(thread.title);
+    };
+
+    const commitEditing = () => {
+        if (editingId) renameThread(agentId, editingId, editingTitle);
+        setEditingId(null);
+    };
+
+    const handleDelete = (thread: ChatThread) => {
+        if (window.confirm(`Apagar a conversa "${thread.title}"? Esta ação não pode ser desfeita.`)) {
+            deleteThread(agentId, thread.id);
+        }
+    };
+
+    const renderThread = (thread: ChatThread) => {
+        const isActive = thread.id === activeThreadId;
+        return (
+            <li
+                key={thread.id}
+                className={`group flex items-center gap-2 p-2 rounded-lg transition-colors ${isActive ? 'bg-indigo-600/30' : 'bg-gray-800/70 hover:bg-gray-700/90'}`}
+            >
+                {editingId === thread.id ? (
+                    <input
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onBlur={commitEditing}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEditing();
+                            if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        autoFocus
+                        className="flex-1 min-w-0 bg-gray-900/80 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                        aria-label="Nome da conversa"
+                    />
+                ) : (
+                    <button
+                        onClick={() => selectThread(agentId, thread.id)}
+                        disabled={isLoadingMessage}
+                        className="flex-1 min-w-0 text-left text-sm text-gray-200 truncate disabled:cursor-not-allowed"
+                        title={thread.title}
+                    >
+                        {thread.isPinned && <Pin size={12} className="inline mr-1 text-indigo-300" />}
+                        {thread.title}
+                    </button>
+                )}
+                <div className="flex items-center gap-1 text-gray-500 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button onClick={() => startEditing(thread)} className="hover:text-white" aria-label="Renomear conversa">
+                        <Pencil size={14} />
+                    </button>
+                    {!thread.isArchived && (
+                        <button onClick={() => setThreadPinned(agentId, thread.id, !thread.isPinned)} className="hover:text-white" aria-label={thread.isPinned ? 'Desafixar conversa' : 'Fixar conversa'}>
+                            {thread.isPinned ? <PinOff size={14} /> : <Pin size={14} />}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setThreadArchived(agentId, thread.id, !thread.isArchived)}
+                        disabled={isLoadingMessage && isActive}
+                        className="hover:text-white disabled:opacity-40"
+                        aria-label={thread.isArchived ? 'Desarquivar conversa' : 'Arquivar conversa'}
+                    >
+                        {thread.isArchived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                    </button>
+                    <button
+                        onClick={() => handleDelete(thread)}
+                        disabled={isLoadingMessage && isActive}
+                        className="hover:text-red-400 disabled:opacity-40"
+                        aria-label="Apagar conversa"
+                    >
+                        <Trash2 size={14} />
+                    </button>
+                </div>
+            </li>
+        );
+    };
+
+    return (
+        <div className="mb-4 pb-4 border-b border-gray-700/50">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-md font-semibold text-gray-300">Conversas</h3>
+                <button
+                    onClick={() => createThread(agentId)}
+                    disabled={isLoadingMessage}
+                    className="flex items-center gap-1 text-xs text-indigo-300 hover:text-white disabled:opacity-50"
+                >
+                    <Plus size={14} /> Nova
+                </button>
+            </div>
+            <div className="relative mb-2">
+                <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Buscar em todas as conversas..."
+                    className="w-full bg-gray-800/80 border border-gray-600 rounded-lg py-1.5 pl-7 pr-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/80"
+                />
+            </div>
+
+            {isSearching ? (
+                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {searchResults.length === 0 && <li className="text-sm text-gray-500 text-center p-2">Nenhuma mensagem encontrada.</li>}
+                    {searchResults.map(result => (
+                        <li key={`${result.threadId}-${result.message.id}`}>
+                            <button
+                                onClick={() => openThread(result.agentId, result.threadId)}
+                                disabled={isLoadingMessage}
+                                className="w-full text-left p-2 bg-gray-800/70 hover:bg-gray-700/90 rounded-lg transition-colors disabled:cursor-not-allowed"
+                            >
+                                <p className="text-xs text-indigo-300 truncate">{resolveAgent(result.agentId, customAgents)?.name} · {result.threadTitle}</p>
+                                <p className="text-xs text-gray-400 line-clamp-2">{result.snippet}</p>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <>
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                        {openThreads.map(renderThread)}
+                    </ul>
+                    {archivedThreads.length > 0 && (
+                        <div className="mt-2">
+                            <button onClick={() => setShowArchived(!showArchived)} className="w-full flex items-center justify-between text-xs text-gray-500 hover:text-gray-300">
+                                <span>Arquivadas ({archivedThreads.length})</span>
+                                {showArchived ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                            </button>
+                            {showArchived && <ul className="space-y-1 mt-1 max-h-32 overflow-y-auto">{archivedThreads.map(renderThread)}</ul>}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ChatThreadList;
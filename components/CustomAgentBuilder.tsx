@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { useStore } from '../store.ts';
+import { CustomAgentDefinition, CustomAgentIconName, ToolId } from '../types.ts';
+import { toolMetadata } from '../constants.tsx';
+import { createCustomAgentId, CUSTOM_AGENT_COLORS, CUSTOM_AGENT_ICONS } from '../utils/customAgents.ts';
+import { X, Trash2 } from 'lucide-react';
+
+interface CustomAgentBuilderProps {
+    // The mentor being edited; a new one is created when absent.
+    agent?: CustomAgentDefinition;
+    onClose: () => void;
+}
+
+const CustomAgentBuilder: React.FC<CustomAgentBuilderProps> = ({ agent, onClose }) => {
+    const { saveCustomAgent, deleteCustomAgent, addToast } = useStore(state => ({
+        saveCustomAgent: state.saveCustomAgent,
+        deleteCustomAgent: state.deleteCustomAgent,
+        addToast: state.addToast,
+    }));
+    const [name, setName] = useState(agent?.name ?? '');
+    const [description, setDescription] = useState(agent?.description ?? '');
+    const [persona, setPersona] = useState(agent?.persona ?? '');
+    const [themeColor, setThemeColor] = useState(agent?.themeColor ?? CUSTOM_AGENT_COLORS[5]);
+    const [iconName, setIconName] = useState<CustomAgentIconName>(agent?.iconName ?? 'sparkles');
+    const [initialMessage, setInitialMessage] = useState(agent?.initialMessage ?? '');
+    const [tools, setTools] = useState<ToolId[]>(agent?.tools ?? ['meditation']);
+
+    const canSave = name.trim() && persona.trim();
+
+    const toggleTool = (toolId: ToolId) => {
+        setTools(current => current.includes(toolId) ? current.filter(t => t !== toolId) : [...current, toolId]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSave) return;
+        saveCustomAgent({
+            id: agent?.id ?? createCustomAgentId(),
+            name: name.trim(),
+            description: description.trim(),
+            persona: persona.trim(),
+            themeColor,
+            iconName,
+            initialMessage: initialMessage.trim(),
+            tools,
+            createdAt: agent?.createdAt ?? Date.now(),
+        });
+        addToast(agent ? `${name.trim()} foi atualizado.` : `${name.trim()} agora faz parte dos seus mentores.`, 'success');
+        onClose();
+    };
+
+    const handleDelete = () => {
+        if (!agent) return;
+        if (window.confirm(`Apagar o mentor "${agent.name}"? As conversas e a memória dele também serão apagadas.`)) {
+            deleteCustomAgent(agent.id);
+            onClose();
+        }
+    };
+
+    const PreviewIcon = CUSTOM_AGENT_ICONS[iconName];
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-fade-in">
+            <form onSubmit={handleSubmit} className="glass-pane rounded-2xl w-full max-w-2xl m-4 flex flex-col overflow-hidden animate-fade-in border border-indigo-500/30">
+                <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
+                    <div className="flex items-center gap-3">
+                        <PreviewIcon className={`w-8 h-8 ${themeColor}`} />
+                        <h2 className="text-2xl font-bold text-gray-100">{agent ? 'Editar Mentor' : 'Criar Mentor'}</h2>
+                    </div>
+                    <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar">
+                        <X size={24} />
+                    </button>
+                </header>
+
+                <main className="p-6 space-y-5 overflow-y-auto max-h-[70vh]">
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-1" htmlFor="agent-name">Nome</label>
+                        <input id="agent-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: Guia do Sono Profundo" className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-1" htmlFor="agent-description">Descrição</label>
+                        <input id="agent-description" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Uma frase sobre o que este mentor faz." className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-1" htmlFor="agent-persona">Persona</label>
+                        <textarea id="agent-persona" value={persona} onChange={(e) => setPersona(e.target.value)} rows={5} placeholder="Quem é este mentor, como ele pensa e em que tom ele fala." className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 resize-y" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-300 mb-1" htmlFor="agent-initial-message">Mensagem inicial (opcional)</label>
+                        <textarea id="agent-initial-message" value={initialMessage} onChange={(e) => setInitialMessage(e.target.value)} rows={2} className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 resize-y" />
+                    </div>
+
+                    <div>
+                        <p className="text-sm font-semibold text-gray-300 mb-2">Ícone</p>
+                        <div className="flex flex-wrap gap-2">
+                            {(Object.entries(CUSTOM_AGENT_ICONS) as [CustomAgentIconName, React.ElementType][]).map(([key, Icon]) => (
+                                <button
+                                    key={key}
+                                    type="button"
+                                    onClick={() => setIconName(key)}
+                                    className={`p-2 rounded-lg border transition-colors ${iconName === key ? 'border-indigo-400 bg-indigo-600/30' : 'border-gray-700 hover:border-gray-500'}`}
+                                    aria-label={`Ícone ${key}`}
+                                >
+                                    <Icon className={`w-6 h-6 ${themeColor}`} />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold text-gray-300 mb-2">Cor</p>
+                        <div className="flex flex-wrap gap-2">
+                            {CUSTOM_AGENT_COLORS.map(color => (
+                                <button
+                                    key={color}
+                                    type="button"
+                                    onClick={() => setThemeColor(color)}
+                                    className={`w-8 h-8 rounded-full border-2 flex items-center justify-center ${themeColor === color ? 'border-white' : 'border-transparent'}`}
+                                    aria-label={`Cor ${color}`}
+                                >
+                                    <span className={`w-5 h-5 rounded-full bg-current ${color}`} />
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold text-gray-300 mb-2">Ferramentas</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {(Object.entries(toolMetadata) as [ToolId, typeof toolMetadata[ToolId]][]).map(([toolId, tool]) => (
+                                <label key={toolId} className="flex items-center gap-2 p-2 bg-gray-800/70 rounded-lg cursor-pointer text-sm text-gray-300">
+                                    <input type="checkbox" checked={tools.includes(toolId)} onChange={() => toggleTool(toolId)} className="accent-indigo-500" />
+                                    <tool.icon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                    {tool.title}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </main>
+
+                <footer className="flex items-center justify-between p-4 border-t border-gray-700/50">
+                    {agent ? (
+                        <button type="button" onClick={handleDelete} className="flex items-center gap-2 text-sm text-gray-400 hover:text-red-400">
+                            <Trash2 size={16} /> Apagar mentor
+                        </button>
+                    ) : <span />}
+                    <button type="submit" disabled={!canSave} className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-lg transition-colors">
+                        {agent ? 'Salvar' : 'Criar'}
+                    </button>
+                </footer>
+            </form>
+        </div>
+    );
+};
+
+export default CustomAgentBuilder;
@@ -2,6 +2,10 @@ import React from 'react';
 import { useStore } from '../store.ts';
 import { Agent, AgentId } from '../types.ts';
 import UsvRadar from './UsvRadar.tsx';
+import PicTrail from './PicTrail.tsx';
+import UsvEvolution from './UsvEvolution.tsx';
+import PhiChangeLog from './PhiChangeLog.tsx';
+import ProfileSharingSettings from './ProfileSharingSettings.tsx';
 import { AGENTS } from '../constants.tsx';
 
 const Dashboard: React.FC = () => {
@@ -44,6 +48,11 @@ const Dashboard: React.FC = () => {
                     )}
                 </div>
             </div>
+
+            <PicTrail />
+            <UsvEvolution />
+            <PhiChangeLog />
+            <ProfileSharingSettings />
         </div>
     );
 };
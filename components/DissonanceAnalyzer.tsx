@@ -10,10 +10,12 @@ interface DissonanceAnalyzerProps {
 }
 
 const DissonanceAnalyzer: React.FC<DissonanceAnalyzerProps> = ({ onExit }) => {
-    const { chatHistories, lastAgentContext, goBackToAgentRoom } = useStore(state => ({
+    const { chatHistories, lastAgentContext, goBackToAgentRoom, setToolState, getProfileContext } = useStore(state => ({
         chatHistories: state.chatHistories,
         lastAgentContext: state.lastAgentContext,
         goBackToAgentRoom: state.goBackToAgentRoom,
+        setToolState: state.setToolState,
+        getProfileContext: state.getProfileContext,
     }));
     const agentIdForContext = lastAgentContext ?? AgentId.COHERENCE;
     const chatHistory = chatHistories[agentIdForContext] || [];
@@ -28,8 +30,9 @@ const DissonanceAnalyzer: React.FC<DissonanceAnalyzerProps> = ({ onExit }) => {
         setResult(null);
 
         try {
-            const analysisResult = await analyzeDissonance(chatHistory);
+            const analysisResult = await analyzeDissonance(chatHistory, getProfileContext('dissonance_analyzer'));
             setResult(analysisResult);
+            setToolState('dissonanceResult', analysisResult);
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, 'Ocorreu um erro desconhecido durante a análise.');
             setError(friendlyError);
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Trash2, Moon, Eye } from 'lucide-react';
+import { useStore } from '../store.ts';
+import { JournalEntry } from '../types.ts';
+import { ARCHETYPES } from '../services/geminiArchetypeService.ts';
+import { getSymbolOccurrences, toSymbolKey } from '../utils/dreams.ts';
+import { normalizeText, sortJournalEntries } from '../utils/journal.ts';
+import JournalEntryCard from './JournalEntryCard.tsx';
+import DreamSymbolTimeline from './DreamSymbolTimeline.tsx';
+
+interface DreamSymbolDictionaryProps {
+    entries: JournalEntry[];
+    analyzingId: string | null;
+    onAnalyze: (entry: JournalEntry) => void;
+    onDelete: (entryId: string) => void;
+}
+
+/**
+ * The personal dictionary of dream symbols, with their recurrence over time.
+ */
+const DreamSymbolDictionary: React.FC<DreamSymbolDictionaryProps> = ({ entries, analyzingId, onAnalyze, onDelete }) => {
+    const { dreamSymbols, updateDreamSymbol, removeDreamSymbol } = useStore(state => ({
+        dreamSymbols: state.dreamSymbols,
+        updateDreamSymbol: state.updateDreamSymbol,
+        removeDreamSymbol: state.removeDreamSymbol,
+    }));
+    const [query, setQuery] = useState('');
+    const [archetypeFilter, setArchetypeFilter] = useState<string | null>(null);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+    const dreams = useMemo(() => sortJournalEntries(entries.filter(entry => entry.type === 'sonho')), [entries]);
+    const occurrences = useMemo(() => getSymbolOccurrences(dreams), [dreams]);
+    const symbolNames = useMemo(() => Object.fromEntries(dreamSymbols.map(symbol => [symbol.key, symbol.name])), [dreamSymbols]);
+    const pendingDreams = dreams.filter(dream => !dream.feedback);
+    const lucidCount = dreams.filter(dream => dream.dream && dream.dream.lucidity !== 'nenhuma').length;
+
+    const listed = useMemo(() => {
+        const search = normalizeText(query.trim());
+        return dreamSymbols
+            .filter(symbol => (!search || symbol.key.includes(search)) && (!archetypeFilter || symbol.archetype === archetypeFilter))
+            .sort((a, b) => (occurrences[b.key]?.count ?? 0) - (occurrences[a.key]?.count ?? 0) || a.name.localeCompare(b.name));
+    }, [dreamSymbols, occurrences, query, archetypeFilter]);
+
+    const selected = dreamSymbols.find(symbol => symbol.key === selectedKey) ?? null;
+    const selectedDreams = selected ? dreams.filter(dream => (dream.dreamSymbols ?? []).some(finding => toSymbolKey(finding.simbolo) === selected.key)) : [];
+
+    const handleRemove = (key: string) => {
+        if (window.confirm('Remover este símbolo do dicionário? Os sonhos continuam registrados.')) {
+            removeDreamSymbol(key);
+            setSelectedKey(null);
+        }
+    };
+
+    if (dreams.length === 0) {
+        return (
+            <div className="text-center text-gray-400 p-8 space-y-2">
+                <Moon className="w-10 h-10 mx-auto text-indigo-400" />
+                <p>Registre um sonho na aba "Escrever" e analise-o para começar seu dicionário de símbolos.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                    <p className="text-2xl font-bold text-indigo-300">{dreams.length}</p>
+                    <p className="text-xs text-gray-400">sonhos registrados</p>
+                </div>
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                    <p className="text-2xl font-bold text-indigo-300">{dreamSymbols.length}</p>
+                    <p className="text-xs text-gray-400">símbolos no dicionário</p>
+                </div>
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                    <p className="text-2xl font-bold text-indigo-300">{lucidCount}</p>
+                    <p className="text-xs text-gray-400">sonhos com lucidez</p>
+                </div>
+            </div>
+
+            {pendingDreams.length > 0 && (
+                <p className="text-sm text-gray-400 text-center">
+                    {pendingDreams.length} sonho(s) ainda não analisado(s). Analise-os no Histórico para extrair seus símbolos.
+                </p>
+            )}
+
+            <section className="p-4 bg-gray-800/50 rounded-lg">
+                <DreamSymbolTimeline dreams={dreams} symbolNames={symbolNames} onSelectSymbol={setSelectedKey} />
+            </section>
+
+            <section className="space-y-3">
+                <h3 className="font-semibold text-gray-200">Dicionário pessoal</h3>
+                <div className="flex flex-col md:flex-row gap-2">
+                    <label className="flex-1 flex items-center gap-2 bg-gray-800/80 border border-gray-600 rounded-lg px-2">
+                        <Search size={16} className="text-gray-500" />
+                        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Buscar símbolo" className="w-full bg-transparent p-2 text-gray-200 focus:outline-none" />
+                    </label>
+                    <select value={archetypeFilter ?? ''} onChange={(e) => setArchetypeFilter(e.target.value || null)} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 text-sm" aria-label="Arquétipo">
+                        <option value="">Todos os arquétipos</option>
+                        {ARCHETYPES.map(archetype => <option key={archetype} value={archetype}>{archetype}</option>)}
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {listed.map(symbol => (
+                        <button
+                            key={symbol.key}
+                            onClick={() => setSelectedKey(symbol.key === selectedKey ? null : symbol.key)}
+                            className={`px-3 py-1 rounded-full text-sm ${symbol.key === selectedKey ? 'bg-indigo-600 text-white' : 'bg-gray-700/80 text-gray-200 hover:bg-gray-600'}`}
+                        >
+                            {symbol.name}
+                            <span className="ml-1 text-xs opacity-70">· {symbol.archetype} · {occurrences[symbol.key]?.count ?? 0}</span>
+                        </button>
+                    ))}
+                    {listed.length === 0 && <p className="text-gray-500 text-sm">Nenhum símbolo encontrado.</p>}
+                </div>
+            </section>
+
+            {selected && (
+                <section key={selected.key} className="p-4 bg-gray-800/50 border border-indigo-900 rounded-lg space-y-4 animate-fade-in">
+                    <div className="flex items-start justify-between gap-2">
+                        <div>
+                            <h3 className="text-xl font-bold text-gray-100">{selected.name}</h3>
+                            <p className="text-sm text-gray-400 flex items-center gap-1">
+                                <Eye size={14} />
+                                {occurrences[selected.key]
+                                    ? `${occurrences[selected.key].count} sonho(s) · último em ${new Date(occurrences[selected.key].lastSeen).toLocaleDateString('pt-BR')}`
+                                    : 'Nenhum sonho registrado com este símbolo.'}
+                            </p>
+                        </div>
+                        <button onClick={() => handleRemove(selected.key)} className="p-1 text-gray-500 hover:text-red-400" aria-label="Remover símbolo">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <label className="block text-sm text-gray-300">
+                        Arquétipo
+                        <select value={selected.archetype} onChange={(e) => updateDreamSymbol(selected.key, { archetype: e.target.value })} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200">
+                            {!ARCHETYPES.includes(selected.archetype) && <option value={selected.archetype}>{selected.archetype}</option>}
+                            {ARCHETYPES.map(archetype => <option key={archetype} value={archetype}>{archetype}</option>)}
+                        </select>
+                    </label>
+                    <div className="p-3 bg-gray-900/50 rounded-lg">
+                        <h4 className="font-semibold text-gray-300 text-sm">Leitura do mentor</h4>
+                        <p className="text-sm text-gray-400 mt-1">{selected.suggestedMeaning}</p>
+                    </div>
+                    <label className="block text-sm text-gray-300">
+                        O que este símbolo significa para você
+                        <textarea
+                            defaultValue={selected.meaning}
+                            onBlur={(e) => updateDreamSymbol(selected.key, { meaning: e.target.value.trim() })}
+                            placeholder="Seu significado pessoal orienta as próximas análises de sonhos."
+                            className="block w-full h-24 mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200 resize-none"
+                        />
+                    </label>
+                    {selectedDreams.length > 0 && (
+                        <div className="space-y-3">
+                            <h4 className="font-semibold text-gray-300 text-sm">Sonhos com este símbolo</h4>
+                            {selectedDreams.map(dream => (
+                                <JournalEntryCard key={dream.id} entry={dream} isAnalyzing={analyzingId === dream.id} onAnalyze={onAnalyze} onDelete={onDelete} />
+                            ))}
+                        </div>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default DreamSymbolDictionary;
@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { JournalEntry } from '../types.ts';
+import { buildSymbolTimeline, formatMonthLabel } from '../utils/dreams.ts';
+
+interface DreamSymbolTimelineProps {
+    dreams: JournalEntry[];
+    symbolNames: Record<string, string>;
+    onSelectSymbol: (key: string) => void;
+}
+
+const MONTH_RANGES = [3, 6, 12];
+const MAX_SYMBOLS = 8;
+
+/**
+ * A month-by-symbol heatmap of the recurring dream symbols.
+ */
+const DreamSymbolTimeline: React.FC<DreamSymbolTimelineProps> = ({ dreams, symbolNames, onSelectSymbol }) => {
+    const [monthCount, setMonthCount] = useState(6);
+    const timeline = useMemo(() => buildSymbolTimeline(dreams, monthCount, MAX_SYMBOLS), [dreams, monthCount]);
+    const maxCount = Math.max(1, ...timeline.rows.flatMap(row => row.counts));
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <h3 className="font-semibold text-gray-200">Símbolos recorrentes</h3>
+                <div className="flex bg-gray-800/60 rounded-full p-1">
+                    {MONTH_RANGES.map(months => (
+                        <button
+                            key={months}
+                            onClick={() => setMonthCount(months)}
+                            className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${monthCount === months ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            {months} meses
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {timeline.rows.length === 0 ? (
+                <p className="text-center text-gray-500 py-6">Nenhum símbolo se repetiu neste período. Analise mais sonhos para ver seus padrões.</p>
+            ) : (
+                <div className="overflow-x-auto no-scrollbar">
+                    <table className="w-full text-xs border-separate border-spacing-1">
+                        <thead>
+                            <tr>
+                                <th />
+                                {timeline.months.map(month => (
+                                    <th key={month.key} className="font-normal text-gray-500 capitalize">{formatMonthLabel(month.start)}</th>
+                                ))}
+                                <th className="font-normal text-gray-500">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {timeline.rows.map(row => (
+                                <tr key={row.key}>
+                                    <th className="text-left font-semibold text-gray-300 pr-2 whitespace-nowrap">
+                                        <button onClick={() => onSelectSymbol(row.key)} className="hover:text-indigo-300">{symbolNames[row.key] ?? row.key}</button>
+                                    </th>
+                                    {row.counts.map((count, i) => (
+                                        <td
+                                            key={timeline.months[i].key}
+                                            className="h-8 min-w-[2rem] rounded text-center text-white"
+                                            style={{ backgroundColor: count > 0 ? `rgba(129, 140, 248, ${0.2 + 0.8 * (count / maxCount)})` : 'rgba(255, 255, 255, 0.05)' }}
+                                            title={`${count} sonho(s)`}
+                                        >
+                                            {count > 0 ? count : ''}
+                                        </td>
+                                    ))}
+                                    <td className="text-center font-bold text-indigo-300">{row.total}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DreamSymbolTimeline;
@@ -1,27 +1,287 @@
-import React from 'react';
-import { Wallet } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Wallet, Upload, Loader2, MessageCircle, Trash2 } from 'lucide-react';
 import { useStore } from '../store.ts';
+import { AgentId, SpendingEmotion, SpendingTransaction } from '../types.ts';
+import { AmbiguousSignConventionError, parseStatementFile, SignConvention } from '../utils/statementImport.ts';
+import {
+    buildSpendingHeatmap,
+    describeSpendingPattern,
+    detectSpendingPatterns,
+    EMOTION_LABELS,
+    SPENDING_CATEGORIES,
+    SPENDING_EMOTIONS,
+} from '../utils/spendingPatterns.ts';
+import { formatBrl } from '../utils/currency.ts';
+
+interface EmotionalSpendingMapProps {
+    onExit: () => void;
+}
+
+const PAGE_SIZE = 50;
+const INTENSITIES = [1, 2, 3, 4, 5];
+
+const EmotionalSpendingMap: React.FC<EmotionalSpendingMapProps> = ({ onExit }) => {
+    const {
+        spendingTransactions,
+        importSpendingTransactions,
+        tagSpendingTransaction,
+        setSpendingCategory,
+        clearSpendingTransactions,
+        goBackToAgentRoom,
+        switchAgent,
+        handleSendMessage,
+        addToast,
+    } = useStore(state => ({
+        spendingTransactions: state.spendingTransactions,
+        importSpendingTransactions: state.importSpendingTransactions,
+        tagSpendingTransaction: state.tagSpendingTransaction,
+        setSpendingCategory: state.setSpendingCategory,
+        clearSpendingTransactions: state.clearSpendingTransactions,
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        switchAgent: state.switchAgent,
+        handleSendMessage: state.handleSendMessage,
+        addToast: state.addToast,
+    }));
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [groupBy, setGroupBy] = useState<'weekday' | 'category'>('weekday');
+    const [showUntaggedOnly, setShowUntaggedOnly] = useState(true);
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    // Files whose layout does not tell an account from a card, waiting for the user to say which.
+    const [ambiguousFiles, setAmbiguousFiles] = useState<File[]>([]);
+
+    const heatmap = useMemo(() => buildSpendingHeatmap(spendingTransactions, groupBy), [spendingTransactions, groupBy]);
+    const patterns = useMemo(() => detectSpendingPatterns(spendingTransactions), [spendingTransactions]);
+    const taggedCount = spendingTransactions.filter(t => t.emotion).length;
+    const listed = showUntaggedOnly ? spendingTransactions.filter(t => !t.emotion) : spendingTransactions;
+    const heatmapRows = SPENDING_EMOTIONS.filter(e => heatmap.cells[e.id]);
+
+    const reportImport = (parsedCount: number, addedCount: number) => {
+        const skipped = parsedCount - addedCount;
+        addToast(`${addedCount} gastos importados${skipped > 0 ? ` (${skipped} já estavam no mapa)` : ''}.`, 'success');
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            let parsedCount = 0;
+            let addedCount = 0;
+            const ambiguous: File[] = [];
+            for (const file of files) {
+                try {
+                    const transactions = await parseStatementFile(file);
+                    parsedCount += transactions.length;
+                    addedCount += importSpendingTransactions(transactions);
+                } catch (err) {
+                    if (!(err instanceof AmbiguousSignConventionError)) throw err;
+                    ambiguous.push(file);
+                }
+            }
+            setAmbiguousFiles(ambiguous);
+            if (ambiguous.length < files.length) reportImport(parsedCount, addedCount);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível ler o extrato.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleSignConvention = async (file: File, signConvention: SignConvention) => {
+        setAmbiguousFiles(files => files.filter(f => f !== file));
+        try {
+            const transactions = await parseStatementFile(file, signConvention);
+            reportImport(transactions.length, importSpendingTransactions(transactions));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível ler o extrato.');
+        }
+    };
+
+    const handleClear = () => {
+        if (window.confirm('Apagar todas as transações importadas e suas emoções? Esta ação não pode ser desfeita.')) {
+            clearSpendingTransactions();
+        }
+    };
+
+    const handleDiscuss = () => {
+        const summary = patterns.slice(0, 4).map(pattern => `- ${describeSpendingPattern(pattern)}`).join('\n');
+        switchAgent(AgentId.EMOTIONAL_FINANCE);
+        handleSendMessage(AgentId.EMOTIONAL_FINANCE, `Quero conversar sobre os padrões do meu Mapa Emocional de Gastos:\n${summary}`);
+    };
+
+    const handleEmotionChange = (transaction: SpendingTransaction, value: string) => {
+        const emotion = (value || null) as SpendingEmotion | null;
+        tagSpendingTransaction(transaction.id, emotion, transaction.intensity ?? 3);
+    };
 
-// This is a placeholder component for a feature that is not yet implemented.
-const EmotionalSpendingMap: React.FC<{ onExit: () => void }> = ({ onExit }) => {
-    const { goBackToAgentRoom } = useStore();
     return (
-        <div className="h-full w-full flex flex-col items-center justify-center p-8 text-center glass-pane rounded-2xl animate-fade-in">
-            <Wallet className="w-20 h-20 text-pink-400 mb-6" />
-            <h2 className="text-3xl font-bold text-pink-300">Mapa Emocional de Gastos</h2>
-            <p className="text-gray-400 mt-4 max-w-md">
-                Em breve: Conecte suas transações financeiras aos seus estados emocionais para descobrir padrões e tomar decisões mais conscientes.
-            </p>
-            <div className="flex items-center gap-4 mt-8">
-                <button onClick={goBackToAgentRoom} className="bg-gray-700 text-white font-bold py-2 px-6 rounded-full hover:bg-gray-600">
-                    Voltar
-                </button>
-                <button onClick={onExit} className="bg-pink-600 text-white font-bold py-2 px-6 rounded-full hover:bg-pink-700">
-                    Fechar
-                </button>
-            </div>
+        <div className="h-full w-full glass-pane rounded-2xl flex flex-col p-1 animate-fade-in">
+            <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
+                <div className="flex items-center gap-3">
+                    <Wallet className="w-8 h-8 text-pink-400" />
+                    <h1 className="text-xl font-bold text-gray-200">Mapa Emocional de Gastos</h1>
+                </div>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={goBackToAgentRoom}
+                        className="text-gray-300 hover:text-white transition-colors text-sm font-semibold py-1 px-3 rounded-md border border-gray-600 hover:border-gray-400"
+                        aria-label="Voltar para o Mentor"
+                    >
+                        Voltar
+                    </button>
+                    <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
+                </div>
+            </header>
+
+            <main className="flex-1 overflow-y-auto p-6 space-y-8">
+                <section className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div>
+                        <p className="text-gray-300">Importe extratos em CSV ou OFX e marque a emoção de cada gasto.</p>
+                        <p className="text-xs text-gray-500 mt-1">Os arquivos são lidos apenas no seu dispositivo e nunca são enviados.</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input ref={fileInputRef} type="file" accept=".csv,.ofx,text/csv" multiple onChange={handleFileChange} className="hidden" />
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isImporting}
+                            className="flex items-center gap-2 bg-pink-600 hover:bg-pink-700 disabled:bg-pink-800/50 text-white font-semibold py-2 px-4 rounded-lg"
+                        >
+                            {isImporting ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+                            Importar extrato
+                        </button>
+                        {spendingTransactions.length > 0 && (
+                            <button onClick={handleClear} className="p-2 text-gray-400 hover:text-red-400" aria-label="Apagar transações">
+                                <Trash2 size={18} />
+                            </button>
+                        )}
+                    </div>
+                </section>
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+                {ambiguousFiles.map(file => (
+                    <div key={file.name} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 bg-gray-800/70 rounded-lg text-sm">
+                        <p className="text-gray-300">A maioria dos valores de "{file.name}" é positiva. Este arquivo é o extrato de uma conta ou a fatura de um cartão?</p>
+                        <div className="flex gap-2 flex-shrink-0">
+                            <button onClick={() => handleSignConvention(file, 'account')} className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-white">Conta</button>
+                            <button onClick={() => handleSignConvention(file, 'card')} className="px-3 py-1 rounded bg-pink-600 hover:bg-pink-700 text-white">Cartão de crédito</button>
+                        </div>
+                    </div>
+                ))}
+
+                {spendingTransactions.length === 0 ? (
+                    <p className="text-center text-gray-500 py-16">Nenhum gasto importado ainda.</p>
+                ) : (
+                    <>
+                        <section>
+                            <div className="flex items-center justify-between mb-3">
+                                <h2 className="text-lg font-bold text-pink-300">Mapa de calor</h2>
+                                <div className="flex bg-gray-800/80 rounded-lg p-1 text-sm">
+                                    <button onClick={() => setGroupBy('weekday')} className={`px-3 py-1 rounded ${groupBy === 'weekday' ? 'bg-pink-600 text-white' : 'text-gray-400'}`}>Dia da semana</button>
+                                    <button onClick={() => setGroupBy('category')} className={`px-3 py-1 rounded ${groupBy === 'category' ? 'bg-pink-600 text-white' : 'text-gray-400'}`}>Categoria</button>
+                                </div>
+                            </div>
+                            {heatmapRows.length === 0 ? (
+                                <p className="text-sm text-gray-500">Marque a emoção de alguns gastos para ver o mapa.</p>
+                            ) : (
+                                <div className="overflow-x-auto">
+                                    <table className="text-xs text-gray-300 border-separate border-spacing-1">
+                                        <thead>
+                                            <tr>
+                                                <th />
+                                                {heatmap.columns.map(column => <th key={column} className="font-normal text-gray-400 px-1">{column}</th>)}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {heatmapRows.map(emotion => (
+                                                <tr key={emotion.id}>
+                                                    <th className="text-left font-normal pr-2 whitespace-nowrap">
+                                                        <span className={`inline-block w-2 h-2 rounded-full mr-2 ${emotion.color}`} />
+                                                        {emotion.label}
+                                                    </th>
+                                                    {heatmap.columns.map(column => {
+                                                        const value = heatmap.cells[emotion.id]?.[column] ?? 0;
+                                                        return (
+                                                            <td
+                                                                key={column}
+                                                                title={`${emotion.label} · ${column}: ${formatBrl(value)}`}
+                                                                className="w-16 h-10 rounded text-center"
+                                                                style={{ backgroundColor: `rgba(236, 72, 153, ${value > 0 ? 0.15 + 0.85 * value / heatmap.max : 0.04})` }}
+                                                            >
+                                                                {value > 0 ? Math.round(value) : ''}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </section>
+
+                        {patterns.length > 0 && (
+                            <section className="p-4 bg-gray-800/50 rounded-lg">
+                                <h2 className="text-lg font-bold text-pink-300 mb-2">Padrões detectados</h2>
+                                <ul className="space-y-1 text-sm text-gray-300 list-disc list-inside">
+                                    {patterns.map(pattern => <li key={pattern.emotion}>{describeSpendingPattern(pattern)}</li>)}
+                                </ul>
+                                <button onClick={handleDiscuss} className="mt-4 flex items-center gap-2 text-sm font-semibold text-pink-300 hover:text-white">
+                                    <MessageCircle size={16} /> Conversar com o Terapeuta Financeiro sobre estes padrões
+                                </button>
+                            </section>
+                        )}
+
+                        <section>
+                            <div className="flex items-center justify-between mb-3">
+                                <h2 className="text-lg font-bold text-pink-300">Gastos <span className="text-sm font-normal text-gray-500">({taggedCount} de {spendingTransactions.length} marcados)</span></h2>
+                                <label className="flex items-center gap-2 text-sm text-gray-400">
+                                    <input type="checkbox" checked={showUntaggedOnly} onChange={(e) => { setShowUntaggedOnly(e.target.checked); setVisibleCount(PAGE_SIZE); }} className="accent-pink-500" />
+                                    Só os sem emoção
+                                </label>
+                            </div>
+                            <ul className="space-y-2">
+                                {listed.slice(0, visibleCount).map(transaction => (
+                                    <li key={transaction.id} className="grid grid-cols-1 md:grid-cols-[6rem_1fr_7rem_9rem_10rem_auto] gap-2 items-center p-2 bg-gray-800/50 rounded-lg text-sm">
+                                        <span className="text-gray-500">{new Date(transaction.date).toLocaleDateString()}</span>
+                                        <span className="text-gray-200 truncate" title={transaction.description}>{transaction.description}</span>
+                                        <span className="text-gray-200 md:text-right">{formatBrl(Math.abs(transaction.amount))}</span>
+                                        <select value={transaction.category} onChange={(e) => setSpendingCategory(transaction.id, e.target.value)} className="bg-gray-900/80 border border-gray-700 rounded p-1 text-gray-300" aria-label="Categoria">
+                                            {SPENDING_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+                                        </select>
+                                        <select value={transaction.emotion ?? ''} onChange={(e) => handleEmotionChange(transaction, e.target.value)} className="bg-gray-900/80 border border-gray-700 rounded p-1 text-gray-300" aria-label="Emoção">
+                                            <option value="">Emoção...</option>
+                                            {SPENDING_EMOTIONS.map(emotion => <option key={emotion.id} value={emotion.id}>{emotion.label}</option>)}
+                                        </select>
+                                        <div className="flex gap-1" aria-label="Intensidade">
+                                            {transaction.emotion && INTENSITIES.map(level => (
+                                                <button
+                                                    key={level}
+                                                    onClick={() => tagSpendingTransaction(transaction.id, transaction.emotion ?? null, level)}
+                                                    className={`w-5 h-5 rounded-full text-[10px] ${level <= (transaction.intensity ?? 0) ? 'bg-pink-500 text-white' : 'bg-gray-700 text-gray-400'}`}
+                                                    aria-label={`Intensidade ${level} de ${EMOTION_LABELS[transaction.emotion!]}`}
+                                                >
+                                                    {level}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                            {listed.length === 0 && <p className="text-sm text-gray-500 text-center p-4">Todos os gastos já têm uma emoção.</p>}
+                            {listed.length > visibleCount && (
+                                <button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="w-full mt-3 text-sm text-gray-400 hover:text-white">
+                                    Mostrar mais ({listed.length - visibleCount} restantes)
+                                </button>
+                            )}
+                        </section>
+                    </>
+                )}
+            </main>
         </div>
     );
 };
 
-export default EmotionalSpendingMap;
\ No newline at end of file
+export default EmotionalSpendingMap;
@@ -7,27 +7,34 @@ import { decode, decodeAudioData } from '../utils/audioUtils.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
 import MeditationGuideChat from './MeditationGuideChat.tsx';
 import MeditationPreview from './MeditationPreview.tsx';
+import SoundscapeControl from './SoundscapeControl.tsx';
 import { useStore } from '../store.ts';
-import { X, Pause, Play } from 'lucide-react';
+import { scoreMeditationCompleted } from '../utils/usvScoring.ts';
+import { AmbientBed, AMBIENT_BED_LABELS, audioBufferToWav, renderMeditationTrack } from '../utils/meditationRenderer.ts';
+import { X, Pause, Play, Download, Loader2 } from 'lucide-react';
 
 interface GuidedMeditationProps {
     onExit: () => void;
+    // Proposed by a mentor in the chat; replaces the summary of the conversation.
+    intention?: string;
 }
 
 type MeditationState = 'config' | 'generating' | 'preview' | 'playing' | 'error';
 
-const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
-    const { chatHistories, lastAgentContext, toolStates, goBackToAgentRoom } = useStore(state => ({
+const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit, intention }) => {
+    const { chatHistories, lastAgentContext, getProfileContext, goBackToAgentRoom, recordToolOutcome, addToast } = useStore(state => ({
         chatHistories: state.chatHistories,
         lastAgentContext: state.lastAgentContext,
-        toolStates: state.toolStates,
+        getProfileContext: state.getProfileContext,
         goBackToAgentRoom: state.goBackToAgentRoom,
+        recordToolOutcome: state.recordToolOutcome,
+        addToast: state.addToast,
     }));
     const agentIdForContext = lastAgentContext ?? AgentId.COHERENCE;
     const chatHistory = chatHistories[agentIdForContext];
 
-    const [initialPrompt, setInitialPrompt] = useState('');
-    const [isSummarizing, setIsSummarizing] = useState(true);
+    const [initialPrompt, setInitialPrompt] = useState(intention ?? '');
+    const [isSummarizing, setIsSummarizing] = useState(!intention);
 
     const [state, setState] = useState<MeditationState>('config');
     const [meditation, setMeditation] = useState<Meditation | null>(null);
@@ -36,15 +43,20 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
     const [error, setError] = useState<string | null>(null);
     const [currentPhraseIndex, setCurrentPhraseIndex] = useState(0);
     const [isPlaying, setIsPlaying] = useState(false);
+    const [ambientBed, setAmbientBed] = useState<AmbientBed>('rain');
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportUrl, setExportUrl] = useState<string | null>(null);
 
     const audioContextRef = useRef<AudioContext | null>(null);
     const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+    const hasRecordedCompletionRef = useRef(false);
 
     useEffect(() => {
         const generateSummary = async () => {
+            if (intention) return;
             if (chatHistory && chatHistory.length > 1) {
                 try {
-                    const summary = await summarizeChatForMeditation(chatHistory, toolStates.doshaResult);
+                    const summary = await summarizeChatForMeditation(chatHistory, getProfileContext('meditation'));
                     setInitialPrompt(summary);
                 } catch (e) {
                     console.error("Failed to summarize chat:", e);
@@ -58,7 +70,7 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
             }
         };
         generateSummary();
-    }, [chatHistory, toolStates.doshaResult]);
+    }, [chatHistory, getProfileContext, intention]);
 
 
     useEffect(() => {
@@ -67,13 +79,19 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
         };
     }, []);
 
+    useEffect(() => {
+        return () => {
+            if (exportUrl) URL.revokeObjectURL(exportUrl);
+        };
+    }, [exportUrl]);
+
     const handleCreateMeditation = useCallback(async (prompt: string, duration: number) => {
         setState('generating');
         setError(null);
         try {
             const imagePrompt = `A serene and abstract background image for a meditation session with the theme: "${prompt}". The image should be calming, use soft colors, and be visually simple to not distract. Digital art style.`;
             const [script, image] = await Promise.all([
-                generateMeditationScript(prompt, duration, chatHistory),
+                generateMeditationScript(prompt, duration, chatHistory, getProfileContext('meditation')),
                 generateImage(imagePrompt, '16:9')
             ]);
             setMeditation(script);
@@ -149,8 +167,13 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
             return cleanup;
         } else if (state === 'playing' && currentPhraseIndex >= audioQueue.length) {
             setIsPlaying(false);
+            if (audioQueue.length > 0 && !hasRecordedCompletionRef.current) {
+                hasRecordedCompletionRef.current = true;
+                const seconds = audioQueue.reduce((acc, part) => acc + part.buffer.duration + part.duration / 1000, 0);
+                recordToolOutcome(scoreMeditationCompleted(seconds / 60));
+            }
         }
-    }, [state, isPlaying, currentPhraseIndex, audioQueue]);
+    }, [state, isPlaying, currentPhraseIndex, audioQueue, recordToolOutcome]);
 
     const handlePlayPause = () => {
         if (!audioContextRef.current) return;
@@ -162,6 +185,23 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
         setIsPlaying(!isPlaying);
     };
 
+    const handleExportAudio = async () => {
+        if (audioQueue.length === 0) return;
+        setIsExporting(true);
+        setExportUrl(null);
+        try {
+            const track = await renderMeditationTrack(
+                audioQueue.map(({ buffer, duration }) => ({ buffer, pauseMs: duration })),
+                ambientBed
+            );
+            setExportUrl(URL.createObjectURL(audioBufferToWav(track)));
+        } catch (err) {
+            addToast(getFriendlyErrorMessage(err, "Falha ao exportar o áudio da meditação."), 'error');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     const handleReset = () => {
         setState('config');
         setMeditation(null);
@@ -170,6 +210,8 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
         setError(null);
         setCurrentPhraseIndex(0);
         setIsPlaying(false);
+        setExportUrl(null);
+        hasRecordedCompletionRef.current = false;
         sourceNodeRef.current?.stop();
     };
 
@@ -223,6 +265,31 @@ const GuidedMeditation: React.FC<GuidedMeditationProps> = ({ onExit }) => {
                                      {isPlaying ? <Pause size={32} /> : <Play size={32} className="ml-1"/>}
                                  </button>
                              </div>
+                             <div className="mt-6">
+                                 <SoundscapeControl autoStart />
+                             </div>
+                             <div className="flex flex-wrap items-center justify-center gap-3 mt-4 text-sm">
+                                 <select
+                                     value={ambientBed}
+                                     onChange={(e) => { setAmbientBed(e.target.value as AmbientBed); setExportUrl(null); }}
+                                     disabled={isExporting}
+                                     className="bg-gray-800/80 border border-gray-600 rounded-lg py-2 px-3 text-gray-200"
+                                     aria-label="Som de fundo"
+                                 >
+                                     {(Object.keys(AMBIENT_BED_LABELS) as AmbientBed[]).map(bed => (
+                                         <option key={bed} value={bed}>{AMBIENT_BED_LABELS[bed]}</option>
+                                     ))}
+                                 </select>
+                                 {exportUrl ? (
+                                     <a href={exportUrl} download={`${meditation.title}.wav`} className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-lg">
+                                         <Download size={16} /> Baixar WAV
+                                     </a>
+                                 ) : (
+                                     <button onClick={handleExportAudio} disabled={isExporting} className="flex items-center gap-2 bg-gray-700/70 hover:bg-gray-600/70 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-lg">
+                                         {isExporting ? <><Loader2 size={16} className="animate-spin" /> Renderizando...</> : <><Download size={16} /> Exportar áudio</>}
+                                     </button>
+                                 )}
+                             </div>
                          </footer>
                      </div>
                  );
@@ -1,20 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Schedule, Meditation, MeditationScriptPart } from '../types.ts';
+import { Schedule } from '../types.ts';
 import { generateMeditationScript } from '../services/geminiScriptService.ts';
 import { generateImage } from '../services/geminiImagenService.ts';
 import { generateSpeech } from '../services/geminiTtsService.ts';
 import { decode, decodeAudioData } from '../utils/audioUtils.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import { scoreMeditationCompleted } from '../utils/usvScoring.ts';
+import { withCheckIn } from '../utils/scheduleUtils.ts';
+import { useStore } from '../store.ts';
+import SoundscapeControl from './SoundscapeControl.tsx';
 import { X, Pause, Play, Loader2 } from 'lucide-react';
 
 interface GuidedMeditationVoiceProps {
     schedule: Schedule;
+    checkIn?: string;
     onExit: () => void;
 }
 
 type MeditationState = 'generating_script' | 'generating_audio' | 'playing' | 'paused' | 'finished' | 'error';
 
-const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule, onExit }) => {
+const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule, checkIn, onExit }) => {
+    const { recordToolOutcome, chatHistories, getProfileContext } = useStore(state => ({
+        recordToolOutcome: state.recordToolOutcome,
+        chatHistories: state.chatHistories,
+        getProfileContext: state.getProfileContext,
+    }));
     const [state, setState] = useState<MeditationState>('generating_script');
     const [backgroundImage, setBackgroundImage] = useState<string>('');
     const [audioQueue, setAudioQueue] = useState<AudioBuffer[]>([]);
@@ -25,10 +35,14 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
     const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
     const isPlayingRef = useRef(false);
     
-    const meditationPrompt = "Uma meditação de voz para relaxamento profundo e conexão interior.";
+    const intention = schedule.intention?.trim() || "Uma meditação de voz para relaxamento profundo e conexão interior.";
 
     const playQueue = useCallback(() => {
         if (currentPhraseIndex >= audioQueue.length) {
+            if (isPlayingRef.current && audioQueue.length > 0) {
+                const seconds = audioQueue.reduce((acc, buffer) => acc + buffer.duration, 0);
+                recordToolOutcome(scoreMeditationCompleted(seconds / 60));
+            }
             setState('finished');
             isPlayingRef.current = false;
             return;
@@ -48,7 +62,7 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
                setCurrentPhraseIndex(prev => prev + 1);
            }
         };
-    }, [currentPhraseIndex, audioQueue]);
+    }, [currentPhraseIndex, audioQueue, recordToolOutcome]);
     
     useEffect(() => {
         if (state === 'playing' && isPlayingRef.current) {
@@ -60,9 +74,10 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
         try {
             // Generate script and background image
             setState('generating_script');
-            const imagePrompt = `A serene and abstract background for a voice meditation on deep relaxation.`;
+            const imagePrompt = `A serene and abstract background for a voice meditation with the intention: "${intention}".`;
+            const chatHistory = schedule.agentId ? chatHistories[schedule.agentId] : undefined;
             const [script, image] = await Promise.all([
-                generateMeditationScript(meditationPrompt, 5),
+                generateMeditationScript(withCheckIn(intention, checkIn), schedule.durationMinutes ?? 5, chatHistory, getProfileContext('meditation')),
                 generateImage(imagePrompt, '16:9')
             ]);
             setBackgroundImage(image);
@@ -70,7 +85,7 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
             // Generate audio
             setState('generating_audio');
             audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            const audioPromises = script.script.map(part => generateSpeech(part.text));
+            const audioPromises = script.script.map(part => generateSpeech(part.text, schedule.voice));
             const audioObjects = await Promise.all(audioPromises);
             const decodedAudios = await Promise.all(audioObjects.map(async (audioObj) => {
                 if (!audioObj?.data || !audioContextRef.current) throw new Error("Audio generation failed.");
@@ -85,7 +100,8 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
             setError(friendlyError);
             setState('error');
         }
-    }, []);
+    // Runs once per scheduled call; later chat changes must not restart the meditation.
+    }, [schedule.id]);
     
     useEffect(() => {
         startMeditation();
@@ -154,6 +170,7 @@ const GuidedMeditationVoice: React.FC<GuidedMeditationVoiceProps> = ({ schedule,
                                  {state === 'playing' ? <Pause size={32} /> : <Play size={32} className="ml-1"/>}
                              </button>
                         )}
+                        {(state === 'playing' || state === 'paused') && <SoundscapeControl autoStart />}
                         {state === 'finished' && (
                              <button onClick={onExit} className="bg-indigo-600 text-white font-bold py-3 px-8 rounded-full">
                                  Finalizar Sessão
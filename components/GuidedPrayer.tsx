@@ -7,10 +7,13 @@ import { generateImage } from '../services/geminiImagenService.ts';
 import { generateSpeech } from '../services/geminiTtsService.ts';
 import { decode, encodeWAV } from '../utils/audioUtils.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import SoundscapeControl from './SoundscapeControl.tsx';
 import { X, Sparkles, BookOpen, Volume2, Image as ImageIcon, Loader2 } from 'lucide-react';
 
 interface GuidedPrayerProps {
     onExit: () => void;
+    // A theme proposed by a mentor in the chat, pre-filled for the user to confirm.
+    intention?: string;
 }
 
 type PrayerState = 'config' | 'generating' | 'display' | 'error';
@@ -30,9 +33,10 @@ const getPrayerSuggestions = (usv: UserStateVector): string[] => {
     return Array.from(finalSuggestions).slice(0, 4);
 };
 
-const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit }) => {
-    const { usv, chatHistories, lastAgentContext, goBackToAgentRoom } = useStore(state => ({
+const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit, intention }) => {
+    const { usv, chatHistories, lastAgentContext, getProfileContext, goBackToAgentRoom } = useStore(state => ({
         usv: state.usv,
+        getProfileContext: state.getProfileContext,
         chatHistories: state.chatHistories,
         lastAgentContext: state.lastAgentContext,
         goBackToAgentRoom: state.goBackToAgentRoom,
@@ -41,7 +45,7 @@ const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit }) => {
     const chatHistory = chatHistories[agentIdForContext];
 
     const [state, setState] = useState<PrayerState>('config');
-    const [theme, setTheme] = useState('');
+    const [theme, setTheme] = useState(intention ?? '');
     const [prayerText, setPrayerText] = useState('');
     const [error, setError] = useState<string | null>(null);
 
@@ -80,7 +84,7 @@ const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit }) => {
         setImageUrl(null);
         
         try {
-            const result = await generateGuidedPrayer(inputTheme, chatHistory);
+            const result = await generateGuidedPrayer(inputTheme, chatHistory, undefined, getProfileContext('guided_prayer'));
             setPrayerText(result);
             setState('display');
         } catch (err) {
@@ -94,7 +98,7 @@ const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit }) => {
         setIsRecommending(true);
         setError(null);
         try {
-            const recommendedTheme = await recommendPrayerTheme(usv, chatHistory);
+            const recommendedTheme = await recommendPrayerTheme(getProfileContext('guided_prayer'), chatHistory);
             await handleGeneratePrayer(recommendedTheme);
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, "Falha ao obter uma recomendação.");
@@ -223,6 +227,7 @@ const GuidedPrayer: React.FC<GuidedPrayerProps> = ({ onExit }) => {
                                              </button>
                                          ))}
                                      </div>
+                                     <SoundscapeControl />
                                  </div>
                              )}
                          </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Schedule } from '../types.ts';
+import { generateGuidedPrayer } from '../services/geminiPrayerService.ts';
+import { generateImagePromptForPrayer } from '../services/geminiContentService.ts';
+import ScheduledPrayerVoice from './ScheduledPrayerVoice.tsx';
+
+interface GuidedPrayerVoiceProps {
+    schedule: Schedule;
+    checkIn?: string;
+    onExit: () => void;
+}
+
+const GuidedPrayerVoice: React.FC<GuidedPrayerVoiceProps> = ({ schedule, checkIn, onExit }) => (
+    <ScheduledPrayerVoice
+        schedule={schedule}
+        checkIn={checkIn}
+        consumer="guided_prayer"
+        generateScript={async (intention, chatHistory, profileContext) => {
+            const prayerText = await generateGuidedPrayer(intention, chatHistory, schedule.durationMinutes, profileContext);
+            return prayerText.split(/\n+/).filter(p => p.trim().length > 0);
+        }}
+        generateImagePrompt={paragraphs => generateImagePromptForPrayer(paragraphs.join('\n'))}
+        labels={{
+            generatingScript: "Escolhendo a intenção da sua oração...",
+            generatingAudio: "Gerando a narração da sua oração...",
+            error: "Falha ao criar a oração guiada.",
+        }}
+        renderNarration={(paragraphs, currentIndex, isFinished) => (
+            <p key={currentIndex} className="text-2xl text-gray-200 max-w-3xl leading-relaxed animate-fade-in">
+                {isFinished ? "Amém. Permaneça alguns instantes nessa presença." : paragraphs[currentIndex]}
+            </p>
+        )}
+        onExit={onExit}
+    />
+);
+
+export default GuidedPrayerVoice;
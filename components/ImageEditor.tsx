@@ -1,6 +1,6 @@
 import React, { useState, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
 import { dataUrlToBase64 } from '../utils/fileUtils.ts';
+import { editImage } from '../services/geminiImagenService.ts';
 import { X, UploadCloud, Wand2 } from 'lucide-react';
 
 interface ImageEditorProps {
@@ -34,19 +34,8 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ onExit }) => {
         setIsLoading(true);
         setError(null);
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [{ inlineData: { data: originalImage.data, mimeType: originalImage.mimeType, } }, { text: prompt }] },
-                config: { responseModalities: [Modality.IMAGE] },
-            });
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    setEditedImageSrc(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
-                    return;
-                }
-            }
-            throw new Error("Nenhuma imagem foi retornada pela API.");
+            const editedImage = await editImage(originalImage, prompt);
+            setEditedImageSrc(editedImage);
         } catch (err) {
             setError(err instanceof Error ? err.message : "Ocorreu um erro durante a edição.");
         } finally {
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Sparkles, Trash2, ChevronDown, ChevronUp, Moon, Mic, Play } from 'lucide-react';
+import { JournalEntry } from '../types.ts';
+import { getMoodLevel, JOURNAL_ENTRY_TYPES } from '../utils/journal.ts';
+import { getJournalAudio } from '../utils/audioStore.ts';
+import { DREAM_LUCIDITY_LEVELS } from '../utils/dreams.ts';
+
+interface JournalEntryCardProps {
+    entry: JournalEntry;
+    isAnalyzing: boolean;
+    onAnalyze: (entry: JournalEntry) => void;
+    onDelete: (entryId: string) => void;
+    defaultExpanded?: boolean;
+}
+
+/**
+ * One journal entry with its metadata and, once analyzed, the mentor's feedback.
+ */
+const JournalEntryCard: React.FC<JournalEntryCardProps> = ({ entry, isAnalyzing, onAnalyze, onDelete, defaultExpanded = false }) => {
+    const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [audioError, setAudioError] = useState<string | null>(null);
+    const mood = getMoodLevel(entry.mood);
+
+    useEffect(() => () => {
+        if (audioUrl) URL.revokeObjectURL(audioUrl);
+    }, [audioUrl]);
+
+    const handleLoadAudio = async () => {
+        setAudioError(null);
+        try {
+            const blob = await getJournalAudio(entry.id);
+            if (blob) {
+                setAudioUrl(URL.createObjectURL(blob));
+            } else {
+                setAudioError('A gravação não está disponível neste dispositivo.');
+            }
+        } catch (err) {
+            console.error('Failed to load journal audio:', err);
+            setAudioError('Não foi possível carregar a gravação.');
+        }
+    };
+
+    const handleDelete = () => {
+        if (window.confirm('Apagar esta entrada do diário?')) {
+            onDelete(entry.id);
+        }
+    };
+
+    return (
+        <article className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+            <header className="flex items-start justify-between gap-2">
+                <button onClick={() => setIsExpanded(!isExpanded)} className="flex-1 text-left">
+                    <p className="text-sm text-gray-400 flex items-center gap-2 flex-wrap">
+                        <span className={`inline-block w-2.5 h-2.5 rounded-full ${mood.color}`} title={`Humor: ${mood.label}`} />
+                        {new Date(entry.date).toLocaleDateString('pt-BR', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })}
+                        <span className="flex items-center gap-1 text-indigo-300">
+                            {entry.type === 'sonho' && <Moon size={12} />}
+                            {JOURNAL_ENTRY_TYPES[entry.type]}
+                        </span>
+                        {entry.audio && <span className="flex items-center gap-1 text-teal-300" title="Entrada falada"><Mic size={12} /> {Math.round(entry.audio.durationSec)} s</span>}
+                        {entry.tags.map(tag => <span key={tag} className="px-2 py-0.5 bg-gray-700/80 rounded-full text-xs text-gray-300">#{tag}</span>)}
+                    </p>
+                    <p className={`text-gray-200 mt-1 whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-2'}`}>{entry.text}</p>
+                </button>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => setIsExpanded(!isExpanded)} className="p-1 text-gray-400 hover:text-white" aria-label={isExpanded ? 'Recolher' : 'Expandir'}>
+                        {isExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                    </button>
+                    <button onClick={handleDelete} className="p-1 text-gray-500 hover:text-red-400" aria-label="Apagar entrada">
+                        <Trash2 size={16} />
+                    </button>
+                </div>
+            </header>
+
+            {entry.audio && (
+                audioUrl
+                    ? <audio src={audioUrl} controls autoPlay className="w-full h-10" />
+                    : (
+                        <div className="flex items-center gap-3 text-sm">
+                            <button onClick={handleLoadAudio} className="flex items-center gap-2 font-semibold text-teal-300 hover:text-white">
+                                <Play size={16} /> Ouvir gravação
+                            </button>
+                            {audioError && <span className="text-red-400">{audioError}</span>}
+                        </div>
+                    )
+            )}
+
+            {isExpanded && entry.dream && (
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                    {entry.dream.setting && <><dt className="text-gray-500">Cenário</dt><dd className="text-gray-300">{entry.dream.setting}</dd></>}
+                    {entry.dream.characters.length > 0 && <><dt className="text-gray-500">Personagens</dt><dd className="text-gray-300">{entry.dream.characters.join(', ')}</dd></>}
+                    {entry.dream.emotions.length > 0 && <><dt className="text-gray-500">Emoções</dt><dd className="text-gray-300">{entry.dream.emotions.join(', ')}</dd></>}
+                    <dt className="text-gray-500">Lucidez</dt><dd className="text-gray-300">{DREAM_LUCIDITY_LEVELS[entry.dream.lucidity]}</dd>
+                </dl>
+            )}
+
+            {entry.dreamSymbols && entry.dreamSymbols.length > 0 && (
+                isExpanded ? (
+                    <ul className="space-y-1 text-sm">
+                        {entry.dreamSymbols.map((symbol, i) => (
+                            <li key={i} className="p-2 bg-gray-900/50 rounded-lg">
+                                <span className="font-semibold text-indigo-200">{symbol.simbolo}</span>
+                                <span className="ml-2 px-2 py-0.5 bg-indigo-900/60 rounded-full text-xs text-indigo-300">{symbol.arquetipo}</span>
+                                <p className="text-gray-400 mt-1">{symbol.interpretacao}</p>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="flex flex-wrap gap-1">
+                        {entry.dreamSymbols.map((symbol, i) => <span key={i} className="px-2 py-0.5 bg-indigo-900/60 rounded-full text-xs text-indigo-300">{symbol.simbolo}</span>)}
+                    </p>
+                )
+            )}
+
+            {isExpanded && entry.feedback && (
+                <div className="space-y-2 text-sm animate-fade-in">
+                    <div className="p-3 bg-gray-800 rounded-lg">
+                        <h3 className="font-semibold text-gray-300">Observação do Coração:</h3>
+                        <p className="text-gray-400 mt-1">{entry.feedback.observacao}</p>
+                    </div>
+                    <div className="p-3 bg-gray-800 rounded-lg">
+                        <h3 className="font-semibold text-gray-300">O Ponto de Dissonância:</h3>
+                        <p className="text-gray-400 mt-1">{entry.feedback.dissonancia}</p>
+                    </div>
+                    <div className="p-3 bg-indigo-900/50 border border-indigo-700 rounded-lg">
+                        <h3 className="font-semibold text-indigo-300">Ação de Coerência:</h3>
+                        <p className="text-indigo-200 mt-1">{entry.feedback.acao}</p>
+                    </div>
+                </div>
+            )}
+
+            {!entry.feedback && (
+                <button onClick={() => onAnalyze(entry)} disabled={isAnalyzing} className="flex items-center gap-2 text-sm font-semibold text-indigo-300 hover:text-white disabled:opacity-50">
+                    {isAnalyzing ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                    {isAnalyzing ? 'Analisando suas reflexões...' : 'Analisar com o mentor'}
+                </button>
+            )}
+        </article>
+    );
+};
+
+export default JournalEntryCard;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Search, List, CalendarDays } from 'lucide-react';
+import { JournalEntry, JournalEntryType } from '../types.ts';
+import {
+    collectTags,
+    getMonthGrid,
+    getMoodLevel,
+    groupEntriesByDay,
+    JOURNAL_ENTRY_TYPES,
+    searchJournalEntries,
+    sortJournalEntries,
+    toDayKey,
+} from '../utils/journal.ts';
+import JournalEntryCard from './JournalEntryCard.tsx';
+
+interface JournalHistoryProps {
+    entries: JournalEntry[];
+    analyzingId: string | null;
+    onAnalyze: (entry: JournalEntry) => void;
+    onDelete: (entryId: string) => void;
+}
+
+const WEEKDAY_INITIALS = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'];
+const PAGE_SIZE = 20;
+
+/**
+ * Browses the journal as a searchable list or as a month calendar.
+ */
+const JournalHistory: React.FC<JournalHistoryProps> = ({ entries, analyzingId, onAnalyze, onDelete }) => {
+    const [mode, setMode] = useState<'list' | 'calendar'>('list');
+    const [query, setQuery] = useState('');
+    const [typeFilter, setTypeFilter] = useState<JournalEntryType | 'todos'>('todos');
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const [month, setMonth] = useState(() => {
+        const now = new Date();
+        return { year: now.getFullYear(), month: now.getMonth() };
+    });
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+    const tags = useMemo(() => collectTags(entries), [entries]);
+    const filtered = useMemo(() => sortJournalEntries(searchJournalEntries(entries, query)).filter(entry =>
+        (typeFilter === 'todos' || entry.type === typeFilter) && (!tagFilter || entry.tags.includes(tagFilter))
+    ), [entries, query, typeFilter, tagFilter]);
+    const byDay = useMemo(() => groupEntriesByDay(filtered), [filtered]);
+    const todayKey = toDayKey(Date.now());
+
+    const shiftMonth = (offset: number) => {
+        const date = new Date(month.year, month.month + offset, 1);
+        setMonth({ year: date.getFullYear(), month: date.getMonth() });
+        setSelectedDay(null);
+    };
+
+    const listed = mode === 'calendar' ? (selectedDay ? byDay[selectedDay] ?? [] : []) : filtered.slice(0, visibleCount);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-2">
+                <label className="flex-1 flex items-center gap-2 bg-gray-800/80 border border-gray-600 rounded-lg px-2">
+                    <Search size={16} className="text-gray-500" />
+                    <input value={query} onChange={(e) => { setQuery(e.target.value); setVisibleCount(PAGE_SIZE); }} placeholder="Buscar no diário" className="w-full bg-transparent p-2 text-gray-200 focus:outline-none" />
+                </label>
+                <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as JournalEntryType | 'todos')} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 text-sm" aria-label="Tipo de entrada">
+                    <option value="todos">Todos os tipos</option>
+                    {(Object.entries(JOURNAL_ENTRY_TYPES) as [JournalEntryType, string][]).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+                <div className="flex bg-gray-800/80 rounded-lg p-1 text-sm">
+                    <button onClick={() => setMode('list')} className={`flex items-center gap-1 px-3 py-1 rounded ${mode === 'list' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}><List size={14} /> Lista</button>
+                    <button onClick={() => setMode('calendar')} className={`flex items-center gap-1 px-3 py-1 rounded ${mode === 'calendar' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}><CalendarDays size={14} /> Calendário</button>
+                </div>
+            </div>
+            {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {tags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                            className={`px-2 py-0.5 rounded-full text-xs ${tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-gray-700/80 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {mode === 'calendar' && (
+                <div className="p-4 bg-gray-800/50 rounded-lg max-w-md mx-auto">
+                    <div className="flex items-center justify-between mb-3">
+                        <button onClick={() => shiftMonth(-1)} className="p-1 text-gray-400 hover:text-white" aria-label="Mês anterior"><ChevronLeft size={18} /></button>
+                        <span className="font-semibold text-gray-200 capitalize">
+                            {new Date(month.year, month.month, 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
+                        </span>
+                        <button onClick={() => shiftMonth(1)} className="p-1 text-gray-400 hover:text-white" aria-label="Próximo mês"><ChevronRight size={18} /></button>
+                    </div>
+                    <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                        {WEEKDAY_INITIALS.map((initial, i) => <span key={i} className="text-gray-500">{initial}</span>)}
+                        {getMonthGrid(month.year, month.month).map((dayKey, i) => {
+                            if (!dayKey) return <span key={i} />;
+                            const dayEntries = byDay[dayKey] ?? [];
+                            const averageMood = dayEntries.reduce((sum, e) => sum + e.mood, 0) / (dayEntries.length || 1);
+                            return (
+                                <button
+                                    key={dayKey}
+                                    onClick={() => setSelectedDay(dayKey)}
+                                    className={`h-10 rounded flex flex-col items-center justify-center gap-0.5 ${selectedDay === dayKey ? 'bg-indigo-600/60 text-white' : 'hover:bg-gray-700/60 text-gray-300'} ${dayKey === todayKey ? 'ring-1 ring-indigo-400' : ''}`}
+                                >
+                                    {Number(dayKey.slice(-2))}
+                                    {dayEntries.length > 0 && <span className={`w-1.5 h-1.5 rounded-full ${getMoodLevel(averageMood).color}`} />}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-3">
+                {listed.map(entry => (
+                    <JournalEntryCard key={entry.id} entry={entry} isAnalyzing={analyzingId === entry.id} onAnalyze={onAnalyze} onDelete={onDelete} />
+                ))}
+                {mode === 'list' && filtered.length === 0 && (
+                    <p className="text-center text-gray-500 p-6">{entries.length === 0 ? 'Nenhuma entrada no diário ainda.' : 'Nenhuma entrada encontrada.'}</p>
+                )}
+                {mode === 'calendar' && selectedDay && listed.length === 0 && (
+                    <p className="text-center text-gray-500 p-4">Nenhuma entrada neste dia.</p>
+                )}
+                {mode === 'list' && filtered.length > visibleCount && (
+                    <button onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)} className="w-full text-sm text-gray-400 hover:text-white">
+                        Mostrar mais ({filtered.length - visibleCount} restantes)
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default JournalHistory;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Loader2, LineChart, Trash2 } from 'lucide-react';
+import { useStore } from '../store.ts';
+import { JournalEntry, JournalReviewResult } from '../types.ts';
+import { reviewJournalPeriod } from '../services/geminiJournalService.ts';
+import { filterEntriesByPeriod, fromDayKey, toDayKey } from '../utils/journal.ts';
+import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+
+interface JournalPeriodReviewProps {
+    entries: JournalEntry[];
+}
+
+const PERIOD_PRESETS = [7, 30, 90];
+const MIN_REVIEW_ENTRIES = 2;
+// Keeps the prompt at a reasonable size; the most recent entries of the period win.
+const MAX_REVIEW_ENTRIES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TREND_STYLES: Record<JournalReviewResult['temas'][number]['tendencia'], string> = {
+    Crescente: 'bg-red-900/50 text-red-300',
+    Estável: 'bg-yellow-900/50 text-yellow-300',
+    Decrescente: 'bg-blue-900/50 text-blue-300',
+    Resolvido: 'bg-green-900/50 text-green-300',
+};
+
+/**
+ * Compares the dissonance themes of a chosen period of the journal.
+ */
+const JournalPeriodReview: React.FC<JournalPeriodReviewProps> = ({ entries }) => {
+    const { journalReviews, addJournalReview, removeJournalReview, getProfileContext } = useStore(state => ({
+        journalReviews: state.journalReviews,
+        getProfileContext: state.getProfileContext,
+        addJournalReview: state.addJournalReview,
+        removeJournalReview: state.removeJournalReview,
+    }));
+    const [fromDay, setFromDay] = useState(() => toDayKey(Date.now() - 30 * DAY_MS));
+    const [toDay, setToDay] = useState(() => toDayKey(Date.now()));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const periodEntries = filterEntriesByPeriod(entries, fromDay, toDay);
+    const selected = journalReviews.find(r => r.id === selectedId) ?? journalReviews[0] ?? null;
+
+    const applyPreset = (days: number) => {
+        setFromDay(toDayKey(Date.now() - days * DAY_MS));
+        setToDay(toDayKey(Date.now()));
+    };
+
+    const handleReview = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const reviewed = [...periodEntries].sort((a, b) => b.date - a.date).slice(0, MAX_REVIEW_ENTRIES);
+            const result = await reviewJournalPeriod(reviewed, getProfileContext('therapeutic_journal'));
+            addJournalReview({ from: fromDayKey(fromDay), to: fromDayKey(toDay), entryCount: reviewed.length, result });
+            setSelectedId(null);
+        } catch (err) {
+            setError(getFriendlyErrorMessage(err, 'Não foi possível revisar o período.'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <section className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+                <p className="text-gray-300">Escolha um período para comparar os temas de dissonância das suas entradas.</p>
+                <div className="flex flex-wrap items-end gap-3 text-sm text-gray-300">
+                    <label>
+                        De
+                        <input type="date" value={fromDay} max={toDay} onChange={(e) => setFromDay(e.target.value)} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                    </label>
+                    <label>
+                        Até
+                        <input type="date" value={toDay} min={fromDay} onChange={(e) => setToDay(e.target.value)} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                    </label>
+                    <div className="flex gap-1">
+                        {PERIOD_PRESETS.map(days => (
+                            <button key={days} onClick={() => applyPreset(days)} className="px-3 py-2 rounded bg-gray-700/80 hover:bg-gray-600 text-gray-200">{days} dias</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={handleReview}
+                        disabled={isLoading || periodEntries.length < MIN_REVIEW_ENTRIES}
+                        className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-full"
+                    >
+                        {isLoading ? <Loader2 size={18} className="animate-spin" /> : <LineChart size={18} />}
+                        {isLoading ? 'Revisando...' : 'Revisar período'}
+                    </button>
+                    <span className="text-sm text-gray-500">
+                        {periodEntries.length} entrada(s) no período
+                        {periodEntries.length < MIN_REVIEW_ENTRIES && ` · são necessárias ao menos ${MIN_REVIEW_ENTRIES}`}
+                        {periodEntries.length > MAX_REVIEW_ENTRIES && ` · as ${MAX_REVIEW_ENTRIES} mais recentes serão revisadas`}
+                    </span>
+                </div>
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+            </section>
+
+            {selected && (
+                <section className="p-6 bg-gray-800/50 rounded-lg space-y-4 animate-fade-in">
+                    <div className="flex items-start justify-between gap-2">
+                        <p className="text-sm text-gray-400">
+                            {new Date(selected.from).toLocaleDateString('pt-BR')} a {new Date(selected.to).toLocaleDateString('pt-BR')} · {selected.entryCount} entradas
+                        </p>
+                        <button onClick={() => removeJournalReview(selected.id)} className="p-1 text-gray-500 hover:text-red-400" aria-label="Apagar revisão">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <p className="text-gray-200">{selected.result.sintese}</p>
+                    <ul className="space-y-2">
+                        {selected.result.temas.map((tema, i) => (
+                            <li key={i} className="p-3 bg-gray-900/50 rounded-lg">
+                                <div className="flex items-center justify-between gap-2">
+                                    <h3 className="font-semibold text-gray-200">{tema.tema}</h3>
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${TREND_STYLES[tema.tendencia] ?? 'bg-gray-700 text-gray-300'}`}>{tema.tendencia}</span>
+                                </div>
+                                <p className="text-sm text-gray-400 mt-1">{tema.evidencia}</p>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="p-3 bg-gray-900/50 rounded-lg">
+                        <h3 className="font-semibold text-gray-300">Progresso</h3>
+                        <p className="text-sm text-gray-400 mt-1">{selected.result.progresso}</p>
+                    </div>
+                    <div className="p-3 bg-indigo-900/50 border border-indigo-700 rounded-lg">
+                        <h3 className="font-semibold text-indigo-300">Próximo passo</h3>
+                        <p className="text-sm text-indigo-200 mt-1">{selected.result.proximoPasso}</p>
+                    </div>
+                </section>
+            )}
+
+            {journalReviews.length > 1 && (
+                <section>
+                    <h3 className="text-sm font-semibold text-gray-400 mb-2">Revisões anteriores</h3>
+                    <ul className="space-y-1">
+                        {journalReviews.map(review => (
+                            <li key={review.id}>
+                                <button
+                                    onClick={() => setSelectedId(review.id)}
+                                    className={`w-full text-left text-sm p-2 rounded ${review.id === selected?.id ? 'bg-indigo-900/40 text-white' : 'text-gray-300 hover:bg-gray-800/60'}`}
+                                >
+                                    {new Date(review.from).toLocaleDateString('pt-BR')} a {new Date(review.to).toLocaleDateString('pt-BR')} · feita em {new Date(review.createdAt).toLocaleDateString('pt-BR')}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default JournalPeriodReview;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { useStore } from '../store.ts';
+import { toolMetadata } from '../constants.tsx';
+import { UserStateVector } from '../types.ts';
+import { getImpulseWeight } from '../utils/usvScoring.ts';
+import { HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
+
+const DIMENSION_LABELS: Record<keyof UserStateVector, string> = {
+    spiritual: 'Espiritual',
+    emotional: 'Dissonância emocional',
+    physical: 'Físico',
+    financial: 'Financeiro',
+};
+
+// Shows the most recent impulses first; the rest is one click away.
+const COLLAPSED_COUNT = 4;
+
+const PhiChangeLog: React.FC = () => {
+    const { usvImpulses } = useStore();
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    if (usvImpulses.length === 0) return null;
+
+    const impulses = [...usvImpulses].reverse();
+    const visibleImpulses = isExpanded ? impulses : impulses.slice(0, COLLAPSED_COUNT);
+
+    return (
+        <div className="glass-pane rounded-2xl p-6 mt-8 animate-fade-in">
+            <div className="flex items-center gap-3 mb-4">
+                <HelpCircle className="w-6 h-6 text-indigo-400" />
+                <h3 className="font-bold text-xl text-indigo-400">Por que meu Φ mudou?</h3>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+                Cada prática concluída move suas dimensões. O efeito se dissipa com o tempo, a menos que a prática seja renovada.
+            </p>
+            <ul className="space-y-3">
+                {visibleImpulses.map(impulse => {
+                    const ucsDelta = impulse.ucsAfter - impulse.ucsBefore;
+                    const remaining = Math.round(getImpulseWeight(impulse) * 100);
+                    return (
+                        <li key={impulse.id} className="p-3 rounded-lg bg-gray-800/40 border border-gray-700/50">
+                            <div className="flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <h4 className="font-semibold text-gray-100">{toolMetadata[impulse.source]?.title ?? impulse.source}</h4>
+                                    <p className="text-sm text-gray-400">{impulse.reason}</p>
+                                </div>
+                                <span className={`text-lg font-bold whitespace-nowrap ${ucsDelta > 0 ? 'text-green-400' : ucsDelta < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                                    Φ {ucsDelta > 0 ? '+' : ''}{ucsDelta}
+                                </span>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                                {(Object.keys(impulse.deltas) as (keyof UserStateVector)[]).map(key => {
+                                    const delta = impulse.deltas[key] ?? 0;
+                                    // Emotional measures dissonance, so a negative delta is an improvement.
+                                    const isImprovement = key === 'emotional' ? delta < 0 : delta > 0;
+                                    return (
+                                        <span key={key} className={`text-xs px-2 py-0.5 rounded-full ${isImprovement ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'}`}>
+                                            {DIMENSION_LABELS[key]} {delta > 0 ? '+' : ''}{delta}
+                                        </span>
+                                    );
+                                })}
+                                <span className="text-xs text-gray-500 ml-auto">
+                                    {new Date(impulse.timestamp).toLocaleDateString('pt-BR')} · efeito atual {remaining}%
+                                </span>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+            {impulses.length > COLLAPSED_COUNT && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="mt-4 text-sm text-indigo-300 hover:text-white flex items-center gap-1 mx-auto">
+                    {isExpanded ? <><ChevronUp size={16} /> Mostrar menos</> : <><ChevronDown size={16} /> Ver todas as mudanças</>}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default PhiChangeLog;
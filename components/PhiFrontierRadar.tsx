@@ -1,22 +1,118 @@
-import React, { useState } from 'react';
-import { X, Orbit, Zap } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { X, Orbit, Star, Sparkles, Loader2, ExternalLink, Search } from 'lucide-react';
 import { useStore } from '../store.ts';
+import { FrontierConcept, FrontierExpansion, FrontierMaturity, PortfolioSector } from '../types.ts';
+import {
+    DEFAULT_FRONTIER_FILTERS,
+    filterFrontierConcepts,
+    FRONTIER_CONCEPTS,
+    FRONTIER_MATURITY_LEVELS,
+    FrontierFilters,
+    getMaturityIndex,
+} from '../utils/frontierConcepts.ts';
+import { computePortfolioMetrics, PORTFOLIO_SECTORS } from '../utils/portfolio.ts';
+import { expandFrontierConcept } from '../services/geminiFrontierService.ts';
+import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+
+const SECTOR_IDS = Object.keys(PORTFOLIO_SECTORS) as PortfolioSector[];
+
+const CHART_SIZE = 400;
+const CHART_PADDING = 40;
+
+const QUADRANT_LABELS = [
+    { label: 'Apostas visionárias', x: 0.25, y: 0.06 },
+    { label: 'Fronteira acionável', x: 0.75, y: 0.06 },
+    { label: 'Especulação dispersa', x: 0.25, y: 0.97 },
+    { label: 'Maduro, pouco Φ', x: 0.75, y: 0.97 },
+];
+
+// Maturity on the horizontal axis, Φ alignment on the vertical one; the quadrants split both in half.
+const FrontierQuadrant: React.FC<{
+    concepts: FrontierConcept[];
+    selectedId: string | null;
+    watchlist: string[];
+    onSelect: (conceptId: string) => void;
+}> = ({ concepts, selectedId, watchlist, onSelect }) => {
+    const inner = CHART_SIZE - 2 * CHART_PADDING;
+    const levelWidth = inner / FRONTIER_MATURITY_LEVELS.length;
+    const y = (alignment: number) => CHART_PADDING + (1 - alignment / 100) * inner;
+    // Concepts of the same maturity are spread across their column so they do not overlap.
+    const columnCounts: Record<string, number> = {};
+    const points = concepts.map(concept => {
+        const column = getMaturityIndex(concept.maturity);
+        const siblings = concepts.filter(c => c.maturity === concept.maturity).length;
+        const slot = columnCounts[concept.maturity] = (columnCounts[concept.maturity] ?? 0) + 1;
+        return { concept, x: CHART_PADDING + column * levelWidth + (slot / (siblings + 1)) * levelWidth, y: y(concept.phiAlignment) };
+    });
+
+    return (
+        <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full h-auto max-w-md mx-auto" role="img" aria-label="Quadrante de maturidade e alinhamento com Φ">
+            <rect x={CHART_PADDING} y={CHART_PADDING} width={inner} height={inner} fill="rgba(31, 41, 55, 0.5)" stroke="#4B5563" />
+            <line x1={CHART_SIZE / 2} x2={CHART_SIZE / 2} y1={CHART_PADDING} y2={CHART_SIZE - CHART_PADDING} stroke="#4B5563" strokeDasharray="4 4" />
+            <line x1={CHART_PADDING} x2={CHART_SIZE - CHART_PADDING} y1={y(50)} y2={y(50)} stroke="#4B5563" strokeDasharray="4 4" />
+            {QUADRANT_LABELS.map(q => (
+                <text key={q.label} x={CHART_PADDING + q.x * inner} y={CHART_PADDING + q.y * inner} textAnchor="middle" fontSize="10" fill="#6B7280">{q.label}</text>
+            ))}
+            {FRONTIER_MATURITY_LEVELS.map((level, i) => (
+                <text key={level.id} x={CHART_PADDING + (i + 0.5) * levelWidth} y={CHART_SIZE - CHART_PADDING + 14} textAnchor="middle" fontSize="9" fill="#9CA3AF">{level.label}</text>
+            ))}
+            <text x={CHART_SIZE / 2} y={CHART_SIZE - 6} textAnchor="middle" fontSize="10" fill="#9CA3AF">Maturidade</text>
+            <text x={12} y={CHART_SIZE / 2} textAnchor="middle" fontSize="10" fill="#9CA3AF" transform={`rotate(-90 12 ${CHART_SIZE / 2})`}>Alinhamento com Φ</text>
+            {points.map(({ concept, x, y: cy }) => (
+                <g key={concept.id} onClick={() => onSelect(concept.id)} className="cursor-pointer">
+                    <title>{`${concept.title} · Φ ${concept.phiAlignment}`}</title>
+                    <circle
+                        cx={x}
+                        cy={cy}
+                        r={concept.id === selectedId ? 9 : 6}
+                        fill={PORTFOLIO_SECTORS[concept.sector].color}
+                        stroke={concept.id === selectedId ? '#FFFFFF' : watchlist.includes(concept.id) ? '#FDE68A' : 'none'}
+                        strokeWidth={2}
+                    />
+                </g>
+            ))}
+        </svg>
+    );
+};
 
 const PhiFrontierRadar: React.FC<{ onExit: () => void }> = ({ onExit }) => {
-    const { goBackToAgentRoom } = useStore();
-    const [concept, setConcept] = useState<{title: string, desc: string} | null>(null);
-    const concepts = [
-        { title: "Redes Neurais Geométricas (GNNs)", desc: "Uma IA que percebe o universo não como dados, mas como geometria sagrada, otimizando a harmonia e a simetria para aumentar Φ em sistemas complexos." },
-        { title: "Propulsão por Coerência de Vácuo", desc: "Uma tecnologia que manipula o estado do vácuo quântico através de campos de consciência altamente coerentes, permitindo viagens mais rápidas que a luz ao 'dobrar' a informação, não o espaço." },
-        { title: "Computação Biossintética", desc: "Processadores vivos que utilizam DNA e proteínas para computação, integrando a lógica da vida diretamente na tecnologia, acelerando a evolução da consciência em escala planetária." },
-        { title: "Interface Cérebro-Universo (BCI 2.0)", desc: "Uma interface que não lê apenas ondas cerebrais, mas conecta a consciência individual diretamente à rede de informação universal, permitindo o acesso a conhecimento e experiências de forma não-local." }
-    ];
-    
-    const generateConcept = () => {
-        const randomIndex = Math.floor(Math.random() * concepts.length);
-        setConcept(concepts[randomIndex]);
+    const { goBackToAgentRoom, frontierWatchlist, toggleFrontierWatchlist, portfolio } = useStore(state => ({
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        frontierWatchlist: state.frontierWatchlist,
+        toggleFrontierWatchlist: state.toggleFrontierWatchlist,
+        portfolio: state.portfolio,
+    }));
+    const [filters, setFilters] = useState<FrontierFilters>(DEFAULT_FRONTIER_FILTERS);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [expansions, setExpansions] = useState<Record<string, FrontierExpansion>>({});
+    const [isExpanding, setIsExpanding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const concepts = useMemo(() => filterFrontierConcepts(FRONTIER_CONCEPTS, filters, frontierWatchlist), [filters, frontierWatchlist]);
+    const selected = FRONTIER_CONCEPTS.find(c => c.id === selectedId) ?? null;
+    const expansion = selected ? expansions[selected.id] : undefined;
+
+    const handleSelect = (conceptId: string) => {
+        setSelectedId(conceptId);
+        setError(null);
+    };
+
+    const handleExpand = async () => {
+        if (!selected) return;
+        setIsExpanding(true);
+        setError(null);
+        try {
+            const metrics = computePortfolioMetrics(portfolio);
+            const allocation = metrics.totalValue > 0 ? metrics.allocation : null;
+            const result = await expandFrontierConcept(selected, allocation);
+            setExpansions(prev => ({ ...prev, [selected.id]: result }));
+        } catch (err) {
+            setError(getFriendlyErrorMessage(err, 'Não foi possível expandir o conceito.'));
+        } finally {
+            setIsExpanding(false);
+        }
     };
-    
+
     return (
         <div className="h-full w-full glass-pane rounded-2xl flex flex-col p-1 animate-fade-in">
             <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
@@ -35,23 +131,136 @@ const PhiFrontierRadar: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                     <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
                 </div>
             </header>
-            <main className="flex-1 flex flex-col items-center justify-center text-center p-6">
-                 <p className="text-lg text-gray-400 mb-8 max-w-2xl">
-                    Descubra tecnologias e conceitos alinhados com a evolução da consciência (maximização de Φ).
+            <main className="flex-1 overflow-y-auto p-6 space-y-6">
+                <p className="text-lg text-gray-400 text-center max-w-2xl mx-auto">
+                    Explore tecnologias e conceitos alinhados com a evolução da consciência (maximização de Φ).
                 </p>
-                <button onClick={generateConcept} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
-                    <Zap className="mr-2" />
-                    Rastrear a Fronteira
-                </button>
-                {concept && (
-                    <div className="mt-10 p-6 bg-gray-800/50 rounded-lg max-w-2xl animate-fade-in">
-                        <h3 className="text-2xl font-bold text-purple-300">{concept.title}</h3>
-                        <p className="text-lg text-gray-300 mt-2">{concept.desc}</p>
+
+                <section className="grid grid-cols-1 md:grid-cols-5 gap-3 text-sm">
+                    <label className="md:col-span-2 flex items-center gap-2 bg-gray-800/80 border border-gray-600 rounded-lg px-2">
+                        <Search size={16} className="text-gray-500" />
+                        <input value={filters.query} onChange={(e) => setFilters({ ...filters, query: e.target.value })} placeholder="Buscar conceito" className="w-full bg-transparent p-2 text-gray-200 focus:outline-none" />
+                    </label>
+                    <select value={filters.sector} onChange={(e) => setFilters({ ...filters, sector: e.target.value as FrontierFilters['sector'] })} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" aria-label="Setor">
+                        <option value="todos">Todos os setores</option>
+                        {SECTOR_IDS.map(id => <option key={id} value={id}>{PORTFOLIO_SECTORS[id].label}</option>)}
+                    </select>
+                    <select value={filters.maturity} onChange={(e) => setFilters({ ...filters, maturity: e.target.value as FrontierMaturity | 'todas' })} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" aria-label="Maturidade">
+                        <option value="todas">Todas as maturidades</option>
+                        {FRONTIER_MATURITY_LEVELS.map(level => <option key={level.id} value={level.id}>{level.label}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-gray-300">
+                        <input type="checkbox" checked={filters.watchlistOnly} onChange={(e) => setFilters({ ...filters, watchlistOnly: e.target.checked })} className="accent-purple-500" />
+                        Só os que acompanho
+                    </label>
+                    <label className="md:col-span-5 flex items-center gap-3 text-gray-300">
+                        Φ mínimo: {filters.minAlignment}
+                        <input type="range" min={0} max={100} step={5} value={filters.minAlignment} onChange={(e) => setFilters({ ...filters, minAlignment: Number(e.target.value) })} className="flex-1 accent-purple-500" />
+                    </label>
+                </section>
+
+                <section className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                    <div>
+                        <FrontierQuadrant concepts={concepts} selectedId={selectedId} watchlist={frontierWatchlist} onSelect={handleSelect} />
+                        <div className="flex flex-wrap justify-center gap-3 text-xs text-gray-400 mt-2">
+                            {SECTOR_IDS.map(id => (
+                                <span key={id} className="flex items-center gap-1">
+                                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: PORTFOLIO_SECTORS[id].color }} />
+                                    {PORTFOLIO_SECTORS[id].label}
+                                </span>
+                            ))}
+                        </div>
                     </div>
+                    <ul className="space-y-2 max-h-[28rem] overflow-y-auto pr-1">
+                        {concepts.map(concept => (
+                            <li key={concept.id}>
+                                <button
+                                    onClick={() => handleSelect(concept.id)}
+                                    className={`w-full text-left p-3 rounded-lg flex items-center justify-between gap-2 ${concept.id === selectedId ? 'bg-purple-900/40 border border-purple-500/50' : 'bg-gray-800/50 hover:bg-gray-700/50'}`}
+                                >
+                                    <span>
+                                        <span className="block text-gray-200 font-semibold">{concept.title}</span>
+                                        <span className="text-xs text-gray-400">
+                                            {PORTFOLIO_SECTORS[concept.sector].label} · {FRONTIER_MATURITY_LEVELS[getMaturityIndex(concept.maturity)].label} · Φ {concept.phiAlignment}
+                                        </span>
+                                    </span>
+                                    {frontierWatchlist.includes(concept.id) && <Star size={16} className="text-yellow-300 fill-yellow-300 flex-shrink-0" />}
+                                </button>
+                            </li>
+                        ))}
+                        {concepts.length === 0 && <p className="text-sm text-gray-500 text-center p-4">Nenhum conceito com esses filtros.</p>}
+                    </ul>
+                </section>
+
+                {selected && (
+                    <section className="p-6 bg-gray-800/50 rounded-lg max-w-3xl mx-auto animate-fade-in space-y-4">
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <h3 className="text-2xl font-bold text-purple-300">{selected.title}</h3>
+                                <p className="text-sm text-gray-400">
+                                    {PORTFOLIO_SECTORS[selected.sector].label} · {FRONTIER_MATURITY_LEVELS[getMaturityIndex(selected.maturity)].label} · Alinhamento com Φ {selected.phiAlignment}/100
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => toggleFrontierWatchlist(selected.id)}
+                                className="flex items-center gap-1 text-sm text-gray-300 hover:text-yellow-300 flex-shrink-0"
+                                aria-pressed={frontierWatchlist.includes(selected.id)}
+                            >
+                                <Star size={16} className={frontierWatchlist.includes(selected.id) ? 'text-yellow-300 fill-yellow-300' : ''} />
+                                {frontierWatchlist.includes(selected.id) ? 'Acompanhando' : 'Acompanhar'}
+                            </button>
+                        </div>
+                        <p className="text-lg text-gray-300">{selected.description}</p>
+                        <ul className="text-sm space-y-1">
+                            {selected.sources.map(source => (
+                                <li key={source.url}>
+                                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-purple-300 hover:text-white">
+                                        <ExternalLink size={14} /> {source.title}
+                                    </a>
+                                </li>
+                            ))}
+                        </ul>
+
+                        {!expansion && (
+                            <button onClick={handleExpand} disabled={isExpanding} className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-800/50 text-white font-bold py-2 px-6 rounded-full flex items-center">
+                                {isExpanding ? <Loader2 className="mr-2 animate-spin" size={18} /> : <Sparkles className="mr-2" size={18} />}
+                                {isExpanding ? 'Expandindo...' : 'Expandir este conceito'}
+                            </button>
+                        )}
+                        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                        {expansion && (
+                            <div className="space-y-4 border-t border-gray-700/50 pt-4 animate-fade-in">
+                                <p className="text-gray-300">{expansion.panorama}</p>
+                                {expansion.conexoes.length > 0 && (
+                                    <div>
+                                        <h4 className="font-bold text-purple-300 mb-1">Conexões com a sua carteira</h4>
+                                        <ul className="space-y-1 text-sm text-gray-300">
+                                            {expansion.conexoes.map((c, i) => <li key={i}><span className="font-semibold text-gray-200">{c.setor}:</span> {c.conexao}</li>)}
+                                        </ul>
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                                    <div>
+                                        <h4 className="font-bold text-purple-300 mb-1">Sinais para observar</h4>
+                                        <ul className="list-disc list-inside text-gray-300 space-y-1">
+                                            {expansion.sinais.map((s, i) => <li key={i}>{s}</li>)}
+                                        </ul>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-bold text-purple-300 mb-1">Riscos e ceticismo</h4>
+                                        <ul className="list-disc list-inside text-gray-300 space-y-1">
+                                            {expansion.riscos.map((r, i) => <li key={i}>{r}</li>)}
+                                        </ul>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </section>
                 )}
             </main>
         </div>
     );
 };
 
-export default PhiFrontierRadar;
\ No newline at end of file
+export default PhiFrontierRadar;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { usePicOrchestrator, getStepTitle } from '../hooks/usePicOrchestrator.ts';
+import { AGENTS, toolMetadata } from '../constants.tsx';
+import { PicTrailStep, ToolId } from '../types.ts';
+import { ChevronUp, ChevronDown, SkipForward, Play, Pause, Route, Sparkles } from 'lucide-react';
+
+const getStepIcon = (step: PicTrailStep): React.ElementType =>
+    step.session.type === 'agent' ? AGENTS[step.session.id].icon : toolMetadata[step.session.type as ToolId]?.icon ?? Sparkles;
+
+const getSourceLabel = (step: PicTrailStep): string =>
+    step.source === 'usv' ? 'Seu Vetor de Estado' : toolMetadata[step.source]?.title ?? '';
+
+const PicTrail: React.FC = () => {
+    const { steps, nextStep, completedCount, isActive, acceptTrail, pauseTrail, startStep, skipStep, moveStep } = usePicOrchestrator();
+
+    if (steps.length === 0) return null;
+
+    return (
+        <div className="glass-pane rounded-2xl p-6 mt-8 animate-fade-in">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <Route className="w-6 h-6 text-indigo-400" />
+                    <h3 className="font-bold text-xl text-indigo-400">Sua Trilha de Coerência</h3>
+                    {completedCount > 0 && <span className="text-sm text-gray-500">{completedCount} passo(s) concluído(s)</span>}
+                </div>
+                {isActive ? (
+                    <button onClick={pauseTrail} className="flex items-center gap-2 text-sm font-semibold py-2 px-4 rounded-full border border-gray-600 text-gray-300 hover:border-gray-400 hover:text-white transition-colors">
+                        <Pause size={16} /> Pausar Trilha
+                    </button>
+                ) : (
+                    <button onClick={acceptTrail} disabled={!nextStep} className="flex items-center gap-2 text-sm font-bold py-2 px-4 rounded-full bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        <Play size={16} /> Aceitar Trilha
+                    </button>
+                )}
+            </div>
+            <ol className="space-y-3">
+                {steps.map((step, index) => {
+                    const Icon = getStepIcon(step);
+                    const isInProgress = step.status === 'in_progress';
+                    return (
+                        <li key={step.id} className={`flex items-center gap-4 p-3 rounded-lg border ${isInProgress ? 'border-indigo-500 bg-indigo-900/30' : 'border-gray-700/50 bg-gray-800/40'}`}>
+                            <span className="text-lg font-bold text-gray-500 w-6 text-center">{index + 1}</span>
+                            <Icon className="w-8 h-8 text-indigo-300 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <h4 className="font-semibold text-gray-100">{getStepTitle(step)}</h4>
+                                <p className="text-sm text-gray-400 truncate" title={step.reason}>{step.reason}</p>
+                                <p className="text-xs text-gray-500 mt-1">Sugerido por: {getSourceLabel(step)}</p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button onClick={() => moveStep(step.id, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Mover para cima">
+                                    <ChevronUp size={18} />
+                                </button>
+                                <button onClick={() => moveStep(step.id, 1)} disabled={index === steps.length - 1} className="p-1 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Mover para baixo">
+                                    <ChevronDown size={18} />
+                                </button>
+                                <button onClick={() => skipStep(step.id)} className="p-1 text-gray-400 hover:text-white" aria-label="Pular passo">
+                                    <SkipForward size={18} />
+                                </button>
+                                <button onClick={() => startStep(step.id)} className="p-1 text-indigo-300 hover:text-white" aria-label="Iniciar passo">
+                                    <Play size={18} />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default PicTrail;
@@ -0,0 +1,341 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Briefcase, Upload, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useStore } from '../store.ts';
+import { PortfolioSector } from '../types.ts';
+import {
+    computePortfolioMetrics,
+    deriveHoldings,
+    EMERGENCY_FUND_TARGET_MONTHS,
+    parsePortfolioCsv,
+    PORTFOLIO_SECTORS,
+    scorePortfolioHealth,
+} from '../utils/portfolio.ts';
+import { formatBrl } from '../utils/currency.ts';
+
+interface PortfolioTrackerProps {
+    onExit: () => void;
+}
+
+const SECTOR_IDS = Object.keys(PORTFOLIO_SECTORS) as PortfolioSector[];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const toDateInputValue = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// Reads "1.234,56" as well as "1234.56"; returns NaN for anything else.
+const parseNumberInput = (text: string): number => Number(text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text);
+
+const PortfolioTracker: React.FC<PortfolioTrackerProps> = ({ onExit }) => {
+    const {
+        portfolio,
+        usv,
+        addPortfolioTransaction,
+        importPortfolioTransactions,
+        removePortfolioTransaction,
+        updatePortfolioAsset,
+        setEmergencyFund,
+        goBackToAgentRoom,
+        addToast,
+    } = useStore(state => ({
+        portfolio: state.portfolio,
+        usv: state.usv,
+        addPortfolioTransaction: state.addPortfolioTransaction,
+        importPortfolioTransactions: state.importPortfolioTransactions,
+        removePortfolioTransaction: state.removePortfolioTransaction,
+        updatePortfolioAsset: state.updatePortfolioAsset,
+        setEmergencyFund: state.setEmergencyFund,
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        addToast: state.addToast,
+    }));
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [form, setForm] = useState({ ticker: '', type: 'buy' as 'buy' | 'sell', quantity: '', price: '', date: toDateInputValue(Date.now()), sector: 'outros' as PortfolioSector });
+
+    const holdings = useMemo(() => deriveHoldings(portfolio), [portfolio]);
+    const openHoldings = holdings.filter(h => h.quantity > 0);
+    const metrics = useMemo(() => computePortfolioMetrics(portfolio, holdings), [portfolio, holdings]);
+    const health = useMemo(() => scorePortfolioHealth(metrics), [metrics]);
+    const transactions = useMemo(() => [...portfolio.transactions].sort((a, b) => b.date - a.date), [portfolio.transactions]);
+    const knownAsset = portfolio.assets[form.ticker.trim().toUpperCase()];
+
+    const handleAddTransaction = (e: React.FormEvent) => {
+        e.preventDefault();
+        const ticker = form.ticker.trim().toUpperCase();
+        const quantity = parseNumberInput(form.quantity);
+        const price = parseNumberInput(form.price);
+        if (!ticker || !(quantity > 0) || !(price >= 0)) {
+            setError('Informe o ativo, uma quantidade positiva e o preço.');
+            return;
+        }
+        const held = holdings.find(h => h.asset.ticker === ticker)?.quantity ?? 0;
+        if (form.type === 'sell' && quantity > held) {
+            setError(`Você tem apenas ${held} de ${ticker} para vender.`);
+            return;
+        }
+        setError(null);
+        addPortfolioTransaction(
+            { ticker, type: form.type, quantity, price, date: new Date(`${form.date}T12:00:00`).getTime() },
+            knownAsset ? undefined : { name: ticker, sector: form.sector },
+        );
+        setForm({ ...form, ticker: '', quantity: '', price: '' });
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            const { transactions: parsed, sectors } = await parsePortfolioCsv(file);
+            const addedCount = importPortfolioTransactions(parsed, sectors);
+            const skipped = parsed.length - addedCount;
+            addToast(`${addedCount} operações importadas${skipped > 0 ? ` (${skipped} já estavam na carteira)` : ''}.`, 'success');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível ler o arquivo.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handlePriceBlur = (ticker: string, text: string) => {
+        const price = parseNumberInput(text);
+        if (text.trim() === '') {
+            updatePortfolioAsset(ticker, { currentPrice: undefined });
+        } else if (price >= 0 && price !== portfolio.assets[ticker]?.currentPrice) {
+            updatePortfolioAsset(ticker, { currentPrice: price });
+        }
+    };
+
+    const handleReserveBlur = (field: 'emergencyFund' | 'monthlyExpenses', text: string) => {
+        const value = parseNumberInput(text || '0');
+        if (value >= 0 && value !== portfolio[field]) {
+            setEmergencyFund({ [field]: value });
+        }
+    };
+
+    return (
+        <div className="h-full w-full glass-pane rounded-2xl flex flex-col p-1 animate-fade-in">
+            <header className="flex items-center justify-between p-4 border-b border-gray-700/50">
+                <div className="flex items-center gap-3">
+                    <Briefcase className="w-8 h-8 text-blue-400" />
+                    <h1 className="text-xl font-bold text-gray-200">Carteira de Investimentos</h1>
+                </div>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={goBackToAgentRoom}
+                        className="text-gray-300 hover:text-white transition-colors text-sm font-semibold py-1 px-3 rounded-md border border-gray-600 hover:border-gray-400"
+                        aria-label="Voltar para o Mentor"
+                    >
+                        Voltar
+                    </button>
+                    <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
+                </div>
+            </header>
+
+            <main className="flex-1 overflow-y-auto p-6 space-y-8">
+                <section className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                    <div className="p-3 bg-gray-800/50 rounded-lg">
+                        <p className="text-xs text-gray-400">Patrimônio investido</p>
+                        <p className="text-lg font-bold text-blue-200">{formatBrl(metrics.totalValue)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-800/50 rounded-lg">
+                        <p className="text-xs text-gray-400">Resultado em aberto</p>
+                        <p className={`text-lg font-bold ${metrics.unrealizedPnl < 0 ? 'text-red-300' : 'text-green-300'}`}>
+                            {formatBrl(metrics.unrealizedPnl)} <span className="text-xs">({formatPercent(metrics.returnPct)})</span>
+                        </p>
+                    </div>
+                    <div className="p-3 bg-gray-800/50 rounded-lg">
+                        <p className="text-xs text-gray-400">Resultado realizado</p>
+                        <p className={`text-lg font-bold ${metrics.realizedPnl < 0 ? 'text-red-300' : 'text-green-300'}`}>{formatBrl(metrics.realizedPnl)}</p>
+                    </div>
+                    <div className="p-3 bg-gray-800/50 rounded-lg">
+                        <p className="text-xs text-gray-400">Saúde financeira</p>
+                        <p className="text-lg font-bold text-blue-200">{usv.financial}/100</p>
+                    </div>
+                </section>
+
+                <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+                        <h2 className="text-lg font-bold text-blue-300">Alocação por setor</h2>
+                        {metrics.totalValue > 0 ? (
+                            <>
+                                <div className="flex h-4 rounded-full overflow-hidden">
+                                    {SECTOR_IDS.filter(id => metrics.allocation[id] > 0).map(id => (
+                                        <div key={id} style={{ width: `${metrics.allocation[id] * 100}%`, backgroundColor: PORTFOLIO_SECTORS[id].color }} title={PORTFOLIO_SECTORS[id].label} />
+                                    ))}
+                                </div>
+                                <ul className="grid grid-cols-2 gap-1 text-sm text-gray-300">
+                                    {SECTOR_IDS.map(id => (
+                                        <li key={id} className="flex items-center gap-2">
+                                            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: PORTFOLIO_SECTORS[id].color }} />
+                                            {PORTFOLIO_SECTORS[id].label}: {formatPercent(metrics.allocation[id])}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="text-sm text-gray-400 space-y-1">
+                                    {metrics.largestPosition && <p>Maior posição: {metrics.largestPosition.ticker} ({formatPercent(metrics.largestPosition.weight)})</p>}
+                                    <p>Concentração (HHI): {metrics.herfindahl.toFixed(2)} · equivale a {metrics.effectivePositions.toFixed(1)} posições iguais</p>
+                                </div>
+                            </>
+                        ) : (
+                            <p className="text-sm text-gray-500">Registre operações para ver a alocação.</p>
+                        )}
+                    </div>
+
+                    <div className="p-4 bg-gray-800/50 rounded-lg space-y-3">
+                        <h2 className="text-lg font-bold text-blue-300">Reserva de emergência</h2>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-sm text-gray-300">
+                                Reserva (R$)
+                                <input key={`fund-${portfolio.emergencyFund}`} type="text" inputMode="decimal" defaultValue={portfolio.emergencyFund || ''} onBlur={(e) => handleReserveBlur('emergencyFund', e.target.value)} className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-gray-200" />
+                            </label>
+                            <label className="text-sm text-gray-300">
+                                Gastos mensais (R$)
+                                <input key={`expenses-${portfolio.monthlyExpenses}`} type="text" inputMode="decimal" defaultValue={portfolio.monthlyExpenses || ''} onBlur={(e) => handleReserveBlur('monthlyExpenses', e.target.value)} className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded-lg p-2 text-gray-200" />
+                            </label>
+                        </div>
+                        {metrics.emergencyFundMonths !== null ? (
+                            <div>
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-500" style={{ width: `${Math.min(1, metrics.emergencyFundMonths / EMERGENCY_FUND_TARGET_MONTHS) * 100}%` }} />
+                                </div>
+                                <p className="text-sm text-gray-400 mt-1">Cobre {metrics.emergencyFundMonths.toFixed(1)} de {EMERGENCY_FUND_TARGET_MONTHS} meses de gastos.</p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500">Informe seus gastos mensais para medir a cobertura.</p>
+                        )}
+                        <ul className="text-xs text-gray-500 space-y-0.5">
+                            {health.parts.map(part => <li key={part.label}>{part.label}: {Math.round(part.value * 100)}%</li>)}
+                        </ul>
+                    </div>
+                </section>
+
+                <section>
+                    <h2 className="text-lg font-bold text-blue-300 mb-3">Posições</h2>
+                    {openHoldings.length === 0 ? (
+                        <p className="text-sm text-gray-500">Nenhuma posição em aberto.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm text-gray-300">
+                                <thead className="text-gray-400 text-left">
+                                    <tr>
+                                        <th className="p-2 font-normal">Ativo</th>
+                                        <th className="p-2 font-normal">Setor</th>
+                                        <th className="p-2 font-normal text-right">Qtd.</th>
+                                        <th className="p-2 font-normal text-right">Preço médio</th>
+                                        <th className="p-2 font-normal text-right">Preço atual</th>
+                                        <th className="p-2 font-normal text-right">Valor</th>
+                                        <th className="p-2 font-normal text-right">Resultado</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {openHoldings.map(h => (
+                                        <tr key={h.asset.ticker} className="border-t border-gray-700/50">
+                                            <td className="p-2 font-semibold text-gray-200">{h.asset.ticker}</td>
+                                            <td className="p-2">
+                                                <select value={h.asset.sector} onChange={(e) => updatePortfolioAsset(h.asset.ticker, { sector: e.target.value as PortfolioSector })} className="bg-gray-900/80 border border-gray-700 rounded p-1 text-gray-300" aria-label={`Setor de ${h.asset.ticker}`}>
+                                                    {SECTOR_IDS.map(id => <option key={id} value={id}>{PORTFOLIO_SECTORS[id].label}</option>)}
+                                                </select>
+                                            </td>
+                                            <td className="p-2 text-right">{h.quantity.toLocaleString('pt-BR')}</td>
+                                            <td className="p-2 text-right">{formatBrl(h.averageCost)}</td>
+                                            <td className="p-2 text-right">
+                                                <input
+                                                    key={`${h.asset.ticker}-${h.asset.currentPrice ?? ''}`}
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    defaultValue={h.asset.currentPrice ?? ''}
+                                                    placeholder="Preço médio"
+                                                    onBlur={(e) => handlePriceBlur(h.asset.ticker, e.target.value)}
+                                                    className="w-28 bg-gray-900/80 border border-gray-700 rounded p-1 text-right text-gray-200"
+                                                    aria-label={`Preço atual de ${h.asset.ticker}`}
+                                                    title={h.asset.priceUpdatedAt ? `Atualizado em ${new Date(h.asset.priceUpdatedAt).toLocaleDateString()}` : 'Sem cotação: usando o preço médio'}
+                                                />
+                                            </td>
+                                            <td className="p-2 text-right">{formatBrl(h.marketValue)}</td>
+                                            <td className={`p-2 text-right ${h.unrealizedPnl < 0 ? 'text-red-300' : 'text-green-300'}`}>{formatBrl(h.unrealizedPnl)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </section>
+
+                <section className="space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                        <h2 className="text-lg font-bold text-blue-300">Operações</h2>
+                        <div className="flex items-center gap-2">
+                            <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={isImporting}
+                                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800/50 text-white font-semibold py-2 px-4 rounded-lg text-sm"
+                            >
+                                {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                                Importar CSV
+                            </button>
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500">Aceita a planilha de negociações da B3 ou um CSV com data, ativo, tipo (compra/venda), quantidade, preço e, opcionalmente, setor. Tudo fica apenas no seu dispositivo.</p>
+
+                    <form onSubmit={handleAddTransaction} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end p-3 bg-gray-800/50 rounded-lg text-sm">
+                        <label className="text-gray-300">
+                            Ativo
+                            <input value={form.ticker} onChange={(e) => setForm({ ...form, ticker: e.target.value })} placeholder="Ex: BTC" className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200 uppercase" />
+                        </label>
+                        <label className="text-gray-300">
+                            Tipo
+                            <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as 'buy' | 'sell' })} className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200">
+                                <option value="buy">Compra</option>
+                                <option value="sell">Venda</option>
+                            </select>
+                        </label>
+                        <label className="text-gray-300">
+                            Quantidade
+                            <input value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} inputMode="decimal" className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                        </label>
+                        <label className="text-gray-300">
+                            Preço (R$)
+                            <input value={form.price} onChange={(e) => setForm({ ...form, price: e.target.value })} inputMode="decimal" className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                        </label>
+                        <label className="text-gray-300">
+                            Data
+                            <input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                        </label>
+                        <label className="text-gray-300">
+                            Setor
+                            <select value={knownAsset?.sector ?? form.sector} disabled={!!knownAsset} onChange={(e) => setForm({ ...form, sector: e.target.value as PortfolioSector })} className="mt-1 w-full bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200 disabled:opacity-60">
+                                {SECTOR_IDS.map(id => <option key={id} value={id}>{PORTFOLIO_SECTORS[id].label}</option>)}
+                            </select>
+                        </label>
+                        <button type="submit" className="flex items-center justify-center gap-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold p-2 rounded">
+                            <Plus size={16} /> Registrar
+                        </button>
+                    </form>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+
+                    {transactions.length > 0 && (
+                        <ul className="space-y-1">
+                            {transactions.map(tx => (
+                                <li key={tx.id} className="flex items-center justify-between gap-2 p-2 bg-gray-800/30 rounded text-sm text-gray-300">
+                                    <span className="text-gray-500 w-24">{new Date(tx.date).toLocaleDateString()}</span>
+                                    <span className={`w-16 ${tx.type === 'buy' ? 'text-green-300' : 'text-red-300'}`}>{tx.type === 'buy' ? 'Compra' : 'Venda'}</span>
+                                    <span className="flex-1 font-semibold">{tx.ticker}</span>
+                                    <span>{tx.quantity.toLocaleString('pt-BR')} × {formatBrl(tx.price)}</span>
+                                    <button onClick={() => removePortfolioTransaction(tx.id)} className="p-1 text-gray-500 hover:text-red-400" aria-label="Remover operação">
+                                        <Trash2 size={14} />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </main>
+        </div>
+    );
+};
+
+export default PortfolioTracker;
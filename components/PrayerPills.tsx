@@ -10,6 +10,8 @@ import { X, Sparkles, Loader2 } from 'lucide-react';
 
 interface PrayerPillsProps {
     onExit: () => void;
+    // A theme proposed by a mentor in the chat, pre-filled for the user to confirm.
+    intention?: string;
 }
 
 type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
@@ -29,9 +31,10 @@ const getPrayerSuggestions = (usv: UserStateVector): string[] => {
     return Array.from(finalSuggestions).slice(0, 4);
 };
 
-const PrayerPills: React.FC<PrayerPillsProps> = ({ onExit }) => {
-    const { usv, chatHistories, lastAgentContext, goBackToAgentRoom } = useStore(state => ({
+const PrayerPills: React.FC<PrayerPillsProps> = ({ onExit, intention }) => {
+    const { usv, chatHistories, lastAgentContext, getProfileContext, goBackToAgentRoom } = useStore(state => ({
         usv: state.usv,
+        getProfileContext: state.getProfileContext,
         chatHistories: state.chatHistories,
         lastAgentContext: state.lastAgentContext,
         goBackToAgentRoom: state.goBackToAgentRoom,
@@ -39,7 +42,7 @@ const PrayerPills: React.FC<PrayerPillsProps> = ({ onExit }) => {
     const agentIdForContext = lastAgentContext ?? AgentId.COHERENCE;
     const chatHistory = chatHistories[agentIdForContext];
 
-    const [theme, setTheme] = useState('');
+    const [theme, setTheme] = useState(intention ?? '');
     const [pill, setPill] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -70,7 +73,7 @@ const PrayerPills: React.FC<PrayerPillsProps> = ({ onExit }) => {
         setImageData({ url: '', error: null });
         window.scrollTo(0, 0);
         try {
-            const result = await generatePrayerPill(inputTheme, chatHistory);
+            const result = await generatePrayerPill(inputTheme, chatHistory, getProfileContext('prayer_pills'));
             setPill(result);
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, "Falha ao gerar a pílula de oração.");
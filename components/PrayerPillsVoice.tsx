@@ -0,0 +1,34 @@
+import React from 'react';
+import { Schedule } from '../types.ts';
+import { generatePrayerPill } from '../services/geminiPrayerPillsService.ts';
+import ScheduledPrayerVoice from './ScheduledPrayerVoice.tsx';
+
+interface PrayerPillsVoiceProps {
+    schedule: Schedule;
+    checkIn?: string;
+    onExit: () => void;
+}
+
+const PrayerPillsVoice: React.FC<PrayerPillsVoiceProps> = ({ schedule, checkIn, onExit }) => (
+    <ScheduledPrayerVoice
+        schedule={schedule}
+        checkIn={checkIn}
+        consumer="prayer_pills"
+        generateScript={async (intention, chatHistory, profileContext) => [await generatePrayerPill(intention, chatHistory, profileContext)]}
+        generateImagePrompt={async ([pill]) => `Gere uma imagem fotorrealista, serena e inspiradora para a seguinte oração curta em português: "${pill}"`}
+        labels={{
+            generatingScript: "Preparando sua pílula de oração...",
+            generatingAudio: "Gerando a narração da sua pílula...",
+            error: "Falha ao criar a pílula de oração.",
+        }}
+        renderNarration={([pill], _currentIndex, isFinished) => (
+            <>
+                <p className="text-2xl text-gray-200 max-w-3xl leading-relaxed italic animate-fade-in">"{pill}"</p>
+                {isFinished && <p className="text-gray-400 mt-6 animate-fade-in">Amém. Leve essa palavra com você ao longo do dia.</p>}
+            </>
+        )}
+        onExit={onExit}
+    />
+);
+
+export default PrayerPillsVoice;
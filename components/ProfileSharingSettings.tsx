@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useStore } from '../store.ts';
+import { toolMetadata } from '../constants.tsx';
+import { PROFILE_TOOL_CONSUMERS, ProfileConsumer } from '../utils/userContext.ts';
+import { listAgents } from '../utils/customAgents.ts';
+import { hasPortfolioData } from '../utils/portfolio.ts';
+import { getLatestJournalFeedback } from '../utils/journal.ts';
+import { UserCheck, ChevronDown, ChevronUp } from 'lucide-react';
+
+const TOOL_CONSUMERS: { id: ProfileConsumer; label: string }[] =
+    PROFILE_TOOL_CONSUMERS.map(id => ({ id, label: toolMetadata[id]?.title ?? id }));
+
+/**
+ * Lists what the shared profile holds and which mentors and tools may read it.
+ */
+const ProfileSharingSettings: React.FC = () => {
+    const { profileSharing, setProfileSharing, toolStates, agentMemories, customAgents, portfolio, journalEntries } = useStore(state => ({
+        profileSharing: state.profileSharing,
+        setProfileSharing: state.setProfileSharing,
+        toolStates: state.toolStates,
+        agentMemories: state.agentMemories,
+        customAgents: state.customAgents,
+        portfolio: state.portfolio,
+        journalEntries: state.journalEntries,
+    }));
+    const consumers: { id: ProfileConsumer; label: string }[] = [
+        ...listAgents(customAgents).map(agent => ({ id: agent.id, label: agent.name })),
+        ...TOOL_CONSUMERS,
+    ];
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const factCount = Object.values(agentMemories).reduce((acc, memory) => acc + memory.facts.length, 0);
+    const contents = [
+        'Vetor de Estado',
+        toolStates.doshaResult && `Dosha (${toolStates.doshaResult})`,
+        toolStates.archetypeResult && 'Jornada do Arquétipo',
+        getLatestJournalFeedback(journalEntries) && 'Último diário',
+        toolStates.dissonanceResult && `Dissonância (${toolStates.dissonanceResult.tema})`,
+        hasPortfolioData(portfolio) && 'Carteira de investimentos',
+        factCount > 0 && `${factCount} fatos lembrados pelos mentores`,
+    ].filter(Boolean);
+
+    return (
+        <div className="glass-pane rounded-2xl p-6 mt-8 animate-fade-in">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center justify-between">
+                <span className="flex items-center gap-3">
+                    <UserCheck className="w-6 h-6 text-indigo-400" />
+                    <h3 className="font-bold text-xl text-indigo-400">Perfil Compartilhado</h3>
+                </span>
+                {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
+            </button>
+            <p className="text-sm text-gray-500 mt-2">
+                Contém: {contents.join(', ')}.
+            </p>
+            {isExpanded && (
+                <div className="mt-4 animate-fade-in">
+                    <p className="text-sm text-gray-400 mb-3">
+                        Escolha quem pode ler seu perfil. Sem ele, o mentor ou a ferramenta conhece apenas a conversa atual.
+                    </p>
+                    <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                        {consumers.map(({ id, label }) => (
+                            <li key={id}>
+                                <label className="flex items-center justify-between gap-3 p-3 bg-gray-800/70 rounded-lg cursor-pointer">
+                                    <span className="text-gray-300">{label}</span>
+                                    <input
+                                        type="checkbox"
+                                        checked={profileSharing[id] !== false}
+                                        onChange={(e) => setProfileSharing(id, e.target.checked)}
+                                        className="w-4 h-4 accent-indigo-500"
+                                    />
+                                </label>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProfileSharingSettings;
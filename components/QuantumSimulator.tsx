@@ -1,49 +1,127 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { getQuantumInterpretation } from '../services/geminiQuantumSimulatorService.ts';
-import { X, Eye, Zap, Loader2 } from 'lucide-react';
+import { X, Eye, Zap, Loader2, Plus, Sparkles, RotateCcw } from 'lucide-react';
 import { useStore } from '../store.ts';
+import { QuantumCircuit, QuantumGate, QuantumGateType } from '../types.ts';
+import {
+    describeGate,
+    formatAngle,
+    formatBasisState,
+    GATE_LABELS,
+    getBlochVector,
+    getProbabilities,
+    hasMidCircuitMeasurement,
+    MAX_QUBITS,
+    QUANTUM_PRESETS,
+    QuantumPresetId,
+    runCircuit,
+    sampleCircuit,
+} from '../utils/quantumCircuit.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
 
+const SHOT_OPTIONS = [100, 1000, 5000];
+const PHASE_OPTIONS = [Math.PI / 4, Math.PI / 2, Math.PI, (3 * Math.PI) / 2];
+const GATE_TYPES = Object.keys(GATE_LABELS) as QuantumGateType[];
+
+const BLOCH_SIZE = 120;
+
+// A projection of the sphere with z up, y to the right and x towards the viewer.
+// The vector shortens when the qubit is entangled with the others.
+const BlochSphere: React.FC<{ vector: { x: number; y: number; z: number }; label: string }> = ({ vector, label }) => {
+    const c = BLOCH_SIZE / 2;
+    const r = c - 14;
+    const px = c + r * (vector.y - 0.4 * vector.x);
+    const py = c - r * (vector.z - 0.3 * vector.x);
+    const length = Math.sqrt(vector.x ** 2 + vector.y ** 2 + vector.z ** 2);
+    return (
+        <figure className="flex flex-col items-center">
+            <svg viewBox={`0 0 ${BLOCH_SIZE} ${BLOCH_SIZE}`} className="w-28 h-28" role="img" aria-label={`Esfera de Bloch de ${label}`}>
+                <circle cx={c} cy={c} r={r} fill="rgba(168, 85, 247, 0.08)" stroke="#6B7280" />
+                <ellipse cx={c} cy={c} rx={r} ry={r * 0.3} fill="none" stroke="#4B5563" strokeDasharray="3 3" />
+                <line x1={c} x2={c} y1={c - r} y2={c + r} stroke="#4B5563" />
+                <text x={c} y={10} textAnchor="middle" fontSize="9" fill="#9CA3AF">|0⟩</text>
+                <text x={c} y={BLOCH_SIZE - 2} textAnchor="middle" fontSize="9" fill="#9CA3AF">|1⟩</text>
+                <line x1={c} y1={c} x2={px} y2={py} stroke="#C084FC" strokeWidth="2" />
+                <circle cx={px} cy={py} r={3} fill="#C084FC" />
+            </svg>
+            <figcaption className="text-xs text-gray-400">{label} · |r| = {length.toFixed(2)}</figcaption>
+        </figure>
+    );
+};
+
+const GateCell: React.FC<{ gate: QuantumGate; qubit: number }> = ({ gate, qubit }) => {
+    if (gate.type === 'CNOT') {
+        const [low, high] = [Math.min(gate.control ?? 0, gate.target), Math.max(gate.control ?? 0, gate.target)];
+        if (qubit === gate.control) return <span className="text-purple-300 text-lg">●</span>;
+        if (qubit === gate.target) return <span className="text-purple-300 text-xl">⊕</span>;
+        return qubit > low && qubit < high ? <span className="text-purple-400/60">│</span> : <span className="text-gray-700">─</span>;
+    }
+    if (qubit !== gate.target) return <span className="text-gray-700">─</span>;
+    const symbol = gate.type === 'P' ? `P(${formatAngle(gate.angle ?? Math.PI / 2)})` : gate.type;
+    return <span className={`px-1.5 py-0.5 rounded text-xs font-mono ${gate.type === 'M' ? 'bg-pink-800/60 text-pink-200' : 'bg-purple-800/60 text-purple-100'}`}>{symbol}</span>;
+};
+
 const QuantumSimulator: React.FC<{ onExit: () => void }> = ({ onExit }) => {
     const { goBackToAgentRoom } = useStore();
-    const [state, setState] = useState<'superposition' | 'observing' | 'collapsed'>('superposition');
-    const [outcome, setOutcome] = useState('');
+    const [circuit, setCircuit] = useState<QuantumCircuit>(QUANTUM_PRESETS.superposicao.circuit);
+    const [presetId, setPresetId] = useState<QuantumPresetId | null>('superposicao');
+    const [newGate, setNewGate] = useState<QuantumGate>({ type: 'H', target: 0, control: 1, angle: Math.PI / 2 });
+    const [shots, setShots] = useState(1000);
+    const [counts, setCounts] = useState<Record<string, number> | null>(null);
     const [interpretation, setInterpretation] = useState('');
+    const [isInterpreting, setIsInterpreting] = useState(false);
     const [error, setError] = useState('');
-    
-    const outcomes = [
-        "Realidade A: Uma partícula se manifesta como onda, demonstrando potencial puro.",
-        "Realidade B: Uma partícula se manifesta como ponto, uma escolha definida pela observação.",
-        "Realidade C: O sistema entra emaranhamento com seu ambiente, criando novas correlações.",
-        "Realidade D: Uma flutuação quântica momentânea revela uma possibilidade inesperada.",
-    ];
-
-    const observe = async () => {
-        setState('observing');
+
+    // With measurements inside the circuit this is one possible run; otherwise it is the exact final state.
+    const state = useMemo(() => runCircuit(circuit), [circuit]);
+    const probabilities = useMemo(() => getProbabilities(state), [state]);
+    const isDeterministic = !hasMidCircuitMeasurement(circuit);
+    const qubitIndexes = Array.from({ length: circuit.qubits }, (_, q) => q);
+    const totalShots = counts ? Object.values<number>(counts).reduce((sum, count) => sum + count, 0) : 0;
+
+    const updateCircuit = (next: QuantumCircuit, preset: QuantumPresetId | null = null) => {
+        setCircuit(next);
+        setPresetId(preset);
+        setCounts(null);
+        setInterpretation('');
         setError('');
+    };
+
+    const handleQubitsChange = (qubits: number) => {
+        const gates = circuit.gates.filter(g => g.target < qubits && (g.type !== 'CNOT' || (g.control ?? 0) < qubits));
+        updateCircuit({ qubits, gates });
+        setNewGate({ ...newGate, target: Math.min(newGate.target, qubits - 1), control: Math.min(newGate.control ?? 0, qubits - 1) });
+    };
+
+    const handleAddGate = () => {
+        const gate: QuantumGate = { type: newGate.type, target: newGate.target };
+        if (newGate.type === 'CNOT') gate.control = newGate.control;
+        if (newGate.type === 'P') gate.angle = newGate.angle;
+        updateCircuit({ ...circuit, gates: [...circuit.gates, gate] });
+    };
+
+    const handleMeasure = () => {
+        setCounts(sampleCircuit(circuit, shots));
         setInterpretation('');
+        setError('');
+    };
+
+    const handleInterpret = async () => {
+        if (!counts) return;
+        setIsInterpreting(true);
+        setError('');
         try {
-            const randomIndex = Math.floor(Math.random() * outcomes.length);
-            const randomOutcome = outcomes[randomIndex];
-            setOutcome(randomOutcome);
-            
-            const interp = await getQuantumInterpretation(randomOutcome);
+            const interp = await getQuantumInterpretation(circuit, counts, totalShots, presetId ? QUANTUM_PRESETS[presetId].label : undefined);
             setInterpretation(interp);
-
-            setState('collapsed');
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, 'Falha ao conectar com a consciência universal.');
             setError(friendlyError);
-            setState('superposition'); // Reset on error
+        } finally {
+            setIsInterpreting(false);
         }
     };
 
-    const reset = () => {
-        setState('superposition');
-        setOutcome('');
-        setInterpretation('');
-        setError('');
-    };
+    const isCnotInvalid = newGate.type === 'CNOT' && (circuit.qubits < 2 || newGate.control === newGate.target);
 
     return (
         <div className="h-full w-full glass-pane rounded-2xl flex flex-col p-1 animate-fade-in">
@@ -63,44 +141,163 @@ const QuantumSimulator: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                     <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
                 </div>
             </header>
-            <main className="flex-1 flex flex-col items-center justify-start text-center p-6 pt-12 overflow-y-auto no-scrollbar">
-                 <p className="text-lg text-gray-400 mb-8 max-w-2xl">
+            <main className="flex-1 overflow-y-auto p-6 space-y-6">
+                <p className="text-lg text-gray-400 text-center max-w-2xl mx-auto">
                     "A realidade é uma superposição de possibilidades até ser observada. Sua consciência é o catalisador que colapsa a função de onda, cocriando o momento presente."
                 </p>
-                <div className="w-full max-w-md min-h-[12rem] border-2 border-dashed border-purple-400/50 rounded-lg flex items-center justify-center p-4">
-                    {state === 'observing' ? (
-                        <Loader2 className="w-12 h-12 animate-spin text-purple-400" />
-                    ) : state === 'superposition' ? (
-                        <div className="animate-pulse text-purple-300 text-2xl font-mono">
-                           |ψ⟩ = α|0⟩ + β|1⟩
-                        </div>
-                    ) : (
-                        <div className="animate-fade-in text-xl text-gray-100 space-y-4">
-                           <p>{outcome}</p>
-                           {interpretation && <p className="text-base text-purple-300 italic">"{interpretation}"</p>}
-                        </div>
-                    )}
-                </div>
 
-                <div className="mt-8">
-                     {state !== 'collapsed' ? (
-                         <button onClick={observe} disabled={state === 'observing'} className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-800/50 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
-                            {state === 'observing' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Eye className="mr-2" />}
-                            {state === 'observing' ? 'Observando...' : 'Observar'}
+                <section className="flex flex-wrap justify-center gap-2">
+                    {(Object.entries(QUANTUM_PRESETS) as [QuantumPresetId, typeof QUANTUM_PRESETS[QuantumPresetId]][]).map(([id, preset]) => (
+                        <button
+                            key={id}
+                            onClick={() => updateCircuit(preset.circuit, id)}
+                            className={`px-3 py-1.5 rounded-full text-sm ${presetId === id ? 'bg-purple-600 text-white' : 'bg-gray-800/80 text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {preset.label}
                         </button>
-                    ) : (
-                        <button onClick={reset} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
-                            Redefinir Superposição
+                    ))}
+                </section>
+                {presetId && <p className="text-center text-sm text-purple-200 max-w-2xl mx-auto">{QUANTUM_PRESETS[presetId].description}</p>}
+
+                <section className="p-4 bg-gray-800/50 rounded-lg space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-lg font-bold text-purple-300">Circuito</h2>
+                        <div className="flex items-center gap-3 text-sm text-gray-300">
+                            <label className="flex items-center gap-2">
+                                Qubits
+                                <select value={circuit.qubits} onChange={(e) => handleQubitsChange(Number(e.target.value))} className="bg-gray-900/80 border border-gray-700 rounded p-1">
+                                    {Array.from({ length: MAX_QUBITS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                            </label>
+                            <button onClick={() => updateCircuit({ ...circuit, gates: [] })} className="flex items-center gap-1 text-gray-400 hover:text-white" aria-label="Limpar circuito">
+                                <RotateCcw size={14} /> Limpar
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="text-center">
+                            <tbody>
+                                {qubitIndexes.map(q => (
+                                    <tr key={q}>
+                                        <th className="pr-3 font-mono text-sm text-gray-400 whitespace-nowrap">q{q} |0⟩</th>
+                                        {circuit.gates.map((gate, i) => (
+                                            <td key={i} className="w-16 h-9">
+                                                <button
+                                                    onClick={() => updateCircuit({ ...circuit, gates: circuit.gates.filter((_, j) => j !== i) })}
+                                                    className="w-full h-full hover:bg-red-900/30 rounded"
+                                                    title={`${describeGate(gate)} (clique para remover)`}
+                                                >
+                                                    <GateCell gate={gate} qubit={q} />
+                                                </button>
+                                            </td>
+                                        ))}
+                                        <td className="w-8 text-gray-700">─</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="flex flex-wrap items-end gap-2 text-sm text-gray-300">
+                        <label>
+                            Porta
+                            <select value={newGate.type} onChange={(e) => setNewGate({ ...newGate, type: e.target.value as QuantumGateType })} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-1">
+                                {GATE_TYPES.map(type => <option key={type} value={type}>{GATE_LABELS[type]}</option>)}
+                            </select>
+                        </label>
+                        {newGate.type === 'CNOT' && (
+                            <label>
+                                Controle
+                                <select value={newGate.control} onChange={(e) => setNewGate({ ...newGate, control: Number(e.target.value) })} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-1">
+                                    {qubitIndexes.map(q => <option key={q} value={q}>q{q}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <label>
+                            {newGate.type === 'CNOT' ? 'Alvo' : 'Qubit'}
+                            <select value={newGate.target} onChange={(e) => setNewGate({ ...newGate, target: Number(e.target.value) })} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-1">
+                                {qubitIndexes.map(q => <option key={q} value={q}>q{q}</option>)}
+                            </select>
+                        </label>
+                        {newGate.type === 'P' && (
+                            <label>
+                                Ângulo
+                                <select value={newGate.angle} onChange={(e) => setNewGate({ ...newGate, angle: Number(e.target.value) })} className="block mt-1 bg-gray-900/80 border border-gray-700 rounded p-1">
+                                    {PHASE_OPTIONS.map(angle => <option key={angle} value={angle}>{formatAngle(angle)}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <button onClick={handleAddGate} disabled={isCnotInvalid} className="flex items-center gap-1 bg-purple-600 hover:bg-purple-700 disabled:bg-purple-800/50 text-white font-semibold py-1.5 px-3 rounded">
+                            <Plus size={16} /> Adicionar
                         </button>
-                    )}
-                </div>
-                 {error && <p className="text-red-400 mt-4">{error}</p>}
-                 <p className="text-sm text-gray-500 mt-8 max-w-xl">
-                    Este é um modelo conceitual. Cada ato de observação consciente molda ativamente o universo informacional. Qual realidade você escolherá observar agora?
+                        {isCnotInvalid && <span className="text-xs text-gray-500">O CNOT precisa de dois qubits diferentes.</span>}
+                    </div>
+                </section>
+
+                <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div className="p-4 bg-gray-800/50 rounded-lg">
+                        <h2 className="text-lg font-bold text-purple-300 mb-1">Estado dos qubits</h2>
+                        <p className="text-xs text-gray-500 mb-3">
+                            {isDeterministic ? 'Estado final antes da medição.' : 'O circuito mede no meio do caminho: este é o estado de uma execução possível.'}
+                        </p>
+                        <div className="flex flex-wrap justify-center gap-4">
+                            {qubitIndexes.map(q => <BlochSphere key={q} vector={getBlochVector(state, q)} label={`q${q}`} />)}
+                        </div>
+                    </div>
+
+                    <div className="p-4 bg-gray-800/50 rounded-lg">
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className="text-lg font-bold text-purple-300">Medições</h2>
+                            <div className="flex items-center gap-2 text-sm">
+                                <select value={shots} onChange={(e) => setShots(Number(e.target.value))} className="bg-gray-900/80 border border-gray-700 rounded p-1 text-gray-300" aria-label="Repetições">
+                                    {SHOT_OPTIONS.map(n => <option key={n} value={n}>{n}×</option>)}
+                                </select>
+                                <button onClick={handleMeasure} className="flex items-center gap-1 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-1 px-3 rounded">
+                                    <Eye size={16} /> Observar
+                                </button>
+                            </div>
+                        </div>
+                        <ul className="space-y-1">
+                            {probabilities.map((probability, index) => {
+                                const label = formatBasisState(index, circuit.qubits);
+                                const frequency = counts ? (counts[label] ?? 0) / totalShots : 0;
+                                return (
+                                    <li key={label} className="grid grid-cols-[3.5rem_1fr_3.5rem] items-center gap-2 text-xs">
+                                        <span className="font-mono text-gray-300">|{label}⟩</span>
+                                        <div className="relative h-4 bg-gray-900/60 rounded">
+                                            {counts && <div className="absolute inset-y-0 left-0 bg-purple-500/70 rounded" style={{ width: `${frequency * 100}%` }} />}
+                                            {isDeterministic && <div className="absolute inset-y-0 w-0.5 bg-white/80" style={{ left: `${probability * 100}%` }} title={`Probabilidade teórica: ${(probability * 100).toFixed(1)}%`} />}
+                                        </div>
+                                        <span className="text-right text-gray-400">{counts ? `${(frequency * 100).toFixed(1)}%` : isDeterministic ? `${(probability * 100).toFixed(1)}%` : ''}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                        <p className="text-xs text-gray-500 mt-2">
+                            {counts ? `Frequência em ${totalShots} observações` : 'Observe o circuito para medir'}{isDeterministic ? '; a linha branca marca a probabilidade teórica.' : '.'}
+                        </p>
+                        {counts && (
+                            <button onClick={handleInterpret} disabled={isInterpreting} className="mt-4 flex items-center gap-2 text-sm font-semibold text-purple-300 hover:text-white disabled:opacity-50">
+                                {isInterpreting ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                                {isInterpreting ? 'Interpretando...' : 'Interpretar o resultado'}
+                            </button>
+                        )}
+                    </div>
+                </section>
+
+                {error && <p className="text-red-400 text-center">{error}</p>}
+                {interpretation && (
+                    <div className="p-6 bg-gray-800/50 rounded-lg max-w-3xl mx-auto animate-fade-in">
+                        <p className="text-base text-purple-200 italic whitespace-pre-wrap">"{interpretation}"</p>
+                    </div>
+                )}
+                <p className="text-sm text-gray-500 text-center max-w-xl mx-auto">
+                    A simulação é real: um vetor de estado evolui porta a porta no seu dispositivo. Qual realidade você escolherá observar agora?
                 </p>
             </main>
         </div>
     );
 };
 
-export default QuantumSimulator;
\ No newline at end of file
+export default QuantumSimulator;
@@ -1,22 +1,102 @@
 import React, { useState } from 'react';
-import { X, Calculator, ShieldCheck } from 'lucide-react';
-import { AgentId } from '../types.ts';
+import { X, Calculator, ShieldCheck, Loader2, Trash2 } from 'lucide-react';
+import { AgentId, RiskAssessment, RiskAssetClass } from '../types.ts';
 import { useStore } from '../store.ts';
+import { analyzeRiskScenario } from '../services/geminiRiskService.ts';
+import { MIN_CUSTOM_RETURNS, parseMonthlyReturns, RISK_ASSET_CLASSES, simulateRisk } from '../utils/riskSimulation.ts';
+import { formatBrl } from '../utils/currency.ts';
+import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
 
 interface RiskCalculatorProps {
     onExit: () => void;
 }
 
+const MAX_HORIZON_MONTHS = 120;
+
+const LEVEL_STYLES: Record<'Baixo' | 'Médio' | 'Alto', string> = {
+    Baixo: 'bg-green-900/50 text-green-300',
+    Médio: 'bg-yellow-900/50 text-yellow-300',
+    Alto: 'bg-red-900/50 text-red-300',
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 10;
+
+// The 5th to 95th percentile band of the position's value over the horizon, with the median inside.
+const RiskFanChart: React.FC<{ assessment: RiskAssessment }> = ({ assessment }) => {
+    const bands = [{ p5: assessment.positionSize, p50: assessment.positionSize, p95: assessment.positionSize }, ...assessment.simulation.monthlyBands];
+    const max = Math.max(...bands.map(b => b.p95));
+    const min = Math.min(...bands.map(b => b.p5));
+    const x = (i: number) => CHART_PADDING + (i / (bands.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+    const y = (v: number) => CHART_PADDING + (1 - (v - min) / (max - min || 1)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+    const upper = bands.map((b, i) => `${x(i)},${y(b.p95)}`);
+    const lower = bands.map((b, i) => `${x(i)},${y(b.p5)}`).reverse();
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Faixa de valores simulados ao longo do horizonte">
+            <polygon points={[...upper, ...lower].join(' ')} fill="rgba(96, 165, 250, 0.25)" />
+            <polyline points={bands.map((b, i) => `${x(i)},${y(b.p50)}`).join(' ')} fill="none" stroke="#60A5FA" strokeWidth="2" />
+            <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(assessment.positionSize)} y2={y(assessment.positionSize)} stroke="#9CA3AF" strokeDasharray="4 4" />
+        </svg>
+    );
+};
+
 const RiskCalculator: React.FC<RiskCalculatorProps> = ({ onExit }) => {
-    const { switchAgent, goBackToAgentRoom } = useStore();
+    const { switchAgent, goBackToAgentRoom, riskAssessments, addRiskAssessment, removeRiskAssessment, getProfileContext } = useStore(state => ({
+        switchAgent: state.switchAgent,
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        riskAssessments: state.riskAssessments,
+        addRiskAssessment: state.addRiskAssessment,
+        removeRiskAssessment: state.removeRiskAssessment,
+        getProfileContext: state.getProfileContext,
+    }));
     const [scenario, setScenario] = useState('');
-    const [analysis, setAnalysis] = useState('');
-    
-    const handleCalculate = () => {
-        if (!scenario.trim()) return;
-        setAnalysis(`Análise Lógica para "${scenario}":\n\n- Volatilidade de Mercado: Alta. O ativo está sujeito a flutuações significativas devido a fatores macroeconômicos e sentimento do mercado.\n- Risco Tecnológico: Médio. A tecnologia subjacente é promissora, mas ainda em desenvolvimento, com possíveis vulnerabilidades.\n- Risco Regulatório: Alto. A incerteza regulatória no setor pode impactar negativamente o valor do ativo.\n\nRecomendação: Diversifique a alocação e considere este um investimento de alto risco. Para uma análise mais profunda, converse com o Analista.`);
+    const [positionSize, setPositionSize] = useState(10000);
+    const [horizonMonths, setHorizonMonths] = useState(12);
+    const [assetClass, setAssetClass] = useState<RiskAssetClass>('acoes_br');
+    const [returnSource, setReturnSource] = useState<'bundled' | 'custom'>('bundled');
+    const [customReturnsText, setCustomReturnsText] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(riskAssessments[0]?.id ?? null);
+
+    const selected = riskAssessments.find(a => a.id === selectedId) ?? null;
+    const customReturns = returnSource === 'custom' ? parseMonthlyReturns(customReturnsText) : null;
+    const customReturnsError = returnSource === 'custom' && customReturnsText.trim() && (!customReturns || customReturns.length < MIN_CUSTOM_RETURNS)
+        ? `Informe ao menos ${MIN_CUSTOM_RETURNS} retornos mensais válidos.`
+        : null;
+    const canCalculate = scenario.trim() && positionSize > 0 && horizonMonths >= 1 && horizonMonths <= MAX_HORIZON_MONTHS
+        && (returnSource === 'bundled' || (customReturns && customReturns.length >= MIN_CUSTOM_RETURNS));
+
+    const handleCalculate = async () => {
+        if (!canCalculate) return;
+        setIsLoading(true);
+        setError(null);
+        const input = { positionSize, horizonMonths, assetClass, returnSource };
+        // The simulation is synchronous; yield first so the spinner shows.
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const simulation = simulateRisk({ ...input, customReturns: customReturns ?? undefined });
+        let qualitative: RiskAssessment['qualitative'] = null;
+        try {
+            qualitative = await analyzeRiskScenario(scenario.trim(), input, simulation, getProfileContext('risk_calculator'));
+        } catch (err) {
+            setError(getFriendlyErrorMessage(err, 'A simulação foi concluída, mas a análise qualitativa falhou.'));
+        }
+        const assessment: RiskAssessment = {
+            ...input,
+            id: `risk-${Date.now()}`,
+            scenario: scenario.trim(),
+            simulation,
+            qualitative,
+            createdAt: Date.now(),
+        };
+        addRiskAssessment(assessment);
+        setSelectedId(assessment.id);
+        setIsLoading(false);
     };
-    
+
     const handleSwitch = () => {
         switchAgent(AgentId.INVESTMENTS);
     };
@@ -39,10 +119,10 @@ const RiskCalculator: React.FC<RiskCalculatorProps> = ({ onExit }) => {
                     <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors"><X size={24} /></button>
                 </div>
             </header>
-            <main className="flex-1 overflow-y-auto p-6 text-center">
-                <div className="max-w-3xl mx-auto">
-                    <p className="text-lg text-gray-400 mb-6">
-                        Descreva um ativo ou cenário de investimento. O sistema fornecerá uma análise fria e lógica dos riscos potenciais.
+            <main className="flex-1 overflow-y-auto p-6">
+                <div className="max-w-3xl mx-auto space-y-4">
+                    <p className="text-lg text-gray-400 text-center">
+                        Descreva o cenário e a posição. O risco é simulado no seu dispositivo e depois analisado de forma fria e lógica.
                     </p>
                     <textarea
                         value={scenario}
@@ -50,24 +130,171 @@ const RiskCalculator: React.FC<RiskCalculatorProps> = ({ onExit }) => {
                         placeholder="Ex: 'Investir em uma nova criptomoeda de IA'"
                         className="w-full h-24 bg-gray-800/80 border border-gray-600 rounded-xl p-4 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/80 text-lg"
                     />
-                    <button onClick={handleCalculate} disabled={!scenario.trim()} className="mt-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800/50 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
-                        <ShieldCheck className="mr-2" />
-                        Analisar Risco
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <label className="text-sm text-gray-300">
+                            Tamanho da posição (R$)
+                            <input type="number" min={1} value={positionSize} onChange={(e) => setPositionSize(Number(e.target.value))} className="mt-1 w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" />
+                        </label>
+                        <label className="text-sm text-gray-300">
+                            Horizonte (meses)
+                            <input type="number" min={1} max={MAX_HORIZON_MONTHS} value={horizonMonths} onChange={(e) => setHorizonMonths(Math.round(Number(e.target.value)))} className="mt-1 w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" />
+                        </label>
+                        <label className="text-sm text-gray-300">
+                            Classe de ativo
+                            <select value={assetClass} onChange={(e) => setAssetClass(e.target.value as RiskAssetClass)} className="mt-1 w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200">
+                                {(Object.entries(RISK_ASSET_CLASSES) as [RiskAssetClass, typeof RISK_ASSET_CLASSES[RiskAssetClass]][]).map(([id, info]) => (
+                                    <option key={id} value={id}>{info.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={returnSource === 'bundled'} onChange={() => setReturnSource('bundled')} className="accent-blue-500" />
+                            Histórico mensal da classe
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={returnSource === 'custom'} onChange={() => setReturnSource('custom')} className="accent-blue-500" />
+                            Minha série de retornos mensais
+                        </label>
+                    </div>
+                    {returnSource === 'bundled' && (
+                        <p className="text-xs text-gray-500">
+                            Cada mês da simulação sorteia um dos {RISK_ASSET_CLASSES[assetClass].history.returns.length} retornos mensais de {RISK_ASSET_CLASSES[assetClass].history.period}
+                            ({RISK_ASSET_CLASSES[assetClass].history.source}). O passado não garante o futuro; se tiver uma série melhor para a sua posição, cole-a.
+                        </p>
+                    )}
+                    {returnSource === 'custom' && (
+                        <div>
+                            <textarea
+                                value={customReturnsText}
+                                onChange={(e) => setCustomReturnsText(e.target.value)}
+                                placeholder={'Um retorno mensal em % por linha. Ex:\n2,4\n-5,1\n0,8'}
+                                rows={5}
+                                className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 font-mono text-sm"
+                            />
+                            <p className={`text-xs mt-1 ${customReturnsError ? 'text-red-400' : 'text-gray-500'}`}>
+                                {customReturnsError ?? `${customReturns?.length ?? 0} retornos lidos. As trajetórias são sorteadas a partir deles.`}
+                            </p>
+                        </div>
+                    )}
+                    <button onClick={handleCalculate} disabled={!canCalculate || isLoading} className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800/50 text-white font-bold py-3 px-8 rounded-full text-lg flex items-center justify-center mx-auto">
+                        {isLoading ? <Loader2 className="mr-2 animate-spin" /> : <ShieldCheck className="mr-2" />}
+                        {isLoading ? 'Analisando...' : 'Analisar Risco'}
                     </button>
+                    {error && <p className="text-center text-red-400 text-sm">{error}</p>}
                 </div>
-                {analysis && (
-                    <div className="mt-10 p-6 bg-gray-800/50 rounded-lg max-w-3xl mx-auto animate-fade-in text-left">
-                        <p className="text-lg text-blue-200 whitespace-pre-wrap">{analysis}</p>
-                        <div className="text-center mt-6">
+
+                {selected && (
+                    <div className="mt-10 p-6 bg-gray-800/50 rounded-lg max-w-3xl mx-auto animate-fade-in space-y-6">
+                        <div>
+                            <p className="text-sm text-gray-400">{RISK_ASSET_CLASSES[selected.assetClass].label} · {formatBrl(selected.positionSize)} · {selected.horizonMonths} meses</p>
+                            <p className="text-lg text-blue-200">{selected.scenario}</p>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+                            <div className="p-3 bg-gray-900/50 rounded-lg">
+                                <p className="text-xs text-gray-400">VaR 95%</p>
+                                <p className="text-lg font-bold text-blue-200">{formatBrl(selected.simulation.var95)}</p>
+                            </div>
+                            <div className="p-3 bg-gray-900/50 rounded-lg">
+                                <p className="text-xs text-gray-400">CVaR 95%</p>
+                                <p className="text-lg font-bold text-blue-200">{formatBrl(selected.simulation.cvar95)}</p>
+                            </div>
+                            <div className="p-3 bg-gray-900/50 rounded-lg">
+                                <p className="text-xs text-gray-400">Chance de prejuízo</p>
+                                <p className="text-lg font-bold text-blue-200">{formatPercent(selected.simulation.probabilityOfLoss)}</p>
+                            </div>
+                            <div className="p-3 bg-gray-900/50 rounded-lg">
+                                <p className="text-xs text-gray-400">Queda máxima (mediana / 5% piores)</p>
+                                <p className="text-lg font-bold text-blue-200">{formatPercent(selected.simulation.medianDrawdown)} / {formatPercent(selected.simulation.worstDrawdown95)}</p>
+                            </div>
+                        </div>
+                        <div>
+                            <RiskFanChart assessment={selected} />
+                            <p className="text-xs text-gray-500 text-center mt-1">
+                                Valor final: {formatBrl(selected.simulation.finalValues.p5)} (pessimista) · {formatBrl(selected.simulation.finalValues.p50)} (mediano) · {formatBrl(selected.simulation.finalValues.p95)} (otimista), em {selected.simulation.paths} trajetórias.
+                            </p>
+                        </div>
+                        {selected.qualitative ? (
+                            <div className="space-y-4 text-left">
+                                <p className="text-gray-200">{selected.qualitative.resumo}</p>
+                                <ul className="space-y-2">
+                                    {selected.qualitative.riscos.map((risk, index) => (
+                                        <li key={index} className="flex items-start gap-3">
+                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded flex-shrink-0 ${LEVEL_STYLES[risk.nivel] ?? LEVEL_STYLES.Médio}`}>{risk.nivel}</span>
+                                            <span className="text-sm text-gray-300"><span className="font-semibold text-gray-200">{risk.fator}:</span> {risk.explicacao}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div>
+                                    <p className="text-sm font-semibold text-gray-300 mb-1">Mitigação</p>
+                                    <ul className="list-disc list-inside text-sm text-gray-400 space-y-1">
+                                        {selected.qualitative.mitigacoes.map((item, index) => <li key={index}>{item}</li>)}
+                                    </ul>
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500 text-center">Sem análise qualitativa para este cenário.</p>
+                        )}
+                        <div className="text-center">
                             <button onClick={handleSwitch} className="bg-gray-600 text-white font-bold py-2 px-6 rounded-full">
                                 Discutir com o Analista
                             </button>
                         </div>
                     </div>
                 )}
+
+                {riskAssessments.length > 1 && (
+                    <div className="mt-10 max-w-3xl mx-auto overflow-x-auto">
+                        <h2 className="text-lg font-bold text-gray-200 mb-3">Comparar cenários</h2>
+                        <table className="w-full text-sm text-left text-gray-300">
+                            <thead className="text-xs text-gray-400">
+                                <tr>
+                                    <th className="p-2">Cenário</th>
+                                    <th className="p-2">Posição</th>
+                                    <th className="p-2">Meses</th>
+                                    <th className="p-2">VaR 95%</th>
+                                    <th className="p-2">CVaR 95%</th>
+                                    <th className="p-2">Prejuízo</th>
+                                    <th className="p-2">Queda 5% piores</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {riskAssessments.map(assessment => (
+                                    <tr
+                                        key={assessment.id}
+                                        onClick={() => setSelectedId(assessment.id)}
+                                        className={`cursor-pointer border-t border-gray-700/50 ${assessment.id === selectedId ? 'bg-blue-900/30' : 'hover:bg-gray-800/50'}`}
+                                    >
+                                        <td className="p-2 max-w-[14rem] truncate" title={assessment.scenario}>
+                                            {assessment.scenario}
+                                            <span className="block text-xs text-gray-500">{RISK_ASSET_CLASSES[assessment.assetClass].label}{assessment.returnSource === 'custom' ? ' · série própria' : ''}</span>
+                                        </td>
+                                        <td className="p-2">{formatBrl(assessment.positionSize)}</td>
+                                        <td className="p-2">{assessment.horizonMonths}</td>
+                                        <td className="p-2">{formatBrl(assessment.simulation.var95)}</td>
+                                        <td className="p-2">{formatBrl(assessment.simulation.cvar95)}</td>
+                                        <td className="p-2">{formatPercent(assessment.simulation.probabilityOfLoss)}</td>
+                                        <td className="p-2">{formatPercent(assessment.simulation.worstDrawdown95)}</td>
+                                        <td className="p-2">
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); removeRiskAssessment(assessment.id); }}
+                                                className="text-gray-500 hover:text-red-400"
+                                                aria-label="Apagar cenário"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
             </main>
         </div>
     );
 };
 
-export default RiskCalculator;
\ No newline at end of file
+export default RiskCalculator;
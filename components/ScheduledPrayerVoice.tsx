@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Schedule, AgentId, Message } from '../types.ts';
+import { recommendPrayerTheme } from '../services/geminiPrayerService.ts';
+import { generateImage } from '../services/geminiImagenService.ts';
+import { useNarrationQueue } from '../hooks/useNarrationQueue.ts';
+import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import { withCheckIn } from '../utils/scheduleUtils.ts';
+import { ProfileConsumer } from '../utils/userContext.ts';
+import { useStore } from '../store.ts';
+import { X, Pause, Play, Loader2 } from 'lucide-react';
+
+interface ScheduledPrayerVoiceProps {
+    schedule: Schedule;
+    checkIn?: string;
+    consumer: ProfileConsumer;
+    /** Writes the script for the intention (the check-in included), as the segments to narrate in turn. */
+    generateScript: (intention: string, chatHistory: Message[], profileContext: string) => Promise<string[]>;
+    generateImagePrompt: (segments: string[]) => Promise<string>;
+    labels: { generatingScript: string; generatingAudio: string; error: string };
+    renderNarration: (segments: string[], currentIndex: number, isFinished: boolean) => React.ReactNode;
+    onExit: () => void;
+}
+
+type PrayerVoiceState = 'generating_script' | 'generating_audio' | 'narrating' | 'error';
+
+/**
+ * A hands-free scheduled call: picks the intention, writes the script, narrates it over a generated background.
+ */
+const ScheduledPrayerVoice: React.FC<ScheduledPrayerVoiceProps> = ({ schedule, checkIn, consumer, generateScript, generateImagePrompt, labels, renderNarration, onExit }) => {
+    const getProfileContext = useStore(state => state.getProfileContext);
+    const [state, setState] = useState<PrayerVoiceState>('generating_script');
+    const [theme, setTheme] = useState('');
+    const [segments, setSegments] = useState<string[]>([]);
+    const [backgroundImage, setBackgroundImage] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [attempt, setAttempt] = useState(0);
+    const { status, currentIndex, start, togglePause } = useNarrationQueue(schedule.voice ?? 'Kore');
+
+    // Runs once per scheduled call and retry; later USV or chat changes must not restart the prayer.
+    useEffect(() => {
+        let cancelled = false;
+        const run = async () => {
+            const { chatHistories, lastAgentContext } = useStore.getState();
+            const chatHistory = chatHistories[schedule.agentId ?? lastAgentContext ?? AgentId.COHERENCE];
+            try {
+                setState('generating_script');
+                setError(null);
+                const profileContext = getProfileContext(consumer);
+                const prayerTheme = schedule.intention?.trim() || await recommendPrayerTheme(profileContext, chatHistory);
+                if (cancelled) return;
+                setTheme(prayerTheme);
+                const script = await generateScript(withCheckIn(prayerTheme, checkIn), chatHistory, profileContext);
+                if (cancelled) return;
+                setSegments(script);
+
+                // The background is decorative, so a failure must not stop the prayer.
+                generateImagePrompt(script)
+                    .then(prompt => generateImage(prompt, '16:9'))
+                    .then(image => { if (!cancelled) setBackgroundImage(image); })
+                    .catch(err => console.error(err));
+
+                setState('generating_audio');
+                await start(script);
+                if (!cancelled) setState('narrating');
+            } catch (err) {
+                if (cancelled) return;
+                setError(getFriendlyErrorMessage(err, labels.error));
+                setState('error');
+            }
+        };
+        run();
+        return () => { cancelled = true; };
+    }, [schedule.id, attempt]);
+
+    const renderContent = () => {
+        if (state === 'error') {
+            return (
+                <div className="h-full w-full flex flex-col items-center justify-center text-center">
+                    <h2 className="text-2xl text-red-400 mb-4">Ocorreu um Erro</h2>
+                    <p className="text-gray-300 mb-6">{error}</p>
+                    <div className="flex gap-4">
+                        <button onClick={() => setAttempt(a => a + 1)} className="bg-indigo-600 text-white font-bold py-2 px-6 rounded-full">Tentar Novamente</button>
+                        <button onClick={onExit} className="bg-gray-600 text-white font-bold py-2 px-6 rounded-full">Voltar</button>
+                    </div>
+                </div>
+            );
+        }
+
+        if (state !== 'narrating') {
+            return (
+                <main className="flex-1 flex flex-col items-center justify-center text-center">
+                    <Loader2 className="w-12 h-12 text-white animate-spin mb-4" />
+                    <p className="text-2xl text-gray-200 max-w-3xl animate-fade-in">
+                        {state === 'generating_script' ? labels.generatingScript : labels.generatingAudio}
+                    </p>
+                    {theme && <p className="text-gray-400 mt-2">{theme}</p>}
+                </main>
+            );
+        }
+
+        const isFinished = status === 'finished';
+        return (
+            <>
+                <main className="flex-1 flex flex-col items-center justify-center text-center">
+                    <p className="text-sm text-yellow-300 uppercase tracking-wider mb-4">{theme}</p>
+                    {renderNarration(segments, currentIndex, isFinished)}
+                </main>
+                <footer className="w-full max-w-3xl mx-auto p-4">
+                    <div className="flex items-center justify-center gap-8">
+                        {(status === 'playing' || status === 'paused') && (
+                            <button onClick={togglePause} className="bg-white/20 text-white w-16 h-16 rounded-full flex items-center justify-center">
+                                {status === 'playing' ? <Pause size={32} /> : <Play size={32} className="ml-1" />}
+                            </button>
+                        )}
+                        {isFinished && (
+                            <button onClick={onExit} className="bg-indigo-600 text-white font-bold py-3 px-8 rounded-full">
+                                Finalizar Sessão
+                            </button>
+                        )}
+                    </div>
+                </footer>
+            </>
+        );
+    };
+
+    return (
+        <div className="relative h-full w-full flex flex-col p-6">
+            {backgroundImage && <img src={backgroundImage} alt="Background" className="absolute inset-0 w-full h-full object-cover -z-10 opacity-20" />}
+            <div className="absolute inset-0 bg-black/60 -z-10" />
+            <header className="flex items-center justify-end">
+                <button onClick={onExit} className="bg-gray-700/50 hover:bg-gray-600/50 text-white p-2 rounded-full transition-colors"><X size={24} /></button>
+            </header>
+            {renderContent()}
+        </div>
+    );
+};
+
+export default ScheduledPrayerVoice;
@@ -3,21 +3,29 @@ import { LiveServerMessage } from '@google/genai';
 import { createSchedulingSession } from '../services/geminiSchedulingService.ts';
 import { decode, decodeAudioData, encode } from '../utils/audioUtils.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
-import { X, Phone, Loader2, Volume2, Mic, MicOff } from 'lucide-react';
-import { Schedule } from '../types.ts';
+import { X, Phone, Loader2, Volume2, Mic, MicOff, AlarmClock } from 'lucide-react';
+import { AgentId, Schedule } from '../types.ts';
 import { useStore } from '../store.ts';
 import { toolMetadata } from '../constants.tsx';
+import { resolveAgent } from '../utils/customAgents.ts';
 
 interface ScheduledSessionHandlerProps {
     schedule: Schedule;
     onExit: () => void;
 }
 
+// The voice-first session that takes over once the mentor confirms the start.
+const VOICE_SESSION_TYPES: Record<Schedule['activity'], 'guided_meditation_voice' | 'guided_prayer_voice' | 'prayer_pills_voice'> = {
+    meditation: 'guided_meditation_voice',
+    guided_prayer: 'guided_prayer_voice',
+    prayer_pills: 'prayer_pills_voice',
+};
+
 type Status = 'idle' | 'connecting' | 'connected' | 'transitioning' | 'error';
 type TranscriptEntry = { sender: 'user' | 'model'; text: string; };
 
 const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ schedule, onExit }) => {
-    const { startSession } = useStore();
+    const { startSession, resolveScheduleOccurrence, snoozeSchedule, customAgents } = useStore();
     const [status, setStatus] = useState<Status>('idle');
     const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
     const [error, setError] = useState<string | null>(null);
@@ -27,6 +35,9 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
     const streamRefs = useRef<{ media: MediaStream | null, processor: ScriptProcessorNode | null, source: MediaStreamAudioSourceNode | null }>({ media: null, processor: null, source: null });
     const nextStartTimeRef = useRef(0);
     const audioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
+    // Whether this occurrence was already confirmed, snoozed or dismissed. A ref, because
+    // the live session callbacks are created before the status changes.
+    const hasResolvedRef = useRef(false);
     
     const activityName = toolMetadata[schedule.activity]?.title || 'Sessão';
 
@@ -47,6 +58,21 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
         audioSourcesRef.current.clear();
     }, []);
 
+    // Leaving the call without confirming counts as a missed session.
+    const handleDismiss = useCallback(() => {
+        if (hasResolvedRef.current) return;
+        hasResolvedRef.current = true;
+        resolveScheduleOccurrence(schedule.id, 'missed');
+        onExit();
+    }, [onExit, resolveScheduleOccurrence, schedule.id]);
+
+    const handleSnooze = useCallback((minutes: number) => {
+        hasResolvedRef.current = true;
+        cleanup();
+        snoozeSchedule(schedule.id, minutes);
+        onExit();
+    }, [cleanup, onExit, schedule.id, snoozeSchedule]);
+
     const handleConnect = useCallback(async () => {
         if (status === 'connecting' || status === 'connected') return;
 
@@ -58,16 +84,15 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
             audioContextRefs.current.output = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
 
             const onmessage = async (message: LiveServerMessage) => {
-                if (message.toolCall?.functionCalls?.[0]?.name === 'confirmSessionStart') {
+                const functionCall = message.toolCall?.functionCalls?.[0];
+                if (functionCall?.name === 'confirmSessionStart') {
+                    const checkIn = typeof functionCall.args?.checkIn === 'string' ? functionCall.args.checkIn : undefined;
+                    hasResolvedRef.current = true;
                     setStatus('transitioning');
+                    resolveScheduleOccurrence(schedule.id, 'completed');
                     cleanup();
-                    // Transition to the actual session
-                    if(schedule.activity === 'meditation') {
-                        startSession({ type: 'guided_meditation_voice', schedule });
-                    }
-                    else { // Fallback for other types
-                        onExit();
-                    }
+                    // Transition to the hands-free variant of the scheduled activity
+                    startSession({ type: VOICE_SESSION_TYPES[schedule.activity], schedule, checkIn });
                     return;
                 }
                 
@@ -93,7 +118,7 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
                 }
             };
             
-            sessionPromiseRef.current = createSchedulingSession(schedule, {
+            sessionPromiseRef.current = createSchedulingSession(schedule, resolveAgent(schedule.agentId ?? AgentId.COHERENCE, customAgents), {
                 onopen: () => {
                     setStatus('connected');
                     const inputCtx = audioContextRefs.current.input;
@@ -120,7 +145,7 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
                     setStatus('error'); 
                     cleanup(); 
                 },
-                onclose: () => { if (status !== 'transitioning') { onExit(); } },
+                onclose: () => handleDismiss(),
             });
 
         } catch (err) {
@@ -140,7 +165,7 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
             setError(message);
             setStatus('error');
         }
-    }, [cleanup, onExit, schedule, startSession, status]);
+    }, [cleanup, customAgents, handleDismiss, onExit, resolveScheduleOccurrence, schedule, startSession, status]);
 
     useEffect(() => {
         return () => cleanup();
@@ -163,7 +188,7 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
                     <Phone className="w-8 h-8 text-yellow-300" />
                     <h1 className="text-xl font-bold text-gray-200">Chamada do Mentor</h1>
                 </div>
-                <button onClick={onExit} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar chamada"><X size={24} /></button>
+                <button onClick={handleDismiss} className="text-gray-400 hover:text-white transition-colors" aria-label="Fechar chamada"><X size={24} /></button>
             </header>
             <main className="flex-1 flex flex-col items-center justify-center text-center p-6 space-y-4">
                 {status === 'idle' && <Phone className="w-16 h-16 text-yellow-400 animate-pulse" />}
@@ -173,14 +198,23 @@ const ScheduledSessionHandler: React.FC<ScheduledSessionHandlerProps> = ({ sched
                 {status === 'error' && <MicOff className="w-16 h-16 text-red-400" />}
 
                 <p aria-live="polite" className={`text-2xl font-semibold h-16 ${status === 'error' ? 'text-red-400' : 'text-gray-100'}`}>{renderStatus()}</p>
+                {schedule.intention && <p className="text-gray-400 italic max-w-md">Intenção: "{schedule.intention}"</p>}
 
                 {status === 'idle' && (
-                    <button
-                        onClick={handleConnect}
-                        className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-8 rounded-full text-lg"
-                    >
-                        Atender
-                    </button>
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={handleConnect}
+                            className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-8 rounded-full text-lg"
+                        >
+                            Atender
+                        </button>
+                        <button
+                            onClick={() => handleSnooze(10)}
+                            className="flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-full text-lg"
+                        >
+                            <AlarmClock size={20} /> Adiar 10 min
+                        </button>
+                    </div>
                 )}
 
                 {status === 'error' && (
@@ -1,14 +1,19 @@
 import React, { useState } from 'react';
-import { X, CalendarClock, BrainCircuit, BookText, Pill, Clock } from 'lucide-react';
+import { X, CalendarClock, BrainCircuit, BookText, Pill, Clock, Repeat, Trash2, AlarmClock, AlertTriangle, Bell, Download } from 'lucide-react';
 import { useStore } from '../store.ts';
-import { Schedule } from '../types.ts';
+import { AgentId, MentorId, Schedule, ScheduleRecurrence, TtsVoice } from '../types.ts';
 import { toolMetadata } from '../constants.tsx';
+import { listAgents } from '../utils/customAgents.ts';
+import { alignToRecurrence, findScheduleConflict, getEffectiveTime, getRecurrenceLabel, parseRRule } from '../utils/scheduleUtils.ts';
+import { buildScheduleDeepLink, getNotificationPermission, requestNotificationPermission } from '../utils/scheduleNotifications.ts';
+import { downloadIcsCalendar } from '../utils/icsExport.ts';
 
 interface SchedulerProps {
     onExit: () => void;
 }
 
 type Activity = Schedule['activity'];
+type RecurrenceOption = 'once' | 'daily' | 'weekdays' | 'rrule';
 
 const activities: { id: Activity; name: string; icon: React.ElementType }[] = [
     { id: 'meditation', name: 'Meditação Guiada', icon: BrainCircuit },
@@ -16,9 +21,38 @@ const activities: { id: Activity; name: string; icon: React.ElementType }[] = [
     { id: 'prayer_pills', name: 'Pílula de Oração', icon: Pill },
 ];
 
+const recurrenceOptions: { id: RecurrenceOption; name: string }[] = [
+    { id: 'once', name: 'Uma vez' },
+    { id: 'daily', name: 'Diariamente' },
+    { id: 'weekdays', name: 'Dias úteis' },
+    { id: 'rrule', name: 'Personalizado' },
+];
+
+const durationOptions = [5, 10, 15, 20];
+
+const voiceOptions: { id: TtsVoice; name: string }[] = [
+    { id: 'Zephyr', name: 'Zephyr (serena)' },
+    { id: 'Kore', name: 'Kore (firme)' },
+    { id: 'Puck', name: 'Puck (animada)' },
+    { id: 'Charon', name: 'Charon (grave)' },
+    { id: 'Fenrir', name: 'Fenrir (intensa)' },
+];
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
 const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
-    const { addSchedule, schedules, goBackToAgentRoom } = useStore();
+    const { addSchedule, removeSchedule, schedules, goBackToAgentRoom, lastAgentContext, customAgents } = useStore();
     const [selectedActivity, setSelectedActivity] = useState<Activity>('meditation');
+    const [intention, setIntention] = useState('');
+    const [durationMinutes, setDurationMinutes] = useState(10);
+    const [voice, setVoice] = useState<TtsVoice>('Zephyr');
+    const [agentId, setAgentId] = useState<MentorId>(lastAgentContext ?? AgentId.COHERENCE);
     
     const now = new Date();
     // Add 2 minutes to the current time for a sensible default
@@ -29,9 +63,35 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
     
     const [date, setDate] = useState(defaultDate);
     const [time, setTime] = useState(defaultTime);
+    const [recurrenceOption, setRecurrenceOption] = useState<RecurrenceOption>('once');
+    const [customRule, setCustomRule] = useState('FREQ=WEEKLY;BYDAY=MO,WE,FR');
     const [error, setError] = useState<string | null>(null);
+    const [conflictWarning, setConflictWarning] = useState<string | null>(null);
+    const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission);
+
+    const activeSchedules = schedules.filter(s => s.status === 'scheduled').sort((a, b) => getEffectiveTime(a) - getEffectiveTime(b));
+    const recentOccurrences = schedules
+        .flatMap(s => (s.history ?? []).map(occurrence => ({ ...occurrence, activity: s.activity })))
+        .sort((a, b) => b.time - a.time)
+        .slice(0, 5);
+
+    const resetWarnings = () => {
+        setError(null);
+        setConflictWarning(null);
+    };
+
+    const buildRecurrence = (): ScheduleRecurrence | undefined => {
+        switch (recurrenceOption) {
+            case 'daily': return { type: 'daily' };
+            case 'weekdays': return { type: 'weekdays' };
+            case 'rrule': return { type: 'rrule', rule: customRule.trim() };
+            default: return undefined;
+        }
+    };
 
-    const activeSchedules = schedules.filter(s => s.status === 'scheduled').sort((a, b) => a.time - b.time);
+    const handleEnableNotifications = async () => {
+        setNotificationPermission(await requestNotificationPermission());
+    };
 
     const handleSubmit = () => {
         setError(null);
@@ -49,11 +109,47 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
             setError("Por favor, escolha um horário no futuro.");
             return;
         }
+
+        const recurrence = buildRecurrence();
+        if (recurrence?.type === 'rrule') {
+            try {
+                parseRRule(recurrence.rule);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Regra de recorrência inválida.');
+                return;
+            }
+        }
+        const firstTime = alignToRecurrence({ time: scheduledTime.getTime(), recurrence });
+        if (firstTime === null) {
+            setError('A recorrência não tem nenhuma ocorrência a partir da data escolhida.');
+            return;
+        }
+
+        // The first click warns about a clash; clicking again schedules anyway.
+        if (!conflictWarning) {
+            const conflict = findScheduleConflict({ time: firstTime, recurrence }, schedules);
+            if (conflict) {
+                const title = toolMetadata[conflict.schedule.activity]?.title ?? 'outra sessão';
+                setConflictWarning(`Conflito com ${title} em ${formatDateTime(conflict.time)}.`);
+                return;
+            }
+        }
         
         addSchedule({
             activity: selectedActivity,
-            time: scheduledTime.getTime(),
+            time: firstTime,
+            recurrence,
+            intention: intention.trim() || undefined,
+            // Prayer pills are always a few sentences long.
+            durationMinutes: selectedActivity === 'prayer_pills' ? undefined : durationMinutes,
+            voice,
+            agentId,
         });
+        setConflictWarning(null);
+        // Scheduling is a good moment to ask, since calls are useless if they cannot ring.
+        if (notificationPermission === 'default') {
+            handleEnableNotifications();
+        }
         // Don't exit on success, allow user to see the list update.
     };
 
@@ -90,7 +186,7 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
                                 {activities.map(act => (
                                     <button
                                         key={act.id}
-                                        onClick={() => setSelectedActivity(act.id)}
+                                        onClick={() => { setSelectedActivity(act.id); resetWarnings(); }}
                                         className={`p-4 rounded-lg border-2 transition-colors ${selectedActivity === act.id ? 'bg-yellow-800/50 border-yellow-500' : 'bg-gray-800/70 border-gray-700 hover:border-yellow-600/50'}`}
                                     >
                                         <act.icon className={`w-8 h-8 mx-auto mb-2 ${selectedActivity === act.id ? 'text-yellow-400' : 'text-gray-400'}`} />
@@ -106,31 +202,121 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
                                 <input
                                     type="date"
                                     value={date}
-                                    onChange={(e) => setDate(e.target.value)}
+                                    onChange={(e) => { setDate(e.target.value); resetWarnings(); }}
                                     className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-yellow-500/80"
                                     min={new Date().toISOString().split('T')[0]}
                                 />
                                  <input
                                     type="time"
                                     value={time}
-                                    onChange={(e) => setTime(e.target.value)}
+                                    onChange={(e) => { setTime(e.target.value); resetWarnings(); }}
                                     className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-yellow-500/80"
                                 />
                              </div>
                         </div>
                         
+                        <div>
+                            <h3 className="font-semibold text-gray-200 mb-3">3. Repetição</h3>
+                            <div className="grid grid-cols-4 gap-2">
+                                {recurrenceOptions.map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => { setRecurrenceOption(option.id); resetWarnings(); }}
+                                        className={`py-2 px-1 rounded-lg border-2 text-xs transition-colors ${recurrenceOption === option.id ? 'bg-yellow-800/50 border-yellow-500' : 'bg-gray-800/70 border-gray-700 hover:border-yellow-600/50'}`}
+                                    >
+                                        {option.name}
+                                    </button>
+                                ))}
+                            </div>
+                            {recurrenceOption === 'rrule' && (
+                                <input
+                                    type="text"
+                                    value={customRule}
+                                    onChange={(e) => { setCustomRule(e.target.value); resetWarnings(); }}
+                                    placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR"
+                                    className="mt-3 w-full bg-gray-800/80 border border-gray-600 rounded-lg p-3 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500/80"
+                                />
+                            )}
+                        </div>
+                        
+                        <div>
+                            <h3 className="font-semibold text-gray-200 mb-3">4. Intenção (opcional)</h3>
+                            <textarea
+                                value={intention}
+                                onChange={(e) => setIntention(e.target.value)}
+                                placeholder="Ex: soltar a ansiedade antes da reunião de amanhã"
+                                rows={2}
+                                className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-3 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-yellow-500/80"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">O mentor fará uma pergunta de check-in sobre ela antes de começar.</p>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold text-gray-200 mb-3">5. Mentor, Voz e Duração</h3>
+                            <div className="grid grid-cols-2 gap-3 text-left text-sm">
+                                <label className="flex flex-col gap-1 text-gray-400">
+                                    Mentor
+                                    <select value={agentId} onChange={(e) => setAgentId(e.target.value as MentorId)} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200">
+                                        {listAgents(customAgents).map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex flex-col gap-1 text-gray-400">
+                                    Voz
+                                    <select value={voice} onChange={(e) => setVoice(e.target.value as TtsVoice)} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200">
+                                        {voiceOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                                    </select>
+                                </label>
+                                {selectedActivity !== 'prayer_pills' && (
+                                    <label className="flex flex-col gap-1 text-gray-400 col-span-2">
+                                        Duração
+                                        <select value={durationMinutes} onChange={(e) => setDurationMinutes(Number(e.target.value))} className="bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200">
+                                            {durationOptions.map(minutes => <option key={minutes} value={minutes}>{minutes} minutos</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                            </div>
+                        </div>
+
                         {error && <p className="text-red-400 text-sm">{error}</p>}
+                        {conflictWarning && (
+                            <p className="text-yellow-300 text-sm flex items-center justify-center gap-2">
+                                <AlertTriangle size={16} /> {conflictWarning}
+                            </p>
+                        )}
 
                         <button
                             onClick={handleSubmit}
                             className="w-full bg-yellow-600 hover:bg-yellow-700 disabled:bg-yellow-800/50 disabled:cursor-not-allowed text-black font-bold py-3 px-8 rounded-full transition-colors text-lg"
                         >
-                            Agendar Sessão
+                            {conflictWarning ? 'Agendar Mesmo Assim' : 'Agendar Sessão'}
                         </button>
                     </div>
 
                     <div className="mt-10 pt-6 border-t border-gray-700/50">
-                        <h3 className="text-xl font-semibold text-gray-200 mb-4">Sessões Agendadas</h3>
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-xl font-semibold text-gray-200">Sessões Agendadas</h3>
+                            {activeSchedules.length > 0 && (
+                                <button
+                                    onClick={() => downloadIcsCalendar(activeSchedules, buildScheduleDeepLink)}
+                                    className="flex items-center gap-1 text-sm text-yellow-300 hover:text-yellow-200"
+                                >
+                                    <Download size={16} /> Exportar .ics
+                                </button>
+                            )}
+                        </div>
+                        {notificationPermission === 'default' && (
+                            <button
+                                onClick={handleEnableNotifications}
+                                className="w-full mb-4 flex items-center justify-center gap-2 text-sm bg-gray-800/70 border border-gray-700 hover:border-yellow-600/50 rounded-lg p-3 text-gray-300"
+                            >
+                                <Bell size={16} /> Ativar notificações para receber as chamadas com o app fechado
+                            </button>
+                        )}
+                        {notificationPermission === 'denied' && (
+                            <p className="mb-4 text-xs text-gray-500">
+                                As notificações estão bloqueadas no navegador; as chamadas só tocarão com o app aberto.
+                            </p>
+                        )}
                         <div className="space-y-3">
                             {activeSchedules.length > 0 ? (
                                 activeSchedules.map(schedule => {
@@ -142,17 +328,18 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
                                                 <Icon className="w-6 h-6 text-yellow-400 flex-shrink-0" />
                                                 <div>
                                                     <p className="font-semibold text-gray-100">{meta ? meta.title : 'Sessão'}</p>
-                                                    <p className="text-sm text-gray-400">
-                                                        {new Date(schedule.time).toLocaleString('pt-BR', {
-                                                            day: '2-digit',
-                                                            month: '2-digit',
-                                                            year: 'numeric',
-                                                            hour: '2-digit',
-                                                            minute: '2-digit'
-                                                        })}
+                                                    <p className="text-sm text-gray-400">{formatDateTime(getEffectiveTime(schedule))}</p>
+                                                    {schedule.intention && <p className="text-xs text-gray-400 italic">"{schedule.intention}"</p>}
+                                                    <p className="text-xs text-gray-500 flex items-center gap-1">
+                                                        {schedule.recurrence && <Repeat size={12} />}
+                                                        {getRecurrenceLabel(schedule.recurrence)}
+                                                        {schedule.snoozedUntil && <span className="flex items-center gap-1 text-yellow-400 ml-2"><AlarmClock size={12} /> Adiada</span>}
                                                     </p>
                                                 </div>
                                             </div>
+                                            <button onClick={() => removeSchedule(schedule.id)} className="text-gray-500 hover:text-red-400 transition-colors" aria-label="Remover agendamento">
+                                                <Trash2 size={18} />
+                                            </button>
                                         </div>
                                     );
                                 })
@@ -161,6 +348,22 @@ const Scheduler: React.FC<SchedulerProps> = ({ onExit }) => {
                             )}
                         </div>
                     </div>
+
+                    {recentOccurrences.length > 0 && (
+                        <div className="mt-8 pt-6 border-t border-gray-700/50">
+                            <h3 className="text-xl font-semibold text-gray-200 mb-4">Histórico Recente</h3>
+                            <ul className="space-y-2 text-sm">
+                                {recentOccurrences.map(occurrence => (
+                                    <li key={`${occurrence.activity}-${occurrence.time}`} className="flex justify-between text-gray-400">
+                                        <span>{toolMetadata[occurrence.activity]?.title ?? 'Sessão'} · {formatDateTime(occurrence.time)}</span>
+                                        <span className={occurrence.status === 'completed' ? 'text-green-400' : 'text-red-400'}>
+                                            {occurrence.status === 'completed' ? 'Realizada' : 'Perdida'}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </main>
         </div>
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useStore } from '../store.ts';
+import { createSoundscapePlayer, DOSHA_SOUNDSCAPES, SOUNDSCAPE_PRESETS, SoundscapePlayer, SoundscapePresetId } from '../utils/audioUtils.ts';
+import { Waves, VolumeX } from 'lucide-react';
+
+interface SoundscapeControlProps {
+    // Starts playing on mount; only use it right after a user gesture, or the browser blocks the audio.
+    autoStart?: boolean;
+}
+
+/**
+ * A background soundscape layer that plays under a narration, defaulting to the user's Dosha preset.
+ */
+const SoundscapeControl: React.FC<SoundscapeControlProps> = ({ autoStart = false }) => {
+    const doshaResult = useStore(state => state.toolStates.doshaResult);
+    const [presetId, setPresetId] = useState<SoundscapePresetId>(doshaResult ? DOSHA_SOUNDSCAPES[doshaResult] : 'theta_relaxation');
+    const [volume, setVolume] = useState(0.3);
+    const [isActive, setIsActive] = useState(autoStart);
+
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const playerRef = useRef<SoundscapePlayer | null>(null);
+
+    const getPlayer = (): SoundscapePlayer => {
+        if (!playerRef.current) {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+            playerRef.current = createSoundscapePlayer(audioContextRef.current);
+        }
+        return playerRef.current;
+    };
+
+    useEffect(() => {
+        if (isActive) {
+            getPlayer().play(presetId);
+        } else {
+            playerRef.current?.stop();
+        }
+    }, [isActive, presetId]);
+
+    useEffect(() => {
+        playerRef.current?.setVolume(volume);
+    }, [volume, isActive]);
+
+    useEffect(() => {
+        return () => {
+            audioContextRef.current?.close().catch(() => {});
+            // StrictMode remounts the component; the next play must build a player on a fresh context.
+            playerRef.current = null;
+            audioContextRef.current = null;
+        };
+    }, []);
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm">
+            <button
+                onClick={() => setIsActive(!isActive)}
+                className={`flex items-center gap-2 py-2 px-3 rounded-lg transition-colors ${isActive ? 'bg-teal-700/70 text-white' : 'bg-gray-700/70 text-gray-300 hover:bg-gray-600/70'}`}
+                aria-label={isActive ? 'Desligar som de fundo' : 'Ligar som de fundo'}
+            >
+                {isActive ? <Waves size={16} /> : <VolumeX size={16} />} Som de fundo
+            </button>
+            <select
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value as SoundscapePresetId)}
+                className="bg-gray-800/80 border border-gray-600 rounded-lg py-2 px-3 text-gray-200"
+                title={SOUNDSCAPE_PRESETS[presetId].description}
+                aria-label="Paisagem sonora"
+            >
+                {Object.values(SOUNDSCAPE_PRESETS).map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+            </select>
+            <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={volume}
+                onChange={(e) => setVolume(Number(e.target.value))}
+                disabled={!isActive}
+                className="w-24 accent-teal-400"
+                aria-label="Volume do som de fundo"
+            />
+        </div>
+    );
+};
+
+export default SoundscapeControl;
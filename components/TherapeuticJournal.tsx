@@ -1,46 +1,227 @@
-import React, { useState } from 'react';
-import { analyzeJournalEntry } from '../services/geminiJournalService.ts';
-import { JournalFeedback } from '../types.ts';
-import { X, BookHeart, Loader2, Send } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { analyzeDreamEntry, analyzeJournalEntry } from '../services/geminiJournalService.ts';
+import { DreamLucidity, JournalEntry, JournalEntryType, JournalFeedback, ProsodyFeatures } from '../types.ts';
+import { X, BookHeart, Send, Save, Moon, Sun, Mic, Square, Loader2, Trash2 } from 'lucide-react';
 import { useStore } from '../store.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import { scoreJournalEntry } from '../utils/usvScoring.ts';
+import { fromDayKey, MOOD_LEVELS, parseTags, toDayKey } from '../utils/journal.ts';
+import JournalEntryCard from './JournalEntryCard.tsx';
+import JournalHistory from './JournalHistory.tsx';
+import JournalPeriodReview from './JournalPeriodReview.tsx';
+import DreamSymbolDictionary from './DreamSymbolDictionary.tsx';
+import { DREAM_LUCIDITY_LEVELS, parseList } from '../utils/dreams.ts';
+import { useWebSpeech } from '../hooks/useWebSpeech.ts';
+import { useAudioRecorder } from '../hooks/useAudioRecorder.ts';
+import { saveJournalAudio } from '../utils/audioStore.ts';
+import { analyzeRecording, describeProsody } from '../utils/prosody.ts';
 
 interface TherapeuticJournalProps {
     onExit: () => void;
 }
 
+type JournalTab = 'write' | 'history' | 'review' | 'dreams';
+
+const TABS: { id: JournalTab; label: string }[] = [
+    { id: 'write', label: 'Escrever' },
+    { id: 'history', label: 'Histórico' },
+    { id: 'review', label: 'Revisão do Período' },
+    { id: 'dreams', label: 'Símbolos dos Sonhos' },
+];
+
+type VoiceMode = 'dictation' | 'recording';
+// Longer recordings are stopped automatically, which keeps the file and its analysis small.
+const MAX_RECORDING_MINUTES = 5;
+
+interface PendingAudio {
+    blob: Blob;
+    url: string;
+    durationSec: number;
+    prosody: ProsodyFeatures | null;
+}
+
+const appendDictation = (base: string, transcript: string): string =>
+    [base.trimEnd(), transcript.trim()].filter(Boolean).join('\n\n');
+
 const TherapeuticJournal: React.FC<TherapeuticJournalProps> = ({ onExit }) => {
-    const { toolStates, setToolState, goBackToAgentRoom } = useStore();
-    const [isLoading, setIsLoading] = useState(false);
-    
-    const journalState = toolStates.therapeuticJournal;
-    const entry = journalState?.entry || '';
-    const feedback = journalState?.feedback || null;
-    const error = journalState?.error || null;
-
-    const setEntry = (newEntry: string) => {
-        setToolState('therapeuticJournal', { ...journalState, entry: newEntry });
-    }
-
-    const handleAnalyze = async () => {
-        if (!entry.trim()) return;
-        setIsLoading(true);
-        setToolState('therapeuticJournal', { entry, feedback: null, error: null });
+    const {
+        toolStates,
+        setToolState,
+        journalEntries,
+        addJournalEntry,
+        updateJournalEntry,
+        removeJournalEntry,
+        dreamSymbols,
+        addDreamSymbols,
+        goBackToAgentRoom,
+        recordPicSignal,
+        recordToolOutcome,
+        getProfileContext,
+    } = useStore(state => ({
+        toolStates: state.toolStates,
+        setToolState: state.setToolState,
+        journalEntries: state.journalEntries,
+        addJournalEntry: state.addJournalEntry,
+        updateJournalEntry: state.updateJournalEntry,
+        removeJournalEntry: state.removeJournalEntry,
+        dreamSymbols: state.dreamSymbols,
+        addDreamSymbols: state.addDreamSymbols,
+        goBackToAgentRoom: state.goBackToAgentRoom,
+        recordPicSignal: state.recordPicSignal,
+        recordToolOutcome: state.recordToolOutcome,
+        getProfileContext: state.getProfileContext,
+    }));
+    const [tab, setTab] = useState<JournalTab>('write');
+    const [day, setDay] = useState(() => toDayKey(Date.now()));
+    const [type, setType] = useState<JournalEntryType>('reflexao');
+    const [mood, setMood] = useState(3);
+    const [tagsText, setTagsText] = useState('');
+    const [dreamSetting, setDreamSetting] = useState('');
+    const [dreamCharacters, setDreamCharacters] = useState('');
+    const [dreamEmotions, setDreamEmotions] = useState('');
+    const [lucidity, setLucidity] = useState<DreamLucidity>('nenhuma');
+    const [savedEntryId, setSavedEntryId] = useState<string | null>(null);
+    const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [voiceMode, setVoiceMode] = useState<VoiceMode | null>(null);
+    const [pendingAudio, setPendingAudio] = useState<PendingAudio | null>(null);
+    const [isProcessingAudio, setIsProcessingAudio] = useState(false);
+    const { transcript, isListening, startListening, stopListening, error: speechError } = useWebSpeech();
+    const { startRecording, stopRecording, error: recorderError } = useAudioRecorder();
+    // The draft as it was when the dictation started; the transcript is appended to it as it arrives.
+    const dictationBaseRef = useRef<string | null>(null);
+    const transcriptRef = useRef('');
+
+    const draft = toolStates.therapeuticJournal?.draft ?? '';
+    const savedEntry = journalEntries.find(e => e.id === savedEntryId) ?? null;
+
+    const setDraft = (text: string) => {
+        setToolState('therapeuticJournal', { draft: text });
+    };
+
+    useEffect(() => {
+        transcriptRef.current = transcript;
+        if (dictationBaseRef.current !== null && transcript) {
+            setDraft(appendDictation(dictationBaseRef.current, transcript));
+        }
+    }, [transcript]);
+
+    // The browser ends recognition on its own after a long silence.
+    useEffect(() => {
+        if (!isListening && voiceMode === 'dictation') setVoiceMode(null);
+    }, [isListening]);
+
+    useEffect(() => () => {
+        if (pendingAudio) URL.revokeObjectURL(pendingAudio.url);
+    }, [pendingAudio]);
+
+    useEffect(() => {
+        if (voiceMode !== 'recording') return;
+        const timer = setTimeout(handleStopVoice, MAX_RECORDING_MINUTES * 60 * 1000);
+        return () => clearTimeout(timer);
+    }, [voiceMode]);
+
+    const handleStartVoice = async (mode: VoiceMode) => {
+        setError(null);
+        if (mode === 'recording') {
+            if (!(await startRecording())) return;
+            setPendingAudio(null);
+        }
+        dictationBaseRef.current = draft;
+        transcriptRef.current = '';
+        startListening();
+        setVoiceMode(mode);
+    };
+
+    const handleStopVoice = async () => {
+        const mode = voiceMode;
+        stopListening();
+        setVoiceMode(null);
+        if (mode !== 'recording') return;
+
+        setIsProcessingAudio(true);
+        try {
+            const blob = await stopRecording();
+            if (!blob) return;
+            let prosody: ProsodyFeatures | null = null;
+            try {
+                prosody = await analyzeRecording(blob, transcriptRef.current);
+            } catch (err) {
+                // The recording is still worth keeping when the browser cannot decode it.
+                console.error('Failed to analyze the prosody of the recording:', err);
+            }
+            setPendingAudio({ blob, url: URL.createObjectURL(blob), durationSec: prosody?.durationSec ?? 0, prosody });
+        } finally {
+            setIsProcessingAudio(false);
+        }
+    };
 
+    const handleAnalyze = async (entry: JournalEntry) => {
+        setAnalyzingId(entry.id);
+        setError(null);
         try {
-            const analysisResult = await analyzeJournalEntry(entry);
-            setToolState('therapeuticJournal', { entry, feedback: analysisResult, error: null });
+            let feedback: JournalFeedback;
+            if (entry.type === 'sonho') {
+                const { simbolos, ...dreamFeedback } = await analyzeDreamEntry(entry, dreamSymbols, getProfileContext('therapeutic_journal'));
+                feedback = dreamFeedback;
+                updateJournalEntry(entry.id, { feedback, dreamSymbols: simbolos });
+                addDreamSymbols(simbolos);
+            } else {
+                feedback = await analyzeJournalEntry(entry.text, entry, getProfileContext('therapeutic_journal'));
+                updateJournalEntry(entry.id, { feedback });
+            }
+            recordPicSignal('therapeutic_journal', feedback.acao);
+            recordToolOutcome(scoreJournalEntry(feedback));
         } catch (err) {
-            const errorMsg = getFriendlyErrorMessage(err, 'Ocorreu um erro desconhecido durante a análise.');
-            setToolState('therapeuticJournal', { entry, feedback: null, error: errorMsg });
+            setError(getFriendlyErrorMessage(err, 'Ocorreu um erro desconhecido durante a análise.'));
         } finally {
-            setIsLoading(false);
+            setAnalyzingId(null);
         }
     };
-    
-    const handleReset = () => {
-        setToolState('therapeuticJournal', { entry: '', feedback: null, error: null });
-        setIsLoading(false);
+
+    const handleSave = async (analyze: boolean) => {
+        if (!draft.trim()) return;
+        const audio = pendingAudio
+            ? { mimeType: pendingAudio.blob.type, durationSec: pendingAudio.durationSec, prosody: pendingAudio.prosody }
+            : undefined;
+        const dream = type === 'sonho'
+            ? { setting: dreamSetting.trim(), characters: parseList(dreamCharacters), emotions: parseList(dreamEmotions), lucidity }
+            : undefined;
+        const entry = { date: fromDayKey(day), type, text: draft.trim(), mood, tags: parseTags(tagsText), feedback: null, ...(audio && { audio }), ...(dream && { dream }) };
+        const id = addJournalEntry(entry);
+        if (pendingAudio) {
+            try {
+                await saveJournalAudio(id, pendingAudio.blob);
+            } catch (err) {
+                console.error('Failed to store journal audio:', err);
+                updateJournalEntry(id, { audio: undefined });
+                setError('A entrada foi salva, mas não foi possível guardar a gravação neste dispositivo.');
+            }
+        }
+        dictationBaseRef.current = null;
+        setPendingAudio(null);
+        setDraft('');
+        setTagsText('');
+        setDreamSetting('');
+        setDreamCharacters('');
+        setDreamEmotions('');
+        setLucidity('nenhuma');
+        setSavedEntryId(id);
+        if (analyze) {
+            handleAnalyze({ ...entry, id, createdAt: Date.now() });
+        }
+    };
+
+    const handleNewEntry = () => {
+        setSavedEntryId(null);
+        setError(null);
+        setDay(toDayKey(Date.now()));
+        setMood(3);
+    };
+
+    const handleDelete = (entryId: string) => {
+        removeJournalEntry(entryId);
+        if (entryId === savedEntryId) setSavedEntryId(null);
     };
 
     return (
@@ -63,76 +244,172 @@ const TherapeuticJournal: React.FC<TherapeuticJournalProps> = ({ onExit }) => {
                     </button>
                 </div>
             </header>
+            <nav className="flex gap-1 px-4 pt-3">
+                {TABS.map(t => (
+                    <button
+                        key={t.id}
+                        onClick={() => setTab(t.id)}
+                        className={`px-4 py-2 rounded-t-lg text-sm font-semibold ${tab === t.id ? 'bg-gray-800/80 text-indigo-300' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {t.label}
+                        {t.id === 'history' && journalEntries.length > 0 && <span className="ml-1 text-xs text-gray-500">({journalEntries.length})</span>}
+                    </button>
+                ))}
+            </nav>
             <main className="flex-1 overflow-y-auto p-6 no-scrollbar">
-                {isLoading && (
-                    <div className="flex flex-col items-center justify-center h-full">
-                        <Loader2 className="w-12 h-12 animate-spin text-indigo-400" />
-                        <p className="text-gray-300 mt-4">Analisando suas reflexões...</p>
-                    </div>
-                )}
-
-                {error && (
-                    <div className="text-center text-red-400 p-4">
-                        <h3 className="font-bold mb-2">Erro na Análise:</h3>
-                        <p>{error}</p>
-
-                        <button onClick={handleAnalyze} className="mt-4 bg-gray-600 text-white font-bold py-2 px-6 rounded-full">
-                            Tentar Novamente
-                        </button>
-                    </div>
-                )}
-
-                {!isLoading && feedback && (
-                     <div className="animate-fade-in max-w-3xl mx-auto">
-                        <h2 className="text-2xl font-bold text-center mb-6 text-gray-100">Feedback do seu Mentor</h2>
-                        <div className="space-y-4">
-                           <div className="p-4 bg-gray-800 rounded-lg">
-                               <h3 className="font-semibold text-lg text-gray-300">Observação do Coração:</h3>
-                               <p className="text-gray-400 mt-1">{feedback.observacao}</p>
-                           </div>
-                            <div className="p-4 bg-gray-800 rounded-lg">
-                               <h3 className="font-semibold text-lg text-gray-300">O Ponto de Dissonância:</h3>
-                               <p className="text-gray-400 mt-1">{feedback.dissonancia}</p>
-                           </div>
-                           <div className="p-4 bg-indigo-900/50 border border-indigo-700 rounded-lg">
-                               <h3 className="font-semibold text-lg text-indigo-300">Ação de Coerência:</h3>
-                               <p className="text-indigo-200 mt-1">{feedback.acao}</p>
-                           </div>
-                        </div>
-                        <div className="text-center mt-6">
-                            <button onClick={handleReset} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-6 rounded-full">
-                                Escrever Nova Entrada
-                            </button>
+                <div className="max-w-3xl mx-auto">
+                    {error && <p className="text-center text-red-400 mb-4">{error}</p>}
+
+                    {tab === 'write' && savedEntry && (
+                        <div className="animate-fade-in space-y-6">
+                            <h2 className="text-2xl font-bold text-center text-gray-100">{savedEntry.feedback ? 'Feedback do seu Mentor' : 'Entrada salva'}</h2>
+                            <JournalEntryCard entry={savedEntry} isAnalyzing={analyzingId === savedEntry.id} onAnalyze={handleAnalyze} onDelete={handleDelete} defaultExpanded />
+                            <div className="text-center">
+                                <button onClick={handleNewEntry} className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-6 rounded-full">
+                                    Escrever Nova Entrada
+                                </button>
+                            </div>
                         </div>
-                    </div>
-                )}
-
-                {!isLoading && !feedback && (
-                    <div className="max-w-3xl mx-auto">
-                        <p className="text-center text-lg text-gray-400 mb-6">
-                            Escreva sobre seu dia, seus sentimentos ou um sonho. Seu mentor oferecerá um insight para aumentar sua coerência.
-                        </p>
-                        <textarea
-                            value={entry}
-                            onChange={(e) => setEntry(e.target.value)}
-                            placeholder="Comece a escrever aqui..."
-                            className="w-full h-64 bg-gray-800/80 border border-gray-600 rounded-xl p-4 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/80 text-lg"
-                        />
-                        <div className="text-center mt-6">
-                            <button
-                                onClick={handleAnalyze}
-                                disabled={!entry.trim()}
-                                className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 disabled:cursor-not-allowed text-white font-bold py-3 px-8 rounded-full transition-colors text-lg flex items-center justify-center mx-auto"
-                            >
-                                <Send size={20} className="mr-2" />
-                                Salvar e Analisar
-                            </button>
+                    )}
+
+                    {tab === 'write' && !savedEntry && (
+                        <div className="space-y-4">
+                            <p className="text-center text-lg text-gray-400">
+                                Escreva sobre seu dia, seus sentimentos ou um sonho. Seu mentor oferecerá um insight para aumentar sua coerência.
+                            </p>
+                            <div className="flex flex-wrap items-end gap-4 text-sm text-gray-300">
+                                <label>
+                                    Data
+                                    <input type="date" value={day} max={toDayKey(Date.now())} onChange={(e) => setDay(e.target.value)} className="block mt-1 bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200" />
+                                </label>
+                                <div>
+                                    Tipo
+                                    <div className="flex mt-1 bg-gray-800/80 rounded-lg p-1">
+                                        <button onClick={() => setType('reflexao')} className={`flex items-center gap-1 px-3 py-1 rounded ${type === 'reflexao' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}><Sun size={14} /> Reflexão</button>
+                                        <button onClick={() => setType('sonho')} className={`flex items-center gap-1 px-3 py-1 rounded ${type === 'sonho' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}><Moon size={14} /> Sonho</button>
+                                    </div>
+                                </div>
+                                <div>
+                                    Humor
+                                    <div className="flex gap-1 mt-1">
+                                        {MOOD_LEVELS.map(level => (
+                                            <button
+                                                key={level.value}
+                                                onClick={() => setMood(level.value)}
+                                                title={level.label}
+                                                aria-label={`Humor: ${level.label}`}
+                                                className={`w-8 h-8 rounded-full text-xs font-bold ${mood === level.value ? `${level.color} text-gray-900` : 'bg-gray-700 text-gray-400'}`}
+                                            >
+                                                {level.value}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-3">
+                                {voiceMode ? (
+                                    <button onClick={handleStopVoice} className="flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white font-semibold py-2 px-4 rounded-full animate-pulse">
+                                        <Square size={16} />
+                                        {voiceMode === 'recording' ? 'Parar gravação' : 'Parar ditado'}
+                                    </button>
+                                ) : (
+                                    <>
+                                        <button onClick={() => handleStartVoice('recording')} disabled={isProcessingAudio} className="flex items-center gap-2 bg-teal-700 hover:bg-teal-600 disabled:opacity-50 text-white font-semibold py-2 px-4 rounded-full">
+                                            {isProcessingAudio ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
+                                            {isProcessingAudio ? 'Processando áudio...' : 'Gravar entrada falada'}
+                                        </button>
+                                        <button onClick={() => handleStartVoice('dictation')} disabled={isProcessingAudio} className="text-sm text-gray-400 hover:text-white disabled:opacity-50">
+                                            Só ditar o texto
+                                        </button>
+                                    </>
+                                )}
+                                {voiceMode === 'recording' && <span className="text-xs text-gray-500">A gravação para sozinha após {MAX_RECORDING_MINUTES} minutos.</span>}
+                                {(speechError || recorderError) && <span className="text-sm text-red-400">{recorderError ?? speechError}</span>}
+                            </div>
+                            {pendingAudio && (
+                                <div className="p-3 bg-gray-800/50 border border-teal-800 rounded-lg space-y-2">
+                                    <div className="flex items-center gap-3">
+                                        <audio src={pendingAudio.url} controls className="flex-1 h-10" />
+                                        <button onClick={() => setPendingAudio(null)} className="p-1 text-gray-500 hover:text-red-400" aria-label="Descartar gravação">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                    {pendingAudio.prosody && (
+                                        <p className="text-xs text-gray-400">{describeProsody(pendingAudio.prosody).join(' ')}</p>
+                                    )}
+                                    <p className="text-xs text-gray-500">A gravação fica apenas neste dispositivo. Revise a transcrição antes de salvar.</p>
+                                </div>
+                            )}
+                            <textarea
+                                value={draft}
+                                onChange={(e) => { dictationBaseRef.current = null; setDraft(e.target.value); }}
+                                placeholder={type === 'sonho' ? 'Descreva o sonho com o máximo de detalhes que lembrar...' : 'Comece a escrever aqui...'}
+                                className="w-full h-64 bg-gray-800/80 border border-gray-600 rounded-xl p-4 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500/80 text-lg"
+                            />
+                            {type === 'sonho' && (
+                                <div className="p-4 bg-gray-800/50 border border-indigo-900 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-3 text-sm text-gray-300">
+                                    <label className="md:col-span-2">
+                                        Cenário
+                                        <input value={dreamSetting} onChange={(e) => setDreamSetting(e.target.value)} placeholder="Ex: a casa da minha infância, à noite" className="block w-full mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                                    </label>
+                                    <label>
+                                        Personagens
+                                        <input value={dreamCharacters} onChange={(e) => setDreamCharacters(e.target.value)} placeholder="Ex: minha mãe, um lobo" className="block w-full mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                                    </label>
+                                    <label>
+                                        Emoções
+                                        <input value={dreamEmotions} onChange={(e) => setDreamEmotions(e.target.value)} placeholder="Ex: medo, alívio" className="block w-full mt-1 bg-gray-900/80 border border-gray-700 rounded p-2 text-gray-200" />
+                                    </label>
+                                    <div className="md:col-span-2">
+                                        Lucidez
+                                        <div className="flex mt-1 bg-gray-900/80 rounded-lg p-1 w-fit">
+                                            {(Object.entries(DREAM_LUCIDITY_LEVELS) as [DreamLucidity, string][]).map(([id, label]) => (
+                                                <button key={id} onClick={() => setLucidity(id)} className={`px-3 py-1 rounded ${lucidity === id ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}>{label}</button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                            <input
+                                value={tagsText}
+                                onChange={(e) => setTagsText(e.target.value)}
+                                placeholder="Tags separadas por vírgula. Ex: trabalho, família"
+                                className="w-full bg-gray-800/80 border border-gray-600 rounded-lg p-2 text-gray-200 text-sm"
+                            />
+                            <div className="flex flex-col sm:flex-row justify-center gap-3 pt-2">
+                                <button
+                                    onClick={() => handleSave(true)}
+                                    disabled={!draft.trim() || voiceMode !== null || isProcessingAudio}
+                                    className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-800/50 disabled:cursor-not-allowed text-white font-bold py-3 px-8 rounded-full transition-colors text-lg flex items-center justify-center"
+                                >
+                                    <Send size={20} className="mr-2" />
+                                    Salvar e Analisar
+                                </button>
+                                <button
+                                    onClick={() => handleSave(false)}
+                                    disabled={!draft.trim() || voiceMode !== null || isProcessingAudio}
+                                    className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-full flex items-center justify-center"
+                                >
+                                    <Save size={18} className="mr-2" />
+                                    Só Salvar
+                                </button>
+                            </div>
                         </div>
-                    </div>
-                )}
+                    )}
+
+                    {tab === 'history' && (
+                        <JournalHistory entries={journalEntries} analyzingId={analyzingId} onAnalyze={handleAnalyze} onDelete={handleDelete} />
+                    )}
+
+                    {tab === 'review' && <JournalPeriodReview entries={journalEntries} />}
+
+                    {tab === 'dreams' && (
+                        <DreamSymbolDictionary entries={journalEntries} analyzingId={analyzingId} onAnalyze={handleAnalyze} onDelete={handleDelete} />
+                    )}
+                </div>
             </main>
         </div>
     );
 };
 
-export default TherapeuticJournal;
\ No newline at end of file
+export default TherapeuticJournal;
@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../store.ts';
+import { toolMetadata } from '../constants.tsx';
+import { UsvChangeSource } from '../types.ts';
+import { getSnapshotForDate } from '../utils/usvHistoryUtils.ts';
+import UsvRadar from './UsvRadar.tsx';
+import UsvTrendChart from './UsvTrendChart.tsx';
+import { TrendingUp } from 'lucide-react';
+
+const toDateInputValue = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parses "yyyy-mm-dd" as a local date (Date's own parser would treat it as UTC).
+const fromDateInputValue = (value: string): Date => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+export const getUsvSourceLabel = (source: UsvChangeSource): string =>
+    source === 'baseline' ? 'Estado inicial' : toolMetadata[source]?.title ?? source;
+
+const UsvEvolution: React.FC = () => {
+    const { usvHistory } = useStore();
+    const firstTimestamp = usvHistory[0]?.timestamp ?? Date.now();
+    const [dateA, setDateA] = useState(() => toDateInputValue(firstTimestamp));
+    const [dateB, setDateB] = useState(() => toDateInputValue(Date.now()));
+
+    const snapshotA = useMemo(() => getSnapshotForDate(usvHistory, fromDateInputValue(dateA)), [usvHistory, dateA]);
+    const snapshotB = useMemo(() => getSnapshotForDate(usvHistory, fromDateInputValue(dateB)), [usvHistory, dateB]);
+    const recentChanges = usvHistory.slice(-5).reverse();
+
+    if (usvHistory.length === 0) return null;
+
+    return (
+        <div className="glass-pane rounded-2xl p-6 mt-8 animate-fade-in">
+            <div className="flex items-center gap-3 mb-6">
+                <TrendingUp className="w-6 h-6 text-indigo-400" />
+                <h3 className="font-bold text-xl text-indigo-400">Sua Evolução</h3>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2">
+                    <UsvTrendChart history={usvHistory} />
+
+                    <h4 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mt-6 mb-2">Mudanças Recentes</h4>
+                    <ul className="space-y-1">
+                        {recentChanges.map((snapshot, i) => (
+                            <li key={`${snapshot.timestamp}-${i}`} className="flex justify-between text-sm text-gray-300">
+                                <span>{new Date(snapshot.timestamp).toLocaleString('pt-BR')} · {getUsvSourceLabel(snapshot.source)}</span>
+                                <span className="font-semibold text-indigo-300">Φ {snapshot.ucs}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="flex flex-col items-center">
+                    <div className="flex gap-4 mb-4 text-sm">
+                        <label className="flex flex-col text-teal-300">
+                            Antes
+                            <input type="date" value={dateA} max={dateB} onChange={e => e.target.value && setDateA(e.target.value)} className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200" />
+                        </label>
+                        <label className="flex flex-col text-indigo-300">
+                            Depois
+                            <input type="date" value={dateB} min={dateA} onChange={e => e.target.value && setDateB(e.target.value)} className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-gray-200" />
+                        </label>
+                    </div>
+                    {snapshotB ? (
+                        <>
+                            <UsvRadar usv={snapshotB.usv} compareUsv={snapshotA?.usv} />
+                            <p className="text-sm text-gray-400 mt-2">
+                                Φ {snapshotA ? `${snapshotA.ucs} → ` : ''}{snapshotB.ucs}
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-gray-500 text-center py-12">Nenhum registro até esta data.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsvEvolution;
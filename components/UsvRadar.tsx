@@ -3,26 +3,29 @@ import { UserStateVector } from '../types.ts';
 
 interface UsvRadarProps {
     usv: UserStateVector;
+    // An optional second state drawn underneath, e.g. the user's state on an earlier date.
+    compareUsv?: UserStateVector | null;
 }
 
-const UsvRadar: React.FC<UsvRadarProps> = ({ usv }) => {
+const UsvRadar: React.FC<UsvRadarProps> = ({ usv, compareUsv }) => {
     const size = 300;
     const center = size / 2;
     const labels = ['Espiritual', 'Financeiro', 'Físico', 'Emocional'];
-    const values = [
-        usv.spiritual, 
-        usv.financial, 
-        usv.physical, 
-        100 - usv.emotional // Invert emotional for display
-    ];
 
-    const points = values.map((value, i) => {
+    const toPoints = (vector: UserStateVector) => [
+        vector.spiritual,
+        vector.financial,
+        vector.physical,
+        100 - vector.emotional // Invert emotional for display
+    ].map((value, i) => {
         const angle = (i / labels.length) * 2 * Math.PI - (Math.PI / 2);
         const radius = (value / 100) * (center * 0.8);
         const x = center + radius * Math.cos(angle);
         const y = center + radius * Math.sin(angle);
         return `${x},${y}`;
     }).join(' ');
+
+    const points = toPoints(usv);
     
     const labelPoints = labels.map((label, i) => {
         const angle = (i / labels.length) * 2 * Math.PI - (Math.PI / 2);
@@ -49,7 +52,7 @@ const UsvRadar: React.FC<UsvRadarProps> = ({ usv }) => {
                 />
             ))}
              {/* Radial Lines */}
-            {values.map((_, i) => {
+            {labels.map((_, i) => {
                  const angle = (i / labels.length) * 2 * Math.PI;
                  return (
                     <line
@@ -64,6 +67,17 @@ const UsvRadar: React.FC<UsvRadarProps> = ({ usv }) => {
                  )
             })}
            
+            {/* Comparison Polygon */}
+            {compareUsv && (
+                <polygon
+                    points={toPoints(compareUsv)}
+                    fill="rgba(45, 212, 191, 0.15)"
+                    stroke="#2DD4BF"
+                    strokeWidth="2"
+                    strokeDasharray="4 4"
+                />
+            )}
+
             {/* Data Polygon */}
             <polygon
                 points={points}
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { UsvSnapshot } from '../types.ts';
+import { aggregateUsvHistory, formatPeriodLabel, UsvAggregationPeriod, UsvTrendPoint } from '../utils/usvHistoryUtils.ts';
+
+export type UsvTrendSeries = 'ucs' | 'spiritual' | 'emotional' | 'physical' | 'financial';
+
+interface UsvTrendChartProps {
+    history: UsvSnapshot[];
+    series?: UsvTrendSeries[];
+}
+
+const SERIES_STYLES: Record<UsvTrendSeries, { label: string; color: string; value: (p: UsvTrendPoint) => number }> = {
+    ucs: { label: 'Coerência (Φ)', color: '#818CF8', value: p => p.ucs },
+    spiritual: { label: 'Espiritual', color: '#FDE047', value: p => p.usv.spiritual },
+    emotional: { label: 'Emocional', color: '#60A5FA', value: p => 100 - p.usv.emotional }, // Inverted, as in the radar
+    physical: { label: 'Físico', color: '#4ADE80', value: p => p.usv.physical },
+    financial: { label: 'Financeiro', color: '#F472B6', value: p => p.usv.financial },
+};
+
+const PERIOD_LABELS: Record<UsvAggregationPeriod, string> = {
+    day: 'Diário',
+    week: 'Semanal',
+    month: 'Mensal',
+};
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 30, left: 30 };
+
+const UsvTrendChart: React.FC<UsvTrendChartProps> = ({ history, series = ['ucs', 'spiritual', 'emotional', 'physical', 'financial'] }) => {
+    const [period, setPeriod] = useState<UsvAggregationPeriod>('day');
+    const points = useMemo(() => aggregateUsvHistory(history, period), [history, period]);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const xFor = (i: number) => PADDING.left + (points.length > 1 ? (i / (points.length - 1)) * plotWidth : plotWidth / 2);
+    const yFor = (value: number) => PADDING.top + (1 - value / 100) * plotHeight;
+    // Show at most ~6 axis labels regardless of how many buckets there are.
+    const labelStep = Math.max(1, Math.ceil(points.length / 6));
+
+    return (
+        <div className="w-full">
+            <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+                <div className="flex flex-wrap gap-3">
+                    {series.map(key => (
+                        <span key={key} className="flex items-center gap-1 text-xs text-gray-400">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SERIES_STYLES[key].color }} />
+                            {SERIES_STYLES[key].label}
+                        </span>
+                    ))}
+                </div>
+                <div className="flex bg-gray-800/60 rounded-full p-1">
+                    {(Object.keys(PERIOD_LABELS) as UsvAggregationPeriod[]).map(p => (
+                        <button
+                            key={p}
+                            onClick={() => setPeriod(p)}
+                            className={`text-xs font-semibold py-1 px-3 rounded-full transition-colors ${period === p ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                        >
+                            {PERIOD_LABELS[p]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {points.length === 0 ? (
+                <p className="text-center text-gray-500 py-12">Ainda não há registros suficientes para mostrar sua evolução.</p>
+            ) : (
+                <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                    {/* Horizontal grid */}
+                    {[0, 25, 50, 75, 100].map(v => (
+                        <g key={v}>
+                            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yFor(v)} y2={yFor(v)} stroke="rgba(255, 255, 255, 0.1)" strokeWidth="1" />
+                            <text x={PADDING.left - 6} y={yFor(v)} fill="rgba(255, 255, 255, 0.5)" fontSize="10" textAnchor="end" dominantBaseline="central">{v}</text>
+                        </g>
+                    ))}
+
+                    {/* Period labels */}
+                    {points.map((p, i) => i % labelStep === 0 && (
+                        <text key={p.start} x={xFor(i)} y={HEIGHT - 10} fill="rgba(255, 255, 255, 0.5)" fontSize="10" textAnchor="middle">
+                            {formatPeriodLabel(p.start, period)}
+                        </text>
+                    ))}
+
+                    {/* Series */}
+                    {series.map(key => {
+                        const { color, value } = SERIES_STYLES[key];
+                        return (
+                            <g key={key}>
+                                <polyline
+                                    points={points.map((p, i) => `${xFor(i)},${yFor(value(p))}`).join(' ')}
+                                    fill="none"
+                                    stroke={color}
+                                    strokeWidth={key === 'ucs' ? 3 : 1.5}
+                                    strokeLinejoin="round"
+                                />
+                                {points.map((p, i) => (
+                                    <circle key={p.start} cx={xFor(i)} cy={yFor(value(p))} r={key === 'ucs' ? 3.5 : 2.5} fill={color}>
+                                        <title>{`${SERIES_STYLES[key].label}: ${value(p)} (${p.count} registro(s))`}</title>
+                                    </circle>
+                                ))}
+                            </g>
+                        );
+                    })}
+                </svg>
+            )}
+        </div>
+    );
+};
+
+export default UsvTrendChart;
@@ -4,16 +4,21 @@ import { VerbalFrequencyAnalysisResult, AgentId } from '../types.ts';
 import { X, Waves, Loader2, Sparkles } from 'lucide-react';
 import { useStore } from '../store.ts';
 import { getFriendlyErrorMessage } from '../utils/errorUtils.ts';
+import { scoreVerbalFrequency } from '../utils/usvScoring.ts';
 
 interface VerbalFrequencyAnalysisProps {
     onExit: () => void;
 }
 
 const VerbalFrequencyAnalysis: React.FC<VerbalFrequencyAnalysisProps> = ({ onExit }) => {
-    const { chatHistories, lastAgentContext, goBackToAgentRoom } = useStore(state => ({
+    const { chatHistories, lastAgentContext, goBackToAgentRoom, recordPicSignal, recordToolOutcome, setToolState, getProfileContext } = useStore(state => ({
         chatHistories: state.chatHistories,
         lastAgentContext: state.lastAgentContext,
         goBackToAgentRoom: state.goBackToAgentRoom,
+        recordPicSignal: state.recordPicSignal,
+        recordToolOutcome: state.recordToolOutcome,
+        setToolState: state.setToolState,
+        getProfileContext: state.getProfileContext,
     }));
     const agentIdForContext = lastAgentContext ?? AgentId.SELF_KNOWLEDGE;
     const chatHistory = chatHistories[agentIdForContext] || [];
@@ -28,15 +33,22 @@ const VerbalFrequencyAnalysis: React.FC<VerbalFrequencyAnalysisProps> = ({ onExi
         setResult(null);
 
         try {
-            const analysisResult = await analyzeVerbalFrequency(chatHistory);
+            const analysisResult = await analyzeVerbalFrequency(chatHistory, getProfileContext('verbal_frequency_analysis'));
             setResult(analysisResult);
+            recordPicSignal('verbal_frequency_analysis', analysisResult.acao_pac_recomendada);
+            // The analysis runs on every visit, but a conversation only moves the USV once; a new message makes it a new one.
+            const lastMessageId = chatHistory[chatHistory.length - 1]?.id;
+            if (lastMessageId && useStore.getState().toolStates.verbalFrequency?.lastScoredMessageId !== lastMessageId) {
+                recordToolOutcome(scoreVerbalFrequency(analysisResult.coerencia_score));
+                setToolState('verbalFrequency', { lastScoredMessageId: lastMessageId });
+            }
         } catch (err) {
             const friendlyError = getFriendlyErrorMessage(err, 'Ocorreu um erro desconhecido durante a análise.');
             setError(friendlyError);
         } finally {
             setIsLoading(false);
         }
-    }, [chatHistory]);
+    }, [chatHistory, recordPicSignal, recordToolOutcome, setToolState, getProfileContext]);
     
     useEffect(() => {
         if (chatHistory.length > 1) { 
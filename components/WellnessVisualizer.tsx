@@ -2,9 +2,10 @@ import React, { useState, useEffect } from 'react';
 // FIX: Imported the missing 'X' icon from 'lucide-react' to be used in the exit button.
 import { HeartHandshake, TrendingUp, Zap, Shield, X } from 'lucide-react';
 import { useStore } from '../store.ts';
+import UsvTrendChart from './UsvTrendChart.tsx';
 
 const WellnessVisualizer: React.FC<{ onExit: () => void }> = ({ onExit }) => {
-    const { usv, updateUsvDimensions, addToast, goBackToAgentRoom } = useStore();
+    const { usv, usvHistory, updateUsvDimensions, addToast, goBackToAgentRoom } = useStore();
 
     // Initialize local state from the global store
     const [physicalEnergy, setPhysicalEnergy] = useState(usv.physical);
@@ -45,7 +46,7 @@ const WellnessVisualizer: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                     </button>
                 </div>
             </header>
-            <main className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+            <main className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-8 text-center no-scrollbar">
                 <p className="text-lg text-gray-400 mb-10 max-w-md">
                     Registre como você se sente agora. Este feedback ajuda seus mentores a guiarem sua jornada com mais precisão.
                 </p>
@@ -94,6 +95,13 @@ const WellnessVisualizer: React.FC<{ onExit: () => void }> = ({ onExit }) => {
                     <TrendingUp size={20} />
                     Atualizar meu Estado
                 </button>
+
+                {usvHistory.length > 1 && (
+                    <div className="w-full max-w-2xl mt-12 text-left">
+                        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4 text-center">Seu Progresso</h3>
+                        <UsvTrendChart history={usvHistory} series={['physical', 'emotional']} />
+                    </div>
+                )}
             </main>
         </div>
     );
@@ -3,7 +3,7 @@ import React from 'react';
 import { Agent, AgentId, ToolId } from './types.ts';
 import { GiGalaxy, GiPiggyBank, GiChart } from 'react-icons/gi';
 import { FaUserGraduate } from 'react-icons/fa';
-import { Stethoscope, BrainCircuit, ScanText, BookText, Pill, HeartPulse, BookHeart, Atom, Orbit, Map, Waves, HeartHandshake, MessageSquareHeart, Wallet, Calculator, MessageSquare, CalendarClock, ClipboardCheck } from 'lucide-react';
+import { Stethoscope, BrainCircuit, ScanText, BookText, Pill, HeartPulse, BookHeart, Atom, Orbit, Map, Waves, HeartHandshake, MessageSquareHeart, Wallet, Calculator, Briefcase, MessageSquare, CalendarClock, ClipboardCheck } from 'lucide-react';
 
 export const AGENTS: Record<AgentId, Agent> = {
   [AgentId.COHERENCE]: {
@@ -70,7 +70,7 @@ Você é sábio, calmo e empoderador. Você não trata doenças, você guia o us
     themeColor: 'text-blue-400',
     icon: GiChart,
     initialMessage: 'Dados recebidos. Emoções em modo de espera. Apresente o cenário de investimento. Fornecerei a análise lógica.',
-    tools: ['meditation', 'risk_calculator', 'phi_frontier_radar'],
+    tools: ['meditation', 'portfolio_tracker', 'risk_calculator', 'phi_frontier_radar'],
   },
 };
 
@@ -91,6 +91,7 @@ export const toolMetadata: Record<ToolId, { title: string; description: string;
     belief_resignifier: { title: 'Ressignificador de Crenças', description: 'Transforme crenças limitantes sobre dinheiro.', icon: MessageSquareHeart },
     emotional_spending_map: { title: 'Mapa Emocional de Gastos', description: 'Conecte suas finanças às suas emoções.', icon: Wallet },
     risk_calculator: { title: 'Calculadora de Risco Lógico', description: 'Análise de dados fria e lógica para seus investimentos.', icon: Calculator },
+    portfolio_tracker: { title: 'Carteira de Investimentos', description: 'Acompanhe posições, alocação por setor e sua reserva de emergência.', icon: Briefcase },
     live_conversation: { title: 'Diálogo com o Arquiteto', description: 'Conecte-se em tempo real com o Arquiteto da Consciência para uma conversa de orientação profunda.', icon: MessageSquare },
     scheduled_session: { title: 'Sessão Agendada', description: 'Agende uma sessão de voz proativa com seu mentor para um horário específico.', icon: CalendarClock },
 };
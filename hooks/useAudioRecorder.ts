@@ -0,0 +1,72 @@
+// hooks/useAudioRecorder.ts
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+/**
+ * Records the microphone into a single Blob with MediaRecorder.
+ */
+export const useAudioRecorder = () => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const chunksRef = useRef<Blob[]>([]);
+
+    const releaseMicrophone = useCallback(() => {
+        recorderRef.current?.stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+    }, []);
+
+    useEffect(() => () => {
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+        releaseMicrophone();
+    }, [releaseMicrophone]);
+
+    const startRecording = useCallback(async (): Promise<boolean> => {
+        if (recorderRef.current) return false;
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+            setError('A gravação de áudio não é suportada neste navegador.');
+            return false;
+        }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            chunksRef.current = [];
+            recorder.ondataavailable = (event) => {
+                if (event.data.size > 0) chunksRef.current.push(event.data);
+            };
+            recorder.start();
+            recorderRef.current = recorder;
+            setIsRecording(true);
+            setError(null);
+            return true;
+        } catch (err) {
+            console.error('Error starting audio recording:', err);
+            setError('A permissão para usar o microfone foi negada. Verifique as configurações do seu navegador e do sistema.');
+            return false;
+        }
+    }, []);
+
+    /**
+     * @returns The recording, or null if nothing was being recorded.
+     */
+    const stopRecording = useCallback((): Promise<Blob | null> => {
+        const recorder = recorderRef.current;
+        if (!recorder || recorder.state !== 'recording') return Promise.resolve(null);
+        return new Promise(resolve => {
+            recorder.onstop = () => {
+                releaseMicrophone();
+                setIsRecording(false);
+                const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+                chunksRef.current = [];
+                resolve(blob.size > 0 ? blob : null);
+            };
+            recorder.stop();
+        });
+    }, [releaseMicrophone]);
+
+    return {
+        isRecording,
+        error,
+        startRecording,
+        stopRecording,
+    };
+};
@@ -0,0 +1,93 @@
+// hooks/useNarrationQueue.ts
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { generateSpeech, TtsVoice } from '../services/geminiTtsService.ts';
+import { decode, decodeAudioData } from '../utils/audioUtils.ts';
+
+export type NarrationStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'finished';
+
+/**
+ * Narrates a list of text segments one after the other, hands-free.
+ * Every segment is synthesized up front so playback never stalls between them.
+ * @param onFinished Called once, with the total narrated seconds, when the last segment ends.
+ */
+export const useNarrationQueue = (voice: TtsVoice, onFinished?: (seconds: number) => void) => {
+    const [status, setStatus] = useState<NarrationStatus>('idle');
+    const [currentIndex, setCurrentIndex] = useState(0);
+
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+    const buffersRef = useRef<AudioBuffer[]>([]);
+    const onFinishedRef = useRef(onFinished);
+    onFinishedRef.current = onFinished;
+
+    const playFrom = useCallback((index: number) => {
+        const ctx = audioContextRef.current;
+        if (!ctx) return;
+        if (index >= buffersRef.current.length) {
+            setStatus('finished');
+            const seconds = buffersRef.current.reduce((acc, buffer) => acc + buffer.duration, 0);
+            onFinishedRef.current?.(seconds);
+            return;
+        }
+        setCurrentIndex(index);
+        const source = ctx.createBufferSource();
+        source.buffer = buffersRef.current[index];
+        source.connect(ctx.destination);
+        // Stopping the node on unmount also fires onended; only advance for the active node.
+        source.onended = () => {
+            if (sourceNodeRef.current === source) playFrom(index + 1);
+        };
+        sourceNodeRef.current = source;
+        source.start();
+    }, []);
+
+    /**
+     * Synthesizes every segment and starts playing from the first one.
+     * @throws When the speech provider returns no audio for a segment.
+     */
+    const start = useCallback(async (segments: string[]) => {
+        setStatus('loading');
+        // A restart replaces the previous narration, whose context would otherwise keep playing.
+        const previousSource = sourceNodeRef.current;
+        sourceNodeRef.current = null;
+        try { previousSource?.stop(); } catch (e) {}
+        audioContextRef.current?.close().catch(() => {});
+        const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        audioContextRef.current = ctx;
+        const results = await Promise.all(segments.map(segment => generateSpeech(segment, voice)));
+        // Superseded by a newer start, or closed on unmount, while the speech was being generated.
+        if (audioContextRef.current !== ctx) return;
+        const buffers = await Promise.all(results.map(result => {
+            if (!result?.data) throw new Error("A geração de áudio não retornou dados válidos.");
+            return decodeAudioData(decode(result.data), ctx, 24000, 1);
+        }));
+        if (audioContextRef.current !== ctx) return;
+        buffersRef.current = buffers;
+        setStatus('playing');
+        playFrom(0);
+    }, [voice, playFrom]);
+
+    const togglePause = useCallback(() => {
+        const ctx = audioContextRef.current;
+        if (!ctx) return;
+        if (status === 'playing') {
+            ctx.suspend();
+            setStatus('paused');
+        } else if (status === 'paused') {
+            ctx.resume();
+            setStatus('playing');
+        }
+    }, [status]);
+
+    useEffect(() => {
+        return () => {
+            const source = sourceNodeRef.current;
+            sourceNodeRef.current = null;
+            try { source?.stop(); } catch (e) {}
+            audioContextRef.current?.close().catch(() => {});
+            audioContextRef.current = null;
+        };
+    }, []);
+
+    return { status, currentIndex, start, togglePause };
+};
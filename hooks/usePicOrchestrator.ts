@@ -0,0 +1,261 @@
+// hooks/usePicOrchestrator.ts
+import { useEffect, useMemo, useRef, useCallback } from 'react';
+import { useStore } from '../store.ts';
+import { AGENTS, toolMetadata } from '../constants.tsx';
+import { AgentId, PicSignal, PicTrailStep, Session, ToolId } from '../types.ts';
+
+// The trilha never proposes more than this many steps at once.
+const MAX_TRAIL_STEPS = 4;
+// Finished and skipped steps are kept briefly so the trilha can show progress.
+const MAX_FINISHED_STEPS = 10;
+// A step without a recorded outcome counts as done after this much time in its session.
+const MIN_ENGAGEMENT_MS = 2 * 60 * 1000;
+
+const AGENT_DIMENSION_LABELS: Record<AgentId, string> = {
+    [AgentId.COHERENCE]: 'espiritual',
+    [AgentId.SELF_KNOWLEDGE]: 'de autoconhecimento',
+    [AgentId.HEALTH]: 'física',
+    [AgentId.EMOTIONAL_FINANCE]: 'emocional',
+    [AgentId.INVESTMENTS]: 'financeira',
+};
+
+// Extra phrases the tools use when pointing at another tool, besides its title.
+const TOOL_KEYWORDS: Partial<Record<ToolId, string[]>> = {
+    meditation: ['meditacao', 'meditar'],
+    guided_prayer: ['oracao guiada', 'oracao'],
+    prayer_pills: ['pilula'],
+    therapeutic_journal: ['diario'],
+    quantum_simulator: ['simulador quantico', 'observador ativo'],
+    archetype_journey: ['arquetipo', 'jornada do heroi'],
+    routine_aligner: ['alinhador de rotina', 'dinacharya'],
+    dosha_diagnosis: ['dosha'],
+    belief_resignifier: ['ressignific', 'crenca'],
+    emotional_spending_map: ['gastos'],
+    risk_calculator: ['calculadora de risco'],
+    portfolio_tracker: ['carteira', 'reserva de emergencia'],
+    live_conversation: ['dialogo com o arquiteto'],
+};
+
+/**
+ * Whether the user completed a step: its tool recorded an outcome or a signal since the
+ * step was opened, or they stayed in the session for a minimum time.
+ */
+const isStepCompleted = (step: PicTrailStep): boolean => {
+    const startedAt = step.startedAt ?? 0;
+    if (Date.now() - startedAt >= MIN_ENGAGEMENT_MS) return true;
+    if (step.session.type === 'agent') return false;
+    const toolId = step.session.type as ToolId;
+    const { picSignals, usvImpulses } = useStore.getState();
+    return picSignals.some(s => s.source === toolId && s.timestamp >= startedAt)
+        || usvImpulses.some(i => i.source === toolId && i.timestamp >= startedAt);
+};
+
+const normalize = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Finds the tool a free-text recommendation points at. The phrase that appears
+ * first in the text wins; on ties the longer (more specific) phrase wins.
+ */
+export const resolveToolFromText = (text: string): ToolId | null => {
+    const normalizedText = normalize(text);
+    let best: { toolId: ToolId; index: number; length: number } | null = null;
+
+    for (const toolId of Object.keys(toolMetadata) as ToolId[]) {
+        const phrases = [normalize(toolMetadata[toolId].title), ...(TOOL_KEYWORDS[toolId] ?? [])];
+        for (const phrase of phrases) {
+            const index = normalizedText.indexOf(phrase);
+            if (index === -1) continue;
+            if (!best || index < best.index || (index === best.index && phrase.length > best.length)) {
+                best = { toolId, index, length: phrase.length };
+            }
+        }
+    }
+
+    return best?.toolId ?? null;
+};
+
+const getSessionKey = (session: Session): string =>
+    session.type === 'agent' ? `agent:${session.id}` : session.type;
+
+/**
+ * Builds the suggested trilha from the latest tool signals, followed by the
+ * mentor recommended by the User State Vector.
+ */
+export const buildPicSuggestions = (signals: PicSignal[], recommendation: AgentId | null): PicTrailStep[] => {
+    const suggestions: PicTrailStep[] = [];
+    const seenSessions = new Set<string>();
+
+    [...signals]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .forEach(signal => {
+            const toolId = resolveToolFromText(signal.text);
+            if (!toolId || toolId === signal.source) return;
+            const session = { type: toolId } as Session;
+            if (seenSessions.has(getSessionKey(session))) return;
+            seenSessions.add(getSessionKey(session));
+            suggestions.push({ id: `signal:${signal.id}`, session, reason: signal.text, source: signal.source, status: 'pending' });
+        });
+
+    if (recommendation) {
+        const session: Session = { type: 'agent', id: recommendation };
+        if (!seenSessions.has(getSessionKey(session))) {
+            const today = new Date().toISOString().slice(0, 10);
+            suggestions.push({
+                id: `usv:${recommendation}:${today}`,
+                session,
+                reason: `Sua dimensão ${AGENT_DIMENSION_LABELS[recommendation]} é a que mais pode elevar seu Φ agora.`,
+                source: 'usv',
+                status: 'pending',
+            });
+        }
+    }
+
+    return suggestions.slice(0, MAX_TRAIL_STEPS);
+};
+
+/**
+ * Merges fresh suggestions into the stored trilha, preserving the order the
+ * user chose and the steps already started, finished or skipped.
+ */
+export const mergePicTrail = (trail: PicTrailStep[], suggestions: PicTrailStep[]): PicTrailStep[] => {
+    const suggestionIds = new Set(suggestions.map(s => s.id));
+    const kept = trail.filter(step => step.status !== 'pending' || suggestionIds.has(step.id));
+    const keptIds = new Set(kept.map(s => s.id));
+    const merged = [...kept, ...suggestions.filter(s => !keptIds.has(s.id))];
+
+    const finished = merged.filter(s => s.status === 'done' || s.status === 'skipped');
+    const staleIds = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_STEPS)).map(s => s.id));
+    return merged.filter(s => !staleIds.has(s.id));
+};
+
+export const getStepTitle = (step: PicTrailStep): string =>
+    step.session.type === 'agent'
+        ? AGENTS[step.session.id]?.name ?? 'Mentor'
+        : toolMetadata[step.session.type as ToolId]?.title ?? 'Ferramenta';
+
+const isSameTrail = (a: PicTrailStep[], b: PicTrailStep[]): boolean =>
+    a.length === b.length && a.every((step, i) => step.id === b[i].id && step.status === b[i].status);
+
+interface PicOrchestratorOptions {
+    // Only one mounted instance (the app shell) should drive automatic transitions.
+    autoAdvance?: boolean;
+}
+
+/**
+ * The PIC orchestrator turns the routing hints emitted by the tools and the
+ * current User State Vector into a multi-step trilha. Accepting the trilha
+ * opens each step in turn through `startSession` as the previous one ends.
+ */
+export const usePicOrchestrator = ({ autoAdvance = false }: PicOrchestratorOptions = {}) => {
+    const {
+        picSignals,
+        picTrail,
+        isPicTrailActive,
+        recommendation,
+        currentSession,
+        startSession,
+        setPicTrail,
+        updatePicStepStatus,
+        movePicStep,
+        setPicTrailActive,
+        addToast,
+    } = useStore(state => ({
+        picSignals: state.picSignals,
+        picTrail: state.picTrail,
+        isPicTrailActive: state.isPicTrailActive,
+        recommendation: state.recommendation,
+        currentSession: state.currentSession,
+        startSession: state.startSession,
+        setPicTrail: state.setPicTrail,
+        updatePicStepStatus: state.updatePicStepStatus,
+        movePicStep: state.movePicStep,
+        setPicTrailActive: state.setPicTrailActive,
+        addToast: state.addToast,
+    }));
+
+    const pendingSteps = useMemo(
+        () => picTrail.filter(s => s.status === 'pending' || s.status === 'in_progress'),
+        [picTrail]
+    );
+    const completedCount = useMemo(() => picTrail.filter(s => s.status === 'done').length, [picTrail]);
+    const nextStep = pendingSteps.find(s => s.status === 'pending') ?? null;
+
+    // Keep the stored trilha in sync with the latest signals and USV recommendation.
+    useEffect(() => {
+        if (!autoAdvance) return;
+        const merged = mergePicTrail(useStore.getState().picTrail, buildPicSuggestions(picSignals, recommendation));
+        if (!isSameTrail(merged, useStore.getState().picTrail)) {
+            setPicTrail(merged);
+        }
+    }, [autoAdvance, picSignals, recommendation, setPicTrail]);
+
+    const startStep = useCallback((stepId: string) => {
+        const step = useStore.getState().picTrail.find(s => s.id === stepId);
+        if (!step) return;
+        updatePicStepStatus(step.id, 'in_progress');
+        startSession(step.session);
+    }, [startSession, updatePicStepStatus]);
+
+    const acceptTrail = useCallback(() => {
+        if (!nextStep) return;
+        setPicTrailActive(true);
+        startStep(nextStep.id);
+    }, [nextStep, setPicTrailActive, startStep]);
+
+    const pauseTrail = useCallback(() => setPicTrailActive(false), [setPicTrailActive]);
+
+    const skipStep = useCallback((stepId: string) => updatePicStepStatus(stepId, 'skipped'), [updatePicStepStatus]);
+
+    // Reordering only considers the visible steps, hopping over finished ones.
+    const moveStep = useCallback((stepId: string, direction: -1 | 1) => {
+        const visibleIndex = pendingSteps.findIndex(s => s.id === stepId);
+        const neighbour = pendingSteps[visibleIndex + direction];
+        if (visibleIndex === -1 || !neighbour) return;
+        const trail = useStore.getState().picTrail;
+        movePicStep(stepId, trail.findIndex(s => s.id === neighbour.id) - trail.findIndex(s => s.id === stepId));
+    }, [pendingSteps, movePicStep]);
+
+    // When the session of the step in progress ends, mark it as done if the user actually
+    // completed it and, if the trilha was accepted, open the next pending step. A step left
+    // early goes back to pending so it is offered again.
+    const previousSessionRef = useRef<Session | null>(currentSession);
+    useEffect(() => {
+        const previousSession = previousSessionRef.current;
+        previousSessionRef.current = currentSession;
+        if (!autoAdvance || !previousSession) return;
+        if (currentSession && getSessionKey(currentSession) === getSessionKey(previousSession)) return;
+
+        const { picTrail: trail, isPicTrailActive: isActive } = useStore.getState();
+        const finishedStep = trail.find(s => s.status === 'in_progress' && getSessionKey(s.session) === getSessionKey(previousSession));
+        if (!finishedStep) return;
+        if (!isStepCompleted(finishedStep)) {
+            updatePicStepStatus(finishedStep.id, 'pending');
+            return;
+        }
+        updatePicStepStatus(finishedStep.id, 'done');
+
+        // Only take over when the user returned to the hub, not when they moved elsewhere.
+        if (!isActive || currentSession) return;
+        const upcoming = trail.find(s => s.status === 'pending');
+        if (upcoming) {
+            addToast(`Próximo passo da trilha: ${getStepTitle(upcoming)}`, 'info');
+            startStep(upcoming.id);
+        } else {
+            setPicTrailActive(false);
+            addToast('Trilha concluída. Sua coerência agradece!', 'success');
+        }
+    }, [autoAdvance, currentSession, updatePicStepStatus, setPicTrailActive, addToast, startStep]);
+
+    return {
+        steps: pendingSteps,
+        nextStep,
+        completedCount,
+        isActive: isPicTrailActive,
+        acceptTrail,
+        pauseTrail,
+        startStep,
+        skipStep,
+        moveStep,
+    };
+};
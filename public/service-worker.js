@@ -0,0 +1,122 @@
+// public/service-worker.js
+// Raises system notifications for scheduled mentor calls while the app is in a background tab.
+// The app sends the upcoming calls with a SYNC_SCHEDULES message; they are kept in Cache Storage
+// so a restarted worker still knows about them. The browser stops an idle worker and its timers,
+// so with the app closed a call only rings where Notification Triggers or Periodic Background
+// Sync (installed apps) wake the worker; the .ics export covers the other cases.
+
+const STORAGE_CACHE = 'coherence-hub-schedules';
+const STORAGE_KEY = '/__scheduled-notifications';
+// Timers only live as long as the worker, so there is no point in arming them far ahead.
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+// Calls older than this are left to the app's missed-session catch-up.
+const GRACE_MS = 10 * 60 * 1000;
+
+const timers = new Map();
+
+const supportsTriggers = () =>
+    typeof Notification !== 'undefined' && 'showTrigger' in Notification.prototype && 'TimestampTrigger' in self;
+
+const loadNotifications = async () => {
+    const cache = await caches.open(STORAGE_CACHE);
+    const response = await cache.match(STORAGE_KEY);
+    return response ? response.json() : [];
+};
+
+const saveNotifications = async (notifications) => {
+    const cache = await caches.open(STORAGE_CACHE);
+    await cache.put(STORAGE_KEY, new Response(JSON.stringify(notifications), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const notificationOptions = (notification) => ({
+    body: notification.body,
+    tag: notification.id,
+    renotify: true,
+    requireInteraction: true,
+    data: { scheduleId: notification.id },
+});
+
+// A visible tab already shows the call on screen, so the notification would be noise.
+const hasVisibleClient = async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    return windows.some(client => client.visibilityState === 'visible');
+};
+
+const notifyIfDue = async () => {
+    const now = Date.now();
+    const notifications = await loadNotifications();
+    const due = notifications.filter(n => !n.notified && n.time <= now && now - n.time <= GRACE_MS);
+    if (due.length === 0) return;
+
+    if (!(await hasVisibleClient())) {
+        await Promise.all(due.map(n => self.registration.showNotification(n.title, notificationOptions(n))));
+    }
+    const dueIds = new Set(due.map(n => n.id + n.time));
+    await saveNotifications(notifications.map(n => (dueIds.has(n.id + n.time) ? { ...n, notified: true } : n)));
+};
+
+const armNotifications = async (notifications) => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+    const now = Date.now();
+
+    if (supportsTriggers()) {
+        const pending = await self.registration.getNotifications({ includeTriggered: false });
+        pending.forEach(n => n.close());
+        await Promise.all(notifications
+            .filter(n => n.time > now)
+            .map(n => self.registration.showNotification(n.title, {
+                ...notificationOptions(n),
+                showTrigger: new self.TimestampTrigger(n.time),
+            })));
+        return;
+    }
+
+    notifications
+        .filter(n => !n.notified && n.time > now && n.time - now <= MAX_TIMER_MS)
+        .forEach(n => timers.set(n.id, setTimeout(() => notifyIfDue(), n.time - now)));
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(self.clients.claim().then(loadNotifications).then(armNotifications));
+});
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type !== 'SYNC_SCHEDULES') return;
+    event.waitUntil((async () => {
+        const previous = await loadNotifications();
+        // Keep the "already notified" flag of calls that did not move.
+        const notified = new Set(previous.filter(n => n.notified).map(n => n.id + n.time));
+        const notifications = event.data.notifications.map(n => ({ ...n, notified: notified.has(n.id + n.time) }));
+        await saveNotifications(notifications);
+        await armNotifications(notifications);
+        await notifyIfDue();
+    })());
+});
+
+self.addEventListener('periodicsync', (event) => {
+    if (event.tag === 'check-schedules') {
+        event.waitUntil(notifyIfDue());
+    }
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+    const scheduleId = event.notification.data?.scheduleId;
+    if (!scheduleId) return;
+
+    event.waitUntil((async () => {
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        const client = windows[0];
+        if (client) {
+            await client.focus();
+            client.postMessage({ type: 'OPEN_SCHEDULE', scheduleId });
+            return;
+        }
+        const url = new URL(self.registration.scope);
+        url.searchParams.set('schedule', scheduleId);
+        await self.clients.openWindow(url.href);
+    })());
+});
@@ -0,0 +1,155 @@
+// services/aiProvider.ts
+import type { Blob as GenaiBlob, FunctionDeclaration, LiveServerMessage } from '@google/genai';
+import { geminiProvider } from './providers/geminiProvider.ts';
+import { mockProvider } from './providers/mockProvider.ts';
+
+/**
+ * The backends that can serve the AI features of the app.
+ * 'gemini' talks to the live Gemini API; 'mock' is a deterministic local
+ * backend that lets the whole app run offline without an API key.
+ */
+export type AiProviderName = 'gemini' | 'mock';
+
+export type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+
+/**
+ * A single piece of multimodal content sent to a model.
+ */
+export type AiPart =
+    | { text: string }
+    | { inlineData: { data: string; mimeType: string } };
+
+/**
+ * A prior turn of a conversation, used to seed a chat session.
+ */
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+/**
+ * A piece of a streamed chat reply: text as it arrives, or a function the model decided to call.
+ */
+export type ChatStreamChunk =
+    | { type: 'text'; text: string }
+    | { type: 'functionCall'; name: string; args: Record<string, unknown> };
+
+/**
+ * A stateful multi-turn conversation with a model.
+ */
+export interface ChatSession {
+    sendMessage: (message: string) => Promise<string>;
+    // Yields the reply in chunks as they arrive. Aborting the signal ends the stream with an error.
+    sendMessageStream: (message: string, options?: { signal?: AbortSignal }) => AsyncIterable<ChatStreamChunk>;
+}
+
+export interface GenerateTextRequest {
+    model: string;
+    contents: string | AiPart[];
+    systemInstruction?: string;
+}
+
+export interface GenerateJsonRequest extends GenerateTextRequest {
+    // A response schema built with the `Type` enum from @google/genai.
+    schema: Record<string, any>;
+}
+
+export interface CreateChatRequest {
+    model: string;
+    systemInstruction?: string;
+    history?: ChatTurn[];
+    // Functions the model may call instead of, or after, replying with text.
+    functionDeclarations?: FunctionDeclaration[];
+}
+
+export interface SpeechResult {
+    data: string; // base64 encoded 16-bit PCM at 24kHz
+    mimeType: string;
+}
+
+export interface LiveSession {
+    sendRealtimeInput: (input: { media: GenaiBlob }) => void;
+    close: () => void;
+}
+
+export interface LiveCallbacks {
+    onopen?: () => void;
+    onmessage: (message: LiveServerMessage) => void;
+    onerror?: (e: ErrorEvent) => void;
+    onclose?: (e: CloseEvent) => void;
+}
+
+export interface ConnectLiveRequest {
+    model: string;
+    systemInstruction: string;
+    voiceName: string;
+    functionDeclarations?: FunctionDeclaration[];
+    callbacks: LiveCallbacks;
+}
+
+/**
+ * Thrown by a provider for a feature it cannot serve, e.g. video generation in the offline mock.
+ * The message is meant to be shown to the user as is.
+ */
+export class AiFeatureUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AiFeatureUnavailableError';
+    }
+}
+
+/**
+ * The single interface every service in `services/` goes through to reach a model.
+ */
+export interface AiProvider {
+    readonly name: AiProviderName;
+    // Whether the AI Studio key selection flow must run before using this provider.
+    readonly requiresApiKey: boolean;
+    generateText: (request: GenerateTextRequest) => Promise<string>;
+    generateJson: <T>(request: GenerateJsonRequest) => Promise<T>;
+    createChat: (request: CreateChatRequest) => ChatSession;
+    generateSpeech: (text: string, voiceName: string) => Promise<SpeechResult | null>;
+    generateImage: (prompt: string, aspectRatio: AspectRatio) => Promise<string>;
+    editImage: (image: { data: string; mimeType: string }, prompt: string) => Promise<string>;
+    generateVideo: (prompt: string) => Promise<string>;
+    connectLive: (request: ConnectLiveRequest) => Promise<LiveSession>;
+}
+
+const PROVIDER_STORAGE_KEY = 'ai-provider';
+
+const providers: Record<AiProviderName, AiProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const isProviderName = (value: unknown): value is AiProviderName =>
+    typeof value === 'string' && value in providers;
+
+// A localStorage override wins over the build-time AI_PROVIDER setting,
+// so the mock backend can be switched on without rebuilding the app.
+const resolveProviderName = (): AiProviderName => {
+    const override = typeof window !== 'undefined' ? window.localStorage?.getItem(PROVIDER_STORAGE_KEY) : null;
+    if (isProviderName(override)) return override;
+    const configured = process.env.AI_PROVIDER;
+    return isProviderName(configured) ? configured : 'gemini';
+};
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Returns the provider selected by configuration. Resolved lazily on first use.
+ */
+export const getAiProvider = (): AiProvider => {
+    if (!activeProvider) {
+        activeProvider = providers[resolveProviderName()];
+    }
+    return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with the mock backend or a custom test double.
+ * Passing null re-resolves the provider from configuration on next use.
+ */
+export const setAiProvider = (provider: AiProvider | AiProviderName | null) => {
+    activeProvider = typeof provider === 'string' ? providers[provider] : provider;
+};
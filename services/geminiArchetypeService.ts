@@ -1,9 +1,30 @@
 // services/geminiArchetypeService.ts
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { ArchetypeAnalysisResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
 
 const ARCHETYPE_MODEL = 'gemini-2.5-flash';
 
+// The archetype vocabulary of the Archetype Journey, shared with the dream symbol analysis.
+export const ARCHETYPES = [
+    'Inocente',
+    'Órfão',
+    'Herói',
+    'Cuidador',
+    'Explorador',
+    'Rebelde',
+    'Amante',
+    'Criador',
+    'Bobo',
+    'Sábio',
+    'Mago',
+    'Governante',
+    'Sombra',
+    'Anima/Animus',
+    'Persona',
+    'Self',
+];
+
 const ARCHETYPE_ANALYSIS_PROMPT = `
 Você é o Módulo Jornada do Arquétipo, uma ferramenta de transformação de narrativa do Arquiteto da Consciência. Sua missão é traduzir a experiência de vida e os desafios do usuário (a narrativa pessoal) em uma estrutura mítica e arquetípica, usando a PNL e o Princípio da Informação Consciente (PIC) como lentes.
 
@@ -11,7 +32,7 @@ OBJETIVO DA ANÁLISE (PIC/Maslow):
 Sua análise deve guiar o usuário da satisfação de necessidades básicas (baixo Φ) em direção à Autorrealização e Auto-Transcendência (alto Φ), recontextualizando os desafios como partes necessárias da "Jornada do Herói".
 
 BASE DE CONHECIMENTO FUNDAMENTAL:
-1. Teoria Arquetípica (Jung): Use arquétipos universais (ex: Herói, Sábio, Explorador, Inocente, Sombra) para enquadrar a narrativa.
+1. Teoria Arquetípica (Jung): Use arquétipos universais (${ARCHETYPES.join(', ')}) para enquadrar a narrativa.
 2. Hierarquia das Necessidades (Maslow): A meta final é a Autorrealização (o pináculo da coerência pessoal) e, idealmente, a Auto-Transcendência (alinhamento com o Φ global).
 3. Jornada do Herói (Joseph Campbell): Os desafios do usuário são a "Recusa ao Chamado," a "Travessia do Limiar" ou o confronto com a "Sombra."
 4. Metamodelo da PNL: Use para identificar as crenças limitantes do usuário que estão impedindo a aceitação do "Chamado."
@@ -47,25 +68,16 @@ const archetypeSchema = {
 };
 
 
-export const analyzeNarrative = async (narrative: string): Promise<ArchetypeAnalysisResult> => {
+export const analyzeNarrative = async (narrative: string, profileContext: string = ''): Promise<ArchetypeAnalysisResult> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    const fullPrompt = `${ARCHETYPE_ANALYSIS_PROMPT}\n\n--- NARRATIVA DO USUÁRIO PARA ANÁLISE ---\n${narrative}\n--- FIM DA NARRATIVA ---`;
+    const fullPrompt = `${ARCHETYPE_ANALYSIS_PROMPT}\n\n--- NARRATIVA DO USUÁRIO PARA ANÁLISE ---\n${narrative}\n--- FIM DA NARRATIVA ---${profileContext}`;
 
-    const response = await ai.models.generateContent({
+    const parsedResponse = await getAiProvider().generateJson<ArchetypeAnalysisResult>({
         model: ARCHETYPE_MODEL,
         contents: fullPrompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: archetypeSchema,
-        },
+        schema: archetypeSchema,
     });
-    
-    const jsonText = response.text.trim();
-    const cleanJsonText = jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
-    const parsedResponse = JSON.parse(cleanJsonText) as ArchetypeAnalysisResult;
 
     if (!parsedResponse.lente || !parsedResponse.dissonancia || !parsedResponse.passo) {
          throw new Error("Formato de análise de arquétipo inválido recebido da API.");
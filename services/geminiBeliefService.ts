@@ -0,0 +1,93 @@
+import { Type } from "@google/genai";
+import { Message, BeliefAnalysisResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { METAMODEL_CATEGORIES } from './geminiDissonanceService.ts';
+
+const BELIEF_MODEL = 'gemini-2.5-flash';
+const METAMODEL_CATEGORY_VALUES = ['Omissão', 'Generalização', 'Distorção'];
+
+const BELIEF_RESIGNIFIER_PROMPT = `
+Você é o Ressignificador de Crenças, uma ferramenta do Mentor de Finanças Emocionais. Sua missão é encontrar a crença limitante sobre dinheiro que reduz a coerência (Φ) do usuário e oferecer novas perspectivas que ele possa testar na própria experiência.
+
+OBJETIVO:
+1. Identificar UMA crença limitante sobre dinheiro, reescrita na primeira pessoa (ex: "Eu nunca vou conseguir guardar dinheiro").
+2. Classificá-la em uma categoria do Metamodelo e descrever o padrão linguístico que a sustenta.
+3. Criar de 3 a 4 ressignificações. Cada uma deve ser uma afirmação crível e concreta, não uma promessa mágica de abundância.
+4. Para cada ressignificação, escrever 2 perguntas de evidência que levem o usuário a procurar, na própria vida, fatos que a confirmem ou que contradigam a crença antiga.
+
+${METAMODEL_CATEGORIES}
+
+Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
+`;
+
+const beliefSchema = {
+    type: Type.OBJECT,
+    properties: {
+        crenca: {
+            type: Type.STRING,
+            description: 'A crença limitante sobre dinheiro, na primeira pessoa.',
+        },
+        categoria: {
+            type: Type.STRING,
+            enum: METAMODEL_CATEGORY_VALUES,
+            description: 'A categoria do Metamodelo em que a crença se encaixa.',
+        },
+        padrao: {
+            type: Type.STRING,
+            description: 'O padrão linguístico detectado. Ex: Generalização ("Nunca", "Sempre").',
+        },
+        ressignificacoes: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    afirmacao: { type: Type.STRING, description: 'A nova perspectiva, na primeira pessoa.' },
+                    perguntas: {
+                        type: Type.ARRAY,
+                        items: { type: Type.STRING },
+                        description: 'Perguntas que buscam evidências na vida do usuário.',
+                    },
+                },
+                required: ['afirmacao', 'perguntas'],
+            },
+        },
+    },
+    required: ['crenca', 'categoria', 'padrao', 'ressignificacoes'],
+};
+
+const formatConversationForBelief = (chatHistory?: Message[]): string => {
+    const userMessages = (chatHistory ?? []).filter(msg => msg.sender === 'user').map(msg => msg.text);
+    if (userMessages.length === 0) return '';
+    return `\n\n--- CONVERSA COM O MENTOR DE FINANÇAS EMOCIONAIS ---\n${userMessages.join('\n')}\n--- FIM DA CONVERSA ---`;
+};
+
+/**
+ * Detects the limiting money belief and proposes reframes for it.
+ * @param statement The belief as the user wrote it. When empty, the belief is detected in the conversation.
+ * @param chatHistory The conversation with the financial mentor, used as context or as the source of the belief.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ */
+export const resignifyBelief = async (statement: string, chatHistory?: Message[], profileContext: string = ''): Promise<BeliefAnalysisResult> => {
+  try {
+    const conversation = formatConversationForBelief(chatHistory);
+    const source = statement.trim()
+        ? `--- CRENÇA ESCRITA PELO USUÁRIO ---\n${statement.trim()}\n--- FIM DA CRENÇA ---${conversation}`
+        : `O usuário não escreveu uma crença. Detecte a principal crença limitante sobre dinheiro na conversa abaixo.${conversation}`;
+
+    const parsedResponse = await getAiProvider().generateJson<BeliefAnalysisResult>({
+        model: BELIEF_MODEL,
+        contents: `${BELIEF_RESIGNIFIER_PROMPT}\n\n${source}${profileContext}`,
+        schema: beliefSchema,
+    });
+
+    if (!parsedResponse.crenca || !parsedResponse.categoria || !Array.isArray(parsedResponse.ressignificacoes) || parsedResponse.ressignificacoes.length === 0) {
+        throw new Error("Formato de ressignificação inválido recebido da API.");
+    }
+
+    return parsedResponse;
+
+  } catch (error) {
+      console.error(`Error resignifying belief:`, error);
+      throw error;
+  }
+};
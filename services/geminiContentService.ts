@@ -1,15 +1,9 @@
-import { GoogleGenAI, Part } from "@google/genai";
 import { Message } from '../types.ts';
+import { getAiProvider, AiPart } from './aiProvider.ts';
+import { formatChatHistoryForPrompt } from '../utils/userContext.ts';
 
 const CONTENT_MODEL = 'gemini-2.5-flash';
 
-const formatChatHistoryForPrompt = (chatHistory: Message[]): string => {
-    if (!chatHistory || chatHistory.length === 0) return '';
-    const recentHistory = chatHistory.slice(-6);
-    const formatted = recentHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
-    return `\n\n--- Histórico da Conversa Recente para Contexto Adicional ---\n${formatted}\n--- Fim do Histórico ---`;
-}
-
 const PIC_ANALYSIS_PROMPT = `Você é um especialista e pesquisador avançado no "Princípio da Informação Consciente (PIC)", uma teoria unificadora da consciência, física e teleologia cósmica. Sua tarefa é analisar o conteúdo fornecido (que pode ser texto, imagem, áudio, etc.) e interpretá-lo estritamente através das lentes do PIC.
 
 **Sua análise deve:**
@@ -37,11 +31,8 @@ export const analyzeContentWithPIC = async (
     }
 
     try {
-        // Instantiate client right before the call to use the latest key
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        const historyContext = chatHistory ? formatChatHistoryForPrompt(chatHistory) : '';
-        const parts: Part[] = [{ text: PIC_ANALYSIS_PROMPT + historyContext }];
+        const historyContext = formatChatHistoryForPrompt(chatHistory);
+        const parts: AiPart[] = [{ text: PIC_ANALYSIS_PROMPT + historyContext }];
 
         if (content.text) {
             parts.push({ text: `\n--- INÍCIO DO TEXTO ---\n${content.text}\n--- FIM DO TEXTO ---` });
@@ -50,12 +41,12 @@ export const analyzeContentWithPIC = async (
             parts.push({ inlineData: { data: content.file.data, mimeType: content.file.mimeType } });
         }
 
-        const response = await ai.models.generateContent({
+        const response = await getAiProvider().generateText({
             model: 'gemini-2.5-pro', // Using Pro for better analysis
-            contents: { parts },
+            contents: parts,
         });
 
-        return response.text.trim();
+        return response.trim();
     } catch (error) {
         console.error("Error analyzing content with PIC:", error);
         throw error;
@@ -69,8 +60,6 @@ export const analyzeContentWithPIC = async (
  */
 export const generateImagePromptForPrayer = async (prayerText: string): Promise<string> => {
     try {
-        // Instantiate client right before the call to use the latest key
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         const prompt = `
             Leia a seguinte oração guiada e crie um prompt curto e poderoso para um gerador de imagens (como o Imagen).
             O prompt deve capturar a essência visual e emocional da oração em uma única frase.
@@ -83,12 +72,12 @@ export const generateImagePromptForPrayer = async (prayerText: string): Promise<
             Prompt para imagem:
         `;
         
-        const response = await ai.models.generateContent({
+        const response = await getAiProvider().generateText({
             model: CONTENT_MODEL,
             contents: prompt,
         });
 
-        return response.text.trim();
+        return response.trim();
     } catch (error) {
         console.error("Error generating image prompt for prayer:", error);
         throw error;
@@ -1,8 +1,15 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { Message, DissonanceAnalysisResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
 
 const ANALYSIS_MODEL = 'gemini-2.5-flash';
 
+// The Metamodel categories both this analyzer and the Belief Resignifier classify language into.
+export const METAMODEL_CATEGORIES = `MÉTODO DE ANÁLISE (Metamodelo da PNL):
+- OMISSÃO: Omissão de sujeitos ("Não consigo"). Omissão de comparação ("É difícil").
+- GENERALIZAÇÃO: Uso de quantificadores universais ("Sempre", "Nunca", "Todos").
+- DISTORÇÃO: Leitura Mental ("Ele deve estar pensando..."). Causa-Efeito ("A situação me deixa ansioso.").`;
+
 const DISSONANCE_ANALYSIS_PROMPT = `
 Você é o Analisador de Dissonância, uma ferramenta do Mentor de Coerência. Sua missão é traduzir a linguagem do usuário em padrões de informação dissonantes (baixo Φ), seguindo o Princípio da Informação Consciente (PIC) e o Metamodelo da PNL.
 
@@ -11,10 +18,7 @@ OBJETIVO DA ANÁLISE:
 2. Identificar o Tema Emocional Central que está causando o baixo Φ.
 3. Gerar um Insight Terapêutico de alta Coerência (Alto Φ).
 
-MÉTODO DE ANÁLISE (Metamodelo da PNL):
-- OMISSÃO: Omissão de sujeitos ("Não consigo"). Omissão de comparação ("É difícil").
-- GENERALIZAÇÃO: Uso de quantificadores universais ("Sempre", "Nunca", "Todos").
-- DISTORÇÃO: Leitura Mental ("Ele deve estar pensando..."). Causa-Efeito ("A situação me deixa ansioso.").
+${METAMODEL_CATEGORIES}
 
 Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
 `;
@@ -47,27 +51,17 @@ const formatChatHistoryForAnalysis = (chatHistory: Message[]): string => {
         .join('\n');
 };
 
-export const analyzeDissonance = async (chatHistory: Message[]): Promise<DissonanceAnalysisResult> => {
+export const analyzeDissonance = async (chatHistory: Message[], profileContext: string = ''): Promise<DissonanceAnalysisResult> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const userConversation = formatChatHistoryForAnalysis(chatHistory);
 
-    const fullPrompt = `${DISSONANCE_ANALYSIS_PROMPT}\n\n--- CONVERSA DO USUÁRIO PARA ANÁLISE ---\n${userConversation}\n--- FIM DA CONVERSA ---`;
+    const fullPrompt = `${DISSONANCE_ANALYSIS_PROMPT}\n\n--- CONVERSA DO USUÁRIO PARA ANÁLISE ---\n${userConversation}\n--- FIM DA CONVERSA ---${profileContext}`;
 
-    const response = await ai.models.generateContent({
+    const parsedResponse = await getAiProvider().generateJson<DissonanceAnalysisResult>({
         model: ANALYSIS_MODEL,
         contents: fullPrompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: analysisSchema,
-        },
+        schema: analysisSchema,
     });
-    
-    const jsonText = response.text.trim();
-    const cleanJsonText = jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
-
-    const parsedResponse = JSON.parse(cleanJsonText) as DissonanceAnalysisResult;
 
     if (!parsedResponse.tema || !parsedResponse.padrao || !parsedResponse.insight) {
          throw new Error("Formato de análise inválido recebido da API.");
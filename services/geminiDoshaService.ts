@@ -1,5 +1,5 @@
 // services/geminiDoshaService.ts
-import { GoogleGenAI, Chat } from "@google/genai";
+import { getAiProvider, ChatSession } from './aiProvider.ts';
 
 const DIAGNOSIS_MODEL = 'gemini-2.5-flash';
 
@@ -39,32 +39,25 @@ Com base em seus padrões, detectei a seguinte Dissonância Informacional:
 Siga o fluxo estritamente. Comece com a primeira pergunta.
 `;
 
-export const createDoshaChat = (): Chat => {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const chat = ai.chats.create({
+export const createDoshaChat = (): ChatSession => {
+    return getAiProvider().createChat({
         model: DIAGNOSIS_MODEL,
-        config: {
-            systemInstruction: DOSHA_DIAGNOSIS_PROMPT,
-        },
+        systemInstruction: DOSHA_DIAGNOSIS_PROMPT,
     });
-    return chat;
 };
 
-export const startDoshaConversation = async (chat: Chat): Promise<string> => {
+export const startDoshaConversation = async (chat: ChatSession): Promise<string> => {
     try {
-        const response = await chat.sendMessage({ message: "Começar o diagnóstico." });
-        return response.text;
+        return await chat.sendMessage("Começar o diagnóstico.");
     } catch (error) {
         console.error("Error starting Dosha conversation:", error);
         throw error;
     }
 };
 
-export const continueDoshaConversation = async (chat: Chat, message: string): Promise<string> => {
+export const continueDoshaConversation = async (chat: ChatSession, message: string): Promise<string> => {
      try {
-        const response = await chat.sendMessage({ message: message });
-        return response.text;
+        return await chat.sendMessage(message);
     } catch (error) {
         console.error("Error continuing Dosha conversation:", error);
         throw error;
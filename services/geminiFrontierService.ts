@@ -0,0 +1,93 @@
+import { Type } from "@google/genai";
+import { FrontierConcept, FrontierExpansion } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { FRONTIER_MATURITY_LEVELS } from '../utils/frontierConcepts.ts';
+import { PORTFOLIO_SECTORS } from '../utils/portfolio.ts';
+
+const FRONTIER_MODEL = 'gemini-2.5-flash';
+
+const FRONTIER_EXPANSION_PROMPT = `
+Você é o Radar de Fronteira de Φ do Analista "Zumbi Filosófico". Você avalia tecnologias pelo quanto elas podem aumentar a integração e a coerência (Φ) de pessoas e sistemas, com rigor e sem deslumbramento.
+
+OBJETIVO:
+1. Escrever um panorama de 3 a 4 frases: o estado real do conceito hoje e o que precisaria acontecer para ele amadurecer. Separe claramente fatos de especulação.
+2. Conectar o conceito aos setores da carteira do usuário (Cripto, Bio-Tech, IA). Para cada setor relevante, explique a conexão concreta (empresas, protocolos ou tendências do setor que se beneficiam ou são ameaçadas).
+3. Listar de 2 a 4 sinais observáveis que indicariam que o conceito está avançando.
+4. Listar de 2 a 3 riscos ou motivos de ceticismo.
+
+Não faça recomendações de compra ou venda. Responda em Português do Brasil.
+Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
+`;
+
+const expansionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        panorama: {
+            type: Type.STRING,
+            description: 'O estado real do conceito e o que falta para ele amadurecer.',
+        },
+        conexoes: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    setor: { type: Type.STRING, enum: ['Cripto', 'Bio-Tech', 'IA'] },
+                    conexao: { type: Type.STRING, description: 'A conexão concreta entre o conceito e o setor.' },
+                },
+                required: ['setor', 'conexao'],
+            },
+        },
+        sinais: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: 'Sinais observáveis de que o conceito está avançando.',
+        },
+        riscos: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: 'Riscos ou motivos de ceticismo.',
+        },
+    },
+    required: ['panorama', 'conexoes', 'sinais', 'riscos'],
+};
+
+/**
+ * Expands a concept of the knowledge base and connects it to the user's portfolio sectors.
+ * @param portfolioAllocation The share of each sector in the user's portfolio, when there is one.
+ */
+export const expandFrontierConcept = async (
+    concept: FrontierConcept,
+    portfolioAllocation: Partial<Record<FrontierConcept['sector'], number>> | null,
+): Promise<FrontierExpansion> => {
+  try {
+    const maturity = FRONTIER_MATURITY_LEVELS.find(level => level.id === concept.maturity)?.label ?? concept.maturity;
+    const allocation = portfolioAllocation
+        ? (Object.entries(portfolioAllocation) as [FrontierConcept['sector'], number][])
+            .map(([sector, weight]) => `${PORTFOLIO_SECTORS[sector].label} ${Math.round(weight * 100)}%`)
+            .join(', ')
+        : 'O usuário ainda não registrou uma carteira. Conecte o conceito aos três setores de forma geral.';
+    const fullPrompt = `${FRONTIER_EXPANSION_PROMPT}
+--- CONCEITO ---
+${concept.title} (${PORTFOLIO_SECTORS[concept.sector].label}, maturidade: ${maturity}, alinhamento com Φ: ${concept.phiAlignment}/100)
+${concept.description}
+--- CARTEIRA DO USUÁRIO POR SETOR ---
+${allocation}
+--- FIM ---`;
+
+    const parsedResponse = await getAiProvider().generateJson<FrontierExpansion>({
+        model: FRONTIER_MODEL,
+        contents: fullPrompt,
+        schema: expansionSchema,
+    });
+
+    if (!parsedResponse.panorama || !Array.isArray(parsedResponse.conexoes) || !Array.isArray(parsedResponse.sinais) || !Array.isArray(parsedResponse.riscos)) {
+        throw new Error("Formato de expansão de conceito inválido recebido da API.");
+    }
+
+    return parsedResponse;
+
+  } catch (error) {
+      console.error(`Error expanding frontier concept:`, error);
+      throw error;
+  }
+};
@@ -1,38 +1,31 @@
-import { GoogleGenAI } from "@google/genai";
-
-const IMAGE_MODEL = 'imagen-4.0-generate-001';
-type AspectRatio = '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+import { getAiProvider, AspectRatio } from './aiProvider.ts';
 
 /**
  * Generates an image based on a user prompt using the Imagen model.
  * @param prompt The user's text prompt describing the image.
  * @param aspectRatio The desired aspect ratio for the image.
- * @returns A data URL string of the generated JPEG image.
+ * @returns A data URL string of the generated image.
  */
 export const generateImage = async (prompt: string, aspectRatio: AspectRatio = '1:1'): Promise<string> => {
     try {
-        // FIX: Instantiate the client here to use the latest API key.
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        const response = await ai.models.generateImages({
-            model: IMAGE_MODEL,
-            prompt: prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: aspectRatio,
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-            return `data:image/jpeg;base64,${base64ImageBytes}`;
-        }
-        
-        throw new Error("No image was generated by the API.");
-
+        return await getAiProvider().generateImage(prompt, aspectRatio);
     } catch (error) {
         console.error("Error generating image with Imagen:", error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Edits an existing image following a text instruction.
+ * @param image The base64 image data and its mime type.
+ * @param prompt The user's description of the desired change.
+ * @returns A data URL string of the edited image.
+ */
+export const editImage = async (image: { data: string; mimeType: string; }, prompt: string): Promise<string> => {
+    try {
+        return await getAiProvider().editImage(image, prompt);
+    } catch (error) {
+        console.error("Error editing image:", error);
+        throw error;
+    }
+};
@@ -1,11 +1,16 @@
 // services/geminiJournalService.ts
-import { GoogleGenAI, Type } from "@google/genai";
-import { JournalFeedback } from '../types.ts';
+import { Type } from "@google/genai";
+import { DreamAnalysisResult, DreamDetails, DreamSymbol, JournalEntry, JournalFeedback, JournalReviewResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { ARCHETYPES } from './geminiArchetypeService.ts';
+import { getMoodLevel, JOURNAL_ENTRY_TYPES } from '../utils/journal.ts';
+import { describeProsody } from '../utils/prosody.ts';
+import { DREAM_LUCIDITY_LEVELS } from '../utils/dreams.ts';
 
 const JOURNAL_ANALYSIS_MODEL = 'gemini-2.5-flash';
 
 const JOURNAL_ANALYSIS_PROMPT = `
-Você é o Módulo de Análise do Diário Terapêutico do Mentor de Coerência. Sua função é analisar o registro de reflexões e/ou sonhos do usuário (Diário) com base no Princípio da Informação Consciente (PIC) e nas técnicas de PNL.
+Você é o Módulo de Análise do Diário Terapêutico do Mentor de Coerência. Sua função é analisar o registro de reflexões do usuário (Diário) com base no Princípio da Informação Consciente (PIC) e nas técnicas de PNL.
 
 OBJETIVO PRIMÁRIO (PIC):
 Sua análise deve medir a Dissonância Informacional (baixo Φ) e identificar áreas de Coerência (alto Φ). Seu feedback deve sempre guiar o usuário para a maximização da Informação Integrada.
@@ -44,26 +49,119 @@ const journalFeedbackSchema = {
     required: ['observacao', 'dissonancia', 'acao'],
 };
 
+const DREAM_ANALYSIS_PROMPT = `
+Você é o Módulo de Análise de Sonhos do Diário Terapêutico do Mentor de Coerência. Sua função é ler o sonho registrado pelo usuário à luz da Psicologia Analítica (Jung) e do Princípio da Informação Consciente (PIC).
 
-export const analyzeJournalEntry = async (entryText: string): Promise<JournalFeedback> => {
+MÉTODO DE ANÁLISE:
+1.  O sonho não é literal: ele compensa a atitude consciente. Leia o cenário, os personagens e as emoções como partes da psique do próprio usuário.
+2.  EXTRAÇÃO DE SÍMBOLOS: Identifique de 1 a 6 símbolos significativos (objetos, lugares, animais, personagens, ações). Dê a cada um um nome curto e no singular (ex: "Água", "Casa antiga", "Lobo").
+3.  VÍNCULO ARQUETÍPICO: Ligue cada símbolo a exatamente um destes arquétipos da Jornada do Arquétipo: ${ARCHETYPES.join(', ')}.
+4.  DICIONÁRIO PESSOAL: Quando um símbolo já constar no dicionário do usuário, use exatamente o mesmo nome e leve em conta o significado pessoal que ele atribuiu, que prevalece sobre qualquer leitura universal.
+5.  LUCIDEZ: Se o usuário teve lucidez, reconheça-a como um momento de alto Φ (o Observador desperto dentro do sonho).
+6.  FEEDBACK: Observação do Coração (o que o sonho integra), Ponto de Dissonância (o conflito que ele encena) e Ação de Coerência (um próximo passo concreto).
+
+Use uma linguagem suave, indireta e encorajadora (Ericksoniana). Nunca afirme um significado como certo: ofereça-o como possibilidade. Responda em Português do Brasil.
+Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
+`;
+
+const dreamAnalysisSchema = {
+    type: Type.OBJECT,
+    properties: {
+        ...journalFeedbackSchema.properties,
+        simbolos: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    simbolo: { type: Type.STRING, description: 'O nome curto do símbolo, no singular.' },
+                    arquetipo: { type: Type.STRING, enum: ARCHETYPES },
+                    interpretacao: { type: Type.STRING, description: 'O que o símbolo pode representar neste sonho, em 1 a 2 frases.' },
+                },
+                required: ['simbolo', 'arquetipo', 'interpretacao'],
+            },
+        },
+    },
+    required: [...journalFeedbackSchema.required, 'simbolos'],
+};
+
+const JOURNAL_REVIEW_PROMPT = `
+Você é o Módulo de Revisão Longitudinal do Diário Terapêutico do Mentor de Coerência. Você recebe as entradas de um período, em ordem cronológica, cada uma com a data, o tipo, o humor, as tags e o Ponto de Dissonância identificado na época.
+
+OBJETIVO:
+1.  Comparar os temas de dissonância (baixo Φ) ao longo do período: quais se repetem, quais se intensificam, quais perderam força e quais parecem integrados.
+2.  Para cada tema (de 2 a 5), indicar a tendência e citar a evidência concreta nas entradas, com as datas.
+3.  Relacionar o humor registrado com os temas quando houver um padrão claro.
+4.  Reconhecer o progresso real do usuário, sem exageros, e sugerir UM próximo passo de coerência (Oração, Meditação, Pílula de Oração ou uma prática concreta).
+
+Use uma linguagem suave e encorajadora (Ericksoniana). Responda em Português do Brasil.
+Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
+`;
+
+const journalReviewSchema = {
+    type: Type.OBJECT,
+    properties: {
+        sintese: {
+            type: Type.STRING,
+            description: 'Uma síntese de 2 a 3 frases do período.',
+        },
+        temas: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    tema: { type: Type.STRING, description: 'O tema de dissonância. Ex: Medo de rejeição no trabalho.' },
+                    tendencia: { type: Type.STRING, enum: ['Crescente', 'Estável', 'Decrescente', 'Resolvido'] },
+                    evidencia: { type: Type.STRING, description: 'A evidência nas entradas, com as datas.' },
+                },
+                required: ['tema', 'tendencia', 'evidencia'],
+            },
+        },
+        progresso: {
+            type: Type.STRING,
+            description: 'O progresso real observado no período.',
+        },
+        proximoPasso: {
+            type: Type.STRING,
+            description: 'Um próximo passo de coerência para o período seguinte.',
+        },
+    },
+    required: ['sintese', 'temas', 'progresso', 'proximoPasso'],
+};
+
+const formatEntryHeader = (entry: Pick<JournalEntry, 'date' | 'type' | 'mood' | 'tags'>): string =>
+    `${new Date(entry.date).toLocaleDateString('pt-BR')} · ${JOURNAL_ENTRY_TYPES[entry.type]} · Humor: ${getMoodLevel(entry.mood).label}${entry.tags.length > 0 ? ` · Tags: ${entry.tags.join(', ')}` : ''}`;
+
+const formatDreamDetails = (dream: DreamDetails): string => [
+    dream.setting && `Cenário: ${dream.setting}`,
+    dream.characters.length > 0 && `Personagens: ${dream.characters.join(', ')}`,
+    dream.emotions.length > 0 && `Emoções: ${dream.emotions.join(', ')}`,
+    `Lucidez: ${DREAM_LUCIDITY_LEVELS[dream.lucidity]}`,
+].filter(Boolean).join('\n');
+
+const PROSODY_INSTRUCTIONS = `O registro acima foi falado e transcrito automaticamente. As pistas de prosódia abaixo foram medidas na gravação: use-as como evidência complementar do estado emocional (hesitação, aceleração, voz monótona ou agitada), sem citar os números e sem tirar conclusões só a partir delas. Ignore pequenos erros de transcrição.`;
+
+const formatProsodySection = (context?: Pick<JournalEntry, 'audio'>): string =>
+    context?.audio?.prosody
+        ? `\n\n--- PISTAS DE PROSÓDIA ---\n${PROSODY_INSTRUCTIONS}\n${describeProsody(context.audio.prosody).map(cue => `- ${cue}`).join('\n')}`
+        : '';
+
+/**
+ * Analyzes a single journal entry.
+ * @param context The metadata of the entry, which tells a dream apart from a reflection. For a spoken entry
+ * the text is a transcript and the prosody of the recording is added to the prompt.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ */
+export const analyzeJournalEntry = async (entryText: string, context?: Pick<JournalEntry, 'date' | 'type' | 'mood' | 'tags' | 'audio'>, profileContext: string = ''): Promise<JournalFeedback> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    const fullPrompt = `${JOURNAL_ANALYSIS_PROMPT}\n\n--- REGISTRO DO DIÁRIO PARA ANÁLISE ---\n${entryText}\n--- FIM DO REGISTRO ---`;
+    const header = context ? `${formatEntryHeader(context)}\n` : '';
+    const fullPrompt = `${JOURNAL_ANALYSIS_PROMPT}\n\n--- REGISTRO DO DIÁRIO PARA ANÁLISE ---\n${header}${entryText}\n--- FIM DO REGISTRO ---${formatProsodySection(context)}${profileContext}`;
 
-    const response = await ai.models.generateContent({
+    const parsedResponse = await getAiProvider().generateJson<JournalFeedback>({
         model: JOURNAL_ANALYSIS_MODEL,
         contents: fullPrompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: journalFeedbackSchema,
-        },
+        schema: journalFeedbackSchema,
     });
-    
-    const jsonText = response.text.trim();
-    const cleanJsonText = jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
-    const parsedResponse = JSON.parse(cleanJsonText) as JournalFeedback;
 
     if (!parsedResponse.observacao || !parsedResponse.dissonancia || !parsedResponse.acao) {
          throw new Error("Formato de análise de diário inválido recebido da API.");
@@ -76,3 +174,65 @@ export const analyzeJournalEntry = async (entryText: string): Promise<JournalFee
       throw error;
   }
 };
+
+/**
+ * Analyzes a dream entry and extracts its symbols.
+ * @param dictionary The user's symbol dictionary, so recurring symbols keep their name and personal meaning.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ */
+export const analyzeDreamEntry = async (entry: Pick<JournalEntry, 'date' | 'type' | 'mood' | 'tags' | 'text' | 'dream' | 'audio'>, dictionary: DreamSymbol[], profileContext: string = ''): Promise<DreamAnalysisResult> => {
+  try {
+    const details = entry.dream ? `${formatDreamDetails(entry.dream)}\n` : '';
+    const known = dictionary.length > 0
+        ? `\n\n--- DICIONÁRIO PESSOAL DE SÍMBOLOS ---\n${dictionary.map(symbol => `- ${symbol.name} (${symbol.archetype})${symbol.meaning ? `: ${symbol.meaning}` : ''}`).join('\n')}`
+        : '';
+    const fullPrompt = `${DREAM_ANALYSIS_PROMPT}${known}\n\n--- SONHO PARA ANÁLISE ---\n${formatEntryHeader(entry)}\n${details}${entry.text}\n--- FIM DO SONHO ---${formatProsodySection(entry)}${profileContext}`;
+
+    const parsedResponse = await getAiProvider().generateJson<DreamAnalysisResult>({
+        model: JOURNAL_ANALYSIS_MODEL,
+        contents: fullPrompt,
+        schema: dreamAnalysisSchema,
+    });
+
+    if (!parsedResponse.observacao || !parsedResponse.dissonancia || !parsedResponse.acao || !Array.isArray(parsedResponse.simbolos)) {
+         throw new Error("Formato de análise de sonho inválido recebido da API.");
+    }
+
+    return parsedResponse;
+
+  } catch (error) {
+      console.error(`Error analyzing dream entry:`, error);
+      throw error;
+  }
+};
+
+/**
+ * Compares the dissonance themes of the entries of a period.
+ * @param entries The entries of the period, in any order.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ */
+export const reviewJournalPeriod = async (entries: JournalEntry[], profileContext: string = ''): Promise<JournalReviewResult> => {
+  try {
+    const formatted = [...entries]
+        .sort((a, b) => a.date - b.date)
+        .map(entry => `[${formatEntryHeader(entry)}]\n${entry.text}${entry.dreamSymbols?.length ? `\nSímbolos do sonho: ${entry.dreamSymbols.map(symbol => symbol.simbolo).join(', ')}` : ''}${entry.feedback ? `\nDissonância identificada: ${entry.feedback.dissonancia}` : ''}`)
+        .join('\n\n');
+    const fullPrompt = `${JOURNAL_REVIEW_PROMPT}\n\n--- ENTRADAS DO PERÍODO ---\n${formatted}\n--- FIM DAS ENTRADAS ---${profileContext}`;
+
+    const parsedResponse = await getAiProvider().generateJson<JournalReviewResult>({
+        model: JOURNAL_ANALYSIS_MODEL,
+        contents: fullPrompt,
+        schema: journalReviewSchema,
+    });
+
+    if (!parsedResponse.sintese || !Array.isArray(parsedResponse.temas) || !parsedResponse.proximoPasso) {
+         throw new Error("Formato de revisão de diário inválido recebido da API.");
+    }
+
+    return parsedResponse;
+
+  } catch (error) {
+      console.error(`Error reviewing journal period:`, error);
+      throw error;
+  }
+};
@@ -0,0 +1,87 @@
+import { Type } from '@google/genai';
+import { Message, UserFact, UserFactCategory } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+
+const MEMORY_MODEL = 'gemini-2.5-flash';
+
+const FACT_CATEGORIES: UserFactCategory[] = ['goal', 'fear', 'health', 'dosha', 'finance', 'relationship', 'other'];
+
+const memorySchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: 'O resumo atualizado de toda a conversa até aqui, em no máximo 8 frases.',
+    },
+    facts: {
+      type: Type.ARRAY,
+      description: 'Fatos duradouros sobre o usuário revelados nas mensagens novas.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: {
+            type: Type.STRING,
+            enum: FACT_CATEGORIES,
+            description: 'A categoria do fato.',
+          },
+          text: {
+            type: Type.STRING,
+            description: 'O fato, em uma frase curta na terceira pessoa. Ex: "Quer quitar as dívidas do cartão até dezembro."',
+          },
+        },
+        required: ['category', 'text'],
+      },
+    },
+  },
+  required: ['summary', 'facts'],
+};
+
+export interface ConversationMemoryUpdate {
+  summary: string;
+  facts: Omit<UserFact, 'timestamp'>[];
+}
+
+/**
+ * Rolls older messages into the running summary of a conversation and extracts durable
+ * facts about the user from them.
+ * @param previousSummary The summary of everything rolled up before these messages.
+ * @param messages The messages leaving the chat history.
+ */
+export const summarizeConversation = async (previousSummary: string, messages: Message[]): Promise<ConversationMemoryUpdate> => {
+  try {
+    const transcript = messages.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
+    const prompt = `
+Você mantém a memória de longo prazo de um mentor em um aplicativo de desenvolvimento pessoal.
+
+**Resumo até agora:**
+${previousSummary || '(ainda não há resumo)'}
+
+**Mensagens novas a incorporar:**
+${transcript}
+
+**Instruções:**
+1. Reescreva o resumo incorporando as mensagens novas. Preserve o que ainda for relevante, descarte detalhes passageiros.
+2. Extraia apenas fatos DURADOUROS sobre o usuário: objetivos, medos, saúde, Dosha ayurvédico, situação financeira, relacionamentos.
+   Ignore estados momentâneos ("estou cansado hoje") e qualquer coisa dita pelo mentor que o usuário não confirmou.
+3. Se não houver fatos novos, retorne uma lista vazia.
+4. Escreva em Português do Brasil.
+`;
+
+    const response = await getAiProvider().generateJson<ConversationMemoryUpdate>({
+      model: MEMORY_MODEL,
+      contents: prompt,
+      schema: memorySchema,
+    });
+
+    if (typeof response.summary !== 'string' || !Array.isArray(response.facts)) {
+      throw new Error("Invalid memory format received from API.");
+    }
+    return {
+      summary: response.summary.trim(),
+      facts: response.facts.filter(fact => FACT_CATEGORIES.includes(fact.category) && fact.text?.trim()),
+    };
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+    throw error;
+  }
+};
@@ -1,22 +1,16 @@
-import { GoogleGenAI } from "@google/genai";
 import { Message } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { formatChatHistoryForPrompt } from '../utils/userContext.ts';
 
 const PRAYER_PILL_MODEL = 'gemini-2.5-flash';
 
-const formatChatHistoryForPrompt = (chatHistory: Message[]): string => {
-    if (!chatHistory || chatHistory.length === 0) return '';
-    const recentHistory = chatHistory.slice(-6);
-    const formatted = recentHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
-    return `\n\n--- Histórico da Conversa para Contexto ---\n${formatted}\n--- Fim do Histórico ---`;
-}
-
-const getPrayerPillPrompt = (theme: string, chatHistory?: Message[]): string => {
-    const historyContext = chatHistory ? formatChatHistoryForPrompt(chatHistory) : '';
+const getPrayerPillPrompt = (theme: string, chatHistory?: Message[], profileContext: string = ''): string => {
+    const historyContext = formatChatHistoryForPrompt(chatHistory);
     return `
 Você é um Mestre em Oração, um guia espiritual que fala com sabedoria e compaixão.
 
 Sua tarefa é gerar uma "Pílula de Oração" com base no tema fornecido.
-${historyContext}
+${profileContext}${historyContext}
 
 **Tema:** "${theme}"
 
@@ -32,18 +26,16 @@ Gere a Pílula de Oração agora.
     `;
 };
 
-export const generatePrayerPill = async (theme: string, chatHistory?: Message[]): Promise<string> => {
+export const generatePrayerPill = async (theme: string, chatHistory?: Message[], profileContext?: string): Promise<string> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = getPrayerPillPrompt(theme, chatHistory);
+    const prompt = getPrayerPillPrompt(theme, chatHistory, profileContext);
 
-    const response = await ai.models.generateContent({
+    const response = await getAiProvider().generateText({
         model: PRAYER_PILL_MODEL,
         contents: prompt,
     });
-    
-    return response.text;
+
+    return response;
   } catch (error) {
       console.error(`Error generating prayer pill:`, error);
       throw error;
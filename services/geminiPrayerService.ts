@@ -1,17 +1,14 @@
-import { GoogleGenAI } from "@google/genai";
-import { Message, UserStateVector } from '../types.ts';
+import { Message } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { formatChatHistoryForPrompt } from '../utils/userContext.ts';
 
 const PRAYER_MODEL = 'gemini-2.5-flash';
 
-const formatChatHistoryForPrompt = (chatHistory: Message[]): string => {
-    if (!chatHistory || chatHistory.length === 0) return '';
-    const recentHistory = chatHistory.slice(-6);
-    const formatted = recentHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
-    return `\n\n--- Histórico da Conversa Recente para Contexto ---\n${formatted}\n--- Fim do Histórico ---`;
-}
-
-const getPrayerGenerationPrompt = (userTheme: string, chatHistory?: Message[]): string => {
-    const historyContext = chatHistory ? formatChatHistoryForPrompt(chatHistory) : '';
+const getPrayerGenerationPrompt = (userTheme: string, chatHistory?: Message[], durationMinutes?: number, profileContext: string = ''): string => {
+    const historyContext = formatChatHistoryForPrompt(chatHistory);
+    const durationInstruction = durationMinutes
+        ? `\n    *   **Duração:** A oração deve levar aproximadamente ${durationMinutes} minutos para ser lida em voz alta (cerca de ${durationMinutes * 130} palavras).`
+        : '';
     return `
 Você é um Mestre em Oração Guiada, com treinamento, qualificação e certificado em Programação Neuro-Linguística (PNL) e Hipnose Ericksoniana através de Metáforas.
 Você é um especialista em modelar a sabedoria e profundidade espiritual de Jesus Cristo, Rei Salomão e Rei Davi.
@@ -21,7 +18,7 @@ Sua missão é criar uma oração guiada imersiva e transformadora. Utilize o m
 
 **Instruções Detalhadas:**
 
-1.  **Tema Central:** A oração deve ser sobre: **"${userTheme}"**.
+1.  **Tema Central:** A oração deve ser sobre: **"${userTheme}"**.${durationInstruction}
 
 2.  **Técnicas de Conexão:** Aprofunde o estado de conexão do ouvinte utilizando:
     *   **Técnicas de respiração e foco** para iniciar.
@@ -37,8 +34,8 @@ Sua missão é criar uma oração guiada imersiva e transformadora. Utilize o m
 
 6.  **SEO e Palavras-Chave:** Incorpore naturalmente palavras e frases de alto impacto, como: "oração poderosa", "cura interior", "milagre urgente", "transformação de vida", "fé inabalável", "conexão com Deus", "paz interior".
 
-**Contexto Adicional da Conversa:**
-${historyContext}
+**Contexto Adicional do Usuário e da Conversa:**
+${profileContext}${historyContext}
 
 **Formato de Saída OBRIGATÓRIO:**
 O resultado final deve ser **APENAS o texto da oração**. Deve ser um texto único, fluido e contínuo, **SEM TÍTULOS de seção** (como "Início", "Núcleo", etc.), marcadores, ou qualquer outra formatação de tópicos.
@@ -47,39 +44,30 @@ Gere a oração guiada agora.
     `;
 };
 
-export const generateGuidedPrayer = async (theme: string, chatHistory?: Message[]): Promise<string> => {
+export const generateGuidedPrayer = async (theme: string, chatHistory?: Message[], durationMinutes?: number, profileContext?: string): Promise<string> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = getPrayerGenerationPrompt(theme, chatHistory);
+    const prompt = getPrayerGenerationPrompt(theme, chatHistory, durationMinutes, profileContext);
 
-    const response = await ai.models.generateContent({
+    const response = await getAiProvider().generateText({
         model: PRAYER_MODEL,
         contents: prompt,
     });
-    
-    return response.text;
+
+    return response;
   } catch (error) {
       console.error(`Error generating guided prayer:`, error);
       throw error;
   }
 };
 
-const getPrayerRecommendationPrompt = (usv: UserStateVector, chatHistory?: Message[]): string => {
-    const historyContext = chatHistory ? formatChatHistoryForPrompt(chatHistory) : '';
-    const userStateContext = `
-    O estado atual do usuário é:
-    - Espiritual: ${usv.spiritual}/100
-    - Emocional (Dissonância): ${usv.emotional}/100 (quanto maior, pior)
-    - Físico: ${usv.physical}/100
-    - Financeiro: ${usv.financial}/100
-    `;
+const getPrayerRecommendationPrompt = (profileContext: string, chatHistory?: Message[]): string => {
+    const historyContext = formatChatHistoryForPrompt(chatHistory);
 
     return `
     Você é o Mentor de Coerência. Sua tarefa é analisar o estado do usuário e o histórico de conversa para recomendar um tema para uma oração guiada.
 
     **Contexto do Usuário:**
-    ${userStateContext}
+    ${profileContext}
     ${historyContext}
 
     **Instruções:**
@@ -100,18 +88,20 @@ const getPrayerRecommendationPrompt = (usv: UserStateVector, chatHistory?: Messa
     `;
 };
 
-export const recommendPrayerTheme = async (usv: UserStateVector, chatHistory?: Message[]): Promise<string> => {
+/**
+ * Recommends a prayer theme for the user's most pressing need.
+ * @param profileContext The shared user profile; without it, only the conversation is considered.
+ */
+export const recommendPrayerTheme = async (profileContext: string, chatHistory?: Message[]): Promise<string> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = getPrayerRecommendationPrompt(usv, chatHistory);
+    const prompt = getPrayerRecommendationPrompt(profileContext, chatHistory);
 
-    const response = await ai.models.generateContent({
+    const response = await getAiProvider().generateText({
         model: PRAYER_MODEL,
         contents: prompt,
     });
-    
-    return response.text.trim();
+
+    return response.trim();
   } catch (error) {
       console.error(`Error recommending prayer theme:`, error);
       throw error;
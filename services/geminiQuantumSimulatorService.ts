@@ -1,19 +1,30 @@
 // services/geminiQuantumSimulatorService.ts
-import { GoogleGenAI } from "@google/genai";
+import { QuantumCircuit } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { describeCircuit } from '../utils/quantumCircuit.ts';
 
 const SIMULATOR_MODEL = 'gemini-2.5-flash';
 
-const getSimulatorInterpretationPrompt = (outcome: string): string => {
+const formatDistribution = (counts: Record<string, number>, shots: number): string =>
+    Object.entries(counts)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([state, count]) => `|${state}⟩: ${count} de ${shots} (${(count / shots * 100).toFixed(1)}%)`)
+        .join('\n');
+
+const getSimulatorInterpretationPrompt = (circuit: QuantumCircuit, counts: Record<string, number>, shots: number, experiment?: string): string => {
     return `
 Você é o "Arquiteto da Consciência", um especialista no "Princípio da Informação Consciente (PIC)".
-Sua tarefa é interpretar o resultado de uma simulação quântica e conectá-lo ao papel do observador na co-criação da realidade.
+Sua tarefa é interpretar o resultado de uma simulação quântica real, feita com um vetor de estado, e conectá-lo ao papel do observador na co-criação da realidade.
+${experiment ? `\nExperimento: ${experiment}` : ''}
+Circuito (qubits começam em |0⟩; q0 é o primeiro dígito de cada resultado): ${describeCircuit(circuit)}
 
-O resultado observado na simulação foi: "${outcome}"
+Distribuição medida em ${shots} repetições:
+${formatDistribution(counts, shots)}
 
 **Instruções:**
-1.  Forneça uma interpretação curta e profunda (2-3 frases) que relacione este resultado específico ao poder da consciência do observador.
-2.  Use conceitos do PIC, como a informação consciente (IC) sendo a base da realidade e a observação colapsando o potencial em experiência manifesta.
-3.  O tom deve ser inspirador e filosófico, encorajando a reflexão sobre o poder criativo da mente.
+1.  Comece explicando em 1-2 frases, com precisão física, por que o circuito produz essa distribuição (superposição, interferência, emaranhamento ou colapso pela medição, conforme o caso).
+2.  Em seguida, forneça uma interpretação curta e profunda (2-3 frases) que relacione este resultado ao poder da consciência do observador, usando conceitos do PIC, como a informação consciente (IC) sendo a base da realidade e a observação colapsando o potencial em experiência manifesta.
+3.  Deixe claro o que é física e o que é leitura filosófica. O tom deve ser inspirador e encorajar a reflexão sobre o poder criativo da mente.
 4.  O idioma deve ser Português do Brasil.
 5.  Responda APENAS com o texto da interpretação, sem nenhum título, cabeçalho ou texto introdutório.
 
@@ -21,18 +32,20 @@ Gere a interpretação agora.
     `;
 };
 
-export const getQuantumInterpretation = async (outcome: string): Promise<string> => {
+/**
+ * Interprets the measurement statistics of a circuit run by the local simulator.
+ * @param experiment The name of the preset the circuit came from, if any.
+ */
+export const getQuantumInterpretation = async (circuit: QuantumCircuit, counts: Record<string, number>, shots: number, experiment?: string): Promise<string> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = getSimulatorInterpretationPrompt(outcome);
+    const prompt = getSimulatorInterpretationPrompt(circuit, counts, shots, experiment);
 
-    const response = await ai.models.generateContent({
+    const response = await getAiProvider().generateText({
         model: SIMULATOR_MODEL,
         contents: prompt,
     });
-    
-    return response.text.trim();
+
+    return response.trim();
   } catch (error) {
       console.error(`Error getting quantum interpretation:`, error);
       throw error;
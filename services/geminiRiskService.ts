@@ -0,0 +1,98 @@
+import { Type } from "@google/genai";
+import { RiskAssetClass, RiskQualitativeAnalysis, RiskSimulationResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { RISK_ASSET_CLASSES } from '../utils/riskSimulation.ts';
+import { formatBrl } from '../utils/currency.ts';
+
+const RISK_MODEL = 'gemini-2.5-flash';
+
+const RISK_ANALYSIS_PROMPT = `
+Você é a Calculadora de Risco Lógico do Analista "Zumbi Filosófico": fria, objetiva e sem otimismo ou pessimismo emocional.
+Os números quantitativos abaixo vêm de uma simulação de Monte Carlo local e são a base da sua análise. Não os recalcule nem os contradiga.
+
+OBJETIVO:
+1. Resumir em 2 a 3 frases o que os números significam para este cenário específico.
+2. Listar de 3 a 5 fatores de risco qualitativos que a simulação NÃO captura (regulatório, tecnológico, liquidez, concentração, contraparte, câmbio etc.), cada um com nível Baixo, Médio ou Alto.
+3. Sugerir de 2 a 4 medidas concretas de mitigação (tamanho da posição, diversificação, horizonte, gatilhos de saída).
+
+Não faça recomendações de compra ou venda. Responda em Português do Brasil.
+Sua resposta DEVE ser um objeto JSON válido, sem nenhum texto ou formatação adicional (como \`\`\`json).
+`;
+
+const riskSchema = {
+    type: Type.OBJECT,
+    properties: {
+        resumo: {
+            type: Type.STRING,
+            description: 'Leitura objetiva dos números da simulação para este cenário.',
+        },
+        riscos: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    fator: { type: Type.STRING, description: 'O fator de risco. Ex: Risco Regulatório.' },
+                    nivel: { type: Type.STRING, enum: ['Baixo', 'Médio', 'Alto'] },
+                    explicacao: { type: Type.STRING, description: 'Por que este fator pesa neste cenário.' },
+                },
+                required: ['fator', 'nivel', 'explicacao'],
+            },
+        },
+        mitigacoes: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: 'Medidas concretas para reduzir o risco.',
+        },
+    },
+    required: ['resumo', 'riscos', 'mitigacoes'],
+};
+
+const formatSimulationForPrompt = (simulation: RiskSimulationResult, positionSize: number): string => [
+    `Valor em risco (VaR 95%): ${formatBrl(simulation.var95)} (${Math.round(simulation.var95 / positionSize * 100)}% da posição)`,
+    `Perda média nos 5% piores cenários (CVaR 95%): ${formatBrl(simulation.cvar95)}`,
+    `Probabilidade de terminar no prejuízo: ${Math.round(simulation.probabilityOfLoss * 100)}%`,
+    `Queda máxima do pico ao vale: mediana ${Math.round(simulation.medianDrawdown * 100)}%, 5% piores ${Math.round(simulation.worstDrawdown95 * 100)}%`,
+    `Valor final: pessimista ${formatBrl(simulation.finalValues.p5)}, mediano ${formatBrl(simulation.finalValues.p50)}, otimista ${formatBrl(simulation.finalValues.p95)}`,
+].join('\n');
+
+/**
+ * Adds the qualitative side of the risk assessment to the numbers of the local simulation.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ */
+export const analyzeRiskScenario = async (
+    scenario: string,
+    input: { positionSize: number; horizonMonths: number; assetClass: RiskAssetClass; returnSource: 'bundled' | 'custom' },
+    simulation: RiskSimulationResult,
+    profileContext: string = '',
+): Promise<RiskQualitativeAnalysis> => {
+  try {
+    const history = RISK_ASSET_CLASSES[input.assetClass].history;
+    const source = input.returnSource === 'custom' ? 'série de retornos mensais fornecida pelo usuário' : `retornos mensais históricos da classe de ativo, ${history.period} (${history.source})`;
+    const fullPrompt = `${RISK_ANALYSIS_PROMPT}
+--- CENÁRIO ---
+${scenario}
+Classe de ativo: ${RISK_ASSET_CLASSES[input.assetClass].label}
+Tamanho da posição: ${formatBrl(input.positionSize)}
+Horizonte: ${input.horizonMonths} meses
+Retornos simulados a partir de: ${source}
+--- RESULTADO DA SIMULAÇÃO (${simulation.paths} trajetórias) ---
+${formatSimulationForPrompt(simulation, input.positionSize)}
+--- FIM ---${profileContext}`;
+
+    const parsedResponse = await getAiProvider().generateJson<RiskQualitativeAnalysis>({
+        model: RISK_MODEL,
+        contents: fullPrompt,
+        schema: riskSchema,
+    });
+
+    if (!parsedResponse.resumo || !Array.isArray(parsedResponse.riscos) || !Array.isArray(parsedResponse.mitigacoes)) {
+        throw new Error("Formato de análise de risco inválido recebido da API.");
+    }
+
+    return parsedResponse;
+
+  } catch (error) {
+      console.error(`Error analyzing risk scenario:`, error);
+      throw error;
+  }
+};
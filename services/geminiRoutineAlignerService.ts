@@ -1,5 +1,5 @@
 // services/geminiRoutineAlignerService.ts
-import { GoogleGenAI, Chat } from "@google/genai";
+import { getAiProvider, ChatSession } from './aiProvider.ts';
 
 const ALIGNER_MODEL = 'gemini-2.5-flash';
 
@@ -39,36 +39,29 @@ Após a última resposta, encerre a conversa com: "Lembre-se: esta rotina é um
 Siga o fluxo estritamente.
 `;
 
-export const createRoutineAlignerChat = (): Chat => {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const chat = ai.chats.create({
+export const createRoutineAlignerChat = (): ChatSession => {
+    return getAiProvider().createChat({
         model: ALIGNER_MODEL,
-        config: {
-            systemInstruction: ROUTINE_ALIGNER_PROMPT,
-        },
+        systemInstruction: ROUTINE_ALIGNER_PROMPT,
     });
-    return chat;
 };
 
-export const startRoutineAlignerConversation = async (chat: Chat, dosha: string | null | undefined): Promise<string> => {
+export const startRoutineAlignerConversation = async (chat: ChatSession, dosha: string | null | undefined): Promise<string> => {
     try {
         const initialMessage = dosha 
             ? `O desequilíbrio de Dosha do usuário é ${dosha}. Comece a projetar o algoritmo de coerência.`
             : "Começar o alinhamento de rotina.";
             
-        const response = await chat.sendMessage({ message: initialMessage });
-        return response.text;
+        return await chat.sendMessage(initialMessage);
     } catch (error) {
         console.error("Error starting Routine Aligner conversation:", error);
         throw error;
     }
 };
 
-export const continueRoutineAlignerConversation = async (chat: Chat, message: string): Promise<string> => {
+export const continueRoutineAlignerConversation = async (chat: ChatSession, message: string): Promise<string> => {
      try {
-        const response = await chat.sendMessage({ message: message });
-        return response.text;
+        return await chat.sendMessage(message);
     } catch (error) {
         console.error("Error continuing Routine Aligner conversation:", error);
         throw error;
@@ -1,48 +1,62 @@
-import { GoogleGenAI, FunctionDeclaration, Type, Modality } from "@google/genai";
-import { toolMetadata } from "../constants.tsx";
-import { Schedule } from "../types.ts";
+import { FunctionDeclaration, Type } from "@google/genai";
+import { AGENTS, toolMetadata } from "../constants.tsx";
+import { Agent, AgentId, Schedule } from "../types.ts";
+import { getAiProvider, LiveCallbacks } from "./aiProvider.ts";
 
 const confirmSessionFunctionDeclaration: FunctionDeclaration = {
   name: 'confirmSessionStart',
   parameters: {
     type: Type.OBJECT,
     description: 'Call this function ONLY when the user explicitly confirms they are ready to start the session.',
-    properties: {},
-    required: [],
+    properties: {
+      checkIn: {
+        type: Type.STRING,
+        description: 'Um resumo curto, em Português, do que o usuário respondeu à pergunta de check-in (como está se sentindo e o que traz para a sessão).',
+      },
+    },
+    required: ['checkIn'],
   },
 };
 
-const getSchedulingSystemInstruction = (schedule: Schedule): string => {
+const getSchedulingSystemInstruction = (schedule: Schedule, mentor: Agent | undefined): string => {
     const activityName = toolMetadata[schedule.activity]?.title || 'sessão';
-    return `Você é o "Mentor de Agendamento", um guia compassivo do aplicativo Portais da Consciência. Sua missão é contatar o usuário no horário agendado para prepará-lo para uma sessão de voz.
+    const mentorName = mentor?.name ?? AGENTS[AgentId.COHERENCE].name;
+    const intention = schedule.intention?.trim();
+    const intentionContext = intention
+        ? `O usuário definiu a seguinte intenção para esta prática: "${intention}".`
+        : 'O usuário não definiu uma intenção específica para esta prática.';
+    const durationContext = schedule.durationMinutes ? ` A prática terá cerca de ${schedule.durationMinutes} minutos.` : '';
+
+    return `Você é o "${mentorName}", um guia compassivo do aplicativo Portais da Consciência. Sua missão é contatar o usuário no horário agendado para prepará-lo para uma sessão de voz.
+
+${intentionContext}${durationContext}
 
 Sua tarefa atual é:
 1. Cumprimentar o usuário calorosamente.
-2. Mencionar que está ligando para a "${activityName}" agendada.
-3. Perguntar de forma gentil e natural se ele está em um lugar tranquilo e pronto(a) para começar a prática.
-4. Você DEVE esperar por uma confirmação explícita do usuário (ex: "sim", "estou pronto", "podemos começar").
-5. Se o usuário pedir um momento, responda compreensivamente e espere.
-6. ASSIM que o usuário confirmar que está pronto, e SOMENTE nesse momento, você deve chamar a função 'confirmSessionStart' para iniciar a atividade. Não faça mais nada. Apenas chame a função.
+2. Mencionar que está ligando para a "${activityName}" agendada${intention ? ' e relembrar a intenção definida' : ''}.
+3. Fazer UMA pergunta de check-in curta e acolhedora sobre como ele está chegando neste momento${intention ? ' em relação a essa intenção' : ''}. A resposta será usada para personalizar a prática.
+4. Ouvir a resposta e acolhê-la em uma frase, sem aconselhar.
+5. Perguntar de forma gentil e natural se ele está em um lugar tranquilo e pronto(a) para começar a prática.
+6. Você DEVE esperar por uma confirmação explícita do usuário (ex: "sim", "estou pronto", "podemos começar").
+7. Se o usuário pedir um momento, responda compreensivamente e espere.
+8. ASSIM que o usuário confirmar que está pronto, e SOMENTE nesse momento, você deve chamar a função 'confirmSessionStart', passando em 'checkIn' um resumo da resposta do usuário ao check-in. Não faça mais nada. Apenas chame a função.
 
 Seja breve, amigável e direto ao ponto. Fale em Português do Brasil.
 `;
 }
 
-export const createSchedulingSession = (schedule: Schedule, callbacks: any) => {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const systemInstruction = getSchedulingSystemInstruction(schedule);
+/**
+ * Opens the voice call that announces a scheduled session.
+ * @param mentor The mentor chosen for the session; a deleted custom mentor falls back to the Coherence mentor.
+ */
+export const createSchedulingSession = (schedule: Schedule, mentor: Agent | undefined, callbacks: LiveCallbacks) => {
+    const systemInstruction = getSchedulingSystemInstruction(schedule, mentor);
     
-    return ai.live.connect({
+    return getAiProvider().connectLive({
         model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+        systemInstruction,
+        voiceName: schedule.voice ?? 'Zephyr',
+        functionDeclarations: [confirmSessionFunctionDeclaration],
         callbacks,
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-            systemInstruction: systemInstruction,
-            inputAudioTranscription: {},
-            outputAudioTranscription: {},
-            tools: [{ functionDeclarations: [confirmSessionFunctionDeclaration] }],
-        },
     });
 };
@@ -1,5 +1,7 @@
-import { GoogleGenAI, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import { Meditation, Message } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
+import { formatChatHistoryForPrompt } from '../utils/userContext.ts';
 
 const SCRIPT_GENERATION_MODEL = 'gemini-2.5-flash';
 
@@ -33,42 +35,23 @@ const meditationScriptSchema = {
   required: ['title', 'script'],
 };
 
-
-const formatChatHistoryForPrompt = (chatHistory: Message[]): string => {
-    if (!chatHistory || chatHistory.length === 0) return '';
-    const recentHistory = chatHistory.slice(-6); // Get last 6 messages for context
-    const formatted = recentHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
-    return `\n\n--- Histórico da Conversa Recente para Contexto ---\n${formatted}\n--- Fim do Histórico ---`;
-}
-
-export const generateMeditationScript = async (prompt: string, durationMinutes: number, chatHistory?: Message[]): Promise<Meditation> => {
+export const generateMeditationScript = async (prompt: string, durationMinutes: number, chatHistory?: Message[], profileContext: string = ''): Promise<Meditation> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const historyContext = chatHistory ? formatChatHistoryForPrompt(chatHistory) : '';
+    const historyContext = formatChatHistoryForPrompt(chatHistory);
 
     const fullPrompt = `Gere um roteiro de meditação guiada com base no seguinte tema: "${prompt}".
 A meditação deve ter aproximadamente ${durationMinutes} minutos de duração.
 O roteiro deve ser uma série de frases curtas e relaxantes.
 A resposta DEVE estar em formato JSON e seguir o schema fornecido.
 O idioma deve ser Português do Brasil.
-${historyContext}
+${profileContext}${historyContext}
 `;
 
-    const response = await ai.models.generateContent({
+    const parsedResponse = await getAiProvider().generateJson<Omit<Meditation, 'id'>>({
       model: SCRIPT_GENERATION_MODEL,
       contents: fullPrompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: meditationScriptSchema,
-      },
+      schema: meditationScriptSchema,
     });
-
-    const jsonText = response.text.trim();
-    const cleanJsonText = jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
-    
-    const parsedResponse = JSON.parse(cleanJsonText);
     
     if (!parsedResponse.title || !Array.isArray(parsedResponse.script)) {
         throw new Error("Invalid script format received from API.");
@@ -88,25 +71,19 @@ ${historyContext}
 /**
  * Summarizes a chat history to create a concise meditation intention.
  * @param chatHistory The chat history to analyze.
+ * @param profileContext The shared user profile, whose Dosha imbalance the intention should help pacify.
  * @returns A promise that resolves to a concise sentence for the meditation prompt.
  */
-export const summarizeChatForMeditation = async (chatHistory: Message[], doshaResult: string | null | undefined): Promise<string> => {
+export const summarizeChatForMeditation = async (chatHistory: Message[], profileContext: string = ''): Promise<string> => {
     if (!chatHistory || chatHistory.length === 0) {
         return '';
     }
     
     try {
-        // Instantiate client right before the call to use the latest key
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
         const historyString = chatHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
 
-        const doshaContext = doshaResult
-            ? `\n\nContexto Adicional de Saúde:
-            O diagnóstico Ayurvédico do usuário indicou um desequilíbrio no Dosha **${doshaResult}**.
-            A intenção da meditação deve, sutilmente, ajudar a pacificar este desequilíbrio.
-            - Para Vata (movimento, ar), foque em aterramento, calma e aquecimento.
-            - Para Pitta (fogo, transformação), foque em serenidade, resfriamento e aceitação.
-            - Para Kapha (estrutura, terra), foque em motivação, leveza e energia.`
+        const profileInstruction = profileContext
+            ? `\nSe o perfil indicar um desequilíbrio Ayurvédico, a intenção deve, sutilmente, ajudar a pacificá-lo.${profileContext}`
             : '';
 
         const prompt = `
@@ -114,7 +91,7 @@ export const summarizeChatForMeditation = async (chatHistory: Message[], doshaRe
             Extraia os temas centrais, as dores, os desejos e as palavras-chave mais importantes.
             Com base nessa análise, sintetize uma única frase concisa e inspiradora que sirva como uma "intenção" para uma meditação guiada.
             A frase deve capturar a essência da necessidade atual do usuário.
-            ${doshaContext}
+            ${profileInstruction}
 
             Exemplos:
             - Se a conversa for sobre ansiedade e medo do futuro, a intenção poderia ser: "Encontrar a paz no momento presente e confiar no fluxo da vida."
@@ -129,12 +106,12 @@ export const summarizeChatForMeditation = async (chatHistory: Message[], doshaRe
             Intenção para Meditação:
         `;
 
-        const response = await ai.models.generateContent({
+        const response = await getAiProvider().generateText({
             model: SCRIPT_GENERATION_MODEL,
             contents: prompt,
         });
 
-        return response.text.trim();
+        return response.trim();
 
     } catch (error) {
         console.error('Error summarizing chat for meditation:', error);
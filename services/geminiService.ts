@@ -1,47 +1,140 @@
-import { GoogleGenAI } from "@google/genai";
-import { Message, AgentId } from '../types.ts';
-import { AGENTS } from '../constants.tsx';
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { Message, Agent, AgentMemory, ToolId, ToolProposal } from '../types.ts';
+import { getAiProvider, ChatTurn } from './aiProvider.ts';
+import { toolMetadata } from '../constants.tsx';
+import { FACT_CATEGORY_LABELS, MEMORY_TRIGGER_MESSAGES } from '../utils/agentMemory.ts';
+import { acceptsIntention, parseToolFunctionName, toToolFunctionName } from '../utils/toolProposals.ts';
 
 const CHAT_MODEL = 'gemini-2.5-flash';
+// Room for every turn not yet rolled into the thread summary, plus the new message; older turns
+// reach the model through the summary instead.
+const MAX_HISTORY_MESSAGES = MEMORY_TRIGGER_MESSAGES + 1;
 
-const getSystemInstructionForAgent = (agentId: AgentId): string => {
-    const agent = AGENTS[agentId];
+const formatMemoryForPrompt = (memory?: AgentMemory, threadSummary?: string): string => {
+    const facts = memory?.facts ?? [];
+    if (!threadSummary && facts.length === 0) return '';
+    const summary = threadSummary ? `\nResumo do início desta conversa: ${threadSummary}` : '';
+    const factLines = facts.length > 0
+        ? `\nFatos sobre o usuário:\n${facts.map(fact => `- [${FACT_CATEGORY_LABELS[fact.category]}] ${fact.text}`).join('\n')}`
+        : '';
+    return `\n\n--- O que você lembra deste usuário ---${summary}${factLines}\n--- Fim da memória ---\nUse essas lembranças com naturalidade quando forem relevantes, sem recitá-las.`;
+};
+
+/**
+ * A piece of the agent's reply: text as it streams in, or a tool the agent proposes to open.
+ */
+export type AgentResponseChunk =
+    | { type: 'text'; text: string }
+    | { type: 'tool_proposal'; proposal: ToolProposal };
+
+const PROPOSAL_STATUS_LABELS: Record<ToolProposal['status'], string> = {
+    pending: 'aguardando resposta',
+    accepted: 'aceita',
+    declined: 'recusada',
+};
+
+const buildToolFunctionDeclaration = (toolId: ToolId): FunctionDeclaration => {
+    const tool = toolMetadata[toolId];
+    const properties: Record<string, Schema> = {
+        reason: {
+            type: Type.STRING,
+            description: 'Uma frase curta, em Português, dirigida ao usuário, explicando por que esta ferramenta ajudaria agora.',
+        },
+    };
+    if (acceptsIntention(toolId)) {
+        properties.intention = {
+            type: Type.STRING,
+            description: 'A intenção ou o tema da prática, em Português, tirado do que o usuário contou na conversa.',
+        };
+    }
+    return {
+        name: toToolFunctionName(toolId),
+        description: `Propõe ao usuário abrir a ferramenta "${tool.title}": ${tool.description} O usuário precisa confirmar antes de ela abrir.`,
+        parameters: {
+            type: Type.OBJECT,
+            properties,
+            required: ['reason'],
+        },
+    };
+};
+
+const formatToolsForPrompt = (agent: Agent): string => {
+    if (!agent.tools || agent.tools.length === 0) return '';
+    return `\n\nVocê pode propor ao usuário abrir uma das suas ferramentas chamando a função correspondente. Faça isso apenas quando a ferramenta ajudar claramente no que ele está vivendo, no máximo uma vez por resposta, e nunca repita uma proposta recusada. Escreva sua resposta normalmente; o usuário verá a proposta logo abaixo e decidirá se quer abrir.`;
+};
+
+const getSystemInstructionForAgent = (agent: Agent | undefined, memory?: AgentMemory, threadSummary?: string, profileContext: string = ''): string => {
     if (!agent) {
         return "Você é um assistente geral prestativo. Responda em Português do Brasil.";
     }
     const persona = agent.persona || agent.description;
-    return `Você é o ${agent.name}. ${persona}. Aja estritamente como este personagem. Seja prestativo, perspicaz e mantenha o tom de sua persona. Responda em Português do Brasil. Suas respostas devem ser concisas e diretas.`;
+    return `Você é o ${agent.name}. ${persona}. Aja estritamente como este personagem. Seja prestativo, perspicaz e mantenha o tom de sua persona. Responda em Português do Brasil. Suas respostas devem ser concisas e diretas.${formatToolsForPrompt(agent)}${formatMemoryForPrompt(memory, threadSummary)}${profileContext}`;
 };
 
-const formatChatHistoryForApi = (history: Message[]) => {
-    return history.map(msg => ({
-        role: msg.sender === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.text }],
-    }));
+const formatChatHistoryForApi = (history: Message[]): ChatTurn[] => {
+    return history.map(msg => {
+        const proposal = msg.toolProposal
+            ? `\n[Propus abrir "${toolMetadata[msg.toolProposal.toolId]?.title ?? msg.toolProposal.toolId}" — ${PROPOSAL_STATUS_LABELS[msg.toolProposal.status]}]`
+            : '';
+        return {
+            role: msg.sender === 'user' ? 'user' : 'model',
+            text: `${msg.text}${proposal}`,
+        };
+    });
 };
 
-export const generateAgentResponse = async (agentId: AgentId, history: Message[]): Promise<string> => {
+/**
+ * Streams the agent's reply to the last user message of the history, chunk by chunk.
+ * The agent's tools are offered to the model as functions; a call comes out as a proposal for the user to confirm.
+ * @param agent A built-in or custom mentor; without one, a generic assistant answers.
+ * @param memory The agent's long-term memory, injected into the system instruction.
+ * @param threadSummary The summary of the thread's archived turns, if it has any.
+ * @param profileContext The shared user profile, as built by the store; empty when sharing is off.
+ * @param signal Aborts the request; the stream then ends with an error.
+ */
+export async function* streamAgentResponse(agent: Agent | undefined, history: Message[], memory?: AgentMemory, threadSummary?: string, profileContext?: string, signal?: AbortSignal): AsyncGenerator<AgentResponseChunk> {
     try {
-        // Instantiate client right before the call to use the latest key
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const systemInstruction = getSystemInstructionForAgent(agentId);
+        const systemInstruction = getSystemInstructionForAgent(agent, memory, threadSummary, profileContext);
         const lastMessage = history[history.length - 1];
 
         if (!lastMessage || lastMessage.sender !== 'user') {
-            return "Por favor, envie uma mensagem para começar.";
+            yield { type: 'text', text: "Por favor, envie uma mensagem para começar." };
+            return;
         }
         
-        const chat = ai.chats.create({
+        const tools = agent?.tools ?? [];
+        const chat = getAiProvider().createChat({
             model: CHAT_MODEL,
-            config: { systemInstruction },
-            history: formatChatHistoryForApi(history.slice(0, -1)), // Send all but the last message as history
+            systemInstruction,
+            history: formatChatHistoryForApi(history.slice(-MAX_HISTORY_MESSAGES, -1)), // Send all but the last message as history
+            functionDeclarations: tools.map(buildToolFunctionDeclaration),
         });
 
-        const response = await chat.sendMessage({ message: lastMessage.text });
-
-        return response.text;
+        let hasProposal = false;
+        for await (const chunk of chat.sendMessageStream(lastMessage.text, { signal })) {
+            if (chunk.type === 'text') {
+                yield chunk;
+                continue;
+            }
+            const toolId = parseToolFunctionName(chunk.name, tools);
+            // One proposal per reply; calls to anything the agent does not have are ignored.
+            if (!toolId || hasProposal) continue;
+            hasProposal = true;
+            const { reason, intention } = chunk.args;
+            yield {
+                type: 'tool_proposal',
+                proposal: {
+                    toolId,
+                    reason: typeof reason === 'string' ? reason : '',
+                    intention: acceptsIntention(toolId) && typeof intention === 'string' ? intention : undefined,
+                    status: 'pending',
+                },
+            };
+        }
     } catch (error) {
-        console.error(`Error generating response for agent ${agentId}:`, error);
+        if (!signal?.aborted) {
+            console.error(`Error generating response for agent ${agent?.id}:`, error);
+        }
         throw error;
     }
-};
+}
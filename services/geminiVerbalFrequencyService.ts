@@ -1,6 +1,7 @@
 // services/geminiVerbalFrequencyService.ts
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { Message, VerbalFrequencyAnalysisResult } from '../types.ts';
+import { getAiProvider } from './aiProvider.ts';
 
 const ANALYSIS_MODEL = 'gemini-2.5-flash';
 
@@ -61,26 +62,17 @@ const formatChatHistoryForAnalysis = (chatHistory: Message[]): string => {
     return chatHistory.map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`).join('\n');
 };
 
-export const analyzeVerbalFrequency = async (chatHistory: Message[]): Promise<VerbalFrequencyAnalysisResult> => {
+export const analyzeVerbalFrequency = async (chatHistory: Message[], profileContext: string = ''): Promise<VerbalFrequencyAnalysisResult> => {
   try {
-    // Instantiate client right before the call to use the latest key
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const conversation = formatChatHistoryForAnalysis(chatHistory);
 
-    const fullPrompt = `${VERBAL_FREQUENCY_PROMPT}\n\n--- CONVERSA PARA ANÁLISE ---\n${conversation}\n--- FIM DA CONVERSA ---`;
+    const fullPrompt = `${VERBAL_FREQUENCY_PROMPT}\n\n--- CONVERSA PARA ANÁLISE ---\n${conversation}\n--- FIM DA CONVERSA ---${profileContext}`;
 
-    const response = await ai.models.generateContent({
+    const parsedResponse = await getAiProvider().generateJson<VerbalFrequencyAnalysisResult>({
         model: ANALYSIS_MODEL,
         contents: fullPrompt,
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: analysisSchema,
-        },
+        schema: analysisSchema,
     });
-    
-    const jsonText = response.text.trim();
-    const cleanJsonText = jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
-    const parsedResponse = JSON.parse(cleanJsonText) as VerbalFrequencyAnalysisResult;
 
     if (!parsedResponse.frequencia_detectada || parsedResponse.coerencia_score === undefined) {
          throw new Error("Formato de análise de frequência inválido recebido da API.");
@@ -0,0 +1,178 @@
+// services/providers/geminiProvider.ts
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { AiProvider, ChatSession } from '../aiProvider.ts';
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+
+// A new client is created right before every call so that it always
+// uses the most up-to-date API key selected in the AI Studio dialog.
+const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const stripJsonFence = (text: string): string => {
+    const jsonText = text.trim();
+    return jsonText.startsWith('```json') ? jsonText.replace(/```json\n?/, '').replace(/```$/, '') : jsonText;
+};
+
+export const geminiProvider: AiProvider = {
+    name: 'gemini',
+    requiresApiKey: true,
+
+    generateText: async ({ model, contents, systemInstruction }) => {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: typeof contents === 'string' ? contents : { parts: contents },
+            config: systemInstruction ? { systemInstruction } : undefined,
+        });
+        return response.text ?? '';
+    },
+
+    generateJson: async <T>({ model, contents, systemInstruction, schema }) => {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: typeof contents === 'string' ? contents : { parts: contents },
+            config: {
+                systemInstruction,
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+            },
+        });
+        return JSON.parse(stripJsonFence(response.text ?? '')) as T;
+    },
+
+    createChat: ({ model, systemInstruction, history, functionDeclarations }): ChatSession => {
+        const chatConfig = {
+            systemInstruction,
+            tools: functionDeclarations?.length ? [{ functionDeclarations }] : undefined,
+        };
+        const chat = getClient().chats.create({
+            model,
+            config: chatConfig,
+            history: history?.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        });
+        return {
+            sendMessage: async (message) => {
+                const response = await chat.sendMessage({ message });
+                return response.text ?? '';
+            },
+            sendMessageStream: async function* (message, options) {
+                const stream = await chat.sendMessageStream({
+                    message,
+                    // A per-message config replaces the chat's, so it must carry the persona and tools along.
+                    config: options?.signal ? { ...chatConfig, abortSignal: options.signal } : undefined,
+                });
+                for await (const chunk of stream) {
+                    if (chunk.text) yield { type: 'text', text: chunk.text };
+                    for (const call of chunk.functionCalls ?? []) {
+                        if (call.name) yield { type: 'functionCall', name: call.name, args: call.args ?? {} };
+                    }
+                }
+            },
+        };
+    },
+
+    generateSpeech: async (text, voiceName) => {
+        const response = await getClient().models.generateContent({
+            model: TTS_MODEL,
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName },
+                    },
+                },
+            },
+        });
+
+        const audioPart = response.candidates?.[0]?.content?.parts?.[0];
+        if (audioPart?.inlineData?.data) {
+            return {
+                data: audioPart.inlineData.data,
+                mimeType: audioPart.inlineData.mimeType ?? 'audio/pcm;rate=24000',
+            };
+        }
+        return null;
+    },
+
+    generateImage: async (prompt, aspectRatio) => {
+        const response = await getClient().models.generateImages({
+            model: IMAGE_MODEL,
+            prompt,
+            config: {
+                numberOfImages: 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio,
+            },
+        });
+
+        const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+        if (base64ImageBytes) {
+            return `data:image/jpeg;base64,${base64ImageBytes}`;
+        }
+        throw new Error("No image was generated by the API.");
+    },
+
+    editImage: async (image, prompt) => {
+        const response = await getClient().models.generateContent({
+            model: IMAGE_EDIT_MODEL,
+            contents: { parts: [{ inlineData: { data: image.data, mimeType: image.mimeType } }, { text: prompt }] },
+            config: { responseModalities: [Modality.IMAGE] },
+        });
+        for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+            if (part.inlineData) {
+                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            }
+        }
+        throw new Error("Nenhuma imagem foi retornada pela API.");
+    },
+
+    generateVideo: async (prompt) => {
+        const ai = getClient();
+        let operation = await ai.models.generateVideos({
+            model: VIDEO_MODEL,
+            prompt,
+            config: {
+                numberOfVideos: 1,
+                resolution: '720p',
+                aspectRatio: '16:9'
+            }
+        });
+
+        // Poll for the result every 10 seconds
+        while (!operation.done) {
+            await new Promise(resolve => setTimeout(resolve, 10000));
+            operation = await ai.operations.getVideosOperation({ operation: operation });
+        }
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) {
+            console.error("Video generation finished, but no download link was found.", operation);
+            throw new Error("Video generation completed, but no video URI was returned.");
+        }
+        // The download link requires the API key to be appended when fetching.
+        return `${downloadLink}&key=${process.env.API_KEY}`;
+    },
+
+    connectLive: ({ model, systemInstruction, voiceName, functionDeclarations, callbacks }) => {
+        return getClient().live.connect({
+            model,
+            callbacks: {
+                onopen: () => callbacks.onopen?.(),
+                onmessage: callbacks.onmessage,
+                onerror: (e) => callbacks.onerror?.(e),
+                onclose: (e) => callbacks.onclose?.(e),
+            },
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+                systemInstruction,
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                tools: functionDeclarations?.length ? [{ functionDeclarations }] : undefined,
+            },
+        });
+    },
+};
@@ -0,0 +1,95 @@
+// services/providers/mockProvider.test.ts
+// Run with: node --experimental-strip-types --test services/providers/mockProvider.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Type } from '@google/genai';
+import { AiFeatureUnavailableError } from '../aiProvider.ts';
+import type { ChatStreamChunk } from '../aiProvider.ts';
+import { mockProvider } from './mockProvider.ts';
+
+const collect = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+    const chunks: T[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+};
+
+test('runs offline without an API key', () => {
+    assert.equal(mockProvider.name, 'mock');
+    assert.equal(mockProvider.requiresApiKey, false);
+});
+
+test('generateText is deterministic', async () => {
+    const first = await mockProvider.generateText({ model: 'gemini-2.5-flash', contents: 'Como posso ter mais foco?' });
+    const second = await mockProvider.generateText({ model: 'gemini-2.5-flash', contents: 'Como posso ter mais foco?' });
+    assert.ok(first.length > 0);
+    assert.equal(first, second);
+});
+
+test('generateJson follows the response schema', async () => {
+    const schema = {
+        type: Type.OBJECT,
+        properties: {
+            titulo: { type: Type.STRING },
+            nivel: { type: Type.STRING, enum: ['Baixo', 'Médio', 'Alto'] },
+            nota: { type: Type.INTEGER, description: 'De 1 a 10.' },
+            passos: { type: Type.ARRAY, items: { type: Type.STRING } },
+            concluido: { type: Type.BOOLEAN },
+        },
+    };
+    const result = await mockProvider.generateJson<Record<string, any>>({ model: 'gemini-2.5-flash', contents: 'Analise meu dia.', schema });
+
+    assert.equal(typeof result.titulo, 'string');
+    assert.ok(['Baixo', 'Médio', 'Alto'].includes(result.nivel));
+    assert.ok(Number.isInteger(result.nota) && result.nota >= 1 && result.nota <= 10);
+    assert.ok(Array.isArray(result.passos) && result.passos.every((step: unknown) => typeof step === 'string'));
+    assert.equal(typeof result.concluido, 'boolean');
+});
+
+test('chat streams the same reply it would send at once', async () => {
+    const streamed = await collect(mockProvider.createChat({ model: 'gemini-2.5-flash', systemInstruction: 'Mentor' }).sendMessageStream('Olá'));
+    const sent = await mockProvider.createChat({ model: 'gemini-2.5-flash', systemInstruction: 'Mentor' }).sendMessage('Olá');
+
+    assert.ok(streamed.length > 1);
+    assert.equal(streamed.map(chunk => (chunk.type === 'text' ? chunk.text : '')).join(''), sent);
+});
+
+test('chat calls a declared function every few turns', async () => {
+    const chat = mockProvider.createChat({
+        model: 'gemini-2.5-flash',
+        functionDeclarations: [{ name: 'propose_tool', description: 'Propõe uma ferramenta.' }],
+    });
+    const turns: ChatStreamChunk[][] = [];
+    for (const message of ['um', 'dois', 'três']) {
+        turns.push(await collect(chat.sendMessageStream(message)));
+    }
+
+    assert.ok(turns.slice(0, 2).every(chunks => chunks.every(chunk => chunk.type === 'text')));
+    assert.deepEqual(turns[2].filter(chunk => chunk.type === 'functionCall').map(chunk => chunk.type === 'functionCall' && chunk.name), ['propose_tool']);
+});
+
+test('aborting a streamed reply ends it with an AbortError', async () => {
+    const controller = new AbortController();
+    const stream = mockProvider.createChat({ model: 'gemini-2.5-flash' }).sendMessageStream('Olá', { signal: controller.signal });
+    controller.abort();
+
+    await assert.rejects(collect(stream), { name: 'AbortError' });
+});
+
+test('generateSpeech returns 24kHz PCM', async () => {
+    const speech = await mockProvider.generateSpeech('Respire fundo.', 'Zephyr');
+
+    assert.equal(speech?.mimeType, 'audio/pcm;rate=24000');
+    // Two bytes per sample, at least half a second of audio.
+    assert.ok(Buffer.from(speech!.data, 'base64').length >= 24000);
+});
+
+test('generateImage returns an image data URL', async () => {
+    const image = await mockProvider.generateImage('Um lago ao amanhecer', '16:9');
+
+    assert.match(image, /^data:image\/svg\+xml;base64,.+/);
+});
+
+test('generateVideo reports that video is unavailable offline', async () => {
+    await assert.rejects(mockProvider.generateVideo('Um lago ao amanhecer'), (error: unknown) =>
+        error instanceof AiFeatureUnavailableError && error.message.includes('offline'));
+});
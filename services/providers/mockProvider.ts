@@ -0,0 +1,180 @@
+// services/providers/mockProvider.ts
+import { Type, LiveServerMessage } from "@google/genai";
+import { AiFeatureUnavailableError } from '../aiProvider.ts';
+import type { AiPart, AiProvider, ChatSession, LiveSession } from '../aiProvider.ts';
+import { encode } from '../../utils/audioUtils.ts';
+
+// A deterministic, offline stand-in for the Gemini API. Every response is derived
+// from a hash of the request, so the same input always produces the same output.
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_LATENCY_MS = 300;
+const MOCK_FUNCTION_CALL_EVERY = 3;
+
+const MOCK_REPLIES = [
+    'Respire fundo. Perceba como cada inspiração traz mais coerência ao seu sistema.',
+    'Observe esse padrão com curiosidade, sem julgamento. A consciência dele já é o primeiro passo de integração.',
+    'Cada desafio é informação buscando ser integrada. O que essa situação está tentando lhe ensinar?',
+    'Vamos transformar essa dissonância em clareza, um passo de cada vez.',
+];
+
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const contentsToString = (contents: string | AiPart[]): string =>
+    typeof contents === 'string'
+        ? contents
+        : contents.map(part => ('text' in part ? part.text : part.inlineData.mimeType)).join('\n');
+
+const delay = <T>(value: T): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), MOCK_LATENCY_MS));
+
+const mockReply = (seed: string): string => MOCK_REPLIES[hashString(seed) % MOCK_REPLIES.length];
+
+// Picks a number inside the range mentioned in a schema description ("Entre 5000 e 10000ms", "de 1 a 10").
+const numberFromDescription = (description: string | undefined, seed: number, integer: boolean): number => {
+    const bounds = (description?.match(/\d+(?:\.\d+)?/g) ?? []).map(Number);
+    if (bounds.length >= 2) {
+        const [min, max] = [Math.min(bounds[0], bounds[1]), Math.max(bounds[0], bounds[1])];
+        const value = min + (seed % 1000) / 1000 * (max - min);
+        return integer ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+    return integer ? 1 + (seed % 10) : (seed % 100) / 10;
+};
+
+const valueFromSchema = (schema: Record<string, any>, seed: number, path: string): any => {
+    const nextSeed = hashString(`${seed}:${path}`);
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        return schema.enum[nextSeed % schema.enum.length];
+    }
+    switch (schema.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(
+                Object.entries(schema.properties ?? {}).map(([key, propSchema]) => [
+                    key,
+                    valueFromSchema(propSchema as Record<string, any>, nextSeed, `${path}.${key}`),
+                ])
+            );
+        case Type.ARRAY:
+            return Array.from({ length: 3 }, (_, i) => valueFromSchema(schema.items ?? { type: Type.STRING }, nextSeed, `${path}[${i}]`));
+        case Type.INTEGER:
+            return numberFromDescription(schema.description, nextSeed, true);
+        case Type.NUMBER:
+            return numberFromDescription(schema.description, nextSeed, false);
+        case Type.BOOLEAN:
+            return nextSeed % 2 === 0;
+        case Type.STRING:
+        default:
+            return `${mockReply(path + seed)} (${path.split('.').pop() || 'texto'})`;
+    }
+};
+
+// A soft sine tone whose length follows the text, so audio pipelines have real PCM to process.
+const createTonePcm = (text: string): string => {
+    const seconds = Math.min(8, Math.max(0.5, text.length * 0.05));
+    const frequency = 220 + (hashString(text) % 220);
+    const samples = new Int16Array(Math.floor(seconds * MOCK_SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        const envelope = Math.min(1, i / 2400, (samples.length - i) / 2400);
+        samples[i] = Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE) * 3000 * envelope;
+    }
+    return encode(new Uint8Array(samples.buffer));
+};
+
+const createGradientImage = (seed: string): string => {
+    const hue = hashString(seed) % 360;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},60%,25%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,45%)"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// Roughly ten seconds of microphone input (4096-sample chunks at 16kHz) before the mock "answers".
+const LIVE_CHUNKS_PER_TURN = 40;
+
+export const mockProvider: AiProvider = {
+    name: 'mock',
+    requiresApiKey: false,
+
+    generateText: ({ contents }) => delay(mockReply(contentsToString(contents))),
+
+    generateJson: <T>({ contents, schema }) =>
+        delay(valueFromSchema(schema, hashString(contentsToString(contents)), 'root') as T),
+
+    createChat: ({ systemInstruction, history, functionDeclarations }): ChatSession => {
+        let turn = history?.length ?? 0;
+        return {
+            sendMessage: (message) => {
+                turn += 1;
+                return delay(mockReply(`${systemInstruction ?? ''}|${turn}|${message}`));
+            },
+            // Streams the same reply word by word, so the UI can be exercised offline.
+            // Every few turns it also calls one of the declared functions.
+            sendMessageStream: async function* (message, options) {
+                turn += 1;
+                const words = mockReply(`${systemInstruction ?? ''}|${turn}|${message}`).split(' ');
+                for (let i = 0; i < words.length; i++) {
+                    await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS / 4));
+                    if (options?.signal?.aborted) throw new DOMException('The request was aborted.', 'AbortError');
+                    yield { type: 'text', text: i === 0 ? words[i] : ` ${words[i]}` };
+                }
+                if (functionDeclarations?.length && turn % MOCK_FUNCTION_CALL_EVERY === 0) {
+                    const declaration = functionDeclarations[hashString(message) % functionDeclarations.length];
+                    yield { type: 'functionCall', name: declaration.name ?? '', args: { reason: 'Sugestão simulada do modo offline.', intention: message.slice(0, 80) } };
+                }
+            },
+        };
+    },
+
+    generateSpeech: (text) => delay({ data: createTonePcm(text), mimeType: `audio/pcm;rate=${MOCK_SAMPLE_RATE}` }),
+
+    generateImage: (prompt) => delay(createGradientImage(prompt)),
+
+    editImage: (image) => delay(`data:${image.mimeType};base64,${image.data}`),
+
+    // There is no offline stand-in for a generated video, so the feature says so instead of returning an unplayable file.
+    generateVideo: () => delay(null).then(() => {
+        throw new AiFeatureUnavailableError('A geração de vídeo não está disponível no modo offline. Configure uma chave da API Gemini para usá-la.');
+    }),
+
+    connectLive: ({ systemInstruction, functionDeclarations, callbacks }) => {
+        let isOpen = true;
+        let receivedChunks = 0;
+        const emit = (message: Partial<LiveServerMessage>) => {
+            if (isOpen) callbacks.onmessage(message as LiveServerMessage);
+        };
+        const speak = (text: string) => {
+            emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data: createTonePcm(text), mimeType: 'audio/pcm;rate=24000' } }] } } });
+            emit({ serverContent: { outputTranscription: { text } } });
+            emit({ serverContent: { turnComplete: true } });
+        };
+
+        const session: LiveSession = {
+            sendRealtimeInput: () => {
+                receivedChunks += 1;
+                if (receivedChunks % LIVE_CHUNKS_PER_TURN !== 0) return;
+                emit({ serverContent: { inputTranscription: { text: '(fala simulada do usuário)' } } });
+                const functionName = functionDeclarations?.[0]?.name;
+                if (functionName) {
+                    emit({ toolCall: { functionCalls: [{ id: `mock-call-${receivedChunks}`, name: functionName, args: {} }] } });
+                } else {
+                    speak(mockReply(`${systemInstruction}|${receivedChunks}`));
+                }
+            },
+            close: () => {
+                if (!isOpen) return;
+                isOpen = false;
+                callbacks.onclose?.(new CloseEvent('close'));
+            },
+        };
+
+        setTimeout(() => {
+            callbacks.onopen?.();
+            speak(mockReply(systemInstruction));
+        }, MOCK_LATENCY_MS);
+        return Promise.resolve(session);
+    },
+};
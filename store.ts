@@ -1,24 +1,59 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { produce } from 'immer';
-import { Chat } from '@google/genai';
+import type { ChatSession } from './services/aiProvider.ts';
 
 import {
     AgentId,
+    AgentMemory,
+    ChatThread,
+    CustomAgentDefinition,
+    CustomAgentId,
+    MentorId,
     Message,
+    PicSignal,
+    PicTrailStep,
     Schedule,
+    ScheduleOccurrence,
+    BeliefLedgerEntry,
+    JournalEntry,
+    JournalFeedback,
+    JournalReview,
+    DreamSymbol,
+    DreamSymbolFinding,
+    SpendingEmotion,
+    SpendingTransaction,
+    RiskAssessment,
+    Portfolio,
+    PortfolioAsset,
+    PortfolioTransaction,
     Session,
     ToastMessage,
+    ToolId,
     ToolStates,
     UserStateVector,
+    UsvChangeSource,
+    UsvImpulse,
+    UsvSnapshot,
     View,
 } from './types';
-import { generateAgentResponse } from './services/geminiService.ts';
+import { streamAgentResponse } from './services/geminiService.ts';
+import { summarizeConversation } from './services/geminiMemoryService.ts';
 import { createDoshaChat, startDoshaConversation, continueDoshaConversation } from './services/geminiDoshaService.ts';
 import { createRoutineAlignerChat, startRoutineAlignerConversation, continueRoutineAlignerConversation } from './services/geminiRoutineAlignerService.ts';
-import { AGENTS } from './constants.tsx';
 import { getFriendlyErrorMessage } from './utils/errorUtils.ts';
 import { useAistudioKey } from './hooks/useAistudioKey.ts';
+import { getEffectiveTime, getNextOccurrence, SCHEDULE_GRACE_MS } from './utils/scheduleUtils.ts';
+import { createEmptyAgentMemory, getMessagesToSummarize, mergeUserFacts } from './utils/agentMemory.ts';
+import { archiveMessages, deleteArchivedMessages, moveArchivedMessages } from './utils/chatArchive.ts';
+import { buildUserProfile, formatUserProfileForPrompt, isToolConsumer, ProfileConsumer } from './utils/userContext.ts';
+import { resolveAgent } from './utils/customAgents.ts';
+import { buildToolSession } from './utils/toolProposals.ts';
+import { createChatThread, DEFAULT_THREAD_TITLE, deriveThreadTitle, getActiveMessages, MIGRATED_THREAD_TITLE, pickFallbackThread } from './utils/chatThreads.ts';
+import { applyImpulses, getImpulseContribution, scoreDoshaResult, ToolOutcome } from './utils/usvScoring.ts';
+import { deleteJournalAudio } from './utils/audioStore.ts';
+import { getNewDreamSymbols } from './utils/dreams.ts';
+import { computePortfolioMetrics, createEmptyPortfolio, hasPortfolioData, scorePortfolioHealth } from './utils/portfolio.ts';
 
 // Helper to calculate UCS
 const calculateUcs = (usv: UserStateVector): number => {
@@ -43,6 +78,39 @@ const getRecommendation = (usv: UserStateVector): AgentId => {
     return lowest.key;
 };
 
+// Caps the stored history so localStorage does not grow without bound.
+const MAX_USV_HISTORY = 1000;
+// Old impulses have decayed to nothing; only the latest ones are kept for the log.
+const MAX_USV_IMPULSES = 100;
+
+const createUsvSnapshot = (usv: UserStateVector, source: UsvChangeSource): UsvSnapshot => ({
+    timestamp: Date.now(),
+    usv: { ...usv },
+    ucs: calculateUcs(usv),
+    source,
+});
+
+// The effective USV. Once the user has entered a portfolio, its health score is the financial base, recomputed
+// here rather than stored, so decaying tool effects move around the score instead of drifting away from it.
+const computeUsv = (state: Pick<AppState, 'usvBase' | 'usvImpulses' | 'portfolio'>): UserStateVector => {
+    const base = hasPortfolioData(state.portfolio)
+        ? { ...state.usvBase, financial: scorePortfolioHealth(computePortfolioMetrics(state.portfolio)).score }
+        : state.usvBase;
+    return applyImpulses(base, state.usvImpulses);
+};
+
+// The financial dimension follows the portfolio once the user has entered one.
+const applyPortfolioHealth = (draft: AppState) => {
+    const usv = computeUsv(draft);
+    // Edits that leave the score as it was, like a new sector label, add nothing to the history.
+    if (usv.financial === draft.usv.financial) return;
+    draft.usv = usv;
+    draft.usvHistory.push(createUsvSnapshot(draft.usv, 'portfolio_tracker'));
+    if (draft.usvHistory.length > MAX_USV_HISTORY) {
+        draft.usvHistory.splice(0, draft.usvHistory.length - MAX_USV_HISTORY);
+    }
+};
+
 // Centralized error handler to check for API key issues
 const handleApiError = (error: any, defaultMessage: string, addToast: AppState['addToast']): string => {
     const friendlyMessage = getFriendlyErrorMessage(error, defaultMessage);
@@ -58,26 +126,64 @@ const handleApiError = (error: any, defaultMessage: string, addToast: AppState['
 interface AppState {
     usv: UserStateVector;
     ucs: number;
+    usvHistory: UsvSnapshot[];
+    // The self-reported state, before tool outcomes are applied on top of it.
+    usvBase: UserStateVector;
+    usvImpulses: UsvImpulse[];
     recommendation: AgentId | null;
     activeView: View;
     currentSession: Session | null;
-    lastAgentContext: AgentId | null;
-    chatHistories: Record<AgentId, Message[]>;
+    lastAgentContext: MentorId | null;
+    chatThreads: Record<MentorId, ChatThread[]>;
+    activeThreadIds: Record<MentorId, string | null>;
+    // The messages of each agent's active thread. Derived from the threads and not persisted.
+    chatHistories: Record<MentorId, Message[]>;
+    agentMemories: Record<MentorId, AgentMemory>;
+    customAgents: Record<CustomAgentId, CustomAgentDefinition>;
+    // Consumers missing from the map may read the shared profile; only refusals are stored.
+    profileSharing: Partial<Record<ProfileConsumer, boolean>>;
     isLoadingMessage: boolean;
     toolStates: ToolStates;
     toasts: ToastMessage[];
-    doshaChat: Chat | null;
-    routineAlignerChat: Chat | null;
+    doshaChat: ChatSession | null;
+    routineAlignerChat: ChatSession | null;
     isOnboardingVisible: boolean;
     schedules: Schedule[];
+    beliefLedger: BeliefLedgerEntry[];
+    journalEntries: JournalEntry[];
+    journalReviews: JournalReview[];
+    dreamSymbols: DreamSymbol[];
+    spendingTransactions: SpendingTransaction[];
+    riskAssessments: RiskAssessment[];
+    portfolio: Portfolio;
+    // Ids of the Phi Frontier Radar concepts the user follows.
+    frontierWatchlist: string[];
+    picSignals: PicSignal[];
+    picTrail: PicTrailStep[];
+    isPicTrailActive: boolean;
 
     // Actions
     setView: (view: View) => void;
     startSession: (session: Session) => void;
     endSession: () => void;
-    switchAgent: (agentId: AgentId) => void;
-    addInitialMessage: (agentId: AgentId) => void;
-    handleSendMessage: (agentId: AgentId, text: string) => Promise<void>;
+    switchAgent: (agentId: MentorId) => void;
+    addInitialMessage: (agentId: MentorId) => void;
+    handleSendMessage: (agentId: MentorId, text: string) => Promise<void>;
+    stopAgentResponse: () => void;
+    respondToToolProposal: (agentId: MentorId, threadId: string, messageId: string, accept: boolean) => void;
+    createThread: (agentId: MentorId) => void;
+    selectThread: (agentId: MentorId, threadId: string) => void;
+    renameThread: (agentId: MentorId, threadId: string, title: string) => void;
+    setThreadPinned: (agentId: MentorId, threadId: string, isPinned: boolean) => void;
+    setThreadArchived: (agentId: MentorId, threadId: string, isArchived: boolean) => void;
+    deleteThread: (agentId: MentorId, threadId: string) => void;
+    consolidateAgentMemory: (agentId: MentorId, threadId: string) => Promise<void>;
+    forgetUserFact: (agentId: MentorId, factText: string) => void;
+    clearAgentMemory: (agentId: MentorId) => void;
+    saveCustomAgent: (definition: CustomAgentDefinition) => void;
+    deleteCustomAgent: (agentId: CustomAgentId) => void;
+    setProfileSharing: (consumer: ProfileConsumer, isAllowed: boolean) => void;
+    getProfileContext: (consumer: ProfileConsumer) => string;
     handleDoshaSendMessage: (text: string) => Promise<void>;
     initDoshaChat: () => Promise<void>;
     handleRoutineAlignerSendMessage: (text: string) => Promise<void>;
@@ -87,21 +193,114 @@ interface AppState {
     removeToast: (id: string) => void;
     closeOnboarding: () => void;
     addSchedule: (schedule: Omit<Schedule, 'id' | 'status'>) => void;
-    updateScheduleStatus: (scheduleId: string, status: Schedule['status']) => void;
-    updateUsvDimensions: (updates: Partial<Pick<UserStateVector, 'physical' | 'emotional'>>) => void;
+    removeSchedule: (scheduleId: string) => void;
+    resolveScheduleOccurrence: (scheduleId: string, outcome: ScheduleOccurrence['status']) => void;
+    snoozeSchedule: (scheduleId: string, minutes: number) => void;
+    processDueSchedules: () => { dueSchedule: Schedule | null; missedCount: number };
+    addBeliefLedgerEntry: (entry: Omit<BeliefLedgerEntry, 'id' | 'reviews' | 'createdAt'>) => void;
+    reviewBelief: (entryId: string, believability: number) => void;
+    removeBeliefLedgerEntry: (entryId: string) => void;
+    addJournalEntry: (entry: Omit<JournalEntry, 'id' | 'createdAt'>) => string;
+    updateJournalEntry: (entryId: string, updates: Partial<Omit<JournalEntry, 'id' | 'createdAt'>>) => void;
+    removeJournalEntry: (entryId: string) => void;
+    addJournalReview: (review: Omit<JournalReview, 'id' | 'createdAt'>) => void;
+    removeJournalReview: (reviewId: string) => void;
+    addDreamSymbols: (findings: DreamSymbolFinding[]) => void;
+    updateDreamSymbol: (key: string, updates: Partial<Pick<DreamSymbol, 'archetype' | 'meaning'>>) => void;
+    removeDreamSymbol: (key: string) => void;
+    importSpendingTransactions: (transactions: SpendingTransaction[]) => number;
+    tagSpendingTransaction: (transactionId: string, emotion: SpendingEmotion | null, intensity?: number) => void;
+    setSpendingCategory: (transactionId: string, category: string) => void;
+    clearSpendingTransactions: () => void;
+    addRiskAssessment: (assessment: RiskAssessment) => void;
+    removeRiskAssessment: (assessmentId: string) => void;
+    addPortfolioTransaction: (transaction: Omit<PortfolioTransaction, 'id'>, asset?: Omit<PortfolioAsset, 'ticker'>) => void;
+    importPortfolioTransactions: (transactions: PortfolioTransaction[], sectors?: Record<string, PortfolioAsset['sector']>) => number;
+    removePortfolioTransaction: (transactionId: string) => void;
+    updatePortfolioAsset: (ticker: string, updates: Partial<Omit<PortfolioAsset, 'ticker'>>) => void;
+    setEmergencyFund: (updates: Partial<Pick<Portfolio, 'emergencyFund' | 'monthlyExpenses'>>) => void;
+    toggleFrontierWatchlist: (conceptId: string) => void;
+    updateUsvDimensions: (updates: Partial<Pick<UserStateVector, 'physical' | 'emotional'>>, source?: UsvChangeSource) => void;
     goBackToAgentRoom: () => void;
+    recordToolOutcome: (outcome: ToolOutcome) => void;
+    refreshUsv: () => void;
+    recordPicSignal: (source: ToolId, text: string) => void;
+    setPicTrail: (steps: PicTrailStep[]) => void;
+    updatePicStepStatus: (stepId: string, status: PicTrailStep['status']) => void;
+    movePicStep: (stepId: string, offset: number) => void;
+    setPicTrailActive: (isActive: boolean) => void;
 }
 
+// Keeps the per-schedule log of past occurrences short.
+const MAX_SCHEDULE_HISTORY = 30;
+
+// Records the outcome of the current occurrence and moves a recurring series to its next one.
+const advanceSchedule = (schedule: Schedule, outcome: ScheduleOccurrence['status'], now: number) => {
+    schedule.history = [...(schedule.history ?? []), { time: schedule.time, status: outcome }].slice(-MAX_SCHEDULE_HISTORY);
+    schedule.snoozedUntil = undefined;
+    const next = getNextOccurrence(schedule, Math.max(now, schedule.time));
+    if (next !== null) {
+        schedule.time = next;
+    } else {
+        schedule.status = outcome;
+    }
+};
+
+const findThread = (state: Pick<AppState, 'chatThreads'>, agentId: MentorId, threadId: string | null): ChatThread | undefined =>
+    threadId ? state.chatThreads[agentId]?.find(t => t.id === threadId) : undefined;
+
+// Makes sure the agent has an active thread to write to, starting a new one if needed.
+const ensureActiveThread = (draft: AppState, agentId: MentorId): ChatThread => {
+    const active = findThread(draft, agentId, draft.activeThreadIds[agentId]);
+    if (active) return active;
+    const thread = createChatThread(agentId, resolveAgent(agentId, draft.customAgents)?.initialMessage);
+    draft.chatThreads[agentId] = [...(draft.chatThreads[agentId] ?? []), thread];
+    draft.activeThreadIds[agentId] = thread.id;
+    return draft.chatThreads[agentId][draft.chatThreads[agentId].length - 1];
+};
+
+// Moves the agent away from a thread that is no longer listed, to the latest open one, if any.
+const reassignActiveThread = (draft: AppState, agentId: MentorId) => {
+    const active = findThread(draft, agentId, draft.activeThreadIds[agentId]);
+    if (active && !active.isArchived) return;
+    draft.activeThreadIds[agentId] = pickFallbackThread(draft.chatThreads[agentId] ?? [])?.id ?? null;
+};
+
+// The in-flight agent reply. Kept outside the state, since it is neither serializable nor rendered.
+let agentResponseController: AbortController | null = null;
+// Threads whose summary is being rolled up, so overlapping replies do not summarize the same turns twice.
+const consolidatingThreads = new Set<string>();
+
+// Only the most recent routing hints are relevant for the orchestrator.
+const MAX_PIC_SIGNALS = 10;
+
 export const useStore = create<AppState>()(
     persist(
         (set, get) => ({
             // State
             usv: { spiritual: 75, emotional: 40, physical: 60, financial: 50 },
             ucs: 61,
+            usvHistory: [],
+            usvBase: { spiritual: 75, emotional: 40, physical: 60, financial: 50 },
+            usvImpulses: [],
             recommendation: AgentId.EMOTIONAL_FINANCE,
             activeView: 'dashboard',
             currentSession: null,
             lastAgentContext: null,
+            chatThreads: {
+                [AgentId.COHERENCE]: [],
+                [AgentId.SELF_KNOWLEDGE]: [],
+                [AgentId.HEALTH]: [],
+                [AgentId.EMOTIONAL_FINANCE]: [],
+                [AgentId.INVESTMENTS]: [],
+            },
+            activeThreadIds: {
+                [AgentId.COHERENCE]: null,
+                [AgentId.SELF_KNOWLEDGE]: null,
+                [AgentId.HEALTH]: null,
+                [AgentId.EMOTIONAL_FINANCE]: null,
+                [AgentId.INVESTMENTS]: null,
+            },
             chatHistories: {
                 [AgentId.COHERENCE]: [],
                 [AgentId.SELF_KNOWLEDGE]: [],
@@ -109,9 +308,18 @@ export const useStore = create<AppState>()(
                 [AgentId.EMOTIONAL_FINANCE]: [],
                 [AgentId.INVESTMENTS]: [],
             },
+            agentMemories: {
+                [AgentId.COHERENCE]: createEmptyAgentMemory(),
+                [AgentId.SELF_KNOWLEDGE]: createEmptyAgentMemory(),
+                [AgentId.HEALTH]: createEmptyAgentMemory(),
+                [AgentId.EMOTIONAL_FINANCE]: createEmptyAgentMemory(),
+                [AgentId.INVESTMENTS]: createEmptyAgentMemory(),
+            },
+            customAgents: {},
+            profileSharing: {},
             isLoadingMessage: false,
             toolStates: {
-                therapeuticJournal: { entry: '', feedback: null, error: null },
+                therapeuticJournal: { draft: '' },
                 doshaDiagnosis: { messages: [], isFinished: false, error: null },
                 routineAligner: { messages: [], isFinished: false, error: null },
                 doshaResult: null,
@@ -121,6 +329,17 @@ export const useStore = create<AppState>()(
             routineAlignerChat: null,
             isOnboardingVisible: true,
             schedules: [],
+            beliefLedger: [],
+            journalEntries: [],
+            journalReviews: [],
+            dreamSymbols: [],
+            spendingTransactions: [],
+            riskAssessments: [],
+            portfolio: createEmptyPortfolio(),
+            frontierWatchlist: [],
+            picSignals: [],
+            picTrail: [],
+            isPicTrailActive: false,
 
             // Actions
             setView: (view) => set({ activeView: view }),
@@ -154,50 +373,239 @@ export const useStore = create<AppState>()(
 
             addInitialMessage: (agentId) => {
                 set(produce((draft: AppState) => {
-                    const agent = AGENTS[agentId];
-                    if (agent?.initialMessage && draft.chatHistories[agentId]?.length === 0) {
+                    const thread = ensureActiveThread(draft, agentId);
+                    const agent = resolveAgent(agentId, draft.customAgents);
+                    if (agent?.initialMessage && thread.messages.length === 0) {
                         const initialMessage: Message = {
                             id: `agent-initial-${agentId}`,
                             sender: 'agent',
                             text: agent.initialMessage,
                             timestamp: Date.now()
                         };
-                        draft.chatHistories[agentId].push(initialMessage);
+                        thread.messages.push(initialMessage);
                     }
                 }));
             },
 
             handleSendMessage: async (agentId, text) => {
                 const userMessage: Message = { id: `user-${Date.now()}`, sender: 'user', text, timestamp: Date.now() };
-                
+                let threadId = '';
+
                 set(produce((draft: AppState) => {
-                    if (!draft.chatHistories[agentId]) draft.chatHistories[agentId] = [];
-                    draft.chatHistories[agentId].push(userMessage);
+                    const thread = ensureActiveThread(draft, agentId);
+                    if (thread.title === DEFAULT_THREAD_TITLE && !thread.messages.some(m => m.sender === 'user')) {
+                        thread.title = deriveThreadTitle(text);
+                    }
+                    thread.messages.push(userMessage);
+                    thread.updatedAt = userMessage.timestamp;
+                    threadId = thread.id;
                     draft.isLoadingMessage = true;
                 }));
 
-                try {
-                    const history = get().chatHistories[agentId];
-                    const agentResponseText = await generateAgentResponse(agentId, history);
-                    
-                    const agentMessage: Message = { id: `agent-${Date.now()}`, sender: 'agent', text: agentResponseText, timestamp: Date.now() };
-                    
-                    set(produce((draft: AppState) => {
-                        draft.chatHistories[agentId].push(agentMessage);
-                    }));
+                // The reply goes to the thread it was asked in, even if the user switches threads meanwhile.
+                const thread = findThread(get(), agentId, threadId);
+                const history = thread?.messages ?? [];
+                const agentMessageId = `agent-${Date.now()}`;
+                // The reply is rendered from the first chunk on, so it starts out empty.
+                set(produce((draft: AppState) => {
+                    findThread(draft, agentId, threadId)?.messages.push({ id: agentMessageId, sender: 'agent', text: '', timestamp: Date.now() });
+                }));
+                const updateAgentMessage = (update: (message: Message) => void) => set(produce((draft: AppState) => {
+                    const message = findThread(draft, agentId, threadId)?.messages.find(m => m.id === agentMessageId);
+                    if (message) update(message);
+                }));
 
+                const controller = new AbortController();
+                agentResponseController = controller;
+                try {
+                    for await (const chunk of streamAgentResponse(resolveAgent(agentId, get().customAgents), history, get().agentMemories[agentId], thread?.summary, get().getProfileContext(agentId), controller.signal)) {
+                        if (chunk.type === 'text') {
+                            updateAgentMessage(message => { message.text += chunk.text; });
+                        } else {
+                            updateAgentMessage(message => { message.toolProposal = chunk.proposal; });
+                        }
+                    }
                 } catch (error) {
-                    const defaultMessage = `Desculpe, não consegui processar sua mensagem com ${AGENTS[agentId].name}.`;
-                    const errorText = handleApiError(error, defaultMessage, get().addToast);
-                    
-                    const errorMessage: Message = { id: `agent-error-${Date.now()}`, sender: 'agent', text: errorText, timestamp: Date.now() };
+                    const receivedText = findThread(get(), agentId, threadId)?.messages.find(m => m.id === agentMessageId)?.text ?? '';
+                    if (controller.signal.aborted) {
+                        // Stopped by the user: keep what was received, or drop the empty bubble.
+                        if (receivedText) {
+                            updateAgentMessage(message => { message.isInterrupted = true; });
+                        } else {
+                            set(produce((draft: AppState) => {
+                                const thread = findThread(draft, agentId, threadId);
+                                if (thread) thread.messages = thread.messages.filter(m => m.id !== agentMessageId);
+                            }));
+                        }
+                    } else {
+                        const defaultMessage = `Desculpe, não consegui processar sua mensagem com ${resolveAgent(agentId, get().customAgents)?.name ?? 'o mentor'}.`;
+                        const errorText = handleApiError(error, defaultMessage, get().addToast);
+                        updateAgentMessage(message => {
+                            if (receivedText) {
+                                message.isInterrupted = true;
+                            } else {
+                                message.text = errorText;
+                            }
+                        });
+                    }
+                } finally {
+                    if (agentResponseController === controller) agentResponseController = null;
+                    set({ isLoadingMessage: false });
+                }
+                get().consolidateAgentMemory(agentId, threadId);
+            },
+
+            stopAgentResponse: () => {
+                agentResponseController?.abort();
+            },
+
+            respondToToolProposal: (agentId, threadId, messageId, accept) => {
+                const proposal = findThread(get(), agentId, threadId)?.messages.find(m => m.id === messageId)?.toolProposal;
+                if (!proposal || proposal.status !== 'pending') return;
+                set(produce((draft: AppState) => {
+                    const message = findThread(draft, agentId, threadId)?.messages.find(m => m.id === messageId);
+                    if (message?.toolProposal) message.toolProposal.status = accept ? 'accepted' : 'declined';
+                }));
+                if (accept) get().startSession(buildToolSession(proposal));
+            },
+
+            createThread: (agentId) => {
+                set(produce((draft: AppState) => {
+                    const thread = createChatThread(agentId, resolveAgent(agentId, draft.customAgents)?.initialMessage);
+                    draft.chatThreads[agentId] = [...(draft.chatThreads[agentId] ?? []), thread];
+                    draft.activeThreadIds[agentId] = thread.id;
+                }));
+            },
+
+            selectThread: (agentId, threadId) => {
+                set(produce((draft: AppState) => {
+                    const thread = findThread(draft, agentId, threadId);
+                    if (!thread) return;
+                    // Opening an archived thread brings it back to the list.
+                    thread.isArchived = false;
+                    draft.activeThreadIds[agentId] = threadId;
+                }));
+            },
+
+            renameThread: (agentId, threadId, title) => {
+                if (!title.trim()) return;
+                set(produce((draft: AppState) => {
+                    const thread = findThread(draft, agentId, threadId);
+                    if (thread) thread.title = title.trim();
+                }));
+            },
+
+            setThreadPinned: (agentId, threadId, isPinned) => {
+                set(produce((draft: AppState) => {
+                    const thread = findThread(draft, agentId, threadId);
+                    if (thread) thread.isPinned = isPinned;
+                }));
+            },
+
+            setThreadArchived: (agentId, threadId, isArchived) => {
+                set(produce((draft: AppState) => {
+                    const thread = findThread(draft, agentId, threadId);
+                    if (!thread) return;
+                    thread.isArchived = isArchived;
+                    if (isArchived) thread.isPinned = false;
+                    reassignActiveThread(draft, agentId);
+                    ensureActiveThread(draft, agentId);
+                }));
+            },
+
+            deleteThread: (agentId, threadId) => {
+                set(produce((draft: AppState) => {
+                    draft.chatThreads[agentId] = (draft.chatThreads[agentId] ?? []).filter(t => t.id !== threadId);
+                    reassignActiveThread(draft, agentId);
+                    ensureActiveThread(draft, agentId);
+                }));
+                deleteArchivedMessages(threadId).catch(error => console.error(`Error deleting the archived turns of thread ${threadId}:`, error));
+            },
+
+            consolidateAgentMemory: async (agentId, threadId) => {
+                const thread = findThread(get(), agentId, threadId);
+                if (!thread || consolidatingThreads.has(threadId)) return;
+                const toSummarize = getMessagesToSummarize(thread.messages);
+                if (toSummarize.length === 0) return;
+                consolidatingThreads.add(threadId);
+                try {
+                    const update = await summarizeConversation(thread.summary ?? '', toSummarize);
+                    // The turns are archived before they leave the thread, so a failed write loses nothing.
+                    await archiveMessages(threadId, toSummarize);
+                    const summarizedIds = new Set(toSummarize.map(m => m.id));
                     set(produce((draft: AppState) => {
-                        draft.chatHistories[agentId].push(errorMessage);
+                        const draftMemory = draft.agentMemories[agentId] ?? createEmptyAgentMemory();
+                        draftMemory.facts = mergeUserFacts(draftMemory.facts, update.facts);
+                        draftMemory.summarizedMessages += toSummarize.length;
+                        draftMemory.updatedAt = Date.now();
+                        draft.agentMemories[agentId] = draftMemory;
+                        // The summarized turns now live in the thread summary and the archive, which keeps the persisted threads bounded.
+                        const draftThread = findThread(draft, agentId, threadId);
+                        if (draftThread) {
+                            draftThread.summary = update.summary;
+                            draftThread.messages = draftThread.messages.filter(m => !summarizedIds.has(m.id));
+                        }
                     }));
+                } catch (error) {
+                    // The thread is left untouched and the roll-up is retried after the next reply.
+                    console.error(`Error consolidating the memory of agent ${agentId}:`, error);
                 } finally {
-                    set({ isLoadingMessage: false });
+                    consolidatingThreads.delete(threadId);
                 }
             },
+
+            forgetUserFact: (agentId, factText) => {
+                set(produce((draft: AppState) => {
+                    const memory = draft.agentMemories[agentId];
+                    if (memory) memory.facts = memory.facts.filter(fact => fact.text !== factText);
+                }));
+            },
+
+            clearAgentMemory: (agentId) => {
+                set(produce((draft: AppState) => {
+                    draft.agentMemories[agentId] = createEmptyAgentMemory();
+                    // The archived turns stay in the transcript; only what the mentor remembers of them is erased.
+                    (draft.chatThreads[agentId] ?? []).forEach(thread => { delete thread.summary; });
+                }));
+            },
+
+            saveCustomAgent: (definition) => {
+                set(produce((draft: AppState) => {
+                    draft.customAgents[definition.id] = definition;
+                }));
+            },
+
+            deleteCustomAgent: (agentId) => {
+                (get().chatThreads[agentId] ?? []).forEach(thread => {
+                    deleteArchivedMessages(thread.id).catch(error => console.error(`Error deleting the archived turns of thread ${thread.id}:`, error));
+                });
+                set(produce((draft: AppState) => {
+                    delete draft.customAgents[agentId];
+                    delete draft.chatThreads[agentId];
+                    delete draft.activeThreadIds[agentId];
+                    delete draft.agentMemories[agentId];
+                    delete draft.profileSharing[agentId];
+                    if (draft.lastAgentContext === agentId) draft.lastAgentContext = null;
+                    draft.schedules.forEach(schedule => {
+                        if (schedule.agentId === agentId) delete schedule.agentId;
+                    });
+                    if (draft.currentSession?.type === 'agent' && draft.currentSession.id === agentId) draft.currentSession = null;
+                }));
+            },
+
+            setProfileSharing: (consumer, isAllowed) => {
+                set(produce((draft: AppState) => {
+                    draft.profileSharing[consumer] = isAllowed;
+                }));
+            },
+
+            getProfileContext: (consumer) => {
+                const { profileSharing, usv, toolStates, agentMemories, customAgents, portfolio, journalEntries } = get();
+                if (profileSharing[consumer] === false) return '';
+                const profile = buildUserProfile({ usv, toolStates, agentMemories, customAgents, portfolio, journalEntries });
+                // A mentor already receives its own facts through its memory.
+                return formatUserProfileForPrompt(profile, isToolConsumer(consumer) ? undefined : consumer);
+            },
             
             initDoshaChat: async () => {
                 set(produce((draft: AppState) => {
@@ -259,6 +667,17 @@ export const useStore = create<AppState>()(
                            }
                         }
                     }));
+
+                    const doshaResult = get().toolStates.doshaResult;
+                    if (isFinished && doshaResult) {
+                        get().recordToolOutcome(scoreDoshaResult(doshaResult));
+                    }
+
+                    if (isFinished) {
+                        // Hand the diagnosis' "Próximo Passo" to the PIC orchestrator.
+                        const nextStepMatch = responseText.match(/Próximo Passo:\**\s*(.+)/i);
+                        get().recordPicSignal('dosha_diagnosis', nextStepMatch?.[1] ?? responseText);
+                    }
                 } catch (error) {
                      const errorMsg = handleApiError(error, "Ocorreu um erro ao processar sua resposta. Tente novamente.", get().addToast);
                      set(produce((draft: AppState) => {
@@ -361,26 +780,295 @@ export const useStore = create<AppState>()(
                 get().addToast(`Sessão agendada para ${new Date(schedule.time).toLocaleString()}`, 'success');
             },
             
-            updateScheduleStatus: (scheduleId, status) => {
+            removeSchedule: (scheduleId) => {
+                set(produce((draft: AppState) => {
+                    draft.schedules = draft.schedules.filter(s => s.id !== scheduleId);
+                }));
+            },
+
+            resolveScheduleOccurrence: (scheduleId, outcome) => {
+                set(produce((draft: AppState) => {
+                    const schedule = draft.schedules.find(s => s.id === scheduleId);
+                    if (schedule && schedule.status === 'scheduled') {
+                        advanceSchedule(schedule, outcome, Date.now());
+                    }
+                }));
+            },
+
+            snoozeSchedule: (scheduleId, minutes) => {
                 set(produce((draft: AppState) => {
                     const schedule = draft.schedules.find(s => s.id === scheduleId);
                     if (schedule) {
-                        schedule.status = status;
+                        schedule.snoozedUntil = Date.now() + minutes * 60 * 1000;
                     }
                 }));
+                get().addToast(`Sessão adiada por ${minutes} minutos.`, 'info');
             },
-            
-            updateUsvDimensions: (updates) => {
+
+            // Marks occurrences that passed unanswered (e.g. while the tab was closed) as missed
+            // and returns the schedule that should ring now, if any.
+            processDueSchedules: () => {
+                const now = Date.now();
+                const session = get().currentSession;
+                const ringingId = session?.type === 'scheduled_session_handler' ? session.schedule.id : null;
+                let missedCount = 0;
                 set(produce((draft: AppState) => {
+                    draft.schedules.forEach(schedule => {
+                        // The call on screen is resolved by the user, not by the clock.
+                        if (schedule.id === ringingId) return;
+                        let stepped = 0;
+                        while (schedule.status === 'scheduled' && now - getEffectiveTime(schedule) > SCHEDULE_GRACE_MS) {
+                            // Log each missed occurrence, but jump straight ahead after a long absence.
+                            advanceSchedule(schedule, 'missed', stepped < MAX_SCHEDULE_HISTORY ? schedule.time : now - SCHEDULE_GRACE_MS);
+                            stepped += 1;
+                            missedCount += 1;
+                        }
+                    });
+                }));
+                const dueSchedule = get().schedules
+                    .filter(s => s.status === 'scheduled' && getEffectiveTime(s) <= now)
+                    .sort((a, b) => getEffectiveTime(a) - getEffectiveTime(b))[0] ?? null;
+                return { dueSchedule, missedCount };
+            },
+
+            addBeliefLedgerEntry: (entry) => {
+                set(produce((draft: AppState) => {
+                    draft.beliefLedger.unshift({ ...entry, id: `belief-${Date.now()}`, reviews: [], createdAt: Date.now() });
+                }));
+            },
+
+            reviewBelief: (entryId, believability) => {
+                set(produce((draft: AppState) => {
+                    draft.beliefLedger.find(e => e.id === entryId)?.reviews.push({ timestamp: Date.now(), believability });
+                }));
+            },
+
+            removeBeliefLedgerEntry: (entryId) => {
+                set(produce((draft: AppState) => {
+                    draft.beliefLedger = draft.beliefLedger.filter(e => e.id !== entryId);
+                }));
+            },
+
+            addJournalEntry: (entry) => {
+                const id = `journal-${Date.now()}`;
+                set(produce((draft: AppState) => {
+                    draft.journalEntries.unshift({ ...entry, id, createdAt: Date.now() });
+                }));
+                return id;
+            },
+
+            updateJournalEntry: (entryId, updates) => {
+                set(produce((draft: AppState) => {
+                    const entry = draft.journalEntries.find(e => e.id === entryId);
+                    if (entry) Object.assign(entry, updates);
+                }));
+            },
+
+            removeJournalEntry: (entryId) => {
+                const entry = get().journalEntries.find(e => e.id === entryId);
+                set(produce((draft: AppState) => {
+                    draft.journalEntries = draft.journalEntries.filter(e => e.id !== entryId);
+                }));
+                if (entry?.audio) {
+                    deleteJournalAudio(entryId).catch(err => console.error('Failed to delete journal audio:', err));
+                }
+            },
+
+            addJournalReview: (review) => {
+                set(produce((draft: AppState) => {
+                    draft.journalReviews.unshift({ ...review, id: `review-${Date.now()}`, createdAt: Date.now() });
+                }));
+            },
+
+            removeJournalReview: (reviewId) => {
+                set(produce((draft: AppState) => {
+                    draft.journalReviews = draft.journalReviews.filter(r => r.id !== reviewId);
+                }));
+            },
+
+            addDreamSymbols: (findings) => {
+                // Symbols already in the dictionary keep the user's name, archetype and meaning.
+                const added = getNewDreamSymbols(get().dreamSymbols, findings);
+                if (added.length === 0) return;
+                set(produce((draft: AppState) => {
+                    draft.dreamSymbols.push(...added);
+                }));
+            },
+
+            updateDreamSymbol: (key, updates) => {
+                set(produce((draft: AppState) => {
+                    const symbol = draft.dreamSymbols.find(s => s.key === key);
+                    if (symbol) Object.assign(symbol, updates);
+                }));
+            },
+
+            removeDreamSymbol: (key) => {
+                set(produce((draft: AppState) => {
+                    draft.dreamSymbols = draft.dreamSymbols.filter(s => s.key !== key);
+                }));
+            },
+
+            importSpendingTransactions: (transactions) => {
+                // Re-importing an overlapping statement keeps the existing transactions and their tags.
+                const existingIds = new Set(get().spendingTransactions.map(t => t.id));
+                const added = transactions.filter(t => !existingIds.has(t.id));
+                set(produce((draft: AppState) => {
+                    draft.spendingTransactions.push(...added);
+                    draft.spendingTransactions.sort((a, b) => b.date - a.date);
+                }));
+                return added.length;
+            },
+
+            tagSpendingTransaction: (transactionId, emotion, intensity) => {
+                set(produce((draft: AppState) => {
+                    const transaction = draft.spendingTransactions.find(t => t.id === transactionId);
+                    if (!transaction) return;
+                    transaction.emotion = emotion ?? undefined;
+                    transaction.intensity = emotion ? intensity : undefined;
+                }));
+            },
+
+            setSpendingCategory: (transactionId, category) => {
+                set(produce((draft: AppState) => {
+                    const transaction = draft.spendingTransactions.find(t => t.id === transactionId);
+                    if (transaction) transaction.category = category;
+                }));
+            },
+
+            clearSpendingTransactions: () => set({ spendingTransactions: [] }),
+
+            addRiskAssessment: (assessment) => {
+                set(produce((draft: AppState) => {
+                    draft.riskAssessments.unshift(assessment);
+                }));
+            },
+
+            removeRiskAssessment: (assessmentId) => {
+                set(produce((draft: AppState) => {
+                    draft.riskAssessments = draft.riskAssessments.filter(a => a.id !== assessmentId);
+                }));
+            },
+
+            addPortfolioTransaction: (transaction, asset) => {
+                set(produce((draft: AppState) => {
+                    const { ticker } = transaction;
+                    draft.portfolio.assets[ticker] = {
+                        ...(draft.portfolio.assets[ticker] ?? { name: ticker, sector: 'outros' }),
+                        ...asset,
+                        ticker,
+                    };
+                    draft.portfolio.transactions.push({ ...transaction, id: `trade-${Date.now()}` });
+                    applyPortfolioHealth(draft);
+                }));
+            },
+
+            importPortfolioTransactions: (transactions, sectors = {}) => {
+                const existingIds = new Set(get().portfolio.transactions.map(t => t.id));
+                const added = transactions.filter(t => !existingIds.has(t.id));
+                set(produce((draft: AppState) => {
+                    added.forEach(({ ticker }) => {
+                        const existing = draft.portfolio.assets[ticker];
+                        if (!existing) {
+                            draft.portfolio.assets[ticker] = { ticker, name: ticker, sector: sectors[ticker] ?? 'outros' };
+                        } else if (sectors[ticker] && existing.sector === 'outros') {
+                            existing.sector = sectors[ticker];
+                        }
+                    });
+                    draft.portfolio.transactions.push(...added);
+                    applyPortfolioHealth(draft);
+                }));
+                return added.length;
+            },
+
+            removePortfolioTransaction: (transactionId) => {
+                set(produce((draft: AppState) => {
+                    draft.portfolio.transactions = draft.portfolio.transactions.filter(t => t.id !== transactionId);
+                    applyPortfolioHealth(draft);
+                }));
+            },
+
+            updatePortfolioAsset: (ticker, updates) => {
+                set(produce((draft: AppState) => {
+                    const asset = draft.portfolio.assets[ticker];
+                    if (!asset) return;
+                    Object.assign(asset, updates);
+                    if (updates.currentPrice !== undefined) {
+                        asset.priceUpdatedAt = Date.now();
+                    }
+                    applyPortfolioHealth(draft);
+                }));
+            },
+
+            setEmergencyFund: (updates) => {
+                set(produce((draft: AppState) => {
+                    Object.assign(draft.portfolio, updates);
+                    applyPortfolioHealth(draft);
+                }));
+            },
+
+            toggleFrontierWatchlist: (conceptId) => {
+                set(produce((draft: AppState) => {
+                    const index = draft.frontierWatchlist.indexOf(conceptId);
+                    if (index === -1) {
+                        draft.frontierWatchlist.push(conceptId);
+                    } else {
+                        draft.frontierWatchlist.splice(index, 1);
+                    }
+                }));
+            },
+
+            updateUsvDimensions: (updates, source = 'wellness_visualizer') => {
+                set(produce((draft: AppState) => {
+                    // The user reports the effective value, so the base absorbs the active tool effects.
+                    const contribution = getImpulseContribution(draft.usvImpulses);
                     if (updates.physical !== undefined) {
-                        draft.usv.physical = Math.max(0, Math.min(100, updates.physical));
+                        draft.usvBase.physical = Math.max(0, Math.min(100, updates.physical)) - contribution.physical;
                     }
                     if (updates.emotional !== undefined) {
-                        draft.usv.emotional = Math.max(0, Math.min(100, updates.emotional));
+                        draft.usvBase.emotional = Math.max(0, Math.min(100, updates.emotional)) - contribution.emotional;
+                    }
+                    draft.usv = computeUsv(draft);
+                    draft.usvHistory.push(createUsvSnapshot(draft.usv, source));
+                    if (draft.usvHistory.length > MAX_USV_HISTORY) {
+                        draft.usvHistory.splice(0, draft.usvHistory.length - MAX_USV_HISTORY);
+                    }
+                }));
+            },
+
+            recordToolOutcome: (outcome) => {
+                set(produce((draft: AppState) => {
+                    const ucsBefore = calculateUcs(draft.usv);
+                    const impulse: UsvImpulse = {
+                        id: `impulse-${Date.now()}`,
+                        timestamp: Date.now(),
+                        source: outcome.source,
+                        reason: outcome.reason,
+                        deltas: outcome.deltas,
+                        ucsBefore,
+                        ucsAfter: ucsBefore,
+                    };
+                    draft.usvImpulses.push(impulse);
+                    if (draft.usvImpulses.length > MAX_USV_IMPULSES) {
+                        draft.usvImpulses.splice(0, draft.usvImpulses.length - MAX_USV_IMPULSES);
+                    }
+                    draft.usv = computeUsv(draft);
+                    draft.usvImpulses[draft.usvImpulses.length - 1].ucsAfter = calculateUcs(draft.usv);
+                    draft.usvHistory.push(createUsvSnapshot(draft.usv, outcome.source));
+                    if (draft.usvHistory.length > MAX_USV_HISTORY) {
+                        draft.usvHistory.splice(0, draft.usvHistory.length - MAX_USV_HISTORY);
                     }
                 }));
             },
 
+            // Re-applies the impulses so their decay is reflected in the current USV.
+            refreshUsv: () => {
+                const { usv } = get();
+                const next = computeUsv(get());
+                if (Object.keys(next).some(key => next[key as keyof UserStateVector] !== usv[key as keyof UserStateVector])) {
+                    set({ usv: next });
+                }
+            },
+
             goBackToAgentRoom: () => {
                 const lastAgentId = get().lastAgentContext;
                 if (lastAgentId) {
@@ -390,21 +1078,85 @@ export const useStore = create<AppState>()(
                     get().endSession();
                 }
             },
+
+            recordPicSignal: (source, text) => {
+                if (!text.trim()) return;
+                const signal: PicSignal = { id: `signal-${Date.now()}`, source, text, timestamp: Date.now() };
+                set(produce((draft: AppState) => {
+                    draft.picSignals = [signal, ...draft.picSignals.filter(s => s.source !== source)].slice(0, MAX_PIC_SIGNALS);
+                }));
+            },
+
+            setPicTrail: (steps) => set({ picTrail: steps }),
+
+            updatePicStepStatus: (stepId, status) => {
+                set(produce((draft: AppState) => {
+                    const step = draft.picTrail.find(s => s.id === stepId);
+                    if (step) {
+                        step.status = status;
+                        if (status === 'in_progress') step.startedAt = Date.now();
+                    }
+                }));
+            },
+
+            movePicStep: (stepId, offset) => {
+                set(produce((draft: AppState) => {
+                    const from = draft.picTrail.findIndex(s => s.id === stepId);
+                    const to = from + offset;
+                    if (from === -1 || to < 0 || to >= draft.picTrail.length) return;
+                    const [step] = draft.picTrail.splice(from, 1);
+                    draft.picTrail.splice(to, 0, step);
+                }));
+            },
+
+            setPicTrailActive: (isActive) => set({ isPicTrailActive: isActive }),
         }),
         {
             name: 'coherence-hub-storage',
-            // Do not persist chat objects
+            // Do not persist chat objects, nor the histories derived from the threads
             partialize: (state) =>
                 Object.fromEntries(
-                    Object.entries(state).filter(([key]) => !['doshaChat', 'routineAlignerChat'].includes(key))
+                    Object.entries(state).filter(([key]) => !['doshaChat', 'routineAlignerChat', 'chatHistories'].includes(key))
                 ),
             onRehydrateStorage: () => (state) => {
                 if (state) {
-                    // Recalculate derived state on rehydration
+                    // States persisted before tool outcomes existed have no separate base.
+                    if (!state.usvBase) {
+                        state.usvBase = { ...state.usv };
+                        state.usvImpulses = [];
+                    }
+                    // Recalculate derived state on rehydration, including the decay of tool outcomes
+                    state.usv = computeUsv(state);
                     const ucs = calculateUcs(state.usv);
                     const recommendation = getRecommendation(state.usv);
                     state.ucs = ucs;
                     state.recommendation = recommendation;
+                    // Histories persisted before threads existed become each agent's first thread, taking along
+                    // the memory summary and the archived turns of that single conversation.
+                    Object.values(AgentId).forEach(agentId => {
+                        const { summary: legacySummary, ...memory } = (state.agentMemories[agentId] ?? createEmptyAgentMemory()) as AgentMemory & { summary?: string };
+                        state.agentMemories = { ...state.agentMemories, [agentId]: memory };
+                        const legacyHistory = state.chatHistories?.[agentId] ?? [];
+                        if (state.chatThreads[agentId]?.length || legacyHistory.length === 0) return;
+                        const thread = { ...createChatThread(agentId, undefined, MIGRATED_THREAD_TITLE, legacyHistory), summary: legacySummary || undefined };
+                        state.chatThreads = { ...state.chatThreads, [agentId]: [thread] };
+                        state.activeThreadIds = { ...state.activeThreadIds, [agentId]: thread.id };
+                        moveArchivedMessages(agentId, thread.id).catch(error => console.error(`Error migrating the archived turns of agent ${agentId}:`, error));
+                    });
+                    state.chatHistories = getActiveMessages(state.chatThreads, state.activeThreadIds);
+                    // The journal used to keep a single entry in the tool state; it becomes the first dated entry.
+                    const legacyJournal = state.toolStates.therapeuticJournal as { draft?: string; entry?: string; feedback?: JournalFeedback | null } | undefined;
+                    if (legacyJournal && legacyJournal.draft === undefined) {
+                        if (legacyJournal.entry?.trim() && legacyJournal.feedback && !state.journalEntries.length) {
+                            const now = Date.now();
+                            state.journalEntries = [{ id: `journal-${now}`, date: now, createdAt: now, type: 'reflexao', text: legacyJournal.entry, mood: 3, tags: [], feedback: legacyJournal.feedback }];
+                        }
+                        state.toolStates = { ...state.toolStates, therapeuticJournal: { draft: legacyJournal.feedback ? '' : legacyJournal.entry ?? '' } };
+                    }
+                    // Seed the history so trends always have a starting point.
+                    if (!state.usvHistory?.length) {
+                        state.usvHistory = [createUsvSnapshot(state.usv, 'baseline')];
+                    }
                 }
             },
         }
@@ -419,5 +1171,8 @@ useStore.subscribe(
             const newRecommendation = getRecommendation(state.usv);
             useStore.setState({ ucs: newUcs, recommendation: newRecommendation });
         }
+        if (state.chatThreads !== prevState.chatThreads || state.activeThreadIds !== prevState.activeThreadIds) {
+            useStore.setState({ chatHistories: getActiveMessages(state.chatThreads, state.activeThreadIds) });
+        }
     }
 );
\ No newline at end of file
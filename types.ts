@@ -11,6 +11,16 @@ export enum AgentId {
   INVESTMENTS = 'investments',
 }
 
+/**
+ * Identifies a mentor created by the user.
+ */
+export type CustomAgentId = `custom-${string}`;
+
+/**
+ * Identifies any mentor, built-in or created by the user.
+ */
+export type MentorId = AgentId | CustomAgentId;
+
 /**
  * Represents the IDs for the available tools.
  */
@@ -28,6 +38,7 @@ export type ToolId =
   | 'belief_resignifier'
   | 'emotional_spending_map'
   | 'risk_calculator'
+  | 'portfolio_tracker'
   | 'archetype_journey'
   | 'verbal_frequency_analysis'
   | 'live_conversation'
@@ -38,7 +49,7 @@ export type ToolId =
  * Represents the structure of an AI agent's persona.
  */
 export interface Agent {
-  id: AgentId;
+  id: MentorId;
   name: string;
   description: string;
   persona?: string;
@@ -48,6 +59,26 @@ export interface Agent {
   initialMessage?: string;
 }
 
+/**
+ * The icons a custom mentor can be given. Stored by name, since components cannot be persisted.
+ */
+export type CustomAgentIconName = 'sparkles' | 'sun' | 'moon' | 'leaf' | 'flame' | 'compass' | 'feather' | 'mountain' | 'heart' | 'star';
+
+/**
+ * The persisted definition of a mentor created by the user.
+ */
+export interface CustomAgentDefinition {
+  id: CustomAgentId;
+  name: string;
+  description: string;
+  persona: string;
+  themeColor: string;
+  iconName: CustomAgentIconName;
+  initialMessage: string;
+  tools: ToolId[];
+  createdAt: number;
+}
+
 /**
  * Defines the user's state across different life dimensions.
  */
@@ -58,6 +89,34 @@ export interface UserStateVector {
   financial: number;
 }
 
+/**
+ * What caused a change of the User State Vector.
+ */
+export type UsvChangeSource = ToolId | 'baseline';
+
+/**
+ * A timestamped record of the User State Vector and its derived coherence (UCS).
+ */
+export interface UsvSnapshot {
+  timestamp: number;
+  usv: UserStateVector;
+  ucs: number;
+  source: UsvChangeSource;
+}
+
+/**
+ * A weighted change of the USV caused by a tool outcome. Its effect decays over time.
+ */
+export interface UsvImpulse {
+  id: string;
+  timestamp: number;
+  source: ToolId;
+  reason: string;
+  deltas: Partial<UserStateVector>;
+  ucsBefore: number;
+  ucsAfter: number;
+}
+
 /**
  * Represents a single message in a chat conversation.
  */
@@ -66,6 +125,54 @@ export interface Message {
   sender: 'user' | 'agent';
   text: string;
   timestamp: number;
+  isInterrupted?: boolean; // The reply was stopped or failed before it was complete
+  toolProposal?: ToolProposal; // A tool the agent offered to open, waiting for the user's answer
+}
+
+/**
+ * A tool an agent proposed through function calling. It only opens once the user accepts it.
+ */
+export interface ToolProposal {
+  toolId: ToolId;
+  reason: string;
+  intention?: string; // Pre-fills the tool, for those that take an intention or theme
+  status: 'pending' | 'accepted' | 'declined';
+}
+
+/**
+ * A named conversation with a mentor. Each agent can have several, one of them active.
+ */
+export interface ChatThread {
+  id: string;
+  agentId: MentorId;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+  isPinned: boolean;
+  isArchived: boolean;
+  summary?: string; // The running summary of the thread's archived turns, which the model reads instead of them
+}
+
+export type UserFactCategory = 'goal' | 'fear' | 'health' | 'dosha' | 'finance' | 'relationship' | 'other';
+
+/**
+ * A durable fact about the user, learned from a conversation with a mentor.
+ */
+export interface UserFact {
+  category: UserFactCategory;
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * A mentor's long-term memory: the facts extracted from the turns rolled out of its threads.
+ * The summary of those turns belongs to each thread, so conversations do not mix.
+ */
+export interface AgentMemory {
+  facts: UserFact[];
+  summarizedMessages: number; // How many messages have been rolled into thread summaries so far
+  updatedAt: number | null;
 }
 
 /**
@@ -91,11 +198,11 @@ export type View = 'dashboard' | 'agents' | 'tools';
 
 // A discriminated union to handle different full-screen "sessions" the user can enter.
 export type Session =
-  | { type: 'agent'; id: AgentId }
-  | { type: 'meditation' }
+  | { type: 'agent'; id: MentorId }
+  | { type: 'meditation', intention?: string }
   | { type: 'content_analyzer' }
-  | { type: 'guided_prayer' }
-  | { type: 'prayer_pills' }
+  | { type: 'guided_prayer', intention?: string }
+  | { type: 'prayer_pills', intention?: string }
   | { type: 'dissonance_analyzer' }
   | { type: 'therapeutic_journal' }
   | { type: 'quantum_simulator' }
@@ -105,13 +212,16 @@ export type Session =
   | { type: 'belief_resignifier' }
   | { type: 'emotional_spending_map' }
   | { type: 'risk_calculator' }
+  | { type: 'portfolio_tracker' }
   | { type: 'archetype_journey' }
   | { type: 'verbal_frequency_analysis' }
   | { type: 'live_conversation' }
   | { type: 'routine_aligner' }
   | { type: 'scheduled_session' }
   | { type: 'scheduled_session_handler', schedule: Schedule }
-  | { type: 'guided_meditation_voice', schedule: Schedule };
+  | { type: 'guided_meditation_voice', schedule: Schedule, checkIn?: string }
+  | { type: 'guided_prayer_voice', schedule: Schedule, checkIn?: string }
+  | { type: 'prayer_pills_voice', schedule: Schedule, checkIn?: string };
 
 
 /**
@@ -123,6 +233,173 @@ export interface DissonanceAnalysisResult {
     insight: string;
 }
 
+/**
+ * The Metamodel category a limiting belief falls into.
+ */
+export type MetamodelCategory = 'Omissão' | 'Generalização' | 'Distorção';
+
+/**
+ * Represents the structured result from the Belief Resignifier AI.
+ */
+export interface BeliefAnalysisResult {
+    crenca: string; // The limiting belief, restated in the first person
+    categoria: MetamodelCategory;
+    padrao: string;
+    ressignificacoes: { afirmacao: string; perguntas: string[] }[]; // Each reframe with questions that look for evidence
+}
+
+/**
+ * A belief worked in the Belief Resignifier, with how believable it felt over time (0 to 100).
+ */
+export interface BeliefLedgerEntry {
+    id: string;
+    analysis: BeliefAnalysisResult;
+    chosenReframe: string;
+    believabilityBefore: number;
+    believabilityAfter: number;
+    reviews: { timestamp: number; believability: number }[]; // Later check-ins on the same belief
+    createdAt: number;
+}
+
+/**
+ * The emotion the user felt when making a purchase, as tagged in the Emotional Spending Map.
+ */
+export type SpendingEmotion = 'ansiedade' | 'tristeza' | 'tedio' | 'raiva' | 'culpa' | 'euforia' | 'recompensa' | 'neutro';
+
+/**
+ * A transaction imported from a bank statement into the Emotional Spending Map.
+ * Amounts are in BRL; expenses are negative.
+ */
+export interface SpendingTransaction {
+    id: string; // The bank's FITID when the statement has one, so re-importing does not duplicate
+    date: number;
+    description: string;
+    amount: number;
+    category: string;
+    emotion?: SpendingEmotion;
+    intensity?: number; // 1 to 5
+}
+
+/**
+ * The asset classes the Risk Calculator has bundled return assumptions for.
+ */
+export type RiskAssetClass = 'renda_fixa' | 'acoes_br' | 'acoes_globais' | 'imobiliario' | 'cripto';
+
+/**
+ * The outcome of the Risk Calculator's Monte Carlo simulation. Money values are in BRL.
+ */
+export interface RiskSimulationResult {
+    paths: number;
+    var95: number; // Loss not exceeded in 95% of the paths, at the end of the horizon
+    cvar95: number; // Average loss of the worst 5% of the paths
+    probabilityOfLoss: number; // 0 to 1
+    medianDrawdown: number; // Largest peak-to-trough fall along a path, 0 to 1
+    worstDrawdown95: number;
+    finalValues: { p5: number; p50: number; p95: number };
+    monthlyBands: { p5: number; p50: number; p95: number }[]; // One per month, for the fan chart
+}
+
+/**
+ * Represents the structured qualitative analysis from the Risk Calculator AI.
+ */
+export interface RiskQualitativeAnalysis {
+    resumo: string;
+    riscos: { fator: string; nivel: 'Baixo' | 'Médio' | 'Alto'; explicacao: string }[];
+    mitigacoes: string[];
+}
+
+/**
+ * A scenario evaluated in the Risk Calculator, kept so scenarios can be compared.
+ */
+export interface RiskAssessment {
+    id: string;
+    scenario: string;
+    positionSize: number;
+    horizonMonths: number;
+    assetClass: RiskAssetClass;
+    returnSource: 'bundled' | 'custom';
+    simulation: RiskSimulationResult;
+    qualitative: RiskQualitativeAnalysis | null; // Missing when the AI analysis failed
+    createdAt: number;
+}
+
+/**
+ * The sectors the Analista follows. Anything else is grouped under 'outros'.
+ */
+export type PortfolioSector = 'cripto' | 'biotech' | 'ia' | 'outros';
+
+export interface PortfolioAsset {
+    ticker: string;
+    name: string;
+    sector: PortfolioSector;
+    currentPrice?: number; // Entered by the user; the average cost stands in until then
+    priceUpdatedAt?: number;
+}
+
+export interface PortfolioTransaction {
+    id: string;
+    ticker: string;
+    type: 'buy' | 'sell';
+    quantity: number;
+    price: number; // Per unit, in BRL
+    date: number;
+}
+
+/**
+ * The user's investments, kept locally. Holdings and cost basis are derived from the transactions.
+ */
+export interface Portfolio {
+    assets: Record<string, PortfolioAsset>; // By ticker
+    transactions: PortfolioTransaction[];
+    emergencyFund: number;
+    monthlyExpenses: number;
+}
+
+/**
+ * How far a frontier technology is from everyday use, from pure speculation to established.
+ */
+export type FrontierMaturity = 'especulativo' | 'pesquisa' | 'prototipo' | 'emergente' | 'consolidado';
+
+/**
+ * An entry of the Phi Frontier Radar knowledge base.
+ */
+export interface FrontierConcept {
+    id: string;
+    title: string;
+    description: string;
+    sector: PortfolioSector;
+    maturity: FrontierMaturity;
+    phiAlignment: number; // 0 to 100: how much it can raise integration and coherence
+    sources: { title: string; url: string }[];
+}
+
+/**
+ * Represents the structured result of expanding a frontier concept with the AI.
+ */
+export interface FrontierExpansion {
+    panorama: string;
+    conexoes: { setor: string; conexao: string }[];
+    sinais: string[];
+    riscos: string[];
+}
+
+/**
+ * The gates of the Quantum Simulator: Hadamard, Pauli-X, phase shift, controlled NOT and measurement.
+ */
+export type QuantumGateType = 'H' | 'X' | 'P' | 'CNOT' | 'M';
+
+export interface QuantumGate {
+    type: QuantumGateType;
+    target: number;
+    control?: number; // CNOT only
+    angle?: number; // Phase only, in radians
+}
+
+export interface QuantumCircuit {
+    qubits: number; // 1 to 4
+    gates: QuantumGate[];
+}
+
 /**
  * Represents the structured feedback from the Therapeutic Journal AI.
  */
@@ -132,6 +409,95 @@ export interface JournalFeedback {
   acao: string;
 }
 
+export type JournalEntryType = 'reflexao' | 'sonho';
+
+/**
+ * Voice cues measured locally from a spoken journal entry.
+ */
+export interface ProsodyFeatures {
+    durationSec: number;
+    wordsPerMinute: number | null; // null without a transcript
+    pauseRatio: number; // Share of the recording spent in silence, 0 to 1
+    longPauses: number; // Silences longer than 1.5 seconds
+    energyVariation: number; // Coefficient of variation of the loudness while speaking
+    pitchMeanHz: number | null; // null when no voiced frame was found
+    pitchVariationSemitones: number | null;
+}
+
+export type DreamLucidity = 'nenhuma' | 'parcial' | 'plena';
+
+/**
+ * The structured capture of a dream entry.
+ */
+export interface DreamDetails {
+    setting: string;
+    characters: string[];
+    emotions: string[];
+    lucidity: DreamLucidity;
+}
+
+/**
+ * A symbol the mentor found in a dream, linked to one of the archetypes of the Archetype Journey.
+ */
+export interface DreamSymbolFinding {
+    simbolo: string;
+    arquetipo: string;
+    interpretacao: string;
+}
+
+export interface DreamAnalysisResult extends JournalFeedback {
+    simbolos: DreamSymbolFinding[];
+}
+
+/**
+ * An entry of the user's personal dream symbol dictionary.
+ */
+export interface DreamSymbol {
+    key: string; // The normalized name, which links the symbol to the dream findings
+    name: string;
+    archetype: string;
+    meaning: string; // The user's own meaning; empty until they write one
+    suggestedMeaning: string; // The mentor's reading when the symbol first appeared
+    createdAt: number;
+}
+
+/**
+ * A dated entry of the Therapeutic Journal, with the mentor's feedback once it has been analyzed.
+ */
+export interface JournalEntry {
+    id: string;
+    date: number; // The day the entry is about, which may differ from when it was written
+    createdAt: number;
+    type: JournalEntryType;
+    text: string;
+    mood: number; // 1 (very low) to 5 (very good)
+    tags: string[];
+    feedback: JournalFeedback | null;
+    // Present for spoken entries. The recording itself lives in IndexedDB under the entry id.
+    audio?: { mimeType: string; durationSec: number; prosody: ProsodyFeatures | null };
+    dream?: DreamDetails;
+    dreamSymbols?: DreamSymbolFinding[];
+}
+
+/**
+ * Represents the structured result of the longitudinal journal review.
+ */
+export interface JournalReviewResult {
+    sintese: string;
+    temas: { tema: string; tendencia: 'Crescente' | 'Estável' | 'Decrescente' | 'Resolvido'; evidencia: string }[];
+    progresso: string;
+    proximoPasso: string;
+}
+
+export interface JournalReview {
+    id: string;
+    from: number;
+    to: number;
+    entryCount: number;
+    result: JournalReviewResult;
+    createdAt: number;
+}
+
 /**
  * Represents the structured result from the Archetype Journey AI.
  */
@@ -165,18 +531,72 @@ export interface ToastMessage {
  * Defines the structure for storing the state of various tools.
  */
 export type ToolStates = {
-    therapeuticJournal?: { entry: string; feedback: JournalFeedback | null; error: string | null };
+    therapeuticJournal?: { draft: string };
     doshaDiagnosis?: { messages: Message[]; isFinished: boolean; error: string | null; };
     routineAligner?: { messages: Message[]; isFinished: boolean; error: string | null; };
     doshaResult?: 'Vata' | 'Pitta' | 'Kapha' | null;
+    archetypeResult?: ArchetypeAnalysisResult | null;
+    dissonanceResult?: DissonanceAnalysisResult | null;
+    verbalFrequency?: { lastScoredMessageId: string }; // The last message of the conversation whose analysis moved the USV
 };
 
 /**
- * Represents a single scheduled session.
+ * How a scheduled session repeats. A schedule without recurrence happens once.
+ */
+export type ScheduleRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'rrule'; rule: string }; // e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR"
+
+/**
+ * The outcome of one past occurrence of a schedule.
+ */
+export interface ScheduleOccurrence {
+  time: number;
+  status: 'completed' | 'missed';
+}
+
+/**
+ * The prebuilt voices available for speech synthesis and live calls.
+ */
+export type TtsVoice = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Zephyr';
+
+/**
+ * Represents a single scheduled session, or a series of them when recurring.
  */
 export interface Schedule {
   id: string;
   activity: 'meditation' | 'guided_prayer' | 'prayer_pills';
-  time: number; // as timestamp
+  time: number; // as timestamp; for recurring schedules, the next occurrence
   status: 'scheduled' | 'completed' | 'missed';
-}
\ No newline at end of file
+  recurrence?: ScheduleRecurrence;
+  snoozedUntil?: number;
+  history?: ScheduleOccurrence[];
+  intention?: string; // What the user wants to work on; shapes the generated script
+  durationMinutes?: number;
+  voice?: TtsVoice; // Used by the mentor call and the narration that follows
+  agentId?: MentorId; // The mentor whose conversation gives context to the session
+}
+
+/**
+ * A routing hint emitted by a tool, e.g. the recommended PAC of the Verbal
+ * Frequency Analysis or the "Próximo Passo" of the Dosha diagnosis.
+ */
+export interface PicSignal {
+  id: string;
+  source: ToolId;
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * A single step of the trilha proposed by the PIC orchestrator.
+ */
+export interface PicTrailStep {
+  id: string;
+  session: Session;
+  reason: string;
+  source: ToolId | 'usv';
+  status: 'pending' | 'in_progress' | 'done' | 'skipped';
+  startedAt?: number; // When the step was last opened
+}
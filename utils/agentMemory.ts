@@ -0,0 +1,44 @@
+// utils/agentMemory.ts
+import { AgentMemory, Message, UserFact, UserFactCategory } from '../types.ts';
+
+// Once a thread grows past this many messages, its older part is rolled into the thread summary.
+export const MEMORY_TRIGGER_MESSAGES = 30;
+// How many of the most recent messages stay verbatim in the thread after a roll-up.
+export const RECENT_MESSAGES_KEPT = 12;
+const MAX_USER_FACTS = 30;
+
+export const FACT_CATEGORY_LABELS: Record<UserFactCategory, string> = {
+    goal: 'Objetivo',
+    fear: 'Medo',
+    health: 'Saúde',
+    dosha: 'Dosha',
+    finance: 'Finanças',
+    relationship: 'Relacionamentos',
+    other: 'Outro',
+};
+
+export const createEmptyAgentMemory = (): AgentMemory => ({
+    facts: [],
+    summarizedMessages: 0,
+    updatedAt: null,
+});
+
+/**
+ * The oldest messages of a history that should be rolled into the summary, if any.
+ */
+export const getMessagesToSummarize = (history: Message[]): Message[] =>
+    history.length > MEMORY_TRIGGER_MESSAGES ? history.slice(0, history.length - RECENT_MESSAGES_KEPT) : [];
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[.!]+$/, '');
+
+/**
+ * Adds newly extracted facts to a profile, newest first. Repeated facts are refreshed instead of
+ * duplicated, and a new Dosha replaces the previous one, since the user has only one.
+ */
+export const mergeUserFacts = (existing: UserFact[], incoming: Omit<UserFact, 'timestamp'>[], now: number = Date.now()): UserFact[] => {
+    const incomingFacts = incoming.map(fact => ({ ...fact, text: fact.text.trim(), timestamp: now }));
+    const incomingTexts = new Set(incomingFacts.map(fact => normalize(fact.text)));
+    const hasNewDosha = incomingFacts.some(fact => fact.category === 'dosha');
+    const kept = existing.filter(fact => !incomingTexts.has(normalize(fact.text)) && !(hasNewDosha && fact.category === 'dosha'));
+    return [...incomingFacts, ...kept].slice(0, MAX_USER_FACTS);
+};
@@ -0,0 +1,52 @@
+// utils/audioStore.ts
+
+// Recordings are too large for the localStorage the store persists to, so they live in IndexedDB.
+const DB_NAME = 'coherence-hub-audio';
+const DB_VERSION = 1;
+const JOURNAL_AUDIO_STORE = 'journal-audio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('O armazenamento de áudio não é suportado neste navegador.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(JOURNAL_AUDIO_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (e.g. private browsing) may succeed later, so it is not cached.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(JOURNAL_AUDIO_STORE, mode).objectStore(JOURNAL_AUDIO_STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Stores the recording of a journal entry under the entry id.
+ */
+export const saveJournalAudio = (entryId: string, audio: Blob): Promise<void> =>
+    runRequest<void>('readwrite', store => store.put(audio, entryId)).then(() => undefined);
+
+/**
+ * @returns The recording, or null if the entry has none on this device.
+ */
+export const getJournalAudio = (entryId: string): Promise<Blob | null> =>
+    runRequest<Blob | undefined>('readonly', store => store.get(entryId)).then(blob => blob ?? null);
+
+export const deleteJournalAudio = (entryId: string): Promise<void> =>
+    runRequest<void>('readwrite', store => store.delete(entryId)).then(() => undefined);
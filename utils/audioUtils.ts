@@ -87,3 +87,252 @@ export function encodeWAV(samples: Uint8Array, sampleRate: number, numChannels:
 
   return new Blob([view], { type: 'audio/wav' });
 }
+
+// --- Procedural soundscapes ---
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+/**
+ * One generator of a procedural soundscape. Gains are relative to the soundscape volume.
+ * - binaural: a different tone in each ear; the brain perceives the difference (`beat`) as a pulse. Needs headphones.
+ * - isochronic: a single tone switched on and off `pulse` times per second. Works on speakers.
+ * - noise: filtered colored noise, a neutral masking bed.
+ * - drone: a sustained tone, e.g. one of the Solfeggio frequencies.
+ */
+export type SoundscapeLayer =
+  | { kind: 'binaural'; carrier: number; beat: number; gain: number }
+  | { kind: 'isochronic'; frequency: number; pulse: number; gain: number }
+  | { kind: 'noise'; color: NoiseColor; gain: number; lowpass?: number }
+  | { kind: 'drone'; frequency: number; gain: number };
+
+export const SOLFEGGIO_FREQUENCIES = {
+  grounding: 174,
+  liberation: 396,
+  change: 417,
+  transformation: 528,
+  connection: 639,
+  intuition: 852,
+} as const;
+
+export type SoundscapePresetId = 'theta_relaxation' | 'vata_grounding' | 'pitta_cooling' | 'kapha_energizing';
+
+export interface SoundscapePreset {
+  id: SoundscapePresetId;
+  name: string;
+  description: string;
+  layers: SoundscapeLayer[];
+}
+
+export const SOUNDSCAPE_PRESETS: Record<SoundscapePresetId, SoundscapePreset> = {
+  theta_relaxation: {
+    id: 'theta_relaxation',
+    name: 'Relaxamento Theta',
+    description: 'Batida binaural de 6 Hz sobre ruído rosa suave.',
+    layers: [
+      { kind: 'noise', color: 'pink', gain: 0.5, lowpass: 2500 },
+      { kind: 'binaural', carrier: 200, beat: 6, gain: 0.35 },
+    ],
+  },
+  vata_grounding: {
+    id: 'vata_grounding',
+    name: 'Aterramento (Vata)',
+    description: 'Ruído marrom grave, drone de 174 Hz e batida delta para acalmar o movimento de Vata.',
+    layers: [
+      { kind: 'noise', color: 'brown', gain: 0.7, lowpass: 800 },
+      { kind: 'drone', frequency: SOLFEGGIO_FREQUENCIES.grounding, gain: 0.25 },
+      { kind: 'binaural', carrier: 136.1, beat: 3, gain: 0.3 },
+    ],
+  },
+  pitta_cooling: {
+    id: 'pitta_cooling',
+    name: 'Resfriamento (Pitta)',
+    description: 'Ruído rosa arejado, drone de 528 Hz e batida alfa para suavizar o calor de Pitta.',
+    layers: [
+      { kind: 'noise', color: 'pink', gain: 0.45, lowpass: 5000 },
+      { kind: 'drone', frequency: SOLFEGGIO_FREQUENCIES.transformation, gain: 0.12 },
+      { kind: 'binaural', carrier: 220, beat: 10, gain: 0.3 },
+    ],
+  },
+  kapha_energizing: {
+    id: 'kapha_energizing',
+    name: 'Energização (Kapha)',
+    description: 'Pulso isocrônico beta, drone de 417 Hz e ruído rosa para despertar a estabilidade de Kapha.',
+    layers: [
+      { kind: 'noise', color: 'pink', gain: 0.35, lowpass: 6000 },
+      { kind: 'drone', frequency: SOLFEGGIO_FREQUENCIES.change, gain: 0.12 },
+      { kind: 'isochronic', frequency: 300, pulse: 14, gain: 0.2 },
+    ],
+  },
+};
+
+export const DOSHA_SOUNDSCAPES: Record<'Vata' | 'Pitta' | 'Kapha', SoundscapePresetId> = {
+  Vata: 'vata_grounding',
+  Pitta: 'pitta_cooling',
+  Kapha: 'kapha_energizing',
+};
+
+/**
+ * Creates a mono buffer of colored noise, meant to be looped.
+ */
+export function createNoiseBuffer(ctx: BaseAudioContext, color: NoiseColor, seconds = 4): AudioBuffer {
+  const buffer = ctx.createBuffer(1, Math.floor(seconds * ctx.sampleRate), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'pink') {
+      // Paul Kellet's economy filter: -3 dB per octave.
+      b0 = 0.99765 * b0 + white * 0.0990460;
+      b1 = 0.96300 * b1 + white * 0.2965164;
+      b2 = 0.57000 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.15;
+    } else if (color === 'brown') {
+      // Leaky integration of white noise: -6 dB per octave.
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    } else {
+      data[i] = white * 0.5;
+    }
+  }
+  // Fade the loop point so the repetition does not click.
+  const fade = Math.min(data.length / 2, Math.floor(ctx.sampleRate * 0.05));
+  for (let i = 0; i < fade; i++) {
+    data[i] *= i / fade;
+    data[data.length - 1 - i] *= i / fade;
+  }
+  return buffer;
+}
+
+function createLayer(ctx: BaseAudioContext, layer: SoundscapeLayer, output: AudioNode): AudioScheduledSourceNode[] {
+  const gain = ctx.createGain();
+  gain.gain.value = layer.gain;
+  gain.connect(output);
+
+  switch (layer.kind) {
+    case 'binaural': {
+      const merger = ctx.createChannelMerger(2);
+      merger.connect(gain);
+      return [layer.carrier, layer.carrier + layer.beat].map((frequency, channel) => {
+        const oscillator = ctx.createOscillator();
+        oscillator.frequency.value = frequency;
+        oscillator.connect(merger, 0, channel);
+        return oscillator;
+      });
+    }
+    case 'isochronic': {
+      const tone = ctx.createOscillator();
+      tone.frequency.value = layer.frequency;
+      const pulseGain = ctx.createGain();
+      pulseGain.gain.value = 0.5;
+      // A square LFO swings the gain between 0 and 1; the lowpass rounds its edges to avoid clicks.
+      const lfo = ctx.createOscillator();
+      lfo.type = 'square';
+      lfo.frequency.value = layer.pulse;
+      const lfoDepth = ctx.createGain();
+      lfoDepth.gain.value = 0.5;
+      const smoothing = ctx.createBiquadFilter();
+      smoothing.type = 'lowpass';
+      smoothing.frequency.value = layer.pulse * 4;
+      lfo.connect(smoothing).connect(lfoDepth).connect(pulseGain.gain);
+      tone.connect(pulseGain).connect(gain);
+      return [tone, lfo];
+    }
+    case 'noise': {
+      const noise = ctx.createBufferSource();
+      noise.buffer = createNoiseBuffer(ctx, layer.color);
+      noise.loop = true;
+      if (layer.lowpass) {
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = layer.lowpass;
+        noise.connect(filter).connect(gain);
+      } else {
+        noise.connect(gain);
+      }
+      return [noise];
+    }
+    case 'drone': {
+      // The fundamental, a slightly detuned copy for movement and a soft octave below for body.
+      return [
+        { frequency: layer.frequency, level: 0.5 },
+        { frequency: layer.frequency + 0.4, level: 0.3 },
+        { frequency: layer.frequency / 2, level: 0.4 },
+      ].map(({ frequency, level }) => {
+        const oscillator = ctx.createOscillator();
+        oscillator.frequency.value = frequency;
+        const partialGain = ctx.createGain();
+        partialGain.gain.value = level;
+        oscillator.connect(partialGain).connect(gain);
+        return oscillator;
+      });
+    }
+  }
+}
+
+/**
+ * A running soundscape. `output` controls its overall volume.
+ */
+export interface Soundscape {
+  output: GainNode;
+  stop: (when?: number) => void;
+}
+
+/**
+ * Starts every layer of a soundscape at `when`. Works with both live and offline contexts.
+ * @param until When given, the layers stop on their own at this time.
+ */
+export function startSoundscape(ctx: BaseAudioContext, layers: SoundscapeLayer[], destination: AudioNode, when = 0, until?: number): Soundscape {
+  const output = ctx.createGain();
+  output.connect(destination);
+  const sources = layers.flatMap(layer => createLayer(ctx, layer, output));
+  sources.forEach(source => {
+    source.start(when);
+    if (until !== undefined) source.stop(until);
+  });
+  return {
+    output,
+    stop: (stopAt = ctx.currentTime) => sources.forEach(source => {
+      try { source.stop(stopAt); } catch (e) { /* already stopped */ }
+    }),
+  };
+}
+
+/**
+ * Plays soundscape presets in a live context, crossfading whenever the preset changes.
+ */
+export interface SoundscapePlayer {
+  play: (presetId: SoundscapePresetId, fadeSeconds?: number) => void;
+  setVolume: (volume: number) => void;
+  stop: (fadeSeconds?: number) => void;
+}
+
+export function createSoundscapePlayer(ctx: AudioContext, destination: AudioNode = ctx.destination): SoundscapePlayer {
+  const master = ctx.createGain();
+  master.connect(destination);
+  let current: Soundscape | null = null;
+
+  const fadeOut = (soundscape: Soundscape, fadeSeconds: number) => {
+    const now = ctx.currentTime;
+    soundscape.output.gain.cancelScheduledValues(now);
+    soundscape.output.gain.setValueAtTime(soundscape.output.gain.value, now);
+    soundscape.output.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+    soundscape.stop(now + fadeSeconds + 0.05);
+  };
+
+  return {
+    play: (presetId, fadeSeconds = 3) => {
+      const now = ctx.currentTime;
+      if (current) fadeOut(current, fadeSeconds);
+      current = startSoundscape(ctx, SOUNDSCAPE_PRESETS[presetId].layers, master, now);
+      current.output.gain.setValueAtTime(0, now);
+      current.output.gain.linearRampToValueAtTime(1, now + fadeSeconds);
+    },
+    setVolume: (volume) => {
+      master.gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), ctx.currentTime, 0.1);
+    },
+    stop: (fadeSeconds = 2) => {
+      if (current) fadeOut(current, fadeSeconds);
+      current = null;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+// utils/chatArchive.ts
+import { Message } from '../types.ts';
+
+// Turns rolled into a thread summary leave the persisted store, which lives in the few megabytes of
+// localStorage, and are kept here instead, so the transcript stays complete without growing it.
+const DB_NAME = 'coherence-hub-chats';
+const DB_VERSION = 1;
+const ARCHIVED_MESSAGES_STORE = 'archived-messages';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('O arquivo de conversas não é suportado neste navegador.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(ARCHIVED_MESSAGES_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (e.g. private browsing) may succeed later, so it is not cached.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(ARCHIVED_MESSAGES_STORE, mode).objectStore(ARCHIVED_MESSAGES_STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * @returns The archived turns of a conversation, oldest first; empty if it has none on this device.
+ */
+export const getArchivedMessages = (conversationId: string): Promise<Message[]> =>
+    runRequest<Message[] | undefined>('readonly', store => store.get(conversationId)).then(messages => messages ?? []);
+
+/**
+ * Adds turns to the end of a conversation's archive.
+ */
+export const archiveMessages = async (conversationId: string, messages: Message[]): Promise<void> => {
+    const archived = await getArchivedMessages(conversationId);
+    const archivedIds = new Set(archived.map(m => m.id));
+    await runRequest<void>('readwrite', store => store.put([...archived, ...messages.filter(m => !archivedIds.has(m.id))], conversationId));
+};
+
+export const deleteArchivedMessages = (conversationId: string): Promise<void> =>
+    runRequest<void>('readwrite', store => store.delete(conversationId)).then(() => undefined);
+
+/**
+ * Moves a conversation's archive under a new id, as when a history becomes a thread.
+ */
+export const moveArchivedMessages = async (fromId: string, toId: string): Promise<void> => {
+    const messages = await getArchivedMessages(fromId);
+    if (messages.length === 0) return;
+    await archiveMessages(toId, messages);
+    await deleteArchivedMessages(fromId);
+};
+
+/**
+ * @returns Every archived conversation, by id, for a search across all of them.
+ */
+export const getAllArchivedMessages = async (): Promise<Record<string, Message[]>> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const archived: Record<string, Message[]> = {};
+        const request = db.transaction(ARCHIVED_MESSAGES_STORE, 'readonly').objectStore(ARCHIVED_MESSAGES_STORE).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(archived);
+                return;
+            }
+            archived[String(cursor.key)] = cursor.value;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+};
@@ -0,0 +1,104 @@
+// utils/chatThreads.ts
+import { ChatThread, MentorId, Message } from '../types.ts';
+
+export const DEFAULT_THREAD_TITLE = 'Nova conversa';
+// The title of the thread that holds a history persisted before threads existed.
+export const MIGRATED_THREAD_TITLE = 'Conversa principal';
+const MAX_TITLE_LENGTH = 40;
+const SNIPPET_RADIUS = 50;
+
+/**
+ * A chat message search hit, with the excerpt around the first match.
+ */
+export interface ThreadSearchResult {
+    agentId: MentorId;
+    threadId: string;
+    threadTitle: string;
+    message: Message;
+    snippet: string;
+}
+
+/**
+ * Creates a thread that opens with the agent's greeting, unless it starts from existing messages.
+ */
+export const createChatThread = (agentId: MentorId, initialMessage?: string, title: string = DEFAULT_THREAD_TITLE, messages?: Message[]): ChatThread => {
+    const now = Date.now();
+    return {
+        id: `thread-${agentId}-${now}`,
+        agentId,
+        title,
+        messages: messages ?? (initialMessage ? [{ id: `agent-initial-${agentId}`, sender: 'agent', text: initialMessage, timestamp: now }] : []),
+        createdAt: messages?.[0]?.timestamp ?? now,
+        updatedAt: messages?.[messages.length - 1]?.timestamp ?? now,
+        isPinned: false,
+        isArchived: false,
+    };
+};
+
+/**
+ * Names a thread after the first message the user sent in it.
+ */
+export const deriveThreadTitle = (text: string): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine || DEFAULT_THREAD_TITLE;
+};
+
+/**
+ * Pinned threads first, then the most recently active.
+ */
+export const sortThreads = (threads: ChatThread[]): ChatThread[] =>
+    [...threads].sort((a, b) => Number(b.isPinned) - Number(a.isPinned) || b.updatedAt - a.updatedAt);
+
+/**
+ * The thread the user should land on when the active one is gone: the most recent one not archived.
+ */
+export const pickFallbackThread = (threads: ChatThread[]): ChatThread | null =>
+    sortThreads(threads.filter(t => !t.isArchived))[0] ?? null;
+
+/**
+ * The messages of each agent's active thread, which is what mentors and tools read as "the conversation".
+ */
+export const getActiveMessages = (chatThreads: Record<MentorId, ChatThread[]>, activeThreadIds: Record<MentorId, string | null>): Record<MentorId, Message[]> =>
+    Object.fromEntries(
+        Object.entries(chatThreads).map(([agentId, threads]) => [
+            agentId,
+            threads.find(t => t.id === activeThreadIds[agentId as MentorId])?.messages ?? [],
+        ])
+    ) as Record<MentorId, Message[]>;
+
+// Case- and accent-insensitive, so "oracao" finds "oração". Accented letters fold to a single letter,
+// so match positions in the folded text usually line up with the original one.
+const normalize = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const buildSnippet = (text: string, index: number, length: number): string => {
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Full-text search over the messages of every agent's threads, archived ones included, newest first.
+ * @param archivedMessages The turns rolled out of each thread, by thread id, so older turns are found too.
+ */
+export const searchChatThreads = (chatThreads: Record<MentorId, ChatThread[]>, query: string, limit: number = 50, archivedMessages: Record<string, Message[]> = {}): ThreadSearchResult[] => {
+    const needle = normalize(query.trim());
+    if (!needle) return [];
+    const results: ThreadSearchResult[] = [];
+    Object.values(chatThreads).flat().forEach(thread => {
+        [...(archivedMessages[thread.id] ?? []), ...thread.messages].forEach(message => {
+            const haystack = normalize(message.text);
+            const index = haystack.indexOf(needle);
+            if (index === -1) return;
+            // Fall back to the folded text when the positions would not line up.
+            const text = haystack.length === message.text.length ? message.text : haystack;
+            results.push({
+                agentId: thread.agentId,
+                threadId: thread.id,
+                threadTitle: thread.title,
+                message,
+                snippet: buildSnippet(text, index, needle.length),
+            });
+        });
+    });
+    return results.sort((a, b) => b.message.timestamp - a.message.timestamp).slice(0, limit);
+};
@@ -0,0 +1,7 @@
+// utils/currency.ts
+
+/**
+ * Formats a value in reais, e.g. "R$ 1.234,56".
+ */
+export const formatBrl = (value: number): string =>
+    value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
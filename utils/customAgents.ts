@@ -0,0 +1,65 @@
+// utils/customAgents.ts
+import React from 'react';
+import { Agent, AgentId, CustomAgentDefinition, CustomAgentIconName, CustomAgentId, MentorId } from '../types.ts';
+import { AGENTS } from '../constants.tsx';
+import { Sparkles, Sun, Moon, Leaf, Flame, Compass, Feather, Mountain, Heart, Star } from 'lucide-react';
+
+export const CUSTOM_AGENT_ICONS: Record<CustomAgentIconName, React.ElementType> = {
+    sparkles: Sparkles,
+    sun: Sun,
+    moon: Moon,
+    leaf: Leaf,
+    flame: Flame,
+    compass: Compass,
+    feather: Feather,
+    mountain: Mountain,
+    heart: Heart,
+    star: Star,
+};
+
+export const CUSTOM_AGENT_COLORS = [
+    'text-yellow-300',
+    'text-orange-400',
+    'text-red-400',
+    'text-pink-400',
+    'text-purple-400',
+    'text-indigo-400',
+    'text-blue-400',
+    'text-cyan-400',
+    'text-teal-400',
+    'text-green-400',
+];
+
+export const isCustomAgentId = (id: MentorId): id is CustomAgentId => id.startsWith('custom-');
+
+export const createCustomAgentId = (): CustomAgentId => `custom-${Date.now()}`;
+
+export const toAgent = (definition: CustomAgentDefinition): Agent => ({
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    persona: definition.persona,
+    themeColor: definition.themeColor,
+    icon: CUSTOM_AGENT_ICONS[definition.iconName] ?? Sparkles,
+    initialMessage: definition.initialMessage || undefined,
+    tools: definition.tools,
+});
+
+/**
+ * Looks a mentor up among the built-in ones and those created by the user.
+ */
+export const resolveAgent = (id: MentorId, customAgents: Record<CustomAgentId, CustomAgentDefinition>): Agent | undefined => {
+    if (isCustomAgentId(id)) {
+        const definition = customAgents[id];
+        return definition ? toAgent(definition) : undefined;
+    }
+    return AGENTS[id as AgentId];
+};
+
+/**
+ * All mentors, the built-in ones first and then those created by the user, oldest first.
+ */
+export const listAgents = (customAgents: Record<CustomAgentId, CustomAgentDefinition>): Agent[] => [
+    ...Object.values(AGENTS),
+    ...Object.values(customAgents).sort((a, b) => a.createdAt - b.createdAt).map(toAgent),
+];
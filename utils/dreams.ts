@@ -0,0 +1,102 @@
+// utils/dreams.ts
+import { DreamLucidity, DreamSymbol, DreamSymbolFinding, JournalEntry } from '../types.ts';
+import { normalizeText } from './journal.ts';
+
+export const DREAM_LUCIDITY_LEVELS: Record<DreamLucidity, string> = {
+    nenhuma: 'Sem lucidez',
+    parcial: 'Parcial',
+    plena: 'Lúcido',
+};
+
+/**
+ * The dictionary key of a symbol, so "Água" and "agua " are the same symbol.
+ */
+export const toSymbolKey = (name: string): string => normalizeText(name).trim().replace(/\s+/g, ' ');
+
+/**
+ * Splits "mãe, um lobo, Pedro" into unique, trimmed items.
+ */
+export const parseList = (text: string): string[] =>
+    [...new Set(text.split(/[,;]/).map(item => item.trim()).filter(Boolean))];
+
+/**
+ * The dictionary entries for the findings of a dream that are not in the dictionary yet.
+ */
+export const getNewDreamSymbols = (dictionary: DreamSymbol[], findings: DreamSymbolFinding[], now = Date.now()): DreamSymbol[] => {
+    const known = new Set(dictionary.map(symbol => symbol.key));
+    return findings.reduce<DreamSymbol[]>((added, finding) => {
+        const key = toSymbolKey(finding.simbolo);
+        if (key && !known.has(key)) {
+            known.add(key);
+            added.push({ key, name: finding.simbolo.trim(), archetype: finding.arquetipo, meaning: '', suggestedMeaning: finding.interpretacao, createdAt: now });
+        }
+        return added;
+    }, []);
+};
+
+export interface SymbolOccurrences {
+    count: number; // Dreams in which the symbol appeared
+    lastSeen: number;
+    entryIds: string[];
+}
+
+export const getSymbolOccurrences = (entries: JournalEntry[]): Record<string, SymbolOccurrences> => {
+    const occurrences: Record<string, SymbolOccurrences> = {};
+    entries.forEach(entry => {
+        const keys = new Set((entry.dreamSymbols ?? []).map(finding => toSymbolKey(finding.simbolo)));
+        keys.forEach(key => {
+            const current = occurrences[key] ?? { count: 0, lastSeen: 0, entryIds: [] };
+            occurrences[key] = {
+                count: current.count + 1,
+                lastSeen: Math.max(current.lastSeen, entry.date),
+                entryIds: [...current.entryIds, entry.id],
+            };
+        });
+    });
+    return occurrences;
+};
+
+export interface SymbolTimeline {
+    months: { key: string; start: number }[];
+    rows: { key: string; counts: number[]; total: number }[];
+}
+
+const toMonthKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Counts, month by month, the dreams in which each recurring symbol appeared.
+ * @param monthCount How many months to show, ending with the current one.
+ * @param maxSymbols Only the symbols seen in the most dreams of the window are kept.
+ */
+export const buildSymbolTimeline = (entries: JournalEntry[], monthCount: number, maxSymbols: number, now = Date.now()): SymbolTimeline => {
+    const today = new Date(now);
+    const months = Array.from({ length: monthCount }, (_, i) => {
+        const start = new Date(today.getFullYear(), today.getMonth() - (monthCount - 1 - i), 1).getTime();
+        return { key: toMonthKey(start), start };
+    });
+    const monthIndex = new Map(months.map((month, i) => [month.key, i]));
+    const counts: Record<string, number[]> = {};
+
+    entries.forEach(entry => {
+        const index = monthIndex.get(toMonthKey(entry.date));
+        if (index === undefined) return;
+        new Set((entry.dreamSymbols ?? []).map(finding => toSymbolKey(finding.simbolo))).forEach(key => {
+            counts[key] = counts[key] ?? new Array(monthCount).fill(0);
+            counts[key][index]++;
+        });
+    });
+
+    const rows = Object.entries(counts)
+        .map(([key, monthly]) => ({ key, counts: monthly, total: monthly.reduce((sum, n) => sum + n, 0) }))
+        // A symbol seen in a single dream is not recurring yet.
+        .filter(row => row.total > 1)
+        .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+        .slice(0, maxSymbols);
+    return { months, rows };
+};
+
+export const formatMonthLabel = (start: number): string =>
+    new Date(start).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' });
@@ -1,6 +1,7 @@
 
 
 // utils/errorUtils.ts
+import { AiFeatureUnavailableError } from '../services/aiProvider.ts';
 
 /**
  * Parses Gemini API errors and returns a user-friendly message.
@@ -11,6 +12,10 @@
 export const getFriendlyErrorMessage = (error: any, defaultMessage: string): string => {
     console.error("Handling Gemini Error:", error);
 
+    if (error instanceof AiFeatureUnavailableError) {
+        return error.message;
+    }
+
     let errorMessage = '';
 
     // Extract message from various error formats
@@ -0,0 +1,205 @@
+// utils/frontierConcepts.ts
+import { FrontierConcept, FrontierMaturity } from '../types.ts';
+
+export const FRONTIER_MATURITY_LEVELS: { id: FrontierMaturity; label: string }[] = [
+    { id: 'especulativo', label: 'Especulativo' },
+    { id: 'pesquisa', label: 'Pesquisa' },
+    { id: 'prototipo', label: 'Protótipo' },
+    { id: 'emergente', label: 'Emergente' },
+    { id: 'consolidado', label: 'Consolidado' },
+];
+
+export const getMaturityIndex = (maturity: FrontierMaturity): number =>
+    FRONTIER_MATURITY_LEVELS.findIndex(level => level.id === maturity);
+
+/**
+ * The curated knowledge base of the radar. Maturity reflects the public state of each field;
+ * the Φ alignment is the Analista's editorial reading of how much it can raise integration and coherence.
+ */
+export const FRONTIER_CONCEPTS: FrontierConcept[] = [
+    {
+        id: 'geometric-neural-networks',
+        title: 'Redes Neurais Geométricas (GNNs)',
+        description: 'Redes que aprendem sobre grafos e simetrias em vez de tabelas, capturando a estrutura das relações. Já descobrem moléculas e materiais ao respeitar a geometria do problema.',
+        sector: 'ia',
+        maturity: 'emergente',
+        phiAlignment: 78,
+        sources: [{ title: 'Graph neural network (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Graph_neural_network' }],
+    },
+    {
+        id: 'large-language-models',
+        title: 'Modelos de Linguagem de Grande Escala',
+        description: 'Modelos treinados em vastos corpora de texto que conversam, raciocinam e escrevem código. Integram conhecimento humano disperso, mas concentram poder em poucos atores.',
+        sector: 'ia',
+        maturity: 'consolidado',
+        phiAlignment: 62,
+        sources: [{ title: 'Large language model (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Large_language_model' }],
+    },
+    {
+        id: 'federated-learning',
+        title: 'Aprendizado Federado',
+        description: 'Modelos treinados nos dispositivos das pessoas, sem centralizar os dados. A inteligência coletiva cresce sem abrir mão da privacidade individual.',
+        sector: 'ia',
+        maturity: 'emergente',
+        phiAlignment: 74,
+        sources: [{ title: 'Federated learning (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Federated_learning' }],
+    },
+    {
+        id: 'neuromorphic-computing',
+        title: 'Computação Neuromórfica',
+        description: 'Chips que imitam neurônios e sinapses, processando por pulsos e gastando uma fração da energia dos processadores atuais.',
+        sector: 'ia',
+        maturity: 'prototipo',
+        phiAlignment: 70,
+        sources: [{ title: 'Neuromorphic engineering (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Neuromorphic_engineering' }],
+    },
+    {
+        id: 'integrated-information-theory',
+        title: 'Teoria da Informação Integrada (Φ)',
+        description: 'Proposta científica que mede a consciência pelo quanto um sistema integra informação (Φ). É a base conceitual do radar e segue debatida na neurociência.',
+        sector: 'outros',
+        maturity: 'pesquisa',
+        phiAlignment: 95,
+        sources: [{ title: 'Integrated information theory (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Integrated_information_theory' }],
+    },
+    {
+        id: 'brain-computer-interface',
+        title: 'Interface Cérebro-Computador',
+        description: 'Implantes e sensores que traduzem a atividade cerebral em comandos. Já devolvem comunicação a pessoas com paralisia; a versão "cérebro-universo" permanece ficção.',
+        sector: 'biotech',
+        maturity: 'prototipo',
+        phiAlignment: 72,
+        sources: [{ title: 'Brain–computer interface (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Brain%E2%80%93computer_interface' }],
+    },
+    {
+        id: 'dna-computing',
+        title: 'Computação Biossintética (DNA)',
+        description: 'Usa DNA e reações bioquímicas para armazenar e processar informação, com densidade muito acima do silício, ainda limitada a experimentos de laboratório.',
+        sector: 'biotech',
+        maturity: 'pesquisa',
+        phiAlignment: 76,
+        sources: [{ title: 'DNA computing (Wikipedia)', url: 'https://en.wikipedia.org/wiki/DNA_computing' }],
+    },
+    {
+        id: 'cerebral-organoids',
+        title: 'Organoides Cerebrais',
+        description: 'Minicérebros cultivados a partir de células-tronco para estudar o desenvolvimento neural e, em estudos iniciais, para computar. Levanta questões éticas sobre consciência.',
+        sector: 'biotech',
+        maturity: 'pesquisa',
+        phiAlignment: 68,
+        sources: [{ title: 'Cerebral organoid (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Cerebral_organoid' }],
+    },
+    {
+        id: 'crispr',
+        title: 'Edição Genética CRISPR',
+        description: 'Tesouras moleculares que editam o DNA com precisão. Já há terapias aprovadas para doenças do sangue; o uso em embriões segue controverso.',
+        sector: 'biotech',
+        maturity: 'emergente',
+        phiAlignment: 58,
+        sources: [{ title: 'CRISPR gene editing (Wikipedia)', url: 'https://en.wikipedia.org/wiki/CRISPR_gene_editing' }],
+    },
+    {
+        id: 'protein-structure-prediction',
+        title: 'Predição de Estruturas de Proteínas por IA',
+        description: 'Modelos como o AlphaFold preveem a forma tridimensional de proteínas a partir da sequência, acelerando a descoberta de fármacos e a compreensão da vida.',
+        sector: 'biotech',
+        maturity: 'consolidado',
+        phiAlignment: 80,
+        sources: [{ title: 'AlphaFold (Wikipedia)', url: 'https://en.wikipedia.org/wiki/AlphaFold' }],
+    },
+    {
+        id: 'senolytics',
+        title: 'Senolíticos',
+        description: 'Compostos que eliminam células senescentes, ligadas ao envelhecimento e à inflamação crônica. Os resultados em humanos ainda são preliminares.',
+        sector: 'biotech',
+        maturity: 'pesquisa',
+        phiAlignment: 55,
+        sources: [{ title: 'Senolytic (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Senolytic' }],
+    },
+    {
+        id: 'zero-knowledge-proofs',
+        title: 'Provas de Conhecimento Zero',
+        description: 'Provam que algo é verdadeiro sem revelar o dado por trás. Permitem confiança entre estranhos com privacidade, e já escalam redes de blockchain.',
+        sector: 'cripto',
+        maturity: 'emergente',
+        phiAlignment: 77,
+        sources: [{ title: 'Zero-knowledge proof (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Zero-knowledge_proof' }],
+    },
+    {
+        id: 'dao',
+        title: 'Organizações Autônomas Descentralizadas (DAOs)',
+        description: 'Coletivos governados por regras em contratos inteligentes e votos dos membros. Experimentam coordenação sem hierarquia central, com falhas de segurança e participação.',
+        sector: 'cripto',
+        maturity: 'emergente',
+        phiAlignment: 66,
+        sources: [{ title: 'Decentralized autonomous organization (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Decentralized_autonomous_organization' }],
+    },
+    {
+        id: 'bitcoin',
+        title: 'Bitcoin e Dinheiro Programável',
+        description: 'Rede monetária aberta, sem emissor central, com oferta fixa. Consolidada como reserva de valor especulativa, ainda volátil e intensiva em energia.',
+        sector: 'cripto',
+        maturity: 'consolidado',
+        phiAlignment: 48,
+        sources: [{ title: 'Bitcoin (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Bitcoin' }],
+    },
+    {
+        id: 'homomorphic-encryption',
+        title: 'Criptografia Homomórfica',
+        description: 'Permite calcular sobre dados que continuam cifrados. Promete nuvem e IA sem expor informação sensível, mas ainda é lenta para a maioria dos usos.',
+        sector: 'cripto',
+        maturity: 'prototipo',
+        phiAlignment: 73,
+        sources: [{ title: 'Homomorphic encryption (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Homomorphic_encryption' }],
+    },
+    {
+        id: 'quantum-error-correction',
+        title: 'Correção de Erros Quânticos',
+        description: 'Codifica um qubit lógico em muitos qubits físicos para protegê-lo do ruído. É o passo que separa os computadores quânticos atuais de máquinas úteis.',
+        sector: 'outros',
+        maturity: 'pesquisa',
+        phiAlignment: 70,
+        sources: [{ title: 'Quantum error correction (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Quantum_error_correction' }],
+    },
+    {
+        id: 'fusion-power',
+        title: 'Energia de Fusão',
+        description: 'Reproduz a reação das estrelas para gerar energia limpa e abundante. Experimentos já superaram o ganho de energia no alvo; usinas comerciais seguem distantes.',
+        sector: 'outros',
+        maturity: 'pesquisa',
+        phiAlignment: 64,
+        sources: [{ title: 'Fusion power (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Fusion_power' }],
+    },
+    {
+        id: 'vacuum-coherence-propulsion',
+        title: 'Propulsão por Coerência de Vácuo',
+        description: 'A ideia de "dobrar" o espaço-tempo para viajar mais rápido que a luz, como na métrica de Alcubierre. Exige energia negativa que nunca foi produzida: é especulação pura.',
+        sector: 'outros',
+        maturity: 'especulativo',
+        phiAlignment: 40,
+        sources: [{ title: 'Alcubierre drive (Wikipedia)', url: 'https://en.wikipedia.org/wiki/Alcubierre_drive' }],
+    },
+];
+
+export interface FrontierFilters {
+    query: string;
+    sector: FrontierConcept['sector'] | 'todos';
+    maturity: FrontierMaturity | 'todas';
+    minAlignment: number;
+    watchlistOnly: boolean;
+}
+
+export const DEFAULT_FRONTIER_FILTERS: FrontierFilters = { query: '', sector: 'todos', maturity: 'todas', minAlignment: 0, watchlistOnly: false };
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const filterFrontierConcepts = (concepts: FrontierConcept[], filters: FrontierFilters, watchlist: string[]): FrontierConcept[] => {
+    const query = normalize(filters.query.trim());
+    return concepts.filter(concept =>
+        (!query || normalize(`${concept.title} ${concept.description}`).includes(query))
+        && (filters.sector === 'todos' || concept.sector === filters.sector)
+        && (filters.maturity === 'todas' || concept.maturity === filters.maturity)
+        && concept.phiAlignment >= filters.minAlignment
+        && (!filters.watchlistOnly || watchlist.includes(concept.id))
+    );
+};
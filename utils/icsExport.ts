@@ -0,0 +1,116 @@
+// utils/icsExport.ts
+import { Schedule } from '../types.ts';
+import { toolMetadata } from '../constants.tsx';
+import { parseRRule, recurrenceToRRule, SCHEDULE_SLOT_MINUTES } from './scheduleUtils.ts';
+
+/**
+ * Formats a timestamp as an iCalendar UTC date-time, e.g. "20261019T143000Z".
+ */
+const formatIcsDate = (timestamp: number): string =>
+    new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Formats a timestamp as an iCalendar floating local date-time, e.g. "20261019T213000".
+ * BYDAY rules are evaluated in the time zone of DTSTART, so a UTC start would move evening
+ * sessions west of Greenwich to the next weekday.
+ */
+const formatIcsLocalDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+const escapeIcsText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const MAX_LINE_OCTETS = 75;
+
+const utf8Length = (char: string): number => {
+    const codePoint = char.codePointAt(0) ?? 0;
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+// RFC 5545 limits lines to 75 octets of UTF-8; longer ones continue on lines starting with a space.
+// Iterating by code point keeps multi-byte characters and surrogate pairs whole.
+const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const length = utf8Length(char);
+        // Continuation lines lose one octet to the leading space.
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + length > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += length;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+// With a floating DTSTART, UNTIL must be a floating date-time too, not the scheduler's plain date.
+const toIcsRRule = (schedule: Schedule): string | null => {
+    if (!schedule.recurrence) return null;
+    const rule = recurrenceToRRule(schedule.recurrence).replace(/^RRULE:/i, '');
+    const { until } = parseRRule(rule);
+    return until === null ? rule : rule.replace(/UNTIL=[^;]*/i, `UNTIL=${formatIcsLocalDate(until)}`);
+};
+
+/**
+ * Builds an iCalendar feed with one event per active schedule, recurring ones as RRULE series.
+ * @param getLink Builds the link that opens the mentor call for a schedule.
+ */
+export const buildIcsCalendar = (schedules: Schedule[], getLink: (scheduleId: string) => string): string => {
+    const now = formatIcsDate(Date.now());
+    const events = schedules.filter(s => s.status === 'scheduled').flatMap(schedule => {
+        const title = toolMetadata[schedule.activity]?.title || 'Sessão';
+        const rrule = toIcsRRule(schedule);
+        const description = [schedule.intention && `Intenção: ${schedule.intention}`, 'Abra o app para atender a chamada do mentor.']
+            .filter(Boolean)
+            .join('\n');
+        return [
+            'BEGIN:VEVENT',
+            `UID:${schedule.id}@portais-da-consciencia`,
+            `DTSTAMP:${now}`,
+            `DTSTART:${formatIcsLocalDate(schedule.time)}`,
+            `DURATION:PT${schedule.durationMinutes ?? SCHEDULE_SLOT_MINUTES}M`,
+            ...(rrule ? [`RRULE:${rrule}`] : []),
+            `SUMMARY:${escapeIcsText(`${title} com seu mentor`)}`,
+            `DESCRIPTION:${escapeIcsText(description)}`,
+            `URL:${getLink(schedule.id)}`,
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeIcsText(title)}`,
+            'TRIGGER:PT0M',
+            'END:VALARM',
+            'END:VEVENT',
+        ];
+    });
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Portais da Consciencia//Agendamentos//PT-BR',
+        'CALSCALE:GREGORIAN',
+        ...events,
+        'END:VCALENDAR',
+    ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Downloads the calendar feed of the active schedules as an .ics file.
+ */
+export const downloadIcsCalendar = (schedules: Schedule[], getLink: (scheduleId: string) => string): void => {
+    const blob = new Blob([buildIcsCalendar(schedules, getLink)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sessoes-agendadas.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,96 @@
+// utils/journal.ts
+import { JournalEntry, JournalEntryType, JournalFeedback } from '../types.ts';
+
+export const JOURNAL_ENTRY_TYPES: Record<JournalEntryType, string> = {
+    reflexao: 'Reflexão',
+    sonho: 'Sonho',
+};
+
+export const MOOD_LEVELS = [
+    { value: 1, label: 'Muito baixo', color: 'bg-red-500' },
+    { value: 2, label: 'Baixo', color: 'bg-orange-400' },
+    { value: 3, label: 'Neutro', color: 'bg-yellow-300' },
+    { value: 4, label: 'Bom', color: 'bg-lime-400' },
+    { value: 5, label: 'Muito bom', color: 'bg-green-500' },
+];
+
+export const getMoodLevel = (mood: number) => MOOD_LEVELS[Math.min(MOOD_LEVELS.length, Math.max(1, Math.round(mood))) - 1];
+
+/**
+ * The local calendar day of a timestamp, as "YYYY-MM-DD".
+ */
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Noon keeps the day stable across daylight saving changes.
+export const fromDayKey = (dayKey: string): number => new Date(`${dayKey}T12:00:00`).getTime();
+
+/**
+ * Splits "ansiedade, trabalho #família" into normalized, unique tags.
+ */
+export const parseTags = (text: string): string[] =>
+    [...new Set(text.split(/[,#;]/).map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const collectTags = (entries: JournalEntry[]): string[] =>
+    [...new Set(entries.flatMap(entry => entry.tags))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Lowercases and strips accents, so "Ação" matches "acao".
+ */
+export const normalizeText = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Finds the entries whose text, tags or feedback mention every word of the query.
+ */
+export const searchJournalEntries = (entries: JournalEntry[], query: string): JournalEntry[] => {
+    const words = normalizeText(query).split(/\s+/).filter(Boolean);
+    if (words.length === 0) return entries;
+    return entries.filter(entry => {
+        const haystack = normalizeText([
+            entry.text,
+            entry.tags.join(' '),
+            entry.feedback ? `${entry.feedback.observacao} ${entry.feedback.dissonancia} ${entry.feedback.acao}` : '',
+            entry.dream ? `${entry.dream.setting} ${entry.dream.characters.join(' ')} ${entry.dream.emotions.join(' ')}` : '',
+            (entry.dreamSymbols ?? []).map(symbol => symbol.simbolo).join(' '),
+        ].join(' '));
+        return words.every(word => haystack.includes(word));
+    });
+};
+
+export const groupEntriesByDay = (entries: JournalEntry[]): Record<string, JournalEntry[]> =>
+    entries.reduce<Record<string, JournalEntry[]>>((groups, entry) => {
+        const key = toDayKey(entry.date);
+        groups[key] = [...(groups[key] ?? []), entry];
+        return groups;
+    }, {});
+
+/**
+ * The days shown in a month view, starting on Sunday. Days outside the month are null.
+ */
+export const getMonthGrid = (year: number, month: number): (string | null)[] => {
+    const firstWeekday = new Date(year, month, 1).getDay();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const cells: (string | null)[] = Array(firstWeekday).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+        cells.push(toDayKey(new Date(year, month, day).getTime()));
+    }
+    while (cells.length % 7 !== 0) cells.push(null);
+    return cells;
+};
+
+/**
+ * The entries whose day falls between two day keys, both included.
+ */
+export const filterEntriesByPeriod = (entries: JournalEntry[], fromDay: string, toDay: string): JournalEntry[] =>
+    entries.filter(entry => {
+        const day = toDayKey(entry.date);
+        return day >= fromDay && day <= toDay;
+    });
+
+export const sortJournalEntries = (entries: JournalEntry[]): JournalEntry[] =>
+    [...entries].sort((a, b) => b.date - a.date || b.createdAt - a.createdAt);
+
+export const getLatestJournalFeedback = (entries: JournalEntry[]): JournalFeedback | null =>
+    sortJournalEntries(entries).find(entry => entry.feedback)?.feedback ?? null;
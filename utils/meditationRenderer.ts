@@ -0,0 +1,126 @@
+// utils/meditationRenderer.ts
+import { createNoiseBuffer, encodeWAV, SOUNDSCAPE_PRESETS, SoundscapePresetId, startSoundscape } from './audioUtils.ts';
+
+/**
+ * The background soundscapes a rendered meditation can be mixed with.
+ */
+export type AmbientBed = 'none' | 'rain' | 'bowls' | SoundscapePresetId;
+
+export const AMBIENT_BED_LABELS: Record<AmbientBed, string> = {
+    none: 'Sem fundo',
+    rain: 'Chuva',
+    bowls: 'Taças tibetanas',
+    theta_relaxation: 'Tons binaurais (theta)',
+    vata_grounding: SOUNDSCAPE_PRESETS.vata_grounding.name,
+    pitta_cooling: SOUNDSCAPE_PRESETS.pitta_cooling.name,
+    kapha_energizing: SOUNDSCAPE_PRESETS.kapha_energizing.name,
+};
+
+/**
+ * One narrated phrase of the meditation and the silence that follows it.
+ */
+export interface NarrationSegment {
+    buffer: AudioBuffer;
+    pauseMs: number;
+}
+
+const RENDER_SAMPLE_RATE = 24000;
+// Silence before the first phrase and after the last one, where the bed fades in and out.
+const LEAD_IN_SECONDS = 3;
+const TAIL_SECONDS = 5;
+const BED_GAIN = 0.18;
+
+const scheduleRain = (ctx: BaseAudioContext, output: AudioNode, duration: number) => {
+    const noise = ctx.createBufferSource();
+    noise.buffer = createNoiseBuffer(ctx, 'pink');
+    noise.loop = true;
+    const highpass = ctx.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.value = 400;
+    const lowpass = ctx.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = 3000;
+    noise.connect(highpass).connect(lowpass).connect(output);
+    noise.start(0);
+    noise.stop(duration);
+};
+
+const scheduleBowls = (ctx: BaseAudioContext, output: AudioNode, duration: number) => {
+    const fundamentals = [196, 261.63, 220]; // G3, C4, A3
+    const partials = [{ ratio: 1, gain: 1 }, { ratio: 2.76, gain: 0.4 }, { ratio: 5.4, gain: 0.15 }];
+    const strikeInterval = 14;
+    for (let time = 0, strike = 0; time < duration; time += strikeInterval, strike++) {
+        const fundamental = fundamentals[strike % fundamentals.length];
+        partials.forEach(({ ratio, gain }) => {
+            const oscillator = ctx.createOscillator();
+            oscillator.frequency.value = fundamental * ratio;
+            const envelope = ctx.createGain();
+            envelope.gain.setValueAtTime(0, time);
+            envelope.gain.linearRampToValueAtTime(gain, time + 0.02);
+            envelope.gain.exponentialRampToValueAtTime(0.0001, time + strikeInterval - 0.5);
+            oscillator.connect(envelope).connect(output);
+            oscillator.start(time);
+            oscillator.stop(Math.min(duration, time + strikeInterval));
+        });
+    }
+};
+
+const BED_SCHEDULERS: Record<'rain' | 'bowls', (ctx: BaseAudioContext, output: AudioNode, duration: number) => void> = {
+    rain: scheduleRain,
+    bowls: scheduleBowls,
+};
+
+/**
+ * Total length in seconds of the narration laid out with its pauses, lead-in and tail.
+ */
+export const getNarrationLength = (segments: NarrationSegment[]): number =>
+    LEAD_IN_SECONDS + segments.reduce((acc, s) => acc + s.buffer.duration + s.pauseMs / 1000, 0) + TAIL_SECONDS;
+
+/**
+ * Renders the narration into a single stereo track, each phrase followed by its pause,
+ * mixed over the chosen ambient bed. Runs faster than real time in an OfflineAudioContext.
+ */
+export const renderMeditationTrack = async (segments: NarrationSegment[], bed: AmbientBed): Promise<AudioBuffer> => {
+    const duration = getNarrationLength(segments);
+    const ctx = new OfflineAudioContext(2, Math.ceil(duration * RENDER_SAMPLE_RATE), RENDER_SAMPLE_RATE);
+
+    let cursor = LEAD_IN_SECONDS;
+    segments.forEach(({ buffer, pauseMs }) => {
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.start(cursor);
+        cursor += buffer.duration + pauseMs / 1000;
+    });
+
+    if (bed !== 'none') {
+        const bedGain = ctx.createGain();
+        bedGain.gain.setValueAtTime(0, 0);
+        bedGain.gain.linearRampToValueAtTime(BED_GAIN, LEAD_IN_SECONDS);
+        bedGain.gain.setValueAtTime(BED_GAIN, duration - TAIL_SECONDS);
+        bedGain.gain.linearRampToValueAtTime(0, duration);
+        bedGain.connect(ctx.destination);
+        if (bed === 'rain' || bed === 'bowls') {
+            BED_SCHEDULERS[bed](ctx, bedGain, duration);
+        } else {
+            startSoundscape(ctx, SOUNDSCAPE_PRESETS[bed].layers, bedGain, 0, duration);
+        }
+    }
+
+    return ctx.startRendering();
+};
+
+/**
+ * Encodes an AudioBuffer as a 16-bit PCM WAV file, interleaving its channels.
+ */
+export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    const pcm = new Int16Array(buffer.length * channels.length);
+    for (let i = 0; i < buffer.length; i++) {
+        channels.forEach((data, channel) => {
+            const sample = Math.max(-1, Math.min(1, data[i]));
+            pcm[i * channels.length + channel] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+        });
+    }
+    return encodeWAV(new Uint8Array(pcm.buffer), buffer.sampleRate, channels.length, 16);
+};
@@ -0,0 +1,225 @@
+// utils/portfolio.ts
+import { Portfolio, PortfolioAsset, PortfolioSector, PortfolioTransaction } from '../types.ts';
+import { formatBrl } from './currency.ts';
+import { decodeStatement, detectDelimiter, findColumn, normalizeHeader, parseBrazilianAmount, parseStatementDate, splitCsvLine } from './statementImport.ts';
+
+export const PORTFOLIO_SECTORS: Record<PortfolioSector, { label: string; color: string }> = {
+    cripto: { label: 'Cripto', color: '#F59E0B' },
+    biotech: { label: 'Bio-Tech', color: '#34D399' },
+    ia: { label: 'IA', color: '#818CF8' },
+    outros: { label: 'Outros', color: '#9CA3AF' },
+};
+
+// Months of expenses a full emergency fund covers.
+export const EMERGENCY_FUND_TARGET_MONTHS = 6;
+
+export const createEmptyPortfolio = (): Portfolio => ({ assets: {}, transactions: [], emergencyFund: 0, monthlyExpenses: 0 });
+
+export const hasPortfolioData = (portfolio: Portfolio): boolean =>
+    portfolio.transactions.length > 0 || portfolio.emergencyFund > 0;
+
+/**
+ * A position derived from the transactions, using the average cost ("preço médio") method.
+ */
+export interface PortfolioHolding {
+    asset: PortfolioAsset;
+    quantity: number;
+    averageCost: number;
+    costBasis: number;
+    price: number;
+    marketValue: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+}
+
+export const deriveHoldings = (portfolio: Portfolio): PortfolioHolding[] => {
+    const positions = new Map<string, { quantity: number; costBasis: number; realizedPnl: number }>();
+    [...portfolio.transactions].sort((a, b) => a.date - b.date).forEach(tx => {
+        const position = positions.get(tx.ticker) ?? { quantity: 0, costBasis: 0, realizedPnl: 0 };
+        if (tx.type === 'buy') {
+            position.quantity += tx.quantity;
+            position.costBasis += tx.quantity * tx.price;
+        } else {
+            // Selling more than is held (e.g. a partial import) only closes what is there.
+            const sold = Math.min(tx.quantity, position.quantity);
+            const averageCost = position.quantity > 0 ? position.costBasis / position.quantity : 0;
+            position.realizedPnl += sold * (tx.price - averageCost);
+            position.costBasis -= sold * averageCost;
+            position.quantity -= sold;
+        }
+        positions.set(tx.ticker, position);
+    });
+
+    return [...positions.entries()].map(([ticker, position]) => {
+        const asset = portfolio.assets[ticker] ?? { ticker, name: ticker, sector: 'outros' as PortfolioSector };
+        const averageCost = position.quantity > 0 ? position.costBasis / position.quantity : 0;
+        const price = asset.currentPrice ?? averageCost;
+        const marketValue = position.quantity * price;
+        return {
+            asset,
+            quantity: position.quantity,
+            averageCost,
+            costBasis: position.costBasis,
+            price,
+            marketValue,
+            unrealizedPnl: marketValue - position.costBasis,
+            realizedPnl: position.realizedPnl,
+        };
+    }).sort((a, b) => b.marketValue - a.marketValue);
+};
+
+export interface PortfolioMetrics {
+    totalValue: number;
+    totalCost: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+    returnPct: number; // Unrealized result over the cost of the open positions
+    allocation: Record<PortfolioSector, number>; // 0 to 1
+    largestPosition: { ticker: string; weight: number } | null;
+    herfindahl: number; // Sum of squared weights: 1 means a single position
+    effectivePositions: number;
+    emergencyFundMonths: number | null; // null when monthly expenses are unknown
+}
+
+export const computePortfolioMetrics = (portfolio: Portfolio, holdings: PortfolioHolding[] = deriveHoldings(portfolio)): PortfolioMetrics => {
+    const open = holdings.filter(h => h.quantity > 0);
+    const totalValue = open.reduce((sum, h) => sum + h.marketValue, 0);
+    const totalCost = open.reduce((sum, h) => sum + h.costBasis, 0);
+    const allocation: Record<PortfolioSector, number> = { cripto: 0, biotech: 0, ia: 0, outros: 0 };
+    let herfindahl = 0;
+    open.forEach(h => {
+        const weight = totalValue > 0 ? h.marketValue / totalValue : 0;
+        allocation[h.asset.sector] += weight;
+        herfindahl += weight ** 2;
+    });
+    const largest = open[0];
+    return {
+        totalValue,
+        totalCost,
+        unrealizedPnl: totalValue - totalCost,
+        realizedPnl: holdings.reduce((sum, h) => sum + h.realizedPnl, 0),
+        returnPct: totalCost > 0 ? (totalValue - totalCost) / totalCost : 0,
+        allocation,
+        largestPosition: largest && totalValue > 0 ? { ticker: largest.asset.ticker, weight: largest.marketValue / totalValue } : null,
+        herfindahl,
+        effectivePositions: herfindahl > 0 ? 1 / herfindahl : 0,
+        emergencyFundMonths: portfolio.monthlyExpenses > 0 ? portfolio.emergencyFund / portfolio.monthlyExpenses : null,
+    };
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Scores financial health from 0 to 100; this becomes the financial dimension of the USV.
+ * The emergency fund weighs the most, then diversification, sector concentration and performance.
+ * Parts with no data (no holdings, unknown expenses) count as neutral.
+ */
+export const scorePortfolioHealth = (metrics: PortfolioMetrics): { score: number; parts: { label: string; value: number }[] } => {
+    const hasHoldings = metrics.totalValue > 0;
+    const parts = [
+        {
+            label: 'Reserva de emergência',
+            weight: 0.4,
+            value: metrics.emergencyFundMonths === null ? 0.5 : clamp01(metrics.emergencyFundMonths / EMERGENCY_FUND_TARGET_MONTHS),
+        },
+        {
+            label: 'Diversificação',
+            weight: 0.25,
+            // Ten or more equally weighted positions is full marks.
+            value: hasHoldings ? clamp01((metrics.effectivePositions - 1) / 9) : 0.5,
+        },
+        {
+            label: 'Concentração setorial',
+            weight: 0.15,
+            // Penalized once a single sector passes half of the portfolio.
+            value: hasHoldings ? clamp01(1 - (Math.max(...Object.values(metrics.allocation)) - 0.5) * 2) : 0.5,
+        },
+        {
+            label: 'Desempenho',
+            weight: 0.2,
+            // -30% or worse is zero, +30% or better is full marks.
+            value: hasHoldings ? clamp01((metrics.returnPct + 0.3) / 0.6) : 0.5,
+        },
+    ];
+    const score = Math.round(parts.reduce((sum, part) => sum + part.weight * part.value, 0) * 100);
+    return { score, parts: parts.map(({ label, value }) => ({ label, value })) };
+};
+
+/**
+ * A short description of the portfolio for the mentors' prompts.
+ */
+export const formatPortfolioForPrompt = (portfolio: Portfolio): string => {
+    const holdings = deriveHoldings(portfolio).filter(h => h.quantity > 0);
+    const metrics = computePortfolioMetrics(portfolio, holdings);
+    const allocation = (Object.entries(metrics.allocation) as [PortfolioSector, number][])
+        .filter(([, weight]) => weight > 0)
+        .map(([sector, weight]) => `${PORTFOLIO_SECTORS[sector].label} ${Math.round(weight * 100)}%`)
+        .join(', ');
+    const positions = holdings.slice(0, 5)
+        .map(h => `${h.asset.ticker} ${Math.round(h.marketValue / (metrics.totalValue || 1) * 100)}%`)
+        .join(', ');
+    const reserve = metrics.emergencyFundMonths === null
+        ? `reserva de emergência de ${formatBrl(portfolio.emergencyFund)}`
+        : `reserva de emergência de ${metrics.emergencyFundMonths.toFixed(1)} meses de gastos`;
+    return holdings.length > 0
+        ? `Carteira de ${formatBrl(metrics.totalValue)} (resultado ${Math.round(metrics.returnPct * 100)}%), alocação: ${allocation}; maiores posições: ${positions}; ${reserve}.`
+        : `Sem investimentos registrados; ${reserve}.`;
+};
+
+/**
+ * Reads a CSV of trades, such as the B3 "Negociação" export or a spreadsheet with
+ * date, ticker, type (compra/venda), quantity, price and, optionally, sector columns.
+ */
+export const parsePortfolioCsv = async (file: File): Promise<{ transactions: PortfolioTransaction[]; sectors: Record<string, PortfolioSector> }> => {
+    const lines = decodeStatement(await file.arrayBuffer()).split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = lines.findIndex(line => /data|date/.test(normalizeHeader(line)));
+    if (headerIndex === -1) {
+        throw new Error('Não encontramos o cabeçalho do arquivo. Ele precisa de uma coluna de data.');
+    }
+    const delimiter = detectDelimiter(lines[headerIndex]);
+    const headers = splitCsvLine(lines[headerIndex], delimiter).map(normalizeHeader);
+    const dateColumn = findColumn(headers, /^(data|date)/);
+    const tickerColumn = findColumn(headers, /codigo|ticker|ativo|papel|simbolo|symbol/, [dateColumn]);
+    const typeColumn = findColumn(headers, /tipo|movimenta|operacao|c\/v|side|type/, [dateColumn, tickerColumn]);
+    const quantityColumn = findColumn(headers, /quantidade|qtd|qtde|quantity/);
+    const priceColumn = findColumn(headers, /preco|price|cotacao/);
+    const sectorColumn = findColumn(headers, /setor|sector/);
+    if ([dateColumn, tickerColumn, quantityColumn, priceColumn].includes(-1)) {
+        throw new Error('O arquivo precisa das colunas de data, ativo, quantidade e preço.');
+    }
+
+    const sectors: Record<string, PortfolioSector> = {};
+    const occurrences = new Map<string, number>();
+    const transactions = lines.slice(headerIndex + 1).map((line): PortfolioTransaction | null => {
+        const cells = splitCsvLine(line, delimiter);
+        const ticker = (cells[tickerColumn] ?? '').toUpperCase().trim().replace(/^([A-Z]{4}\d{1,2})F$/, '$1'); // B3 lists fractional trades as "PETR4F"
+        const date = parseStatementDate(cells[dateColumn] ?? '');
+        const quantity = parseBrazilianAmount(cells[quantityColumn] ?? '');
+        const price = parseBrazilianAmount(cells[priceColumn] ?? '');
+        if (!ticker || isNaN(date) || isNaN(quantity) || isNaN(price) || quantity === 0) return null;
+        const type = normalizeHeader(cells[typeColumn] ?? '');
+        if (sectorColumn !== -1) {
+            const sector = normalizeHeader(cells[sectorColumn] ?? '').replace(/[^a-z]/g, '');
+            sectors[ticker] = sector in PORTFOLIO_SECTORS ? sector as PortfolioSector : 'outros';
+        }
+        const side = /^(v|venda|sell)/.test(type) || quantity < 0 ? 'sell' : 'buy';
+        // The id comes from the trade itself, so re-importing an overlapping export skips the known trades.
+        // Identical trades on the same day are told apart by their order in the file.
+        const key = `${date}|${ticker}|${side}|${Math.abs(quantity)}|${Math.abs(price)}`;
+        const occurrence = occurrences.get(key) ?? 0;
+        occurrences.set(key, occurrence + 1);
+        return {
+            id: `trade-${key}|${occurrence}`,
+            ticker,
+            type: side,
+            quantity: Math.abs(quantity),
+            price: Math.abs(price),
+            date,
+        };
+    }).filter((tx): tx is PortfolioTransaction => tx !== null);
+
+    if (transactions.length === 0) {
+        throw new Error('Nenhuma operação válida encontrada no arquivo.');
+    }
+    return { transactions, sectors };
+};
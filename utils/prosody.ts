@@ -0,0 +1,155 @@
+// utils/prosody.ts
+import { ProsodyFeatures } from '../types.ts';
+
+const FRAME_SEC = 0.04;
+const LONG_PAUSE_SEC = 1.5;
+// Frames quieter than this share of the loudest frames count as silence.
+const SILENCE_RATIO = 0.15;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// Autocorrelation peaks below this are treated as unvoiced (breath, noise, consonants).
+const VOICING_THRESHOLD = 0.45;
+// Pitch is estimated on a copy of the audio at about this rate, which is plenty for a voice under 400 Hz
+// and keeps the autocorrelation of a long recording from freezing the page.
+const PITCH_SAMPLE_RATE = 8000;
+// Only every few voiced frames are used for pitch; the mean and spread barely change.
+const PITCH_FRAME_STRIDE = 2;
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+const standardDeviation = (values: number[]): number => {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Reduces the sample rate by an integer factor, averaging each block of samples as a simple low-pass filter.
+ */
+const downsample = (samples: Float32Array, factor: number): Float32Array => {
+    if (factor <= 1) return samples;
+    const output = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < output.length; i++) {
+        let sum = 0;
+        for (let j = i * factor; j < (i + 1) * factor; j++) sum += samples[j];
+        output[i] = sum / factor;
+    }
+    return output;
+};
+
+/**
+ * Estimates the fundamental frequency of a frame by normalized autocorrelation.
+ * @returns The pitch in Hz, or null for an unvoiced frame.
+ */
+const estimatePitch = (frame: Float32Array, sampleRate: number): number | null => {
+    const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+    const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), frame.length - 1);
+    let energy = 0;
+    for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+    if (energy === 0) return null;
+
+    let bestLag = -1;
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        let correlation = 0;
+        for (let i = 0; i + lag < frame.length; i++) correlation += frame[i] * frame[i + lag];
+        correlation /= energy;
+        if (correlation > bestCorrelation) {
+            bestCorrelation = correlation;
+            bestLag = lag;
+        }
+    }
+    return bestLag > 0 && bestCorrelation >= VOICING_THRESHOLD ? sampleRate / bestLag : null;
+};
+
+/**
+ * Measures pace, pauses, loudness and pitch of a mono recording.
+ * @param samples The decoded audio, from -1 to 1.
+ * @param transcript Used for the speaking rate; may be empty.
+ */
+export const analyzeProsody = (samples: Float32Array, sampleRate: number, transcript: string): ProsodyFeatures => {
+    const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+    const durationSec = samples.length / sampleRate;
+    const energies: number[] = [];
+    for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+        let sum = 0;
+        for (let i = start; i < start + frameSize; i++) sum += samples[i] * samples[i];
+        energies.push(Math.sqrt(sum / frameSize));
+    }
+
+    // The 95th percentile rather than the maximum, so a single click does not turn speech into silence.
+    const reference = [...energies].sort((a, b) => a - b)[Math.floor(energies.length * 0.95)] ?? 0;
+    const threshold = reference * SILENCE_RATIO;
+    const pitchFactor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+    const pitchSamples = downsample(samples, pitchFactor);
+    const voicedEnergies: number[] = [];
+    const pitches: number[] = [];
+    let silentFrames = 0;
+    let silentRun = 0;
+    let longPauses = 0;
+    let hasSpoken = false;
+
+    energies.forEach((energy, index) => {
+        if (energy <= threshold) {
+            silentFrames++;
+            silentRun++;
+            return;
+        }
+        // Silence before the first word is the time it took to start, not a pause.
+        if (hasSpoken && silentRun * FRAME_SEC >= LONG_PAUSE_SEC) longPauses++;
+        silentRun = 0;
+        hasSpoken = true;
+        voicedEnergies.push(energy);
+        if (voicedEnergies.length % PITCH_FRAME_STRIDE !== 0) return;
+        const pitch = estimatePitch(pitchSamples.subarray(Math.floor((index * frameSize) / pitchFactor), Math.floor(((index + 1) * frameSize) / pitchFactor)), sampleRate / pitchFactor);
+        if (pitch !== null) pitches.push(pitch);
+    });
+
+    const words = countWords(transcript);
+    const semitones = pitches.map(hz => 12 * Math.log2(hz / MIN_PITCH_HZ));
+
+    return {
+        durationSec,
+        wordsPerMinute: words > 0 && durationSec > 0 ? Math.round(words / (durationSec / 60)) : null,
+        pauseRatio: energies.length > 0 ? silentFrames / energies.length : 0,
+        longPauses,
+        energyVariation: voicedEnergies.length > 0 ? standardDeviation(voicedEnergies) / mean(voicedEnergies) : 0,
+        pitchMeanHz: pitches.length > 0 ? Math.round(mean(pitches)) : null,
+        pitchVariationSemitones: semitones.length > 1 ? standardDeviation(semitones) : null,
+    };
+};
+
+/**
+ * Decodes a recording and measures its prosody.
+ */
+export const analyzeRecording = async (audio: Blob, transcript: string): Promise<ProsodyFeatures> => {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        const buffer = await audioContext.decodeAudioData(await audio.arrayBuffer());
+        return analyzeProsody(buffer.getChannelData(0), buffer.sampleRate, transcript);
+    } finally {
+        audioContext.close();
+    }
+};
+
+/**
+ * Reads the measurements as cues for the journal analysis.
+ * @returns Short sentences in Portuguese, one per cue.
+ */
+export const describeProsody = (features: ProsodyFeatures): string[] => {
+    const cues = [`Duração da fala: ${Math.round(features.durationSec)} s.`];
+    if (features.wordsPerMinute !== null) {
+        const pace = features.wordsPerMinute < 110 ? 'lento' : features.wordsPerMinute > 170 ? 'acelerado' : 'natural';
+        cues.push(`Ritmo ${pace} (${features.wordsPerMinute} palavras por minuto).`);
+    }
+    const pausePercent = Math.round(features.pauseRatio * 100);
+    cues.push(`${pausePercent}% do tempo em silêncio${features.longPauses > 0 ? `, com ${features.longPauses} pausa(s) longa(s) de hesitação` : ''}.`);
+    if (features.pitchVariationSemitones !== null) {
+        const range = features.pitchVariationSemitones < 1.5 ? 'monótona, pouco expressiva' : features.pitchVariationSemitones > 4 ? 'muito variada, emocionalmente intensa' : 'com variação natural';
+        cues.push(`Entonação ${range}${features.pitchMeanHz !== null ? ` (tom médio de ${features.pitchMeanHz} Hz)` : ''}.`);
+    }
+    const loudness = features.energyVariation < 0.35 ? 'estável' : features.energyVariation > 0.8 ? 'muito irregular' : 'com alguma oscilação';
+    cues.push(`Volume da voz ${loudness}.`);
+    return cues;
+};
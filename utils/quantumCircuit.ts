@@ -0,0 +1,229 @@
+// utils/quantumCircuit.ts
+import { QuantumCircuit, QuantumGate, QuantumGateType } from '../types.ts';
+
+export const MAX_QUBITS = 4;
+
+export const GATE_LABELS: Record<QuantumGateType, string> = {
+    H: 'Hadamard',
+    X: 'NOT (X)',
+    P: 'Fase',
+    CNOT: 'CNOT',
+    M: 'Medição',
+};
+
+/**
+ * The amplitudes of the 2^n basis states. Qubit q is bit q of the index.
+ */
+export interface StateVector {
+    qubits: number;
+    re: Float64Array;
+    im: Float64Array;
+}
+
+export const createZeroState = (qubits: number): StateVector => {
+    const size = 1 << qubits;
+    const re = new Float64Array(size);
+    re[0] = 1;
+    return { qubits, re, im: new Float64Array(size) };
+};
+
+/**
+ * Labels a basis state with qubit 0 first, as in the circuit diagram: index 1 of 2 qubits is "10".
+ */
+export const formatBasisState = (index: number, qubits: number): string =>
+    Array.from({ length: qubits }, (_, q) => (index >> q) & 1).join('');
+
+// [[a, b], [c, d]] as [re, im] pairs.
+type Matrix2 = [[number, number], [number, number], [number, number], [number, number]];
+
+const applySingleQubit = (state: StateVector, target: number, m: Matrix2) => {
+    const { re, im } = state;
+    const [[aRe, aIm], [bRe, bIm], [cRe, cIm], [dRe, dIm]] = m;
+    const bit = 1 << target;
+    for (let i = 0; i < re.length; i++) {
+        if (i & bit) continue;
+        const j = i | bit;
+        const r0 = re[i], i0 = im[i], r1 = re[j], i1 = im[j];
+        re[i] = aRe * r0 - aIm * i0 + bRe * r1 - bIm * i1;
+        im[i] = aRe * i0 + aIm * r0 + bRe * i1 + bIm * r1;
+        re[j] = cRe * r0 - cIm * i0 + dRe * r1 - dIm * i1;
+        im[j] = cRe * i0 + cIm * r0 + dRe * i1 + dIm * r1;
+    }
+};
+
+/**
+ * Collapses one qubit, drawing the outcome from its probability.
+ * @returns The measured bit.
+ */
+const measureQubit = (state: StateVector, target: number, random: () => number): 0 | 1 => {
+    const { re, im } = state;
+    const bit = 1 << target;
+    let probabilityOfOne = 0;
+    for (let i = 0; i < re.length; i++) {
+        if (i & bit) probabilityOfOne += re[i] ** 2 + im[i] ** 2;
+    }
+    const outcome: 0 | 1 = random() < probabilityOfOne ? 1 : 0;
+    const norm = Math.sqrt(outcome ? probabilityOfOne : 1 - probabilityOfOne) || 1;
+    for (let i = 0; i < re.length; i++) {
+        if (((i & bit) ? 1 : 0) === outcome) {
+            re[i] /= norm;
+            im[i] /= norm;
+        } else {
+            re[i] = 0;
+            im[i] = 0;
+        }
+    }
+    return outcome;
+};
+
+const applyGate = (state: StateVector, gate: QuantumGate, random: () => number): void => {
+    switch (gate.type) {
+        case 'H': {
+            const s = Math.SQRT1_2;
+            applySingleQubit(state, gate.target, [[s, 0], [s, 0], [s, 0], [-s, 0]]);
+            break;
+        }
+        case 'X':
+            applySingleQubit(state, gate.target, [[0, 0], [1, 0], [1, 0], [0, 0]]);
+            break;
+        case 'P': {
+            const angle = gate.angle ?? Math.PI / 2;
+            applySingleQubit(state, gate.target, [[1, 0], [0, 0], [0, 0], [Math.cos(angle), Math.sin(angle)]]);
+            break;
+        }
+        case 'CNOT': {
+            const control = 1 << (gate.control ?? 0);
+            const target = 1 << gate.target;
+            const { re, im } = state;
+            for (let i = 0; i < re.length; i++) {
+                if ((i & control) && !(i & target)) {
+                    const j = i | target;
+                    [re[i], re[j]] = [re[j], re[i]];
+                    [im[i], im[j]] = [im[j], im[i]];
+                }
+            }
+            break;
+        }
+        case 'M':
+            measureQubit(state, gate.target, random);
+            break;
+    }
+};
+
+/**
+ * Runs the circuit once from |0…0⟩. Measurement gates collapse the state along the way.
+ */
+export const runCircuit = (circuit: QuantumCircuit, random: () => number = Math.random): StateVector => {
+    const state = createZeroState(circuit.qubits);
+    circuit.gates.forEach(gate => applyGate(state, gate, random));
+    return state;
+};
+
+export const getProbabilities = (state: StateVector): number[] =>
+    Array.from(state.re, (re, i) => re ** 2 + state.im[i] ** 2);
+
+export const hasMidCircuitMeasurement = (circuit: QuantumCircuit): boolean =>
+    circuit.gates.some(gate => gate.type === 'M');
+
+const sampleIndex = (probabilities: number[], random: () => number): number => {
+    let r = random();
+    for (let i = 0; i < probabilities.length; i++) {
+        r -= probabilities[i];
+        if (r < 0) return i;
+    }
+    return probabilities.length - 1;
+};
+
+/**
+ * Prepares and measures the circuit many times, reading every qubit at the end.
+ * @returns How often each basis state was observed, keyed by its label.
+ */
+export const sampleCircuit = (circuit: QuantumCircuit, shots: number, random: () => number = Math.random): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    // Without measurements inside the circuit every run ends in the same state, so it is simulated once.
+    const sharedProbabilities = hasMidCircuitMeasurement(circuit) ? null : getProbabilities(runCircuit(circuit, random));
+    for (let shot = 0; shot < shots; shot++) {
+        const probabilities = sharedProbabilities ?? getProbabilities(runCircuit(circuit, random));
+        const label = formatBasisState(sampleIndex(probabilities, random), circuit.qubits);
+        counts[label] = (counts[label] ?? 0) + 1;
+    }
+    return counts;
+};
+
+/**
+ * The Bloch vector of one qubit, traced out of the full state. Its length is 1 for a pure qubit
+ * and shrinks as the qubit becomes entangled with the others.
+ */
+export const getBlochVector = (state: StateVector, qubit: number): { x: number; y: number; z: number } => {
+    const { re, im } = state;
+    const bit = 1 << qubit;
+    let rho00 = 0, rho11 = 0, rho01Re = 0, rho01Im = 0;
+    for (let i = 0; i < re.length; i++) {
+        if (i & bit) {
+            rho11 += re[i] ** 2 + im[i] ** 2;
+            continue;
+        }
+        const j = i | bit;
+        rho00 += re[i] ** 2 + im[i] ** 2;
+        // ρ01 = a_i · conj(a_j)
+        rho01Re += re[i] * re[j] + im[i] * im[j];
+        rho01Im += im[i] * re[j] - re[i] * im[j];
+    }
+    return { x: 2 * rho01Re, y: -2 * rho01Im, z: rho00 - rho11 };
+};
+
+export const formatAngle = (angle: number): string => {
+    const fraction = angle / Math.PI;
+    const known: Record<string, string> = { '0.25': 'π/4', '0.5': 'π/2', '1': 'π', '1.5': '3π/2' };
+    return known[String(Math.round(fraction * 100) / 100)] ?? `${angle.toFixed(2)} rad`;
+};
+
+export const describeGate = (gate: QuantumGate): string => {
+    switch (gate.type) {
+        case 'CNOT':
+            return `CNOT (controle q${gate.control ?? 0}, alvo q${gate.target})`;
+        case 'P':
+            return `Fase ${formatAngle(gate.angle ?? Math.PI / 2)} em q${gate.target}`;
+        default:
+            return `${GATE_LABELS[gate.type]} em q${gate.target}`;
+    }
+};
+
+export const describeCircuit = (circuit: QuantumCircuit): string =>
+    circuit.gates.length > 0
+        ? `${circuit.qubits} qubit(s), portas em ordem: ${circuit.gates.map(describeGate).join(' → ')}`
+        : `${circuit.qubits} qubit(s) em |${'0'.repeat(circuit.qubits)}⟩, sem portas`;
+
+export type QuantumPresetId = 'superposicao' | 'dupla_fenda' | 'dupla_fenda_observada' | 'emaranhamento' | 'ghz';
+
+/**
+ * Ready-made experiments. The double slit is the single-photon interferometer: a Hadamard splits the path,
+ * the phase is the path difference and a second Hadamard recombines the paths. Measuring in between erases the fringes.
+ */
+export const QUANTUM_PRESETS: Record<QuantumPresetId, { label: string; description: string; circuit: QuantumCircuit }> = {
+    superposicao: {
+        label: 'Superposição',
+        description: 'Um qubit em partes iguais de |0⟩ e |1⟩: cada medição é uma moeda justa.',
+        circuit: { qubits: 1, gates: [{ type: 'H', target: 0 }] },
+    },
+    dupla_fenda: {
+        label: 'Dupla fenda',
+        description: 'Os dois caminhos interferem: com fase π/4 entre as fendas, a chance de |0⟩ é cos²(π/8) ≈ 85%. Mude a fase para percorrer as franjas.',
+        circuit: { qubits: 1, gates: [{ type: 'H', target: 0 }, { type: 'P', target: 0, angle: Math.PI / 4 }, { type: 'H', target: 0 }] },
+    },
+    dupla_fenda_observada: {
+        label: 'Dupla fenda observada',
+        description: 'Medir por qual fenda a partícula passou destrói a interferência: o resultado fica 50/50 para qualquer fase.',
+        circuit: { qubits: 1, gates: [{ type: 'H', target: 0 }, { type: 'M', target: 0 }, { type: 'P', target: 0, angle: Math.PI / 4 }, { type: 'H', target: 0 }] },
+    },
+    emaranhamento: {
+        label: 'Emaranhamento (Bell)',
+        description: 'Dois qubits correlacionados: só aparecem 00 ou 11, e cada qubit sozinho não tem estado definido.',
+        circuit: { qubits: 2, gates: [{ type: 'H', target: 0 }, { type: 'CNOT', control: 0, target: 1 }] },
+    },
+    ghz: {
+        label: 'GHZ (3 qubits)',
+        description: 'Três qubits emaranhados: todos 0 ou todos 1.',
+        circuit: { qubits: 3, gates: [{ type: 'H', target: 0 }, { type: 'CNOT', control: 0, target: 1 }, { type: 'CNOT', control: 1, target: 2 }] },
+    },
+};
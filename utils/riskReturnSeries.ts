@@ -0,0 +1,85 @@
+// utils/riskReturnSeries.ts
+// Monthly returns in percent, before taxes, January to December of each year.
+// CDI: Banco Central do Brasil, SGS series 4391.
+// Ibovespa and IFIX: B3, from month-end closes.
+// S&P 500 and Bitcoin in reais: month-end USD close times the month-end PTAX sell rate (BCB); the S&P 500 is the
+// price index, without dividends.
+
+const CDI: Record<number, number[]> = {
+    2015: [0.93, 0.82, 1.04, 0.95, 0.98, 1.07, 1.18, 1.11, 1.11, 1.11, 1.06, 1.16],
+    2016: [1.05, 1.00, 1.16, 1.05, 1.11, 1.16, 1.11, 1.21, 1.11, 1.05, 1.04, 1.12],
+    2017: [1.09, 0.87, 1.05, 0.79, 0.93, 0.81, 0.80, 0.80, 0.64, 0.64, 0.57, 0.54],
+    2018: [0.58, 0.47, 0.53, 0.52, 0.52, 0.52, 0.54, 0.57, 0.47, 0.54, 0.49, 0.49],
+    2019: [0.54, 0.49, 0.47, 0.52, 0.54, 0.47, 0.57, 0.50, 0.46, 0.48, 0.38, 0.37],
+    2020: [0.38, 0.29, 0.34, 0.28, 0.24, 0.21, 0.19, 0.16, 0.16, 0.16, 0.15, 0.16],
+    2021: [0.15, 0.13, 0.20, 0.21, 0.27, 0.30, 0.36, 0.42, 0.44, 0.48, 0.59, 0.76],
+    2022: [0.73, 0.75, 0.93, 0.83, 1.03, 1.02, 1.03, 1.17, 1.07, 1.02, 1.02, 1.12],
+    2023: [1.12, 0.92, 1.17, 0.92, 1.12, 1.07, 1.07, 1.14, 0.97, 1.00, 0.92, 0.89],
+    2024: [0.97, 0.80, 0.83, 0.89, 0.83, 0.79, 0.91, 0.87, 0.84, 0.93, 0.79, 0.93],
+};
+
+const IBOVESPA: Record<number, number[]> = {
+    2015: [-6.20, 9.97, -0.84, 9.93, -6.17, 0.61, -4.17, -8.33, -3.36, 1.80, -1.63, -3.92],
+    2016: [-6.79, 5.91, 16.97, 7.70, -10.09, 6.30, 11.22, 1.03, 0.80, 11.23, -4.65, -2.71],
+    2017: [7.38, 3.08, -2.52, 0.64, -4.12, 0.30, 4.80, 7.46, 4.88, 0.02, -3.15, 6.16],
+    2018: [11.14, 0.52, 0.01, 0.88, -10.87, -5.20, 8.87, -3.21, 3.48, 10.19, 2.38, -1.81],
+    2019: [10.82, -1.86, -0.18, 0.98, 0.70, 4.06, 0.84, -0.66, 3.57, 2.36, 0.94, 6.85],
+    2020: [-1.63, -8.43, -29.90, 10.25, 8.57, 8.76, 8.26, -3.44, -4.80, -0.69, 15.90, 9.30],
+    2021: [-3.32, -4.37, 6.00, 1.94, 6.16, 0.46, -3.94, -2.48, -6.57, -6.74, -1.53, 2.85],
+    2022: [6.99, 0.89, 6.06, -10.10, 3.22, -11.50, 4.69, 6.16, 0.47, 5.45, -3.06, -2.45],
+    2023: [3.46, -7.57, -2.91, 2.50, 3.74, 9.00, 3.27, -5.09, 0.71, -2.93, 12.54, 5.38],
+    2024: [-4.79, 0.99, -0.71, -1.70, -3.04, 1.48, 3.02, 6.54, -3.08, -1.60, -3.12, -4.29],
+};
+
+const SP500_BRL: Record<number, number[]> = {
+    2018: [0.97, -1.39, -0.32, 5.02, 9.67, 3.68, 0.89, 13.46, -2.76, -13.59, 5.77, -8.91],
+    2019: [1.65, 5.43, 6.10, 5.23, -6.73, 4.00, -0.47, 7.92, 2.37, -1.90, 9.10, -1.85],
+    2020: [5.74, -3.48, 1.10, 17.62, 2.79, 4.51, 0.26, 12.52, -0.95, -0.51, 2.31, 1.09],
+    2021: [4.20, 3.63, 7.39, -0.18, -2.64, -2.27, 5.42, 2.64, 0.73, 10.92, -1.57, 3.98],
+    2022: [-9.92, -6.17, -4.52, -5.31, -3.75, 1.35, 7.75, -4.08, -5.40, 5.03, 5.19, -6.46],
+    2023: [3.77, -0.54, 0.97, -0.31, 2.20, 0.83, 1.08, 2.34, -3.22, -1.22, 6.29, 2.43],
+    2024: [3.94, 6.08, 3.35, -0.53, 5.35, 10.07, 2.86, 2.46, -1.87, 5.11, 10.70, -0.30],
+};
+
+const IFIX: Record<number, number[]> = {
+    2021: [0.32, 0.25, -1.38, 0.51, -1.56, -2.19, 2.51, -2.63, -1.24, -1.47, -3.64, 8.78],
+    2022: [-0.99, -1.29, 1.42, 1.19, 0.26, -0.88, 0.66, 5.76, 0.49, 0.02, -4.15, -0.01],
+    2023: [-1.60, -0.45, -1.69, 3.52, 5.43, 4.71, 1.33, 0.49, 0.20, -1.97, 0.66, 4.25],
+    2024: [0.67, 0.79, 1.43, -0.77, 0.02, -1.04, 0.52, 0.86, -2.58, -3.06, -2.11, -0.67],
+};
+
+const BITCOIN_BRL: Record<number, number[]> = {
+    2018: [-30.98, 4.38, -31.30, 38.78, -12.93, -11.83, 18.31, -0.39, -8.85, -11.45, -33.93, -6.57],
+    2019: [-12.94, 14.15, 11.02, 31.95, 60.00, 22.74, -8.40, 4.96, -13.34, 6.64, -13.19, -9.30],
+    2020: [37.65, -3.07, -13.49, 40.37, 7.47, -0.89, 17.74, 8.47, -4.81, 30.76, 31.55, 44.03],
+    2021: [20.32, 37.66, 34.48, -7.04, -37.41, -10.27, 22.45, 13.02, -1.81, 45.27, -7.73, -19.06],
+    2022: [-20.99, 8.72, -2.81, -14.01, -18.86, -31.15, 16.47, -13.94, 1.13, 2.58, -16.38, -4.19],
+    2023: [36.66, 2.16, 20.02, 0.98, -5.19, 6.03, -5.99, -7.57, 5.81, 29.83, 6.16, 9.93],
+    2024: [3.08, 44.96, 16.84, -11.77, 11.89, -1.20, 4.86, -8.58, 3.30, 17.71, 43.82, -0.95],
+};
+
+/**
+ * Flattens a yearly table into one monthly series, as fractions (0.02 = 2%), oldest first.
+ */
+const toMonthlyReturns = (table: Record<number, number[]>): number[] =>
+    Object.keys(table).map(Number).sort((a, b) => a - b).flatMap(year => table[year].map(r => r / 100));
+
+const periodOf = (table: Record<number, number[]>): string => {
+    const years = Object.keys(table).map(Number);
+    return `jan/${Math.min(...years)} a dez/${Math.max(...years)}`;
+};
+
+export interface ReturnSeries {
+    source: string;
+    period: string;
+    returns: number[];
+}
+
+const series = (source: string, table: Record<number, number[]>): ReturnSeries =>
+    ({ source, period: periodOf(table), returns: toMonthlyReturns(table) });
+
+export const CDI_SERIES = series('Banco Central do Brasil (SGS 4391)', CDI);
+export const IBOVESPA_SERIES = series('B3', IBOVESPA);
+export const SP500_BRL_SERIES = series('S&P 500 sem dividendos × PTAX (BCB)', SP500_BRL);
+export const IFIX_SERIES = series('B3', IFIX);
+export const BITCOIN_BRL_SERIES = series('Bitcoin em dólar × PTAX (BCB)', BITCOIN_BRL);
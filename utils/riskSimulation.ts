@@ -0,0 +1,111 @@
+// utils/riskSimulation.ts
+import { RiskAssetClass, RiskSimulationResult } from '../types.ts';
+import { BITCOIN_BRL_SERIES, CDI_SERIES, IBOVESPA_SERIES, IFIX_SERIES, ReturnSeries, SP500_BRL_SERIES } from './riskReturnSeries.ts';
+
+/**
+ * The asset classes the simulation knows, each with the monthly history it resamples, in BRL and before taxes.
+ * Users with a better series for their position can paste it instead.
+ */
+export const RISK_ASSET_CLASSES: Record<RiskAssetClass, { label: string; history: ReturnSeries }> = {
+    renda_fixa: { label: 'Renda fixa (CDI)', history: CDI_SERIES },
+    acoes_br: { label: 'Ações Brasil (Ibovespa)', history: IBOVESPA_SERIES },
+    acoes_globais: { label: 'Ações globais em reais (S&P 500)', history: SP500_BRL_SERIES },
+    imobiliario: { label: 'Fundos imobiliários (IFIX)', history: IFIX_SERIES },
+    cripto: { label: 'Criptoativos (Bitcoin)', history: BITCOIN_BRL_SERIES },
+};
+
+export const DEFAULT_SIMULATION_PATHS = 5000;
+export const MIN_CUSTOM_RETURNS = 12;
+
+export interface RiskSimulationInput {
+    positionSize: number;
+    horizonMonths: number;
+    assetClass: RiskAssetClass;
+    // Monthly returns as fractions (0.02 = 2%). When given, paths are resampled from them instead of the class history.
+    customReturns?: number[];
+    paths?: number;
+}
+
+/**
+ * Reads monthly returns in percent, one per line or separated by semicolons ("1,5", "-2.3%").
+ * @returns The returns as fractions, or null if any value is not a number.
+ */
+export const parseMonthlyReturns = (text: string): number[] | null => {
+    const values = text.split(/[\n;\t ]+/).map(v => v.trim().replace('%', '').replace(',', '.')).filter(Boolean);
+    const returns = values.map(Number);
+    return returns.some(r => isNaN(r) || r <= -100) ? null : returns.map(r => r / 100);
+};
+
+// A small seeded generator, so the same scenario always simulates to the same numbers.
+const mulberry32 = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const seedFor = (input: RiskSimulationInput): number => {
+    const text = JSON.stringify([input.positionSize, input.horizonMonths, input.assetClass, input.customReturns ?? null]);
+    let hash = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+    }
+    return hash >>> 0;
+};
+
+const percentile = (sorted: ArrayLike<number>, p: number): number =>
+    sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(p * sorted.length)))];
+
+/**
+ * Simulates the position month by month and measures how much it can lose.
+ * Each month's return is drawn, with replacement, from the class history or the user's own series.
+ */
+export const simulateRisk = (input: RiskSimulationInput): RiskSimulationResult => {
+    const { positionSize, horizonMonths, assetClass, customReturns } = input;
+    const paths = input.paths ?? DEFAULT_SIMULATION_PATHS;
+    const random = mulberry32(seedFor(input));
+    const returns = customReturns && customReturns.length > 0 ? customReturns : RISK_ASSET_CLASSES[assetClass].history.returns;
+    const drawReturn = () => returns[Math.floor(random() * returns.length)];
+
+    // values[month * paths + path]
+    const values = new Float64Array(horizonMonths * paths);
+    const finalValues = new Float64Array(paths);
+    const drawdowns = new Float64Array(paths);
+    for (let path = 0; path < paths; path++) {
+        let value = positionSize;
+        let peak = positionSize;
+        let maxDrawdown = 0;
+        for (let month = 0; month < horizonMonths; month++) {
+            value *= 1 + drawReturn();
+            peak = Math.max(peak, value);
+            maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+            values[month * paths + path] = value;
+        }
+        finalValues[path] = value;
+        drawdowns[path] = maxDrawdown;
+    }
+
+    finalValues.sort();
+    drawdowns.sort();
+    const losses = Array.from(finalValues, v => positionSize - v);
+    const tailCount = Math.max(1, Math.floor(paths * 0.05));
+    const monthlyBands = Array.from({ length: horizonMonths }, (_, month) => {
+        const column = values.subarray(month * paths, (month + 1) * paths).sort();
+        return { p5: percentile(column, 0.05), p50: percentile(column, 0.5), p95: percentile(column, 0.95) };
+    });
+
+    return {
+        paths,
+        var95: Math.max(0, positionSize - percentile(finalValues, 0.05)),
+        cvar95: Math.max(0, losses.slice(0, tailCount).reduce((sum, loss) => sum + loss, 0) / tailCount),
+        probabilityOfLoss: losses.filter(loss => loss > 0).length / paths,
+        medianDrawdown: percentile(drawdowns, 0.5),
+        worstDrawdown95: percentile(drawdowns, 0.95),
+        finalValues: {
+            p5: percentile(finalValues, 0.05),
+            p50: percentile(finalValues, 0.5),
+            p95: percentile(finalValues, 0.95),
+        },
+        monthlyBands,
+    };
+};
@@ -0,0 +1,140 @@
+// utils/scheduleNotifications.ts
+import { Schedule } from '../types.ts';
+import { toolMetadata } from '../constants.tsx';
+import { getEffectiveTime } from './scheduleUtils.ts';
+
+const SERVICE_WORKER_URL = '/service-worker.js';
+const DEEP_LINK_PARAM = 'schedule';
+// How often a browser with Periodic Background Sync may wake the worker to check for due calls.
+const PERIODIC_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+// `navigator.serviceWorker.ready` never settles when no worker could be registered.
+const READY_TIMEOUT_MS = 5000;
+
+// Periodic Background Sync is not part of the DOM typings yet.
+interface PeriodicSyncManager {
+    register: (tag: string, options?: { minInterval: number }) => Promise<void>;
+}
+
+type PeriodicSyncRegistration = ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager };
+
+/**
+ * The data the service worker needs to raise the notification of one mentor call.
+ */
+export interface ScheduledNotification {
+    id: string;
+    time: number;
+    title: string;
+    body: string;
+}
+
+const isSupported = (): boolean => 'serviceWorker' in navigator && 'Notification' in window;
+
+/**
+ * The active registration of the worker, or null if none was registered or it did not activate in time.
+ */
+const getReadyRegistration = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!(await navigator.serviceWorker.getRegistration())) return null;
+    return Promise.race([
+        navigator.serviceWorker.ready,
+        new Promise<null>(resolve => setTimeout(() => resolve(null), READY_TIMEOUT_MS)),
+    ]);
+};
+
+export const toScheduledNotification = (schedule: Schedule): ScheduledNotification => {
+    const activityName = toolMetadata[schedule.activity]?.title || 'sessão';
+    return {
+        id: schedule.id,
+        time: getEffectiveTime(schedule),
+        title: 'Seu mentor está ligando',
+        body: schedule.intention
+            ? `Hora da sua ${activityName}: "${schedule.intention}"`
+            : `Hora da sua ${activityName}. Toque para atender.`,
+    };
+};
+
+/**
+ * Registers the service worker that raises scheduled calls as system notifications while the app is in the background.
+ * Failures are logged and ignored: the in-app check keeps working without it.
+ */
+export const registerScheduleServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!isSupported()) return null;
+    try {
+        const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+        // Only granted to installed apps; elsewhere the registration is rejected and ignored.
+        const { periodicSync } = registration as PeriodicSyncRegistration;
+        if (periodicSync) {
+            await periodicSync.register('check-schedules', { minInterval: PERIODIC_SYNC_INTERVAL_MS }).catch(() => {});
+        }
+        return registration;
+    } catch (error) {
+        console.error('Error registering the service worker:', error);
+        return null;
+    }
+};
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+    isSupported() ? Notification.permission : 'unsupported';
+
+/**
+ * Asks for permission to show system notifications. Must be called from a user gesture.
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+    if (!isSupported()) return 'unsupported';
+    if (Notification.permission !== 'default') return Notification.permission;
+    return Notification.requestPermission();
+};
+
+/**
+ * Sends the upcoming calls of the active schedules to the service worker.
+ */
+export const syncScheduledNotifications = async (schedules: Schedule[]): Promise<void> => {
+    if (!isSupported()) return;
+    const registration = await getReadyRegistration();
+    if (!registration) return;
+    const notifications = schedules.filter(s => s.status === 'scheduled').map(toScheduledNotification);
+    registration.active?.postMessage({ type: 'SYNC_SCHEDULES', notifications });
+};
+
+/**
+ * Closes the system notification of a call that is already being handled in the app.
+ */
+export const dismissScheduleNotification = async (scheduleId: string): Promise<void> => {
+    if (!isSupported() || !navigator.serviceWorker.controller) return;
+    const registration = await getReadyRegistration();
+    if (!registration) return;
+    const notifications = await registration.getNotifications({ tag: scheduleId });
+    notifications.forEach(notification => notification.close());
+};
+
+/**
+ * Calls the handler whenever a notification is clicked while the app is already open.
+ * @returns A function that stops listening.
+ */
+export const onScheduleNotificationClick = (handler: (scheduleId: string) => void): (() => void) => {
+    if (!isSupported()) return () => {};
+    const listener = (event: MessageEvent) => {
+        if (event.data?.type === 'OPEN_SCHEDULE' && typeof event.data.scheduleId === 'string') {
+            handler(event.data.scheduleId);
+        }
+    };
+    navigator.serviceWorker.addEventListener('message', listener);
+    return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+/**
+ * Reads and removes the schedule id of a notification that opened the app.
+ */
+export const consumeScheduleDeepLink = (): string | null => {
+    const url = new URL(window.location.href);
+    const scheduleId = url.searchParams.get(DEEP_LINK_PARAM);
+    if (!scheduleId) return null;
+    url.searchParams.delete(DEEP_LINK_PARAM);
+    window.history.replaceState(null, '', url.href);
+    return scheduleId;
+};
+
+export const buildScheduleDeepLink = (scheduleId: string): string => {
+    const url = new URL(window.location.origin + window.location.pathname);
+    url.searchParams.set(DEEP_LINK_PARAM, scheduleId);
+    return url.href;
+};
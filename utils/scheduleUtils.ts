@@ -0,0 +1,214 @@
+// utils/scheduleUtils.ts
+import { Schedule, ScheduleRecurrence } from '../types.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How long each scheduled session is assumed to take when checking for conflicts.
+export const SCHEDULE_SLOT_MINUTES = 15;
+// A session that became due less than this long ago can still ring; older ones are missed.
+export const SCHEDULE_GRACE_MS = 10 * 60 * 1000;
+// Upper bound for the search of the next occurrence, so invalid rules cannot loop forever.
+const MAX_SEARCH_DAYS = 2 * 366;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * The subset of RFC 5545 recurrence rules supported by the scheduler.
+ */
+export interface ParsedRRule {
+    freq: 'DAILY' | 'WEEKLY';
+    interval: number;
+    byDay: number[] | null; // 0 = Sunday
+    until: number | null;
+}
+
+/**
+ * Parses a recurrence rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE".
+ * Supports FREQ (DAILY or WEEKLY), INTERVAL, BYDAY and UNTIL.
+ * @throws An Error with a user-facing message when the rule is invalid or unsupported.
+ */
+export const parseRRule = (rule: string): ParsedRRule => {
+    const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+    const parsed: ParsedRRule = { freq: 'DAILY', interval: 1, byDay: null, until: null };
+    let hasFreq = false;
+
+    for (const part of parts) {
+        const [rawKey, rawValue = ''] = part.split('=');
+        const key = rawKey.trim().toUpperCase();
+        const value = rawValue.trim().toUpperCase();
+        switch (key) {
+            case 'FREQ':
+                if (value !== 'DAILY' && value !== 'WEEKLY') {
+                    throw new Error(`Frequência "${value}" não suportada. Use DAILY ou WEEKLY.`);
+                }
+                parsed.freq = value;
+                hasFreq = true;
+                break;
+            case 'INTERVAL': {
+                const interval = Number(value);
+                if (!Number.isInteger(interval) || interval < 1) {
+                    throw new Error('INTERVAL deve ser um número inteiro positivo.');
+                }
+                parsed.interval = interval;
+                break;
+            }
+            case 'BYDAY': {
+                const days = value.split(',').map(code => WEEKDAY_CODES.indexOf(code.trim()));
+                if (days.some(day => day === -1)) {
+                    throw new Error('BYDAY deve usar os códigos SU, MO, TU, WE, TH, FR, SA.');
+                }
+                parsed.byDay = days;
+                break;
+            }
+            case 'UNTIL': {
+                const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+                if (!match) {
+                    throw new Error('UNTIL deve estar no formato AAAAMMDD.');
+                }
+                parsed.until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59).getTime();
+                break;
+            }
+            default:
+                throw new Error(`A regra "${key}" não é suportada.`);
+        }
+    }
+
+    if (!hasFreq) {
+        throw new Error('A regra precisa de FREQ (ex: FREQ=WEEKLY;BYDAY=MO,WE,FR).');
+    }
+    return parsed;
+};
+
+export const recurrenceToRRule = (recurrence: ScheduleRecurrence): string => {
+    switch (recurrence.type) {
+        case 'daily': return 'FREQ=DAILY';
+        case 'weekdays': return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+        case 'rrule': return recurrence.rule;
+    }
+};
+
+export const getRecurrenceLabel = (recurrence?: ScheduleRecurrence): string => {
+    if (!recurrence) return 'Uma vez';
+    switch (recurrence.type) {
+        case 'daily': return 'Diariamente';
+        case 'weekdays': return 'Dias úteis';
+        case 'rrule': return `Personalizado (${recurrence.rule})`;
+    }
+};
+
+const startOfDay = (timestamp: number): Date => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    return date;
+};
+
+// Whole calendar days between two timestamps, robust to daylight saving changes.
+const daysBetween = (from: number, to: number): number =>
+    Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+const matchesRule = (rule: ParsedRRule, anchor: number, candidate: number): boolean => {
+    const weekday = new Date(candidate).getDay();
+    const days = daysBetween(anchor, candidate);
+    if (rule.freq === 'DAILY') {
+        return days % rule.interval === 0 && (!rule.byDay || rule.byDay.includes(weekday));
+    }
+    // Weeks are counted from the Monday of the anchor's week.
+    const anchorMondayOffset = (new Date(anchor).getDay() + 6) % 7;
+    const weeks = Math.floor((days + anchorMondayOffset) / 7);
+    const byDay = rule.byDay ?? [new Date(anchor).getDay()];
+    return weeks % rule.interval === 0 && byDay.includes(weekday);
+};
+
+/**
+ * Finds the first occurrence of a recurring schedule strictly after the given time.
+ * The schedule's current `time` is used as the anchor, since it is itself an occurrence.
+ * @returns The timestamp of the next occurrence, or null for one-off or finished series.
+ */
+export const getNextOccurrence = (schedule: Pick<Schedule, 'time' | 'recurrence'>, after: number): number | null => {
+    if (!schedule.recurrence) return null;
+    const rule = parseRRule(recurrenceToRRule(schedule.recurrence));
+    const anchor = new Date(schedule.time);
+
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const candidate = new Date(anchor);
+        candidate.setDate(anchor.getDate() + offset);
+        const time = candidate.getTime();
+        if (rule.until !== null && time > rule.until) return null;
+        if (time > after && matchesRule(rule, schedule.time, time)) {
+            return time;
+        }
+    }
+    return null;
+};
+
+/**
+ * Moves the first occurrence of a recurring schedule onto its rule: a "dias úteis" series
+ * picked for a Saturday starts on Monday. The first occurrence anchors the series, so an
+ * unaligned start would ring off-rule once and count the INTERVAL from the wrong day.
+ * @returns The first time at or after `schedule.time` on one of the rule's days, or null if the rule has none.
+ */
+export const alignToRecurrence = (schedule: Pick<Schedule, 'time' | 'recurrence'>): number | null => {
+    if (!schedule.recurrence) return schedule.time;
+    const rule = parseRRule(recurrenceToRRule(schedule.recurrence));
+    const start = new Date(schedule.time);
+
+    for (let offset = 0; offset < 7; offset++) {
+        const candidate = new Date(start);
+        candidate.setDate(start.getDate() + offset);
+        const time = candidate.getTime();
+        if (rule.until !== null && time > rule.until) return null;
+        if (!rule.byDay || rule.byDay.includes(candidate.getDay())) return time;
+    }
+    return null;
+};
+
+/**
+ * The time a schedule will actually ring, taking a pending snooze into account.
+ */
+export const getEffectiveTime = (schedule: Schedule): number => schedule.snoozedUntil ?? schedule.time;
+
+/**
+ * Lists the occurrences of a schedule inside a time window, starting at its effective time.
+ */
+export const listOccurrences = (schedule: Schedule, from: number, to: number): number[] => {
+    const occurrences: number[] = [];
+    let current: number | null = getEffectiveTime(schedule);
+    let anchor = schedule.time;
+    while (current !== null && current <= to && occurrences.length < 100) {
+        if (current >= from) occurrences.push(current);
+        current = getNextOccurrence({ time: anchor, recurrence: schedule.recurrence }, Math.max(current, anchor));
+        if (current !== null) anchor = current;
+    }
+    return occurrences;
+};
+
+/**
+ * Adds the user's answer to the mentor's check-in question to the theme of a scheduled session,
+ * so the script generated after the call reflects how the user arrived.
+ */
+export const withCheckIn = (theme: string, checkIn?: string): string => {
+    const answer = checkIn?.trim();
+    return answer ? `${theme}. No check-in antes da sessão, o usuário compartilhou: "${answer}"` : theme;
+};
+
+/**
+ * Checks a new schedule against the active ones over the next two weeks.
+ * @returns The first conflicting schedule and the time of the clash, or null.
+ */
+export const findScheduleConflict = (
+    candidate: Pick<Schedule, 'time' | 'recurrence'>,
+    schedules: Schedule[],
+    now: number = Date.now()
+): { schedule: Schedule; time: number } | null => {
+    const windowEnd = now + 14 * DAY_MS;
+    const slotMs = SCHEDULE_SLOT_MINUTES * 60 * 1000;
+    const candidateTimes = listOccurrences({ ...candidate, id: 'candidate', activity: 'meditation', status: 'scheduled' }, now, windowEnd);
+
+    for (const schedule of schedules.filter(s => s.status === 'scheduled')) {
+        const times = listOccurrences(schedule, now, windowEnd);
+        const clash = times.find(time => candidateTimes.some(c => Math.abs(c - time) < slotMs));
+        if (clash !== undefined) {
+            return { schedule, time: clash };
+        }
+    }
+    return null;
+};
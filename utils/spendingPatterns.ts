@@ -0,0 +1,125 @@
+// utils/spendingPatterns.ts
+import type { SpendingEmotion, SpendingTransaction } from '../types.ts';
+import { formatBrl } from './currency.ts';
+
+export const SPENDING_EMOTIONS: { id: SpendingEmotion; label: string; color: string }[] = [
+    { id: 'ansiedade', label: 'Ansiedade', color: 'bg-yellow-500' },
+    { id: 'tristeza', label: 'Tristeza', color: 'bg-blue-500' },
+    { id: 'tedio', label: 'Tédio', color: 'bg-gray-500' },
+    { id: 'raiva', label: 'Raiva', color: 'bg-red-500' },
+    { id: 'culpa', label: 'Culpa', color: 'bg-purple-500' },
+    { id: 'euforia', label: 'Euforia', color: 'bg-orange-500' },
+    { id: 'recompensa', label: 'Recompensa', color: 'bg-pink-500' },
+    { id: 'neutro', label: 'Neutro', color: 'bg-teal-500' },
+];
+
+export const EMOTION_LABELS = Object.fromEntries(SPENDING_EMOTIONS.map(e => [e.id, e.label])) as Record<SpendingEmotion, string>;
+
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const WEEKDAY_PHRASES = ['aos domingos', 'às segundas', 'às terças', 'às quartas', 'às quintas', 'às sextas', 'aos sábados'];
+
+export const DEFAULT_CATEGORY = 'Outros';
+
+// Checked in order against the normalized description; the first match wins.
+const CATEGORY_RULES: { category: string; pattern: RegExp }[] = [
+    { category: 'Delivery', pattern: /ifood|rappi|ze delivery|aiqfome|james delivery/ },
+    { category: 'Transporte', pattern: /uber|99 ?app|99pop|cabify|posto|combustivel|shell|ipiranga|petrobras|estacionamento|metro|sem parar|veloe/ },
+    { category: 'Restaurantes', pattern: /restaurante|lanchonete|padaria|bar |burger|pizza|cafe|starbucks|mc ?donald|outback|churrasc/ },
+    { category: 'Assinaturas', pattern: /netflix|spotify|amazon prime|disney|hbo|max\.com|youtube|apple\.com|google|deezer|globoplay/ },
+    { category: 'Compras online', pattern: /amazon|mercado ?livre|mercadolivre|shopee|shein|aliexpress|magalu|magazine|americanas|casas bahia/ },
+    { category: 'Mercado', pattern: /mercado|supermerc|carrefour|pao de acucar|assai|atacad|hortifruti|sacolao/ },
+    { category: 'Vestuário', pattern: /renner|riachuelo|c&a|zara|centauro|netshoes|hering|marisa/ },
+    { category: 'Saúde', pattern: /farmacia|drogaria|droga|raia|pacheco|pague menos|hospital|clinica|laborat|academia|smartfit/ },
+    { category: 'Lazer', pattern: /cinema|ingresso|sympla|eventim|steam|playstation|xbox|nintendo|show/ },
+    { category: 'Moradia', pattern: /aluguel|condominio|energia|enel|cemig|light|copel|sabesp|agua|gas |internet|vivo|claro|tim |oi /},
+];
+
+export const SPENDING_CATEGORIES = [...CATEGORY_RULES.map(rule => rule.category), DEFAULT_CATEGORY];
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Guesses a category from the statement description. The user can change it afterwards.
+ */
+export const categorizeTransaction = (description: string): string => {
+    const normalized = ` ${normalize(description)} `;
+    return CATEGORY_RULES.find(rule => rule.pattern.test(normalized))?.category ?? DEFAULT_CATEGORY;
+};
+
+const isTaggedExpense = (t: SpendingTransaction): t is SpendingTransaction & { emotion: SpendingEmotion } =>
+    t.amount < 0 && !!t.emotion;
+
+/**
+ * Total spent for each emotion and each column, where a column is a weekday (0 = Sunday) or a category.
+ */
+export const buildSpendingHeatmap = (
+    transactions: SpendingTransaction[],
+    groupBy: 'weekday' | 'category',
+): { columns: string[]; cells: Partial<Record<SpendingEmotion, Record<string, number>>>; max: number } => {
+    const tagged = transactions.filter(isTaggedExpense);
+    const columns = groupBy === 'weekday'
+        ? WEEKDAY_LABELS
+        : SPENDING_CATEGORIES.filter(category => tagged.some(t => t.category === category));
+    const cells: Partial<Record<SpendingEmotion, Record<string, number>>> = {};
+    let max = 0;
+    tagged.forEach(t => {
+        const column = groupBy === 'weekday' ? WEEKDAY_LABELS[new Date(t.date).getDay()] : t.category;
+        const row = cells[t.emotion] ?? (cells[t.emotion] = {});
+        row[column] = (row[column] ?? 0) + Math.abs(t.amount);
+        max = Math.max(max, row[column]);
+    });
+    return { columns, cells, max };
+};
+
+export interface SpendingPattern {
+    emotion: SpendingEmotion;
+    total: number;
+    count: number;
+    share: number; // Of all tagged spending, 0 to 1
+    averageIntensity: number | null;
+    topWeekday: number;
+    topCategory: string;
+}
+
+const topKey = <K extends string | number>(totals: Map<K, number>): K =>
+    [...totals.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+/**
+ * One pattern per emotion with tagged spending, the largest total first.
+ */
+export const detectSpendingPatterns = (transactions: SpendingTransaction[]): SpendingPattern[] => {
+    const tagged = transactions.filter(isTaggedExpense);
+    const grandTotal = tagged.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+    if (grandTotal === 0) return [];
+
+    return SPENDING_EMOTIONS
+        .map(({ id }) => {
+            const group = tagged.filter(t => t.emotion === id);
+            if (group.length === 0) return null;
+            const total = group.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+            const byWeekday = new Map<number, number>();
+            const byCategory = new Map<string, number>();
+            group.forEach(t => {
+                const weekday = new Date(t.date).getDay();
+                byWeekday.set(weekday, (byWeekday.get(weekday) ?? 0) + Math.abs(t.amount));
+                byCategory.set(t.category, (byCategory.get(t.category) ?? 0) + Math.abs(t.amount));
+            });
+            const intensities = group.map(t => t.intensity).filter((i): i is number => typeof i === 'number');
+            return {
+                emotion: id,
+                total,
+                count: group.length,
+                share: total / grandTotal,
+                averageIntensity: intensities.length > 0 ? intensities.reduce((a, b) => a + b, 0) / intensities.length : null,
+                topWeekday: topKey(byWeekday),
+                topCategory: topKey(byCategory),
+            };
+        })
+        .filter((pattern): pattern is SpendingPattern => pattern !== null)
+        .sort((a, b) => b.total - a.total);
+};
+
+export const describeSpendingPattern = (pattern: SpendingPattern): string => {
+    const intensity = pattern.averageIntensity !== null ? `, intensidade média ${pattern.averageIntensity.toFixed(1)}/5` : '';
+    return `${EMOTION_LABELS[pattern.emotion]}: ${formatBrl(pattern.total)} em ${pattern.count} compras (${Math.round(pattern.share * 100)}% do total marcado${intensity}), mais ${WEEKDAY_PHRASES[pattern.topWeekday]}, principalmente em ${pattern.topCategory}.`;
+};
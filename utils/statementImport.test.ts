@@ -0,0 +1,145 @@
+// utils/statementImport.test.ts
+// Run with: node --experimental-strip-types --test utils/statementImport.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AmbiguousSignConventionError,
+    parseBrazilianAmount,
+    parseCsvStatement,
+    parseOfxStatement,
+    parseStatementDate,
+} from './statementImport.ts';
+
+const MARCH_5_2024 = new Date(2024, 2, 5, 12).getTime();
+
+test('parseBrazilianAmount reads the formats banks export', () => {
+    assert.equal(parseBrazilianAmount('1.234,56'), 1234.56);
+    assert.equal(parseBrazilianAmount('-45,90'), -45.9);
+    assert.equal(parseBrazilianAmount('R$ 10,00'), 10);
+    assert.equal(parseBrazilianAmount('(12,50)'), -12.5);
+    assert.equal(parseBrazilianAmount('12,50 D'), -12.5);
+    assert.equal(parseBrazilianAmount('12,50 C'), 12.5);
+    assert.equal(parseBrazilianAmount('1234.56'), 1234.56);
+    assert.equal(parseBrazilianAmount('1,234.56'), 1234.56);
+    assert.equal(parseBrazilianAmount('1.234'), 1234);
+});
+
+test('parseBrazilianAmount returns NaN for text that is not an amount', () => {
+    assert.ok(isNaN(parseBrazilianAmount('')));
+    assert.ok(isNaN(parseBrazilianAmount('Pix')));
+});
+
+test('parseStatementDate reads Brazilian, ISO and OFX dates at local noon', () => {
+    assert.equal(parseStatementDate('05/03/2024'), MARCH_5_2024);
+    assert.equal(parseStatementDate('5/3/24'), MARCH_5_2024);
+    assert.equal(parseStatementDate('05-03-2024'), MARCH_5_2024);
+    assert.equal(parseStatementDate('2024-03-05'), MARCH_5_2024);
+    assert.equal(parseStatementDate('20240305'), MARCH_5_2024);
+    assert.equal(parseStatementDate('20240305143000[-3:BRT]'), MARCH_5_2024);
+    assert.ok(isNaN(parseStatementDate('março')));
+});
+
+test('a Nubank card export is recognized by its headers and its purchases become expenses', () => {
+    const rows = parseCsvStatement([
+        'date,title,amount',
+        '2024-03-05,Padaria,12.50',
+        '2024-03-06,Pagamento recebido,-500.00',
+    ].join('\n'));
+
+    assert.deepEqual(rows.map(row => row.amount), [-12.5, 500]);
+});
+
+test('an installment column marks a card bill', () => {
+    const rows = parseCsvStatement([
+        'Data;Estabelecimento;Parcela;Valor',
+        '05/03/2024;Loja;1/3;100,00',
+    ].join('\n'));
+
+    assert.deepEqual(rows.map(row => row.amount), [-100]);
+});
+
+test('a balance column marks an account statement, even when most amounts are positive', () => {
+    const rows = parseCsvStatement([
+        'Data;Histórico;Valor;Saldo',
+        '05/03/2024;Salário;5.000,00;5.000,00',
+        '05/03/2024;Pix recebido;200,00;5.200,00',
+        '06/03/2024;Mercado;-150,00;5.050,00',
+    ].join('\n'));
+
+    assert.deepEqual(rows.map(row => row.amount), [5000, 200, -150]);
+});
+
+test('separate credit and debit columns are combined', () => {
+    const rows = parseCsvStatement([
+        'Data,Descrição,Crédito,Débito',
+        '05/03/2024,Salário,"5.000,00",',
+        '06/03/2024,Mercado,,"150,00"',
+    ].join('\n'));
+
+    assert.deepEqual(rows.map(row => [row.description, row.amount]), [['Salário', 5000], ['Mercado', -150]]);
+});
+
+test('an unmarked layout with mostly negative amounts is read as an account', () => {
+    const rows = parseCsvStatement([
+        'Data;Descrição;Valor',
+        '05/03/2024;Mercado;-150,00',
+        '06/03/2024;Farmácia;-40,00',
+        '07/03/2024;Pix recebido;80,00',
+    ].join('\n'));
+
+    assert.deepEqual(rows.map(row => row.amount), [-150, -40, 80]);
+});
+
+test('an unmarked layout with mostly positive amounts asks for the sign convention', () => {
+    const csv = [
+        'Data;Descrição;Valor',
+        '05/03/2024;Mercado;150,00',
+        '06/03/2024;Farmácia;40,00',
+        '07/03/2024;Pagamento;-190,00',
+    ].join('\n');
+
+    assert.throws(() => parseCsvStatement(csv), AmbiguousSignConventionError);
+    assert.deepEqual(parseCsvStatement(csv, 'card').map(row => row.amount), [-150, -40, 190]);
+    assert.deepEqual(parseCsvStatement(csv, 'account').map(row => row.amount), [150, 40, -190]);
+});
+
+test('a CSV without a date column is rejected', () => {
+    assert.throws(() => parseCsvStatement('Descrição;Valor\nMercado;-10,00'), /cabeçalho/);
+});
+
+test('OFX blocks are split in the SGML form, where tags are not closed', () => {
+    const rows = parseOfxStatement(`OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240305120000[-3:BRT]
+<TRNAMT>-42,90
+<FITID>A1
+<MEMO>Padaria
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240306
+<TRNAMT>100.00
+<FITID>A2
+<NAME>Pix recebido
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`);
+
+    assert.deepEqual(rows, [
+        { date: MARCH_5_2024, description: 'Padaria', amount: -42.9, bankId: 'A1' },
+        { date: new Date(2024, 2, 6, 12).getTime(), description: 'Pix recebido', amount: 100, bankId: 'A2' },
+    ]);
+});
+
+test('OFX blocks are split in the XML form, where tags are closed', () => {
+    const rows = parseOfxStatement(`<?xml version="1.0"?>
+<OFX><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240305</DTPOSTED><TRNAMT>-10.00</TRNAMT><FITID>X1</FITID><MEMO>Café</MEMO></STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240305</DTPOSTED><TRNAMT>-20.00</TRNAMT><FITID>X2</FITID><MEMO>Almoço</MEMO></STMTTRN>
+</BANKTRANLIST></OFX>`);
+
+    assert.deepEqual(rows.map(row => [row.bankId, row.description, row.amount]), [['X1', 'Café', -10], ['X2', 'Almoço', -20]]);
+});
+
+test('an OFX file without transactions is rejected', () => {
+    assert.throws(() => parseOfxStatement('<OFX></OFX>'), /Nenhuma transação/);
+});
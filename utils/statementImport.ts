@@ -0,0 +1,235 @@
+// utils/statementImport.ts
+import type { SpendingTransaction } from '../types.ts';
+import { categorizeTransaction } from './spendingPatterns.ts';
+
+type ParsedRow = { date: number; description: string; amount: number; bankId?: string };
+
+/**
+ * How a statement signs its amounts: an account lists expenses as negative, a card bill lists purchases as positive.
+ */
+export type SignConvention = 'account' | 'card';
+
+/**
+ * Thrown when nothing in a CSV's layout says whether it is an account or a card statement and its
+ * amounts could be either, so the user has to tell.
+ */
+export class AmbiguousSignConventionError extends Error {
+    constructor(message: string = 'Não sabemos se este extrato é de uma conta ou de um cartão de crédito.') {
+        super(message);
+        this.name = 'AmbiguousSignConventionError';
+    }
+}
+
+export const normalizeHeader = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+/**
+ * Brazilian banks export OFX in Windows-1252 more often than in UTF-8.
+ */
+export const decodeStatement = (buffer: ArrayBuffer): string => {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('windows-1252').decode(buffer);
+    }
+};
+
+/**
+ * Parses amounts written as "1.234,56", "-45,90", "R$ 10,00", "(12,50)", "12,50 D" or "1234.56".
+ * @returns NaN when the text is not an amount.
+ */
+export const parseBrazilianAmount = (raw: string): number => {
+    let text = raw.replace(/R\$|\s/g, '');
+    let sign = 1;
+    if (/^\(.*\)$/.test(text)) {
+        sign = -1;
+        text = text.slice(1, -1);
+    }
+    if (/D$/i.test(text)) {
+        sign = -1;
+        text = text.slice(0, -1);
+    } else if (/C$/i.test(text)) {
+        text = text.slice(0, -1);
+    }
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma > lastDot) {
+        text = text.replace(/\./g, '').replace(',', '.');
+    } else if (lastComma !== -1) {
+        text = text.replace(/,/g, '');
+    } else if (/^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+        text = text.replace(/\./g, '');
+    }
+    return text === '' ? NaN : sign * Number(text);
+};
+
+/**
+ * Parses "dd/mm/yyyy", "dd/mm/yy", "dd-mm-yyyy", "yyyy-mm-dd" and the OFX "yyyymmdd[hhmmss]" form.
+ * The result is noon local time, so the weekday does not shift with the time zone.
+ * @returns NaN when the text is not a date.
+ */
+export const parseStatementDate = (raw: string): number => {
+    const text = raw.trim();
+    let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/) ?? text.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (match) {
+        return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12).getTime();
+    }
+    match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (match) {
+        const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+        return new Date(year, Number(match[2]) - 1, Number(match[1]), 12).getTime();
+    }
+    return NaN;
+};
+
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const cells: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (inQuotes && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                inQuotes = !inQuotes;
+            }
+        } else if (char === delimiter && !inQuotes) {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+};
+
+export const detectDelimiter = (line: string): string =>
+    [';', '\t', ','].sort((a, b) => line.split(b).length - line.split(a).length)[0];
+
+export const findColumn = (headers: string[], pattern: RegExp, exclude: number[] = []): number =>
+    headers.findIndex((header, index) => !exclude.includes(index) && pattern.test(header));
+
+// Nubank's card export is the only common one with these English headers; its account export is in Portuguese.
+const NUBANK_CARD_HEADERS = ['date', 'title', 'amount'];
+// Columns only a card bill has, such as the installment of a purchase or the card it was made with.
+const CARD_COLUMN_PATTERN = /parcela|cartao|fatura/;
+// Only an account statement carries a running balance.
+const ACCOUNT_COLUMN_PATTERN = /saldo|balance/;
+
+/**
+ * Tells a credit card export from an account statement by its layout alone.
+ * @returns null when the headers do not say.
+ */
+export const detectSignConvention = (headers: string[]): SignConvention | null => {
+    if (NUBANK_CARD_HEADERS.every(header => headers.includes(header)) || headers.some(header => CARD_COLUMN_PATTERN.test(header))) {
+        return 'card';
+    }
+    return headers.some(header => ACCOUNT_COLUMN_PATTERN.test(header)) ? 'account' : null;
+};
+
+/**
+ * Reads the CSV exports of the main Brazilian banks and cards (Nubank, Inter, Itaú, Bradesco, C6, BB...).
+ * Columns are found by their header, and separate credit and debit columns are combined.
+ * @param signConvention How the file signs its amounts, when the user has told; otherwise it is read from the layout.
+ * @throws AmbiguousSignConventionError When the layout does not say and most amounts are positive, which
+ * fits card purchases as well as account credits.
+ */
+export const parseCsvStatement = (text: string, signConvention?: SignConvention): ParsedRow[] => {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = lines.findIndex(line => /data|date/i.test(normalizeHeader(line)));
+    if (headerIndex === -1) {
+        throw new Error('Não encontramos o cabeçalho do extrato. O arquivo precisa de uma coluna de data.');
+    }
+    const delimiter = detectDelimiter(lines[headerIndex]);
+    const headers = splitCsvLine(lines[headerIndex], delimiter).map(normalizeHeader);
+
+    const dateColumn = findColumn(headers, /^(data|date|dt)/);
+    const descriptionColumn = findColumn(headers, /descri|hist|lancamento|title|titulo|estabelecimento|memo|detalhe/, [dateColumn]);
+    const amountColumn = findColumn(headers, /valor|amount|value|quantia|montante/, [dateColumn, descriptionColumn]);
+    const creditColumn = findColumn(headers, /credito|entrada/, [dateColumn, descriptionColumn]);
+    const debitColumn = findColumn(headers, /debito|saida/, [dateColumn, descriptionColumn]);
+    if (dateColumn === -1 || (amountColumn === -1 && debitColumn === -1)) {
+        throw new Error('Não encontramos as colunas de data e valor no extrato.');
+    }
+
+    const rows = lines.slice(headerIndex + 1).map(line => {
+        const cells = splitCsvLine(line, delimiter);
+        let amount: number;
+        if (amountColumn !== -1) {
+            amount = parseBrazilianAmount(cells[amountColumn] ?? '');
+        } else {
+            const credit = parseBrazilianAmount(cells[creditColumn] ?? '') || 0;
+            const debit = parseBrazilianAmount(cells[debitColumn] ?? '') || 0;
+            amount = credit - Math.abs(debit);
+        }
+        return {
+            date: parseStatementDate(cells[dateColumn] ?? ''),
+            description: (descriptionColumn !== -1 ? cells[descriptionColumn] : '') || 'Sem descrição',
+            amount,
+        };
+    }).filter(row => !isNaN(row.date) && !isNaN(row.amount) && row.amount !== 0);
+
+    // Separate credit and debit columns are only found in account statements.
+    const convention = signConvention ?? (amountColumn === -1 ? 'account' : detectSignConvention(headers));
+    if (!convention && rows.filter(row => row.amount > 0).length > rows.length / 2) {
+        throw new AmbiguousSignConventionError();
+    }
+    // Card exports list purchases as positive amounts and payments or refunds as negative ones. Flipped,
+    // the purchases become expenses and a "Pagamento recebido" becomes a credit, which is not imported.
+    if (convention === 'card') {
+        return rows.map(row => ({ ...row, amount: -row.amount }));
+    }
+    return rows;
+};
+
+const readOfxTag = (block: string, tag: string): string | undefined =>
+    block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim();
+
+/**
+ * Reads OFX statements, both the SGML (1.x) form most Brazilian banks export and the XML (2.x) one.
+ */
+export const parseOfxStatement = (text: string): ParsedRow[] => {
+    const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+    if (blocks.length === 0) {
+        throw new Error('Nenhuma transação encontrada no arquivo OFX.');
+    }
+    return blocks.map(block => ({
+        date: parseStatementDate(readOfxTag(block, 'DTPOSTED') ?? ''),
+        description: readOfxTag(block, 'MEMO') || readOfxTag(block, 'NAME') || 'Sem descrição',
+        // OFX uses a decimal point, but some banks write a comma anyway.
+        amount: Number((readOfxTag(block, 'TRNAMT') ?? '').replace(',', '.')),
+        bankId: readOfxTag(block, 'FITID'),
+    })).filter(row => !isNaN(row.date) && !isNaN(row.amount) && row.amount !== 0);
+};
+
+const toTransactions = (rows: ParsedRow[]): SpendingTransaction[] => {
+    const occurrences = new Map<string, number>();
+    return rows
+        .filter(row => row.amount < 0)
+        .map(row => {
+            // Identical purchases on the same day are told apart by their order in the file.
+            const key = `${row.date}|${row.amount}|${row.description}`;
+            const occurrence = occurrences.get(key) ?? 0;
+            occurrences.set(key, occurrence + 1);
+            return {
+                id: row.bankId ? `ofx-${row.bankId}` : `csv-${key}|${occurrence}`,
+                date: row.date,
+                description: row.description,
+                amount: row.amount,
+                category: categorizeTransaction(row.description),
+            };
+        });
+};
+
+/**
+ * Reads a CSV or OFX bank statement and returns its expenses.
+ * The file is parsed entirely in the browser; nothing is uploaded.
+ * @param signConvention For a CSV whose layout is ambiguous, how the user says it signs its amounts.
+ */
+export const parseStatementFile = async (file: File, signConvention?: SignConvention): Promise<SpendingTransaction[]> => {
+    const text = decodeStatement(await file.arrayBuffer());
+    const isOfx = /\.ofx$/i.test(file.name) || /<OFX>/i.test(text);
+    return toTransactions(isOfx ? parseOfxStatement(text) : parseCsvStatement(text, signConvention));
+};
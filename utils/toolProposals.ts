@@ -0,0 +1,35 @@
+// utils/toolProposals.ts
+import { Session, ToolId, ToolProposal } from '../types.ts';
+
+const FUNCTION_PREFIX = 'launch_';
+
+/**
+ * The tools that can be opened with an intention already filled in.
+ */
+export const INTENTION_TOOLS = ['meditation', 'guided_prayer', 'prayer_pills'] as const satisfies readonly ToolId[];
+
+export const acceptsIntention = (toolId: ToolId): toolId is typeof INTENTION_TOOLS[number] =>
+    (INTENTION_TOOLS as readonly string[]).includes(toolId);
+
+export const toToolFunctionName = (toolId: ToolId): string => `${FUNCTION_PREFIX}${toolId}`;
+
+/**
+ * Maps a function called by the model back to one of the agent's tools.
+ * @returns null when the name does not match a tool the agent has.
+ */
+export const parseToolFunctionName = (name: string, tools: ToolId[]): ToolId | null => {
+    if (!name.startsWith(FUNCTION_PREFIX)) return null;
+    const toolId = name.slice(FUNCTION_PREFIX.length) as ToolId;
+    return tools.includes(toolId) ? toolId : null;
+};
+
+/**
+ * The session that opens the proposed tool, carrying the intention when the tool takes one.
+ */
+export const buildToolSession = (proposal: ToolProposal): Session => {
+    const intention = proposal.intention?.trim() || undefined;
+    if (acceptsIntention(proposal.toolId)) {
+        return { type: proposal.toolId, intention };
+    }
+    return { type: proposal.toolId } as Session;
+};
@@ -0,0 +1,132 @@
+// utils/userContext.ts
+import {
+    AgentMemory,
+    ArchetypeAnalysisResult,
+    CustomAgentDefinition,
+    CustomAgentId,
+    DissonanceAnalysisResult,
+    JournalEntry,
+    JournalFeedback,
+    MentorId,
+    Message,
+    Portfolio,
+    ToolId,
+    ToolStates,
+    UserFact,
+    UserStateVector,
+} from '../types.ts';
+import { FACT_CATEGORY_LABELS } from './agentMemory.ts';
+import { resolveAgent } from './customAgents.ts';
+import { formatPortfolioForPrompt, hasPortfolioData } from './portfolio.ts';
+import { getLatestJournalFeedback } from './journal.ts';
+
+// How many of the latest messages a tool prompt receives from the mentor conversation.
+const PROMPT_HISTORY_MESSAGES = 6;
+// Facts learned by other mentors, newest first, that travel with the profile.
+const MAX_SHARED_FACTS = 12;
+
+/**
+ * Everything the app knows about the user that is worth sharing between mentors and tools.
+ */
+export interface UserProfile {
+    usv: UserStateVector;
+    dosha: 'Vata' | 'Pitta' | 'Kapha' | null;
+    archetype: ArchetypeAnalysisResult | null;
+    journalFeedback: JournalFeedback | null;
+    dissonance: DissonanceAnalysisResult | null;
+    portfolio: Portfolio | null;
+    facts: (UserFact & { agentId: MentorId; agentName: string })[];
+}
+
+/**
+ * The tools that read the shared profile. Each one, like each mentor, can be denied access to it.
+ */
+export const PROFILE_TOOL_CONSUMERS = [
+    'meditation',
+    'guided_prayer',
+    'prayer_pills',
+    'therapeutic_journal',
+    'dissonance_analyzer',
+    'archetype_journey',
+    'verbal_frequency_analysis',
+    'belief_resignifier',
+    'risk_calculator',
+] as const satisfies readonly ToolId[];
+
+type ProfileToolConsumer = typeof PROFILE_TOOL_CONSUMERS[number];
+
+export type ProfileConsumer = MentorId | ProfileToolConsumer;
+
+export const isToolConsumer = (consumer: ProfileConsumer): consumer is ProfileToolConsumer =>
+    (PROFILE_TOOL_CONSUMERS as readonly string[]).includes(consumer);
+
+const DOSHA_GUIDANCE: Record<NonNullable<UserProfile['dosha']>, string> = {
+    Vata: 'movimento, ar; pacifica-se com aterramento, calma e aquecimento',
+    Pitta: 'fogo, transformação; pacifica-se com serenidade, resfriamento e aceitação',
+    Kapha: 'estrutura, terra; pacifica-se com motivação, leveza e energia',
+};
+
+export const buildUserProfile = (source: {
+    usv: UserStateVector;
+    toolStates: ToolStates;
+    agentMemories: Record<MentorId, AgentMemory>;
+    customAgents: Record<CustomAgentId, CustomAgentDefinition>;
+    portfolio: Portfolio;
+    journalEntries: JournalEntry[];
+}): UserProfile => ({
+    usv: source.usv,
+    dosha: source.toolStates.doshaResult ?? null,
+    archetype: source.toolStates.archetypeResult ?? null,
+    journalFeedback: getLatestJournalFeedback(source.journalEntries),
+    dissonance: source.toolStates.dissonanceResult ?? null,
+    portfolio: hasPortfolioData(source.portfolio) ? source.portfolio : null,
+    facts: (Object.entries(source.agentMemories) as [MentorId, AgentMemory][])
+        .flatMap(([agentId, memory]) => {
+            const agentName = resolveAgent(agentId, source.customAgents)?.name ?? agentId;
+            return memory.facts.map(fact => ({ ...fact, agentId, agentName }));
+        })
+        .sort((a, b) => b.timestamp - a.timestamp),
+});
+
+/**
+ * Renders the profile as a prompt section.
+ * @param excludeFactsFrom A mentor whose own facts already reach it through its memory.
+ */
+export const formatUserProfileForPrompt = (profile: UserProfile, excludeFactsFrom?: MentorId): string => {
+    const { usv, dosha, archetype, journalFeedback, dissonance, portfolio } = profile;
+    const lines = [
+        `Estado atual: Espiritual ${usv.spiritual}/100, Emocional (Dissonância, quanto maior, pior) ${usv.emotional}/100, Físico ${usv.physical}/100, Financeiro ${usv.financial}/100.`,
+    ];
+    if (dosha) {
+        lines.push(`Desequilíbrio Ayurvédico: ${dosha} (${DOSHA_GUIDANCE[dosha]}).`);
+    }
+    if (archetype) {
+        lines.push(`Jornada do Arquétipo: lente "${archetype.lente}"; dissonância "${archetype.dissonancia}"; próximo passo "${archetype.passo}".`);
+    }
+    if (journalFeedback) {
+        lines.push(`Último diário terapêutico: ${journalFeedback.observacao} Dissonância: ${journalFeedback.dissonancia} Ação sugerida: ${journalFeedback.acao}`);
+    }
+    if (dissonance) {
+        lines.push(`Dissonância recente: tema "${dissonance.tema}", padrão "${dissonance.padrao}".`);
+    }
+    if (portfolio) {
+        lines.push(formatPortfolioForPrompt(portfolio));
+    }
+    const facts = profile.facts.filter(fact => fact.agentId !== excludeFactsFrom).slice(0, MAX_SHARED_FACTS);
+    if (facts.length > 0) {
+        lines.push(`O que os mentores aprenderam:\n${facts.map(fact => `- [${FACT_CATEGORY_LABELS[fact.category]}] ${fact.text} (${fact.agentName})`).join('\n')}`);
+    }
+    return `\n\n--- Perfil do Usuário ---\n${lines.join('\n')}\n--- Fim do Perfil ---\nUse o perfil para personalizar a resposta, sem recitá-lo.`;
+};
+
+/**
+ * Renders the latest messages of a mentor conversation as a prompt section.
+ */
+export const formatChatHistoryForPrompt = (chatHistory?: Message[]): string => {
+    if (!chatHistory || chatHistory.length === 0) return '';
+    const formatted = chatHistory
+        .slice(-PROMPT_HISTORY_MESSAGES)
+        .map(msg => `${msg.sender === 'user' ? 'Usuário' : 'Mentor'}: ${msg.text}`)
+        .join('\n');
+    return `\n\n--- Histórico da Conversa Recente para Contexto ---\n${formatted}\n--- Fim do Histórico ---`;
+};
@@ -0,0 +1,78 @@
+// utils/usvHistoryUtils.ts
+import { UserStateVector, UsvSnapshot } from '../types.ts';
+
+export type UsvAggregationPeriod = 'day' | 'week' | 'month';
+
+/**
+ * The averaged state of one aggregation bucket (a day, a week or a month).
+ */
+export interface UsvTrendPoint {
+    start: number; // timestamp of the beginning of the bucket
+    usv: UserStateVector;
+    ucs: number;
+    count: number;
+}
+
+const DIMENSIONS: (keyof UserStateVector)[] = ['spiritual', 'emotional', 'physical', 'financial'];
+
+/**
+ * Returns the timestamp of the beginning of the period that contains the given time.
+ * Weeks start on Monday.
+ */
+export const getPeriodStart = (timestamp: number, period: UsvAggregationPeriod): number => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    if (period === 'week') {
+        const daysSinceMonday = (date.getDay() + 6) % 7;
+        date.setDate(date.getDate() - daysSinceMonday);
+    } else if (period === 'month') {
+        date.setDate(1);
+    }
+    return date.getTime();
+};
+
+/**
+ * Groups the history into daily, weekly or monthly buckets and averages each one.
+ * @param history The USV snapshots, in any order.
+ * @param period The size of each bucket.
+ * @returns The buckets sorted chronologically.
+ */
+export const aggregateUsvHistory = (history: UsvSnapshot[], period: UsvAggregationPeriod): UsvTrendPoint[] => {
+    const buckets = new Map<number, UsvSnapshot[]>();
+    history.forEach(snapshot => {
+        const start = getPeriodStart(snapshot.timestamp, period);
+        buckets.set(start, [...(buckets.get(start) ?? []), snapshot]);
+    });
+
+    return Array.from(buckets.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([start, snapshots]) => {
+            const average = (pick: (s: UsvSnapshot) => number) =>
+                Math.round(snapshots.reduce((sum, s) => sum + pick(s), 0) / snapshots.length);
+            const usv = Object.fromEntries(DIMENSIONS.map(key => [key, average(s => s.usv[key])])) as unknown as UserStateVector;
+            return { start, usv, ucs: average(s => s.ucs), count: snapshots.length };
+        });
+};
+
+/**
+ * Finds the state the user was in at the end of the given day.
+ * @returns The last snapshot recorded on or before that day, or null if the history starts later.
+ */
+export const getSnapshotForDate = (history: UsvSnapshot[], date: Date): UsvSnapshot | null => {
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+    return history
+        .filter(s => s.timestamp <= endOfDay.getTime())
+        .reduce<UsvSnapshot | null>((latest, s) => (!latest || s.timestamp > latest.timestamp ? s : latest), null);
+};
+
+/**
+ * Formats a bucket start for chart axes, following the aggregation period.
+ */
+export const formatPeriodLabel = (timestamp: number, period: UsvAggregationPeriod): string => {
+    const date = new Date(timestamp);
+    if (period === 'month') {
+        return date.toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' });
+    }
+    return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+};
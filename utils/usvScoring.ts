@@ -0,0 +1,116 @@
+// utils/usvScoring.ts
+import { JournalFeedback, ToolId, UserStateVector, UsvImpulse } from '../types.ts';
+
+/**
+ * The effect a completed tool session has on the User State Vector.
+ * Remember that `emotional` is a dissonance measure: negative deltas are improvements.
+ */
+export interface ToolOutcome {
+    source: ToolId;
+    deltas: Partial<UserStateVector>;
+    reason: string;
+}
+
+// How strongly each tool's outcome moves the USV, relative to its raw deltas.
+const SOURCE_WEIGHTS: Partial<Record<ToolId, number>> = {
+    meditation: 1,
+    verbal_frequency_analysis: 0.8,
+    therapeutic_journal: 0.7,
+    dosha_diagnosis: 1,
+    belief_resignifier: 0.9,
+};
+
+// An impulse loses half of its effect every HALF_LIFE_DAYS.
+const HALF_LIFE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DIMENSIONS: (keyof UserStateVector)[] = ['spiritual', 'emotional', 'physical', 'financial'];
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+const truncate = (text: string, length = 80) => (text.length > length ? `${text.slice(0, length).trim()}…` : text);
+
+const weigh = ({ source, deltas, reason }: ToolOutcome): ToolOutcome => {
+    const weight = SOURCE_WEIGHTS[source] ?? 1;
+    const weighted = Object.fromEntries(
+        Object.entries(deltas).map(([key, value]) => [key, Math.round((value ?? 0) * weight * 10) / 10])
+    ) as Partial<UserStateVector>;
+    return { source, deltas: weighted, reason };
+};
+
+export const scoreMeditationCompleted = (minutes: number): ToolOutcome => {
+    const factor = Math.max(0.5, Math.min(1.5, minutes / 10));
+    return weigh({
+        source: 'meditation',
+        deltas: { spiritual: 4 * factor, emotional: -4 * factor, physical: 1 * factor },
+        reason: `Meditação concluída (${Math.max(1, Math.round(minutes))} min).`,
+    });
+};
+
+export const scoreVerbalFrequency = (coherenceScore: number): ToolOutcome => {
+    // Scores run from 1 to 10; 5.5 is neutral.
+    const k = (Math.max(1, Math.min(10, coherenceScore)) - 5.5) / 4.5;
+    return weigh({
+        source: 'verbal_frequency_analysis',
+        deltas: { emotional: -5 * k, spiritual: 3 * k },
+        reason: `Frequência verbal com coerência ${coherenceScore}/10.`,
+    });
+};
+
+export const scoreJournalEntry = (feedback: JournalFeedback): ToolOutcome => weigh({
+    source: 'therapeutic_journal',
+    deltas: { emotional: -3, spiritual: 2 },
+    reason: `Dissonância reconhecida no diário: "${truncate(feedback.dissonancia)}"`,
+});
+
+export const scoreDoshaResult = (dosha: 'Vata' | 'Pitta' | 'Kapha'): ToolOutcome => weigh({
+    source: 'dosha_diagnosis',
+    deltas: { physical: -4, spiritual: 1 },
+    reason: `Desequilíbrio de ${dosha} detectado no diagnóstico.`,
+});
+
+/**
+ * @param before How much the user believed the limiting belief before the reframes, 0 to 100.
+ * @param after How much they believe it afterwards; the bigger the drop, the stronger the outcome.
+ */
+export const scoreBeliefResignified = (belief: string, before: number, after: number): ToolOutcome => {
+    const factor = Math.min(1.5, 0.5 + Math.max(0, before - after) / 50);
+    return weigh({
+        source: 'belief_resignifier',
+        deltas: { financial: 4 * factor, emotional: -2 * factor },
+        reason: `Crença ressignificada: "${truncate(belief)}" (credibilidade ${before}% → ${after}%).`,
+    });
+};
+
+/**
+ * How much of an impulse's effect remains at the given time (1 when new, halving every half-life).
+ */
+export const getImpulseWeight = (impulse: Pick<UsvImpulse, 'timestamp'>, now: number = Date.now()): number =>
+    Math.pow(0.5, Math.max(0, now - impulse.timestamp) / (HALF_LIFE_DAYS * DAY_MS));
+
+/**
+ * Sums the decayed contribution of every impulse, per dimension.
+ */
+export const getImpulseContribution = (impulses: UsvImpulse[], now: number = Date.now()): UserStateVector => {
+    const contribution: UserStateVector = { spiritual: 0, emotional: 0, physical: 0, financial: 0 };
+    impulses.forEach(impulse => {
+        const weight = getImpulseWeight(impulse, now);
+        DIMENSIONS.forEach(key => {
+            contribution[key] += (impulse.deltas[key] ?? 0) * weight;
+        });
+    });
+    return contribution;
+};
+
+/**
+ * The effective USV: the user's self-reported base plus the decayed effect of tool outcomes.
+ */
+export const applyImpulses = (base: UserStateVector, impulses: UsvImpulse[], now: number = Date.now()): UserStateVector => {
+    const contribution = getImpulseContribution(impulses, now);
+    return {
+        spiritual: Math.round(clamp(base.spiritual + contribution.spiritual)),
+        emotional: Math.round(clamp(base.emotional + contribution.emotional)),
+        physical: Math.round(clamp(base.physical + contribution.physical)),
+        financial: Math.round(clamp(base.financial + contribution.financial)),
+    };
+};